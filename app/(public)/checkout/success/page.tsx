@@ -0,0 +1,28 @@
+/**
+ * Checkout Success Page
+ * Stripe Checkout redirects here with ?session_id=
+ */
+
+import { CheckoutSuccess } from '@/components/features/cart'
+
+interface CheckoutSuccessPageProps {
+  searchParams: Promise<{ session_id?: string }>
+}
+
+export default async function CheckoutSuccessPage({
+  searchParams,
+}: CheckoutSuccessPageProps) {
+  const { session_id: sessionId } = await searchParams
+
+  return (
+    <div className='container mx-auto px-4 py-8'>
+      <CheckoutSuccess sessionId={sessionId} />
+    </div>
+  )
+}
+
+export const metadata = {
+  title: 'Order Confirmed | Store',
+  description: 'Thank you for your order.',
+  robots: 'noindex',
+}
@@ -5,9 +5,18 @@
 
 import { ProductDetailClient } from '@/components/features/products/ProductDetail/ProductDetailClient'
 // Unused imports removed
-import { productsService } from '@/lib/services'
+import { getServerProductsService } from '@/lib/catalog'
+import { getTenantConfig } from '@/lib/tenant'
+import {
+  generateBreadcrumbStructuredData,
+  generatePageMetadata,
+  generateProductMetadata,
+  generateProductStructuredData,
+  getProductBreadcrumbs,
+} from '@/lib/utils/seo-utils'
 import { HydrationBoundary, dehydrate } from '@tanstack/react-query'
 import { QueryClient } from '@tanstack/react-query'
+import { headers } from 'next/headers'
 import { notFound } from 'next/navigation'
 
 export const revalidate = 3600 // Revalidate every hour (ISR)
@@ -26,11 +35,15 @@ export default async function ProductPage({ params }: ProductPageProps) {
     notFound()
   }
 
+  const headersList = await headers()
+  const config = await getTenantConfig(headersList.get('x-tenant-id'))
+  const productsService = getServerProductsService(config.catalog, config.id)
   const queryClient = new QueryClient()
 
+  let product
   try {
-    // Prefetch product data on server
-    await queryClient.prefetchQuery({
+    // Fetch product data on server; it is also dehydrated for the client
+    product = await queryClient.fetchQuery({
       queryKey: ['products', 'detail', productId],
       queryFn: () => productsService.getProduct(productId),
       staleTime: 5 * 60 * 1000, // 5 minutes
@@ -42,6 +55,23 @@ export default async function ProductPage({ params }: ProductPageProps) {
 
   return (
     <div className='container mx-auto px-4 py-8'>
+      {/* Structured Data for SEO */}
+      <script
+        type='application/ld+json'
+        dangerouslySetInnerHTML={{
+          __html: generateProductStructuredData(config, product),
+        }}
+      />
+      <script
+        type='application/ld+json'
+        dangerouslySetInnerHTML={{
+          __html: generateBreadcrumbStructuredData(
+            config,
+            getProductBreadcrumbs(product),
+          ),
+        }}
+      />
+
       <HydrationBoundary state={dehydrate(queryClient)}>
         <ProductDetailClient productId={productId} />
       </HydrationBoundary>
@@ -52,23 +82,22 @@ export default async function ProductPage({ params }: ProductPageProps) {
 export async function generateMetadata({ params }: ProductPageProps) {
   const { id } = await params
   const productId = parseInt(id)
+  const headersList = await headers()
+  const config = await getTenantConfig(headersList.get('x-tenant-id'))
 
   try {
-    const product = await productsService.getProduct(productId)
+    const product = await getServerProductsService(
+      config.catalog,
+      config.id,
+    ).getProduct(productId)
 
-    return {
-      title: `${product.title} | Store`,
-      description: product.description,
-      openGraph: {
-        title: product.title,
-        description: product.description,
-        images: [product.thumbnail],
-      },
-    }
+    return generateProductMetadata(config, product)
   } catch {
-    return {
-      title: 'Product Not Found | Store',
-      description: 'The requested product could not be found.',
-    }
+    return generatePageMetadata(
+      config,
+      'Product Not Found',
+      'The requested product could not be found.',
+      `/products/${id}`,
+    )
   }
 }
@@ -5,13 +5,31 @@
 
 import { ProductsListingClient } from '@/components/features/products/ProductListing/ProductsListingClient'
 // Unused imports removed
-import { productsService } from '@/lib/services'
+import { getTenantProductsService } from '@/lib/catalog'
+import { getTenantConfig } from '@/lib/tenant'
+import {
+  generateCategoryMetadata,
+  generatePageMetadata,
+} from '@/lib/utils/seo-utils'
 import { HydrationBoundary, dehydrate } from '@tanstack/react-query'
 import { QueryClient } from '@tanstack/react-query'
+import { headers } from 'next/headers'
 
 export const revalidate = 3600 // Revalidate every hour (ISR)
 
-export default async function ProductsPage() {
+interface ProductsPageProps {
+  searchParams: Promise<{ category?: string }>
+}
+
+export default async function ProductsPage({
+  searchParams,
+}: ProductsPageProps) {
+  // Category pages (/products?category=...) are listed in the sitemap
+  const { category } = await searchParams
+  const headersList = await headers()
+  const productsService = await getTenantProductsService(
+    headersList.get('x-tenant-id'),
+  )
   const queryClient = new QueryClient()
 
   // Prefetch first page of products on server
@@ -38,14 +56,25 @@ export default async function ProductsPage() {
       </div>
 
       <HydrationBoundary state={dehydrate(queryClient)}>
-        <ProductsListingClient />
+        <ProductsListingClient initialParams={{ category }} />
       </HydrationBoundary>
     </div>
   )
 }
 
-export const metadata = {
-  title: 'Products | Store',
-  description:
+export async function generateMetadata({ searchParams }: ProductsPageProps) {
+  const { category } = await searchParams
+  const headersList = await headers()
+  const config = await getTenantConfig(headersList.get('x-tenant-id'))
+
+  if (category) {
+    return generateCategoryMetadata(config, category)
+  }
+
+  return generatePageMetadata(
+    config,
+    'Products',
     'Browse our complete collection of products with advanced filtering and search capabilities.',
+    '/products',
+  )
 }
@@ -0,0 +1,34 @@
+import {
+  cartErrorResponse,
+  getCartToken,
+  setCartTokenCookie,
+} from '@/lib/carts/http'
+import { claimTenantCart, parseCartClaimRequest } from '@/lib/carts/sync'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Continue a cart started on another device
+ * Usage: POST /api/cart/claim with { code } from POST /api/cart/share.
+ * This browser's own cart is merged in, its cart_token cookie switches to
+ * the shared cart and the merged cart is returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const claimRequest = parseCartClaimRequest(
+      await request.json().catch(() => null),
+    )
+    const tenantId = request.headers.get('x-tenant-id')
+
+    const { token, cart } = await claimTenantCart(
+      tenantId,
+      claimRequest,
+      getCartToken(request),
+    )
+    const response = NextResponse.json(cart)
+
+    setCartTokenCookie(response, token)
+    return response
+  } catch (error) {
+    return cartErrorResponse(error, 'Unable to claim cart')
+  }
+}
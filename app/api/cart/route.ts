@@ -0,0 +1,80 @@
+import {
+  cartErrorResponse,
+  getCartToken,
+  setCartTokenCookie,
+} from '@/lib/carts/http'
+import {
+  CART_TOKEN_COOKIE,
+  createCartToken,
+  deleteTenantCart,
+  getTenantCart,
+  parseCartSyncRequest,
+  syncTenantCart,
+} from '@/lib/carts/sync'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Get the shopper's server cart
+ * Usage: GET /api/cart (identified by the cart_token cookie)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = getCartToken(request)
+    const tenantId = request.headers.get('x-tenant-id')
+    const cart = token ? await getTenantCart(tenantId, token) : null
+
+    if (!cart) {
+      return NextResponse.json({ message: 'Cart not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(cart)
+  } catch (error) {
+    return cartErrorResponse(error, 'Unable to load cart')
+  }
+}
+
+/**
+ * Merge the browser cart into the server cart
+ * Usage: PUT /api/cart with { items: [{ id, quantity }], couponCode?, revision? }
+ * Issues an anonymous cart_token cookie once there is a cart to keep
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const syncRequest = parseCartSyncRequest(
+      await request.json().catch(() => null),
+    )
+    const tenantId = request.headers.get('x-tenant-id')
+    const existingToken = getCartToken(request)
+    const token = existingToken ?? createCartToken()
+
+    const cart = await syncTenantCart(tenantId, token, syncRequest)
+    const response = NextResponse.json(cart)
+
+    if (!existingToken && cart.revision > 0) {
+      setCartTokenCookie(response, token)
+    }
+
+    return response
+  } catch (error) {
+    return cartErrorResponse(error, 'Unable to sync cart')
+  }
+}
+
+/**
+ * Forget the shopper's server cart
+ * Usage: DELETE /api/cart
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = getCartToken(request)
+    const tenantId = request.headers.get('x-tenant-id')
+
+    if (token) await deleteTenantCart(tenantId, token)
+
+    const response = new NextResponse(null, { status: 204 })
+    response.cookies.delete(CART_TOKEN_COOKIE)
+    return response
+  } catch (error) {
+    return cartErrorResponse(error, 'Unable to delete cart')
+  }
+}
@@ -0,0 +1,23 @@
+import { cartErrorResponse, getCartToken } from '@/lib/carts/http'
+import { shareTenantCart } from '@/lib/carts/sync'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Share the shopper's server cart with another device
+ * Usage: POST /api/cart/share, responds with { code, expiresAt }; enter the
+ * code on the other device within 15 minutes (POST /api/cart/claim)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = getCartToken(request)
+    const tenantId = request.headers.get('x-tenant-id')
+
+    if (!token) {
+      return NextResponse.json({ message: 'Cart not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(await shareTenantCart(tenantId, token))
+  } catch (error) {
+    return cartErrorResponse(error, 'Unable to share cart')
+  }
+}
@@ -0,0 +1,43 @@
+import { isApiRequestError } from '@/lib/services/base/errors'
+import {
+  createTenantCheckoutSession,
+  parseCheckoutRequest,
+} from '@/lib/stripe/checkout'
+import { getStripeApiClient } from '@/lib/stripe/stripe-api'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Create a Stripe Checkout Session for the current tenant's cart
+ * Usage: POST /api/checkout with { items: [{ id, quantity }] }
+ * Prices are looked up server-side; any client prices are ignored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const checkoutRequest = parseCheckoutRequest(
+      await request.json().catch(() => null),
+    )
+    const tenantId = request.headers.get('x-tenant-id')
+
+    const session = await createTenantCheckoutSession(
+      getStripeApiClient(),
+      tenantId,
+      checkoutRequest,
+      request.nextUrl.origin,
+    )
+
+    return NextResponse.json({ id: session.id, url: session.url })
+  } catch (error) {
+    if (isApiRequestError(error) && error.status && error.status < 500) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: error.status },
+      )
+    }
+
+    console.error('Checkout error:', error)
+    return NextResponse.json(
+      { message: 'Unable to start checkout' },
+      { status: 500 },
+    )
+  }
+}
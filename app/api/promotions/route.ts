@@ -0,0 +1,34 @@
+import { isApiRequestError } from '@/lib/services/base/errors'
+import { getCartPromotions, parseCheckoutRequest } from '@/lib/stripe/checkout'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Evaluate the current tenant's promotions for a cart
+ * Usage: POST /api/promotions with { items: [{ id, quantity }], couponCode? }
+ * Codes are checked server-side so they never ship with the tenant config
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { items, couponCode } = parseCheckoutRequest(
+      await request.json().catch(() => null),
+    )
+    const tenantId = request.headers.get('x-tenant-id')
+
+    const promotions = await getCartPromotions(tenantId, { items, couponCode })
+
+    return NextResponse.json(promotions)
+  } catch (error) {
+    if (isApiRequestError(error) && error.status && error.status < 500) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: error.status },
+      )
+    }
+
+    console.error('Promotions error:', error)
+    return NextResponse.json(
+      { message: 'Unable to check promotions' },
+      { status: 500 },
+    )
+  }
+}
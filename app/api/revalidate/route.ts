@@ -1,65 +1,37 @@
-import { revalidatePath, revalidateTag } from 'next/cache'
+import { parseRevalidationRequest, revalidate } from '@/lib/revalidation'
+import { isApiRequestError } from '@/lib/services/base/errors'
 import { NextRequest, NextResponse } from 'next/server'
 
 /**
  * API endpoint for cache invalidation and ISR revalidation
- * Usage: POST /api/revalidate with { tenantId?, path?, tag?, secret }
+ * Usage: POST /api/revalidate with
+ * { secret, tenantId?, targets?: [{ type: 'tenant' | 'catalog' }
+ *   | { type: 'product', id } | { type: 'path', path } | { type: 'tag', tag }] }
+ * `{ tenantId }`, `{ path }` and `{ tag }` alone still work as single targets;
+ * no target at all purges every tenant. Responds with what was purged.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { tenantId, path, tag, secret } = body
-
-    // Verify secret to prevent unauthorized revalidation
-    if (secret !== process.env.REVALIDATION_SECRET) {
-      return NextResponse.json({ message: 'Invalid secret' }, { status: 401 })
-    }
-
-    // Revalidate main page (subdomain approach doesn't need specific paths)
-    if (tenantId) {
-      revalidatePath('/')
-      console.log(`Revalidated main page for tenant: ${tenantId}`)
-
-      return NextResponse.json({
-        revalidated: true,
-        tenantId,
-        timestamp: new Date().toISOString(),
-      })
-    }
-
-    // Revalidate specific path
-    if (path) {
-      revalidatePath(path)
-      console.log(`Revalidated path: ${path}`)
-
-      return NextResponse.json({
-        revalidated: true,
-        path,
-        timestamp: new Date().toISOString(),
-      })
-    }
-
-    // Revalidate by tag
-    if (tag) {
-      revalidateTag(tag)
-      console.log(`Revalidated tag: ${tag}`)
-
-      return NextResponse.json({
-        revalidated: true,
-        tag,
-        timestamp: new Date().toISOString(),
-      })
-    }
+    const body = parseRevalidationRequest(
+      await request.json().catch(() => null),
+    )
+    const result = await revalidate(body)
 
-    // Revalidate main page if no specific target
-    revalidatePath('/')
+    console.log('Revalidated:', result)
 
     return NextResponse.json({
       revalidated: true,
-      path: '/',
+      ...result,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
+    if (isApiRequestError(error) && error.status && error.status < 500) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: error.status },
+      )
+    }
+
     console.error('Revalidation error:', error)
     return NextResponse.json(
       { message: 'Error revalidating', error: String(error) },
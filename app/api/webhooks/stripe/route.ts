@@ -0,0 +1,53 @@
+import { getOrderStore } from '@/lib/orders'
+import { isApiRequestError } from '@/lib/services/base/errors'
+import { getStripeApiClient } from '@/lib/stripe/stripe-api'
+import { constructStripeEvent, handleStripeEvent } from '@/lib/stripe/webhooks'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Stripe webhook endpoint
+ * Usage: point a Stripe webhook at POST /api/webhooks/stripe and set
+ * STRIPE_WEBHOOK_SECRET to its signing secret (whsec_...)
+ * Events are routed to tenants by their tenant_id metadata
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    console.error(
+      'STRIPE_WEBHOOK_SECRET is not defined in environment variables',
+    )
+    return NextResponse.json(
+      { message: 'Webhook not configured' },
+      { status: 500 },
+    )
+  }
+
+  try {
+    // The signature covers the exact bytes Stripe sent, so read the raw body
+    const event = constructStripeEvent(
+      await request.text(),
+      request.headers.get('stripe-signature'),
+      secret,
+    )
+
+    const result = await handleStripeEvent(event, {
+      store: getOrderStore(),
+      stripe: getStripeApiClient(),
+    })
+
+    return NextResponse.json({ received: true, type: event.type, ...result })
+  } catch (error) {
+    if (isApiRequestError(error) && error.status && error.status < 500) {
+      return NextResponse.json(
+        { message: error.message, code: error.code },
+        { status: error.status },
+      )
+    }
+
+    console.error('Stripe webhook error:', error)
+    return NextResponse.json(
+      { message: 'Webhook handler failed' },
+      { status: 500 },
+    )
+  }
+}
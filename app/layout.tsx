@@ -1,9 +1,10 @@
 import { TenantProvider } from '@/components/providers/TenantProvider'
 import { ThemeProvider } from '@/components/providers/ThemeProvider'
 import { Toaster } from '@/components/ui/sonner'
+import { getTenantExchangeRates } from '@/lib/exchange-rates'
 import { getAllFontVariables } from '@/lib/fonts'
 import { Providers } from '@/lib/providers/Providers'
-import { getTenantConfig } from '@/lib/tenant'
+import { getTenantConfig, toPublicTenantConfig } from '@/lib/tenant'
 import { generateTenantThemeCSS } from '@/lib/themes'
 import {
   generateLocalBusinessStructuredData,
@@ -72,6 +73,9 @@ export default async function RootLayout({
   // Load tenant configuration
   const config = await getTenantConfig(tenantId)
 
+  // Exchange rates for the tenant's display currencies
+  const rates = await getTenantExchangeRates(config.currency)
+
   // Generate theme styles for server-side rendering
   const themeStyles = generateTenantThemeCSS(config)
 
@@ -100,8 +104,14 @@ export default async function RootLayout({
       </head>
       <body>
         <NuqsAdapter>
-          <Providers>
-            <TenantProvider initialConfig={config}>
+          <Providers
+            tenantId={config.id}
+            cartSync={config.cart?.sync}
+            catalog={config.catalog}
+            currency={config.currency}
+            rates={rates}
+          >
+            <TenantProvider initialConfig={toPublicTenantConfig(config)}>
               <ThemeProvider>
                 {children}
 
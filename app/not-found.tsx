@@ -1,4 +1,5 @@
 import { getTenantConfig } from '@/lib/tenant'
+import { isCustomTheme } from '@/lib/themes/tenant-theme'
 import { getMainUrl } from '@/lib/utils'
 import { headers } from 'next/headers'
 import Link from 'next/link'
@@ -15,6 +16,13 @@ export default async function NotFound() {
   if (tenantId) {
     try {
       const config = await getTenantConfig(tenantId)
+      // Theme objects carry their own brand color
+      const brandColor =
+        typeof config.theme === 'string'
+          ? undefined
+          : isCustomTheme(config.theme)
+            ? config.theme.colors.primary
+            : config.theme.primary
 
       return (
         <div className='min-h-screen flex items-center justify-center bg-background'>
@@ -23,10 +31,7 @@ export default async function NotFound() {
               <h1
                 className='text-6xl font-bold mb-4'
                 style={{
-                  color:
-                    typeof config.theme === 'string'
-                      ? undefined
-                      : config.theme.primary,
+                  color: brandColor,
                 }}
               >
                 404
@@ -45,10 +50,7 @@ export default async function NotFound() {
                 href='/'
                 className='inline-block px-6 py-3 rounded-lg font-semibold text-white transition-colors hover:opacity-90'
                 style={{
-                  backgroundColor:
-                    typeof config.theme === 'string'
-                      ? undefined
-                      : config.theme.primary,
+                  backgroundColor: brandColor,
                 }}
               >
                 Return to {config.name} Homepage
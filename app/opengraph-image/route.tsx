@@ -0,0 +1,77 @@
+import { ShareCard } from '@/components/features/seo'
+import { getTenantShareCardImage } from '@/lib/catalog'
+import { isApiRequestError } from '@/lib/services/base/errors'
+import {
+  loadShareCardFonts,
+  parseShareCardTarget,
+  type RenderedShareCard,
+  SHARE_CARD_SIZE,
+  type ShareCard as ShareCardData,
+} from '@/lib/utils/share-card'
+import { ImageResponse } from 'next/og'
+import { NextRequest } from 'next/server'
+
+const CACHE_HEADERS = {
+  'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400',
+}
+
+// Cards drawn with a fallback font are only kept until the fonts load
+const INCOMPLETE_CACHE_HEADERS = {
+  'Cache-Control': 'public, max-age=60',
+}
+
+async function renderShareCard(
+  card: ShareCardData,
+): Promise<RenderedShareCard> {
+  const { fonts, complete } = await loadShareCardFonts(card.fonts)
+  const image = new ImageResponse(<ShareCard card={card} />, {
+    ...SHARE_CARD_SIZE,
+    fonts,
+  })
+
+  return { body: await image.arrayBuffer(), complete }
+}
+
+/**
+ * Branded Open Graph image for the current tenant
+ * Usage: GET /opengraph-image (home), /opengraph-image?category=beauty or
+ * /opengraph-image?product=12
+ */
+export async function GET(request: NextRequest) {
+  const tenantId = request.headers.get('x-tenant-id')
+
+  try {
+    const target = parseShareCardTarget(request.nextUrl.searchParams)
+    const { body, complete, signature } = await getTenantShareCardImage(
+      tenantId,
+      target,
+      renderShareCard,
+    )
+
+    if (!complete) {
+      return new Response(body, {
+        headers: { 'Content-Type': 'image/png', ...INCOMPLETE_CACHE_HEADERS },
+      })
+    }
+
+    const etag = `"${signature}"`
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...CACHE_HEADERS, ETag: etag },
+      })
+    }
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'image/png', ...CACHE_HEADERS, ETag: etag },
+    })
+  } catch (error) {
+    if (isApiRequestError(error) && error.status && error.status < 500) {
+      return new Response(error.message, { status: error.status })
+    }
+
+    console.error('Failed to generate share card:', error)
+    return new Response('Unable to generate image', { status: 500 })
+  }
+}
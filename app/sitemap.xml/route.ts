@@ -1,37 +1,18 @@
-import { headers } from 'next/headers'
-import { getTenantConfig } from '@/lib/tenant'
+import { getTenantSitemap } from '@/lib/catalog'
+import { renderSitemapIndex, renderUrlSet } from '@/lib/utils/sitemap'
+import { NextRequest } from 'next/server'
 
-export async function GET() {
-  const headersList = await headers()
-  const tenantId = headersList.get('x-tenant-id')
+/**
+ * Sitemap index for the current tenant
+ * Lists the child sitemaps at /sitemaps/<n>.xml, each with up to 50,000 URLs
+ */
+export async function GET(request: NextRequest) {
+  const tenantId = request.headers.get('x-tenant-id')
 
   try {
-    const config = await getTenantConfig(tenantId)
-    const baseUrl = config.metadata.seo?.canonicalBase || 'https://example.com'
+    const { index } = await getTenantSitemap(tenantId, request.nextUrl.origin)
 
-    const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>${baseUrl}/</loc>
-    <lastmod>${new Date().toISOString()}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>1.0</priority>
-  </url>
-  <url>
-    <loc>${baseUrl}/about</loc>
-    <lastmod>${new Date().toISOString()}</lastmod>
-    <changefreq>monthly</changefreq>
-    <priority>0.8</priority>
-  </url>
-  <url>
-    <loc>${baseUrl}/contact</loc>
-    <lastmod>${new Date().toISOString()}</lastmod>
-    <changefreq>monthly</changefreq>
-    <priority>0.7</priority>
-  </url>
-</urlset>`
-
-    return new Response(sitemap, {
+    return new Response(renderSitemapIndex(index), {
       headers: {
         'Content-Type': 'application/xml',
         'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
@@ -40,21 +21,13 @@ export async function GET() {
   } catch (error) {
     console.error('Failed to generate sitemap:', error)
 
-    // Fallback sitemap
+    // Fallback sitemap with just the storefront home page
     return new Response(
-      `<?xml version="1.0" encoding="UTF-8"?>
-<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-  <url>
-    <loc>https://example.com/</loc>
-    <lastmod>${new Date().toISOString()}</lastmod>
-    <changefreq>weekly</changefreq>
-    <priority>1.0</priority>
-  </url>
-</urlset>`,
+      renderUrlSet([{ loc: `${request.nextUrl.origin}/`, priority: 1.0 }]),
       {
         headers: {
           'Content-Type': 'application/xml',
-          'Cache-Control': 'public, max-age=3600',
+          'Cache-Control': 'public, max-age=300',
         },
       },
     )
@@ -0,0 +1,38 @@
+import { getTenantSitemap } from '@/lib/catalog'
+import { renderUrlSet } from '@/lib/utils/sitemap'
+import { NextRequest } from 'next/server'
+
+interface SitemapRouteContext {
+  params: Promise<{ file: string }>
+}
+
+/**
+ * Child sitemap listed by /sitemap.xml
+ * Usage: GET /sitemaps/0.xml
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: SitemapRouteContext,
+) {
+  const match = /^(\d+)\.xml$/.exec((await params).file)
+  const tenantId = request.headers.get('x-tenant-id')
+
+  try {
+    const { chunks } = await getTenantSitemap(tenantId, request.nextUrl.origin)
+    const entries = match ? chunks[Number(match[1])] : undefined
+
+    if (!entries) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    return new Response(renderUrlSet(entries), {
+      headers: {
+        'Content-Type': 'application/xml',
+        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+      },
+    })
+  } catch (error) {
+    console.error('Failed to generate sitemap:', error)
+    return new Response('Unable to generate sitemap', { status: 500 })
+  }
+}
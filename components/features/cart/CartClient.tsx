@@ -10,18 +10,32 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Skeleton } from '@/components/ui/skeleton'
+import { useTenant } from '@/components/providers/TenantProvider'
+import { useCheckout } from '@/lib/hooks/useCheckout'
+import { usePromotions } from '@/lib/hooks/usePromotions'
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
 import { useCart } from '@/lib/providers/StoreProvider'
 import { CartItem } from '@/lib/stores/slices/cart.slice'
-import { Minus, Plus, Trash2, ShoppingBag, ArrowLeft } from 'lucide-react'
+import { CartHandoff } from './CartHandoff'
+import { CartIssues } from './CartIssues'
+import { CouponForm } from './CouponForm'
+import { ShippingSelector } from './ShippingSelector'
+import {
+  Minus,
+  Plus,
+  Trash2,
+  ShoppingBag,
+  ArrowLeft,
+  Loader2,
+} from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useMemo } from 'react'
-import {
-  formatPrice,
-  validatePricingCalculations,
-  calculateDiscountedPrice,
-  calculateItemTotal,
-} from '@/lib/utils/pricing'
+import { getQuantityLimits } from '@/lib/utils/cart-validation'
+import { formatMoney, isZero } from '@/lib/utils/money'
+import { calculateCartSummary, calculateItemPricing } from '@/lib/utils/pricing'
+import { getShipment, getShippingOptions } from '@/lib/utils/shipping'
+import { formatTaxRate, getTaxRegion } from '@/lib/utils/tax'
 
 export function CartClient() {
   const {
@@ -32,47 +46,87 @@ export function CartClient() {
     updateQuantity,
     removeItem,
     clearCart,
+    shipping: shippingSelection,
+    setShipping,
+    couponCode,
+    setCouponCode,
+    cartIssues,
+    dismissCartIssues,
   } = useCart()
+  const { startCheckout, isRedirecting, error: checkoutError } = useCheckout()
+  const { baseCurrency, isConverted, formatPrice } = useCurrency()
+  const { config } = useTenant()
+  const { promotions, isChecking } = usePromotions(items, couponCode)
+
+  // Quote the tenant's shipping methods for the current cart
+  const shippingOptions = useMemo(
+    () =>
+      config.shipping &&
+      getShippingOptions(
+        config.shipping,
+        getShipment(items, baseCurrency),
+        shippingSelection,
+      ),
+    [config.shipping, items, baseCurrency, shippingSelection],
+  )
 
-  // Calculate pricing using utility functions
-  const pricingCalculations = useMemo(() => {
-    const validation = validatePricingCalculations(items)
-
-    // Log validation results for debugging
-    console.log('🧮 Pricing Validation:', {
-      isValid: validation.isValid,
-      subtotal: validation.formattedSubtotal,
-      savings: validation.formattedSavings,
-      total: validation.formattedTotal,
-      itemCount: items.length,
-      totalItems: totalItems,
-    })
-
-    return validation
-  }, [items, totalItems])
+  // Exact totals in the base currency: total === subtotal - savings
+  const { subtotal, savings, tax, shipping, grandTotal } = useMemo(
+    () =>
+      calculateCartSummary(items, {
+        currency: baseCurrency,
+        tax: config.tax,
+        // Taxed where it ships
+        region: getTaxRegion(
+          config.tax,
+          config.shipping,
+          shippingOptions?.zone,
+        ),
+        shipping: shippingOptions?.selected?.amount,
+        promotions,
+      }),
+    [
+      items,
+      baseCurrency,
+      config.tax,
+      config.shipping,
+      shippingOptions,
+      promotions,
+    ],
+  )
+  const taxIncluded = tax.pricing === 'inclusive'
 
-  // Extract calculated values
-  const { subtotal, totalSavings, finalTotal, isValid } = pricingCalculations
+  const issues = (
+    <CartIssues issues={cartIssues} onDismiss={dismissCartIssues} />
+  )
 
   if (isEmpty) {
     return (
-      <Card>
-        <CardContent className='p-8'>
-          <div className='text-center'>
-            <ShoppingBag className='h-16 w-16 text-muted-foreground mx-auto mb-4' />
-            <h3 className='text-xl font-semibold mb-2'>Your cart is empty</h3>
-            <p className='text-muted-foreground mb-6'>
-              Add some products to get started
-            </p>
-            <Button asChild>
-              <Link href='/products'>
-                <ArrowLeft className='h-4 w-4 mr-2' />
-                Continue Shopping
-              </Link>
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+      <div className='space-y-4'>
+        {issues}
+        <Card>
+          <CardContent className='p-8'>
+            <div className='text-center'>
+              <ShoppingBag className='h-16 w-16 text-muted-foreground mx-auto mb-4' />
+              <h3 className='text-xl font-semibold mb-2'>Your cart is empty</h3>
+              <p className='text-muted-foreground mb-6'>
+                Add some products to get started
+              </p>
+              <Button asChild>
+                <Link href='/products'>
+                  <ArrowLeft className='h-4 w-4 mr-2' />
+                  Continue Shopping
+                </Link>
+              </Button>
+              {config.cart?.sync && (
+                <div className='mt-4'>
+                  <CartHandoff />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
     )
   }
 
@@ -80,6 +134,8 @@ export function CartClient() {
     <div className='grid grid-cols-1 lg:grid-cols-3 gap-8'>
       {/* Cart Items */}
       <div className='lg:col-span-2 space-y-4'>
+        {issues}
+
         <div className='flex items-center justify-between'>
           <h2 className='text-xl font-semibold'>Cart Items ({itemCount})</h2>
           <Button
@@ -112,16 +168,6 @@ export function CartClient() {
             <CardTitle>Order Summary</CardTitle>
           </CardHeader>
           <CardContent className='space-y-4'>
-            {/* Validation Warning */}
-            {!isValid && (
-              <div className='bg-yellow-50 border border-yellow-200 rounded-md p-3'>
-                <p className='text-sm text-yellow-800'>
-                  ⚠️ Pricing calculation mismatch detected. Please refresh the
-                  page.
-                </p>
-              </div>
-            )}
-
             {/* Item Count - Show original subtotal before discounts */}
             <div className='flex justify-between text-sm'>
               <span>Items ({totalItems})</span>
@@ -129,29 +175,127 @@ export function CartClient() {
             </div>
 
             {/* Discount */}
-            {totalSavings > 0 && (
+            {!isZero(savings) && (
               <div className='flex justify-between text-sm text-green-600'>
                 <span>Discount</span>
-                <span>-{formatPrice(totalSavings)}</span>
+                <span>-{formatPrice(savings)}</span>
               </div>
             )}
 
+            {/* Promotions - which rule discounted which items */}
+            {promotions?.applied.map(promotion => (
+              <div key={promotion.id} className='space-y-1'>
+                <div className='flex justify-between text-sm text-green-600'>
+                  <span>{promotion.label}</span>
+                  <span>-{formatPrice(promotion.discount)}</span>
+                </div>
+                <p className='text-xs text-muted-foreground'>
+                  {promotion.description} ·{' '}
+                  {promotion.lines
+                    .map(
+                      line =>
+                        items.find(item => item.id === line.lineId)?.title,
+                    )
+                    .filter(Boolean)
+                    .join(', ')}
+                </p>
+              </div>
+            ))}
+
+            <CouponForm
+              couponCode={couponCode}
+              rejection={promotions?.rejection}
+              isChecking={isChecking}
+              onApply={setCouponCode}
+            />
+
             {/* Shipping */}
             <div className='flex justify-between text-sm'>
               <span>Shipping</span>
-              <span className='text-green-600'>Free</span>
+              {isZero(shipping) ? (
+                <span className='text-green-600'>Free</span>
+              ) : (
+                <span>{formatPrice(shipping)}</span>
+              )}
             </div>
+            {config.shipping && shippingOptions && (
+              <ShippingSelector
+                config={config.shipping}
+                options={shippingOptions}
+                onChange={setShipping}
+              />
+            )}
+
+            {/* Tax added on top of catalog prices */}
+            {!taxIncluded &&
+              tax.rates.map(rate => (
+                <div key={rate.rate} className='flex justify-between text-sm'>
+                  <span>
+                    {rate.label} ({formatTaxRate(rate.rate)})
+                  </span>
+                  <span>{formatPrice(rate.tax)}</span>
+                </div>
+              ))}
 
             <Separator />
 
-            {/* Total - Final amount after applying discounts */}
+            {/* Total - Final amount after discounts and tax */}
             <div className='flex justify-between text-lg font-semibold'>
               <span>Total</span>
-              <span>{formatPrice(finalTotal)}</span>
+              <span>{formatPrice(grandTotal)}</span>
             </div>
 
-            {/* Checkout Button */}
-            <Button size='lg' className='w-full'>
+            {/* Tax already contained in catalog prices */}
+            {taxIncluded &&
+              tax.rates.map(rate => (
+                <div
+                  key={rate.rate}
+                  className='flex justify-between text-xs text-muted-foreground'
+                >
+                  <span>
+                    Includes {rate.label} ({formatTaxRate(rate.rate)})
+                  </span>
+                  <span>{formatPrice(rate.tax)}</span>
+                </div>
+              ))}
+
+            {/* Checkout charges the catalog currency */}
+            {isConverted && (
+              <p className='text-xs text-muted-foreground'>
+                You will be charged {formatMoney(grandTotal)} ({baseCurrency})
+                at checkout. Converted prices are estimates.
+              </p>
+            )}
+
+            {/* Checkout Button - prices are re-checked on the server */}
+            {checkoutError && (
+              <p className='text-sm text-destructive'>
+                {checkoutError.message}
+              </p>
+            )}
+            <Button
+              size='lg'
+              className='w-full'
+              onClick={() =>
+                startCheckout(items, {
+                  shipping: {
+                    zone: shippingOptions?.zone,
+                    method: shippingOptions?.selected?.id,
+                  },
+                  // Rejected codes stay visible in the form but are not sent
+                  couponCode:
+                    promotions?.rejection || !couponCode
+                      ? undefined
+                      : couponCode,
+                })
+              }
+              disabled={
+                isRedirecting || (shippingOptions && !shippingOptions.selected)
+              }
+            >
+              {isRedirecting && (
+                <Loader2 className='h-4 w-4 mr-2 animate-spin' />
+              )}
               Proceed to Checkout
             </Button>
 
@@ -162,6 +306,8 @@ export function CartClient() {
                 Continue Shopping
               </Link>
             </Button>
+
+            {config.cart?.sync && <CartHandoff />}
           </CardContent>
         </Card>
       </div>
@@ -169,6 +315,9 @@ export function CartClient() {
   )
 }
 
+// Stock level below which the cart warns the shopper
+const LOW_STOCK_THRESHOLD = 10
+
 // Cart Item Card Component
 interface CartItemCardProps {
   item: CartItem
@@ -177,17 +326,12 @@ interface CartItemCardProps {
 }
 
 function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
-  // Use utility function for discounted price calculation
-  const discountPrice = item.discountPercentage
-    ? calculateDiscountedPrice(item.price, item.discountPercentage)
-    : item.price
-
-  // Calculate item total using utility function
-  const itemTotal = calculateItemTotal(
-    item.price,
-    item.quantity,
-    item.discountPercentage,
+  const { baseCurrency, formatPrice } = useCurrency()
+  const { unitPrice, discountedUnitPrice, total } = calculateItemPricing(
+    item,
+    baseCurrency,
   )
+  const limits = getQuantityLimits(item)
 
   const handleQuantityChange = (newQuantity: number) => {
     if (newQuantity <= 0) {
@@ -250,11 +394,11 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
               {/* Price */}
               <div className='flex items-center gap-2'>
                 <span className='text-lg font-bold'>
-                  {formatPrice(discountPrice)}
+                  {formatPrice(discountedUnitPrice)}
                 </span>
                 {item.discountPercentage && item.discountPercentage > 0 && (
                   <span className='text-sm text-muted-foreground line-through'>
-                    {formatPrice(item.price)}
+                    {formatPrice(unitPrice)}
                   </span>
                 )}
               </div>
@@ -265,7 +409,7 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
                   variant='outline'
                   size='sm'
                   onClick={() => handleQuantityChange(item.quantity - 1)}
-                  disabled={item.quantity <= 1}
+                  disabled={item.quantity <= limits.min}
                 >
                   <Minus className='h-4 w-4' />
                 </Button>
@@ -278,6 +422,7 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
                   variant='outline'
                   size='sm'
                   onClick={() => handleQuantityChange(item.quantity + 1)}
+                  disabled={item.quantity >= limits.max}
                 >
                   <Plus className='h-4 w-4' />
                 </Button>
@@ -285,9 +430,19 @@ function CartItemCard({ item, onUpdateQuantity, onRemove }: CartItemCardProps) {
             </div>
 
             {/* Item Total */}
-            <div className='flex justify-end mt-2'>
+            <div className='flex justify-between mt-2'>
+              <span className='text-xs text-muted-foreground'>
+                {[
+                  limits.min > 1 && `Minimum ${limits.min}`,
+                  item.stock !== undefined &&
+                    item.stock <= LOW_STOCK_THRESHOLD &&
+                    `Only ${item.stock} left`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
               <span className='text-sm text-muted-foreground'>
-                Total: {formatPrice(itemTotal)}
+                Total: {formatPrice(total)}
               </span>
             </div>
           </div>
@@ -0,0 +1,134 @@
+/**
+ * Cart Hand-off Component
+ * "Continue on another device": shows a one-time code for this cart, or
+ * claims a cart shared from another device with its code
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { useCartHandoff } from '@/lib/hooks/useCartHandoff'
+import { Loader2, Smartphone } from 'lucide-react'
+import { FormEvent, useState } from 'react'
+
+export function CartHandoff() {
+  const [open, setOpen] = useState(false)
+  const [code, setCode] = useState('')
+  const {
+    canShare,
+    share,
+    shareCode,
+    isSharing,
+    shareError,
+    claim,
+    isClaiming,
+    claimError,
+    reset,
+  } = useCartHandoff()
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (!next) {
+      setCode('')
+      reset()
+    }
+  }
+
+  const handleClaim = (event: FormEvent) => {
+    event.preventDefault()
+    if (code.trim()) claim(code, () => handleOpenChange(false))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant='ghost' size='sm' className='w-full'>
+          <Smartphone className='h-4 w-4 mr-2' />
+          Continue on another device
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Continue on another device</DialogTitle>
+          <DialogDescription>
+            Get a code here and enter it on your other device, or enter a code
+            from another device to bring its cart here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='space-y-3'>
+          <h3 className='text-sm font-medium'>Share this cart</h3>
+          {shareCode ? (
+            <div className='text-center space-y-1'>
+              <p
+                className='text-3xl font-mono font-semibold tracking-widest'
+                aria-label='Share code'
+              >
+                {shareCode.code}
+              </p>
+              <p className='text-sm text-muted-foreground'>
+                Works once, until{' '}
+                {new Date(shareCode.expiresAt).toLocaleTimeString([], {
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </p>
+            </div>
+          ) : (
+            <Button
+              variant='outline'
+              className='w-full'
+              onClick={share}
+              disabled={!canShare || isSharing}
+            >
+              {isSharing && <Loader2 className='h-4 w-4 mr-2 animate-spin' />}
+              Get a code
+            </Button>
+          )}
+          {!canShare && (
+            <p className='text-sm text-muted-foreground'>
+              Add an item first; your cart is saved a moment later.
+            </p>
+          )}
+          {shareError && (
+            <p className='text-sm text-destructive'>{shareError.message}</p>
+          )}
+        </div>
+
+        <Separator />
+
+        <form onSubmit={handleClaim} className='space-y-3'>
+          <h3 className='text-sm font-medium'>Have a code?</h3>
+          <div className='flex gap-2'>
+            <Input
+              value={code}
+              onChange={event => setCode(event.target.value)}
+              placeholder='Share code'
+              aria-label='Share code from another device'
+              aria-invalid={Boolean(claimError)}
+              autoComplete='off'
+              maxLength={8}
+            />
+            <Button type='submit' disabled={isClaiming || !code.trim()}>
+              {isClaiming && <Loader2 className='h-4 w-4 mr-2 animate-spin' />}
+              Get cart
+            </Button>
+          </div>
+          {claimError && (
+            <p className='text-sm text-destructive'>{claimError.message}</p>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,71 @@
+/**
+ * Cart Issues Component
+ * Tells the shopper what changed when saved items were checked against the
+ * current catalog
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
+import type { CartIssue } from '@/lib/utils/cart-validation'
+import { calculateItemPricing } from '@/lib/utils/pricing'
+import { AlertTriangle, X } from 'lucide-react'
+
+interface CartIssuesProps {
+  issues: CartIssue[]
+  onDismiss: () => void
+}
+
+export function CartIssues({ issues, onDismiss }: CartIssuesProps) {
+  const { baseCurrency, formatPrice } = useCurrency()
+
+  if (issues.length === 0) return null
+
+  // Compare what the shopper actually pays per unit
+  const unitPrice = (price: { price: number; discountPercentage?: number }) =>
+    formatPrice(
+      calculateItemPricing({ ...price, quantity: 1 }, baseCurrency)
+        .discountedUnitPrice,
+    )
+
+  const describe = (issue: CartIssue) => {
+    switch (issue.type) {
+      case 'removed':
+        return `${issue.title} is no longer available and was removed`
+      case 'out-of-stock':
+        return `${issue.title} is out of stock and was removed`
+      case 'quantity-adjusted':
+        return `${issue.title} quantity changed from ${issue.from} to ${issue.to}`
+      case 'price-changed':
+        return `${issue.title} now costs ${unitPrice(issue.to)} (was ${unitPrice(issue.from)})`
+    }
+  }
+
+  return (
+    <Card className='border-destructive/50' role='status'>
+      <CardContent className='p-4'>
+        <div className='flex items-start gap-3'>
+          <AlertTriangle className='h-5 w-5 text-destructive flex-shrink-0' />
+          <div className='flex-1 space-y-1 text-sm'>
+            <p className='font-medium'>Your cart was updated</p>
+            <ul className='text-muted-foreground space-y-1'>
+              {issues.map(issue => (
+                <li key={`${issue.type}-${issue.id}`}>{describe(issue)}</li>
+              ))}
+            </ul>
+          </div>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={onDismiss}
+            aria-label='Dismiss cart updates'
+          >
+            <X className='h-4 w-4' />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
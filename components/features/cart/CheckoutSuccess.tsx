@@ -0,0 +1,48 @@
+/**
+ * Checkout Success Component
+ * Shown after Stripe redirects back; empties the paid-for cart
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { useCart } from '@/lib/providers/StoreProvider'
+import { ArrowLeft, CheckCircle2 } from 'lucide-react'
+import Link from 'next/link'
+import { useEffect } from 'react'
+
+interface CheckoutSuccessProps {
+  sessionId?: string
+}
+
+export function CheckoutSuccess({ sessionId }: CheckoutSuccessProps) {
+  const { clearCart } = useCart()
+
+  useEffect(() => {
+    if (sessionId) {
+      clearCart()
+    }
+  }, [sessionId, clearCart])
+
+  return (
+    <Card>
+      <CardContent className='p-8'>
+        <div className='text-center'>
+          <CheckCircle2 className='h-16 w-16 text-green-600 mx-auto mb-4' />
+          <h3 className='text-xl font-semibold mb-2'>Thank you!</h3>
+          <p className='text-muted-foreground mb-6'>
+            Your payment was received. A confirmation is on its way to your
+            email.
+          </p>
+          <Button asChild>
+            <Link href='/products'>
+              <ArrowLeft className='h-4 w-4 mr-2' />
+              Continue Shopping
+            </Link>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
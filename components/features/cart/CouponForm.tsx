@@ -0,0 +1,77 @@
+/**
+ * Coupon Form Component
+ * Applies a coupon code to the cart; the server decides whether it is valid
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { PromotionRejection } from '@/lib/utils/promotions'
+import { Loader2, Tag, X } from 'lucide-react'
+import { FormEvent, useState } from 'react'
+
+interface CouponFormProps {
+  couponCode: string | null
+  rejection?: PromotionRejection
+  isChecking: boolean
+  onApply: (couponCode: string | null) => void
+}
+
+export function CouponForm({
+  couponCode,
+  rejection,
+  isChecking,
+  onApply,
+}: CouponFormProps) {
+  const [value, setValue] = useState(couponCode ?? '')
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    onApply(value.trim().toUpperCase() || null)
+  }
+
+  // Applied code with a way to remove it
+  if (couponCode && !rejection && !isChecking) {
+    return (
+      <div className='flex items-center justify-between text-sm'>
+        <span className='flex items-center gap-2'>
+          <Tag className='h-4 w-4' />
+          {couponCode}
+        </span>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() => {
+            setValue('')
+            onApply(null)
+          }}
+          aria-label='Remove coupon'
+        >
+          <X className='h-4 w-4' />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className='space-y-2'>
+      <div className='flex gap-2'>
+        <Input
+          value={value}
+          onChange={event => setValue(event.target.value)}
+          placeholder='Coupon code'
+          aria-label='Coupon code'
+          aria-invalid={Boolean(rejection)}
+        />
+        <Button type='submit' variant='outline' disabled={isChecking}>
+          {isChecking && <Loader2 className='h-4 w-4 mr-2 animate-spin' />}
+          Apply
+        </Button>
+      </div>
+      {rejection && (
+        <p className='text-sm text-destructive'>{rejection.reason}</p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,102 @@
+/**
+ * Shipping Selector Component
+ * Lets shoppers pick a shipping zone and method with its delivery window
+ */
+
+'use client'
+
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
+import type { TenantShippingConfig } from '@/lib/types/tenant'
+import { isZero } from '@/lib/utils/money'
+import {
+  estimateDeliveryWindow,
+  formatDeliveryWindow,
+  ShippingOptions,
+  ShippingSelection,
+} from '@/lib/utils/shipping'
+
+interface ShippingSelectorProps {
+  config: TenantShippingConfig
+  options: ShippingOptions
+  onChange: (selection: ShippingSelection) => void
+}
+
+export function ShippingSelector({
+  config,
+  options,
+  onChange,
+}: ShippingSelectorProps) {
+  const { formatPrice } = useCurrency()
+  const zones = Object.entries(config.zones)
+
+  return (
+    <div className='space-y-3'>
+      {/* Zone - hidden when the tenant ships to a single zone */}
+      {zones.length > 1 && (
+        <div className='flex items-center justify-between gap-2 text-sm'>
+          <span>Ship to</span>
+          <Select
+            value={options.zone}
+            onValueChange={zone => onChange({ zone, method: undefined })}
+          >
+            <SelectTrigger size='sm' aria-label='Shipping destination'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {zones.map(([id, zone]) => (
+                <SelectItem key={id} value={id}>
+                  {zone.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Methods with estimated delivery dates */}
+      <RadioGroup
+        value={options.selected?.id ?? ''}
+        onValueChange={method => onChange({ zone: options.zone, method })}
+        aria-label='Shipping method'
+      >
+        {options.quotes.map(quote => (
+          <div key={quote.id} className='flex items-start gap-2 text-sm'>
+            <RadioGroupItem
+              value={quote.id}
+              id={`shipping-${quote.id}`}
+              disabled={!quote.available}
+              className='mt-0.5'
+            />
+            <Label
+              htmlFor={`shipping-${quote.id}`}
+              className='flex flex-1 flex-col items-start gap-0.5 font-normal'
+            >
+              <span className='flex w-full justify-between'>
+                <span>{quote.label}</span>
+                <span>
+                  {isZero(quote.amount) ? 'Free' : formatPrice(quote.amount)}
+                </span>
+              </span>
+              <span className='text-xs text-muted-foreground'>
+                {quote.remaining
+                  ? `Spend ${formatPrice(quote.remaining)} more to unlock`
+                  : quote.available
+                    ? `Arrives ${formatDeliveryWindow(estimateDeliveryWindow(quote))}`
+                    : 'Not available for this cart'}
+              </span>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  )
+}
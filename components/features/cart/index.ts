@@ -3,3 +3,4 @@
  */
 
 export { CartClient, CartSkeleton } from './CartClient'
+export { CheckoutSuccess } from './CheckoutSuccess'
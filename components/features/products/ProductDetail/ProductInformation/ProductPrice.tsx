@@ -3,32 +3,41 @@
  * Displays current price, original price, and savings
  */
 
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
+import { calculateItemPricing } from '@/lib/utils/pricing'
 import { useProductDetailUI } from '../hooks/useProductDetailUI'
 
 export function ProductPrice() {
   const { product } = useProductDetailUI()
+  const { baseCurrency, formatPrice } = useCurrency()
 
   if (!product) return null
 
-  const discountPrice =
-    product.price - (product.price * product.discountPercentage) / 100
+  const { unitPrice, discountedUnitPrice, savings } = calculateItemPricing(
+    {
+      price: product.price,
+      quantity: 1,
+      discountPercentage: product.discountPercentage,
+    },
+    baseCurrency,
+  )
   const isOnSale = product.discountPercentage > 0
 
   return (
     <div className='space-y-2'>
       <div className='flex items-center gap-3'>
         <span className='text-3xl font-bold text-foreground'>
-          ${discountPrice.toFixed(2)}
+          {formatPrice(discountedUnitPrice)}
         </span>
         {isOnSale && (
           <span className='text-xl text-muted-foreground line-through'>
-            ${product.price.toFixed(2)}
+            {formatPrice(unitPrice)}
           </span>
         )}
       </div>
       {isOnSale && (
         <p className='text-sm text-green-600 font-medium'>
-          You save ${(product.price - discountPrice).toFixed(2)}!
+          You save {formatPrice(savings)}!
         </p>
       )}
     </div>
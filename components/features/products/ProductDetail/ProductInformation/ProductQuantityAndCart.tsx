@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Heart, Share2, ShoppingCart, Check, Loader2, Eye } from 'lucide-react'
 import { useProductDetailUI } from '../hooks/useProductDetailUI'
 import { useCart } from '@/lib/providers/StoreProvider'
+import { getQuantityLimits } from '@/lib/utils/cart-validation'
 import { useRouter } from 'next/navigation'
 
 export function ProductQuantityAndCart() {
@@ -22,14 +23,17 @@ export function ProductQuantityAndCart() {
   const isInCart = !!existingCartItem
   const cartQuantity = existingCartItem?.quantity || 0
 
-  // Check if adding more would exceed stock
-  const wouldExceedStock = quantity + cartQuantity > product.stock
-  const maxAllowedQuantity = Math.max(0, product.stock - cartQuantity)
+  // Check if adding more would exceed stock or the per-line maximum
+  const limits = getQuantityLimits(product)
+  const wouldExceedStock = quantity + cartQuantity > limits.max
+  const maxAllowedQuantity = Math.max(0, limits.max - cartQuantity)
+  // The first add must reach the minimum order; later adds can be smaller
+  const minQuantity = isInCart ? 1 : limits.min
 
   // Handle quantity change with stock validation
   const handleQuantityChange = (newQuantity: number) => {
-    if (newQuantity <= 0) return
-    if (isInCart && newQuantity + cartQuantity > product.stock) {
+    if (newQuantity < minQuantity) return
+    if (isInCart && newQuantity + cartQuantity > limits.max) {
       // Show warning toast
       console.warn('⚠️ Cannot add more items - would exceed stock limit')
       return
@@ -65,9 +69,9 @@ export function ProductQuantityAndCart() {
               size='sm'
               onClick={() => {
                 console.log('🛒 Decreasing quantity:', quantity - 1)
-                handleQuantityChange(Math.max(1, quantity - 1))
+                handleQuantityChange(Math.max(minQuantity, quantity - 1))
               }}
-              disabled={quantity <= 1}
+              disabled={quantity <= minQuantity}
             >
               -
             </Button>
@@ -94,9 +98,7 @@ export function ProductQuantityAndCart() {
           size='lg'
           className='flex-1 transition-all duration-200'
           disabled={
-            product.stock === 0 ||
-            addToCartState === 'adding' ||
-            wouldExceedStock
+            !limits.available || addToCartState === 'adding' || wouldExceedStock
           }
           onClick={handleAddToCart}
           variant={
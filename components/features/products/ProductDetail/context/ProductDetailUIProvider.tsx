@@ -9,6 +9,10 @@ import React, { createContext, useState, useCallback } from 'react'
 import { useCart } from '@/lib/providers/StoreProvider'
 import { toast } from 'sonner'
 import type { Product } from '@/lib/types/products.types'
+import {
+  getQuantityError,
+  getQuantityLimits,
+} from '@/lib/utils/cart-validation'
 
 // UI State Interface
 export interface ProductDetailUIState {
@@ -41,7 +45,8 @@ export function ProductDetailUIProvider({
 }: ProductDetailUIProviderProps) {
   const { addItem, items } = useCart()
   const [selectedImage, setSelectedImage] = useState(0)
-  const [quantity, setQuantity] = useState(1)
+  const { min: minQuantity } = getQuantityLimits(product)
+  const [quantity, setQuantity] = useState(minQuantity)
   const [addToCartState, setAddToCartState] = useState<
     'idle' | 'adding' | 'success' | 'error'
   >('idle')
@@ -54,18 +59,29 @@ export function ProductDetailUIProvider({
       quantity,
     })
 
+    // Check if item already exists in cart
+    const existingItem = items.find(item => item.id === product.id)
+    const isNewItem = !existingItem
+
+    // Refuse quantities the cart would not accept
+    const quantityError = getQuantityError(
+      product.title,
+      (existingItem?.quantity ?? 0) + quantity,
+      product,
+    )
+    if (quantityError) {
+      toast.error(quantityError, { duration: 4000 })
+      return
+    }
+
     try {
       setAddToCartState('adding')
 
-      // Check if item already exists in cart
-      const existingItem = items.find(item => item.id === product.id)
-      const isNewItem = !existingItem
-
       // Add item to cart
       addItem(product, quantity)
 
-      // Reset quantity to 1 after successful add
-      setQuantity(1)
+      // Reset quantity to the minimum after successful add
+      setQuantity(minQuantity)
 
       // Show success state
       setAddToCartState('success')
@@ -100,7 +116,7 @@ export function ProductDetailUIProvider({
         setAddToCartState('idle')
       }, 3000)
     }
-  }, [product, quantity, addItem, items, addToCartState])
+  }, [product, quantity, minQuantity, addItem, items, addToCartState])
 
   const value: ProductDetailUIState = {
     product,
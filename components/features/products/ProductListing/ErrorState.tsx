@@ -1,25 +1,106 @@
 /**
  * Error State Component
  * Displays error message when products fail to load
+ * Copy and retry affordance depend on the kind of API error
  */
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { ERROR_CODES } from '@/lib/config/api-endpoints'
+import {
+  isApiRequestError,
+  isAuthenticationError,
+  isBusinessLogicError,
+  isNetworkError,
+  isTenantError,
+  isValidationError,
+} from '@/lib/services/base/errors'
 
 interface ErrorStateProps {
   error: Error
+  onRetry?: () => void
 }
 
-export function ErrorState({ error }: ErrorStateProps) {
+interface ErrorCopy {
+  title: string
+  message: string
+}
+
+function getErrorCopy(error: Error): ErrorCopy {
+  if (isNetworkError(error)) {
+    if (error.code === ERROR_CODES.RATE_LIMITED) {
+      const seconds = error.retryAfter
+        ? Math.ceil(error.retryAfter / 1000)
+        : undefined
+      return {
+        title: 'Too Many Requests',
+        message: seconds
+          ? `Please wait ${seconds} seconds before trying again.`
+          : 'Please wait a moment before trying again.',
+      }
+    }
+    if (error.code === ERROR_CODES.TIMEOUT_ERROR) {
+      return {
+        title: 'Request Timed Out',
+        message: 'The store took too long to respond.',
+      }
+    }
+    return {
+      title: 'Connection Problem',
+      message: 'We could not reach the store. Check your connection.',
+    }
+  }
+
+  if (isAuthenticationError(error)) {
+    return {
+      title: 'Access Denied',
+      message: 'You need to sign in to view these products.',
+    }
+  }
+
+  if (isValidationError(error)) {
+    return {
+      title: 'Invalid Request',
+      message: 'Some filters are not valid. Try clearing them.',
+    }
+  }
+
+  if (isTenantError(error)) {
+    return {
+      title: 'Store Unavailable',
+      message: 'This store is not available right now.',
+    }
+  }
+
+  if (isBusinessLogicError(error)) {
+    return {
+      title: 'Products Not Found',
+      message: 'We could not find the products you were looking for.',
+    }
+  }
+
+  return { title: 'Error Loading Products', message: error.message }
+}
+
+export function ErrorState({ error, onRetry }: ErrorStateProps) {
+  const { title, message } = getErrorCopy(error)
+
+  // Unclassified errors keep the old retry button
+  const canRetry = !isApiRequestError(error) || error.retryable
+
   return (
     <Card>
       <CardContent className='p-6'>
         <div className='text-center'>
           <h3 className='text-lg font-semibold text-destructive mb-2'>
-            Error Loading Products
+            {title}
           </h3>
-          <p className='text-muted-foreground mb-4'>{error.message}</p>
-          <Button onClick={() => window.location.reload()}>Try Again</Button>
+          <p className='text-muted-foreground mb-4'>{message}</p>
+          {canRetry && (
+            <Button onClick={onRetry ?? (() => window.location.reload())}>
+              Try Again
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -5,7 +5,9 @@
 
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
 import { Product } from '@/lib/types/products.types'
+import { calculateItemPricing } from '@/lib/utils/pricing'
 import Image from 'next/image'
 import Link from 'next/link'
 
@@ -15,8 +17,11 @@ interface ProductCardProps {
 }
 
 export function ProductCard({ product, viewMode }: ProductCardProps) {
-  const discountPrice =
-    product.price - (product.price * product.discountPercentage) / 100
+  const { baseCurrency, formatPrice } = useCurrency()
+  const { unitPrice, discountedUnitPrice } = calculateItemPricing(
+    { ...product, quantity: 1 },
+    baseCurrency,
+  )
 
   if (viewMode === 'list') {
     return (
@@ -45,12 +50,12 @@ export function ProductCard({ product, viewMode }: ProductCardProps) {
                 </div>
                 <div className='flex items-center gap-2'>
                   <span className='text-lg font-bold'>
-                    ${discountPrice.toFixed(2)}
+                    {formatPrice(discountedUnitPrice)}
                   </span>
                   {product.discountPercentage > 0 && (
                     <>
                       <span className='text-sm text-muted-foreground line-through'>
-                        ${product.price.toFixed(2)}
+                        {formatPrice(unitPrice)}
                       </span>
                       <Badge variant='destructive'>
                         -{product.discountPercentage}%
@@ -103,11 +108,11 @@ export function ProductCard({ product, viewMode }: ProductCardProps) {
 
             <div className='flex items-center gap-2'>
               <span className='text-lg font-bold'>
-                ${discountPrice.toFixed(2)}
+                {formatPrice(discountedUnitPrice)}
               </span>
               {product.discountPercentage > 0 && (
                 <span className='text-sm text-muted-foreground line-through'>
-                  ${product.price.toFixed(2)}
+                  {formatPrice(unitPrice)}
                 </span>
               )}
             </div>
@@ -35,6 +35,7 @@ export function ProductsListingClient({
     hasPrev,
     isLoading,
     error,
+    refetch,
     goToPage,
     nextPage,
     prevPage,
@@ -48,7 +49,7 @@ export function ProductsListingClient({
   })
 
   if (error) {
-    return <ErrorState error={error} />
+    return <ErrorState error={error} onRetry={() => refetch()} />
   }
 
   return (
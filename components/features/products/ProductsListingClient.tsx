@@ -49,6 +49,7 @@ export function ProductsListingClient({
     hasPrev,
     isLoading,
     error,
+    refetch,
     goToPage,
     nextPage,
     prevPage,
@@ -100,7 +101,7 @@ export function ProductsListingClient({
   }
 
   if (error) {
-    return <ErrorState error={error} />
+    return <ErrorState error={error} onRetry={() => refetch()} />
   }
 
   return (
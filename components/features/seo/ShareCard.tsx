@@ -0,0 +1,135 @@
+/**
+ * Share Card Component
+ * Branded Open Graph image markup for next/og, which supports a subset of
+ * CSS: inline styles only, and flex layout on every element with children
+ */
+
+import {
+  SHARE_CARD_SIZE,
+  type ShareCard as ShareCardData,
+} from '@/lib/utils/share-card'
+
+interface ShareCardProps {
+  card: ShareCardData
+}
+
+// Long titles are cut rather than wrapped off the card
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+}
+
+export function ShareCard({ card }: ShareCardProps) {
+  const { colors, fonts } = card
+
+  return (
+    <div
+      style={{
+        ...SHARE_CARD_SIZE,
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: '64px 72px',
+        backgroundColor: colors.background,
+        borderTop: `16px solid ${colors.primary}`,
+        fontFamily: fonts.body,
+        color: colors.foreground,
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          fontFamily: fonts.heading,
+          fontWeight: 700,
+          fontSize: 32,
+          color: colors.primary,
+        }}
+      >
+        {card.siteName}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <div
+          style={{
+            display: 'flex',
+            fontFamily: fonts.heading,
+            fontWeight: 700,
+            fontSize: card.kind === 'product' ? 64 : 72,
+            lineHeight: 1.1,
+          }}
+        >
+          {truncate(card.title, 70)}
+        </div>
+        {card.subtitle && (
+          <div
+            style={{
+              display: 'flex',
+              marginTop: 24,
+              fontSize: 32,
+              color: colors.secondary,
+            }}
+          >
+            {truncate(card.subtitle, 120)}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', minHeight: 80 }}>
+        {card.price && (
+          <div
+            style={{
+              display: 'flex',
+              fontFamily: fonts.heading,
+              fontWeight: 700,
+              fontSize: 64,
+              color: colors.primary,
+            }}
+          >
+            {card.price}
+          </div>
+        )}
+        {card.originalPrice && (
+          <div
+            style={{
+              display: 'flex',
+              marginLeft: 24,
+              fontSize: 36,
+              color: colors.secondary,
+              textDecoration: 'line-through',
+            }}
+          >
+            {card.originalPrice}
+          </div>
+        )}
+        {card.discountBadge && (
+          <div
+            style={{
+              display: 'flex',
+              marginLeft: 'auto',
+              padding: '12px 28px',
+              borderRadius: 9999,
+              backgroundColor: colors.accent,
+              color: colors.accentForeground ?? colors.background,
+              fontFamily: fonts.heading,
+              fontWeight: 700,
+              fontSize: 32,
+            }}
+          >
+            {card.discountBadge}
+          </div>
+        )}
+        {!card.price && (
+          <div
+            style={{
+              display: 'flex',
+              height: 8,
+              width: 160,
+              borderRadius: 9999,
+              backgroundColor: colors.accent,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+/**
+ * SEO feature exports
+ */
+export { ShareCard } from './ShareCard'
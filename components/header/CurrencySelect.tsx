@@ -0,0 +1,36 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
+
+/**
+ * Display currency picker, hidden when the tenant sells in one currency
+ */
+function CurrencySelect() {
+  const { currency, currencies, setCurrency } = useCurrency()
+
+  if (currencies.length < 2) return null
+
+  return (
+    <Select value={currency} onValueChange={setCurrency}>
+      <SelectTrigger size='sm' aria-label='Display currency'>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map(code => (
+          <SelectItem key={code} value={code}>
+            {code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export default CurrencySelect
@@ -8,6 +8,7 @@ import { cn } from '@/lib/utils'
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
 import { ShoppingCart } from 'lucide-react'
+import CurrencySelect from './CurrencySelect'
 import MobileMenu from './MobileMenu'
 
 type HeaderProps = React.HTMLAttributes<HTMLElement> & {
@@ -94,6 +95,7 @@ export default function PublicHeader({
 
         {/* Navigation Section - Aligned to the right */}
         <nav className='hidden md:flex items-center gap-4 ml-auto'>
+          <CurrencySelect />
           <Link href='/products'>
             <Button variant='ghost' size='sm'>
               Products
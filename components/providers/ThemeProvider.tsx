@@ -1,22 +1,17 @@
 'use client'
 
 /**
- * Simplified ThemeProvider for 3 predefined themes
+ * Simplified ThemeProvider for predefined and custom tenant themes
  * Uses server-side CSS injection with minimal client-side logic
  */
 
-import {
-  AVAILABLE_THEMES,
-  DEFAULT_THEME_ID,
-  type Theme,
-  type ThemeId,
-} from '@/lib/themes'
+import { resolveTenantTheme, type Theme } from '@/lib/themes'
 import React, { createContext, useContext } from 'react'
 import { useTenant } from './TenantProvider'
 
 interface ThemeContextType {
   theme: Theme
-  themeId: ThemeId
+  themeId: Theme['id']
 }
 
 const ThemeContext = createContext<ThemeContextType | null>(null)
@@ -24,26 +19,9 @@ const ThemeContext = createContext<ThemeContextType | null>(null)
 export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const { config } = useTenant()
 
-  // Extract theme ID from config (supports both legacy and new format)
-  let themeId: ThemeId = DEFAULT_THEME_ID
-
-  if (config?.theme) {
-    if (typeof config.theme === 'string') {
-      // New format: theme ID string
-      themeId =
-        (config.theme as ThemeId) in AVAILABLE_THEMES
-          ? (config.theme as ThemeId)
-          : DEFAULT_THEME_ID
-    } else if (typeof config.theme === 'object') {
-      // Legacy format: theme object with colors - map to closest theme
-      const primaryColor = config.theme.primary
-      if (primaryColor === '#dc2626') themeId = 'fire'
-      else if (primaryColor === '#059669') themeId = 'forest'
-      else themeId = 'ocean'
-    }
-  }
-
-  const theme = AVAILABLE_THEMES[themeId]
+  // Presets, legacy colors (mapped to the closest preset) and custom themes
+  const theme = resolveTenantTheme(config?.theme)
+  const themeId = theme.id
 
   return (
     <ThemeContext.Provider value={{ theme, themeId }}>
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for tenant share card rendering and caching, and the cached
+ * products services and sitemaps
+ */
+
+import { unstable_cache } from 'next/cache'
+import {
+  getServerProductsService,
+  getTenantShareCardImage,
+  getTenantSitemap,
+  invalidateShareCards,
+} from '../catalog'
+
+jest.mock('next/cache', () => ({
+  unstable_cache: jest.fn(),
+}))
+
+describe('getTenantShareCardImage', () => {
+  const body = new ArrayBuffer(8)
+
+  beforeEach(() => {
+    invalidateShareCards()
+  })
+
+  it('should reuse complete renders', async () => {
+    const render = jest.fn().mockResolvedValue({ body, complete: true })
+
+    await getTenantShareCardImage('test-rental', { kind: 'home' }, render)
+    const image = await getTenantShareCardImage(
+      'test-rental',
+      { kind: 'home' },
+      render,
+    )
+
+    expect(image).toMatchObject({ body, complete: true })
+    expect(render).toHaveBeenCalledTimes(1)
+  })
+
+  it('should render again after a fallback font render', async () => {
+    const render = jest
+      .fn()
+      .mockResolvedValueOnce({ body, complete: false })
+      .mockResolvedValue({ body, complete: true })
+
+    const fallback = await getTenantShareCardImage(
+      'test-rental',
+      { kind: 'home' },
+      render,
+    )
+    const image = await getTenantShareCardImage(
+      'test-rental',
+      { kind: 'home' },
+      render,
+    )
+
+    expect(fallback.complete).toBe(false)
+    expect(image.complete).toBe(true)
+    expect(render).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('getTenantSitemap', () => {
+  it('should cache the sitemap under the tenant catalog tags', async () => {
+    const sitemap = { index: [], chunks: [[]] }
+    jest
+      .mocked(unstable_cache)
+      .mockReturnValue(jest.fn().mockResolvedValue(sitemap))
+
+    await expect(
+      getTenantSitemap('test-rental', 'http://localhost:3000'),
+    ).resolves.toBe(sitemap)
+    expect(unstable_cache).toHaveBeenCalledWith(
+      expect.any(Function),
+      ['sitemap', 'test-rental', expect.any(String)],
+      expect.objectContaining({
+        tags: ['tenant:test-rental', 'catalog:test-rental'],
+      }),
+    )
+  })
+})
+
+describe('getServerProductsService', () => {
+  it('should keep one service per tenant and replace it on config change', () => {
+    const catalog = { provider: 'dummyjson' as const }
+    const service = getServerProductsService(catalog, 'abc-rentals')
+
+    expect(getServerProductsService({ ...catalog }, 'abc-rentals')).toBe(
+      service,
+    )
+    expect(getServerProductsService(catalog, 'xyz-cars')).not.toBe(service)
+
+    const changed = getServerProductsService(
+      { ...catalog, baseURL: 'https://catalog.example.com' },
+      'abc-rentals',
+    )
+    expect(changed).not.toBe(service)
+    expect(getServerProductsService(catalog, 'abc-rentals')).not.toBe(service)
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for tenant-scoped on-demand revalidation
+ */
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { getCatalogTags } from '../cache-tags'
+import { readCatalogFile } from '../catalog'
+import {
+  authorizeRevalidation,
+  getTenantSecretVariable,
+  parseRevalidationRequest,
+  revalidate,
+  secretsMatch,
+} from '../revalidation'
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+  revalidateTag: jest.fn(),
+}))
+
+const env = {
+  REVALIDATION_SECRET: 'admin-secret',
+  REVALIDATION_SECRET_TEST_RENTAL: 'test-rental-secret',
+}
+
+const request = (body: Record<string, unknown>) =>
+  parseRevalidationRequest(body)
+
+describe('Revalidation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('secrets', () => {
+    it('should compare secrets of any length', () => {
+      expect(secretsMatch('admin-secret', 'admin-secret')).toBe(true)
+      expect(secretsMatch('admin', 'admin-secret')).toBe(false)
+      expect(secretsMatch('', undefined)).toBe(false)
+    })
+
+    it('should derive the tenant secret variable from its ID', () => {
+      expect(getTenantSecretVariable('abc-rentals')).toBe(
+        'REVALIDATION_SECRET_ABC_RENTALS',
+      )
+    })
+
+    it('should grant admin or tenant scope', () => {
+      expect(authorizeRevalidation('admin-secret', undefined, env)).toBe(
+        'admin',
+      )
+      expect(
+        authorizeRevalidation('test-rental-secret', 'test-rental', env),
+      ).toBe('tenant')
+      // A tenant secret only works for its own tenant
+      expect(
+        authorizeRevalidation('test-rental-secret', 'abc-rentals', env),
+      ).toBeNull()
+    })
+  })
+
+  it('should reject malformed targets', () => {
+    expect(() =>
+      request({ secret: 'x', targets: [{ type: 'product', id: 'twelve' }] }),
+    ).toThrow('targets.0.id')
+  })
+
+  it('should reject an invalid secret', async () => {
+    await expect(
+      revalidate(request({ secret: 'nope', tenantId: 'test-rental' }), env),
+    ).rejects.toMatchObject({ status: 401 })
+    expect(revalidateTag).not.toHaveBeenCalled()
+  })
+
+  it("should purge only one tenant's tags for a batch", async () => {
+    await readCatalogFile('test-rental.json')
+
+    const result = await revalidate(
+      request({
+        secret: 'test-rental-secret',
+        tenantId: 'test-rental',
+        targets: [
+          { type: 'catalog' },
+          { type: 'product', id: 12 },
+          { type: 'product', id: 12 },
+        ],
+      }),
+      env,
+    )
+
+    expect(result).toEqual({
+      tenantId: 'test-rental',
+      tags: ['catalog:test-rental', 'product:test-rental:12'],
+      paths: [],
+      configs: [],
+      catalogFiles: ['test-rental.json'],
+      shareCards: [],
+    })
+    expect(revalidateTag).toHaveBeenCalledTimes(2)
+    expect(revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it("should not let a tenant secret purge another tenant's products", async () => {
+    const abcRentalsProduct = getCatalogTags('abc-rentals', 12)
+
+    await expect(
+      revalidate(
+        request({
+          secret: 'test-rental-secret',
+          tenantId: 'abc-rentals',
+          targets: [{ type: 'product', id: 12 }],
+        }),
+        env,
+      ),
+    ).rejects.toMatchObject({ status: 401 })
+
+    // The same product ID under its own tenant misses the other's fetches
+    const result = await revalidate(
+      request({
+        secret: 'test-rental-secret',
+        tenantId: 'test-rental',
+        targets: [{ type: 'product', id: 12 }],
+      }),
+      env,
+    )
+
+    expect(abcRentalsProduct).toContain('product:abc-rentals:12')
+    expect(result.tags).toEqual(['product:test-rental:12'])
+    expect(revalidateTag).not.toHaveBeenCalledWith('product:abc-rentals:12')
+  })
+
+  it('should keep paths, raw tags and global purges for the admin', async () => {
+    await expect(
+      revalidate(
+        request({
+          secret: 'test-rental-secret',
+          tenantId: 'test-rental',
+          targets: [{ type: 'path', path: '/products' }],
+        }),
+        env,
+      ),
+    ).rejects.toMatchObject({ status: 403 })
+
+    const result = await revalidate(
+      request({
+        secret: 'admin-secret',
+        targets: [
+          { type: 'path', path: '/products' },
+          { type: 'tag', tag: 'products' },
+        ],
+      }),
+      env,
+    )
+
+    expect(result.tags).toEqual(['products'])
+    expect(result.paths).toEqual(['/products'])
+  })
+
+  it('should treat a lone tenantId as a tenant target', async () => {
+    const result = await revalidate(
+      request({ secret: 'admin-secret', tenantId: 'abc-rentals' }),
+      env,
+    )
+
+    expect(result.tags).toEqual(['tenant:abc-rentals'])
+    expect(revalidatePath).not.toHaveBeenCalled()
+  })
+
+  it('should require a known tenant for tenant targets', async () => {
+    await expect(
+      revalidate(
+        request({ secret: 'admin-secret', targets: [{ type: 'catalog' }] }),
+        env,
+      ),
+    ).rejects.toMatchObject({ status: 400 })
+    await expect(
+      revalidate(request({ secret: 'admin-secret', tenantId: 'nope' }), env),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Tests for the file-backed tenant config cache
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileCache } from '../tenant-cache'
+
+describe('FileCache', () => {
+  let dir: string
+  let file: string
+
+  const readValue = async () => ({
+    value: await fs.readFile(file, 'utf-8'),
+    files: [file],
+  })
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenant-cache-'))
+    file = path.join(dir, 'tenant.json')
+    await fs.writeFile(file, 'v1')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  test('should serve repeated reads from memory', async () => {
+    const cache = new FileCache<string>({
+      ttl: 60000,
+      mtimeCheckInterval: 60000,
+    })
+    const load = jest.fn(readValue)
+
+    await expect(cache.get('tenant', load)).resolves.toBe('v1')
+    await fs.writeFile(file, 'v2')
+    await expect(cache.get('tenant', load)).resolves.toBe('v1')
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  test('should coalesce concurrent loads for the same key', async () => {
+    const cache = new FileCache<string>({
+      ttl: 60000,
+      mtimeCheckInterval: 60000,
+    })
+    const load = jest.fn(readValue)
+
+    await Promise.all([cache.get('tenant', load), cache.get('tenant', load)])
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  test('should reload when a source file mtime changes', async () => {
+    const cache = new FileCache<string>({ ttl: 60000, mtimeCheckInterval: 0 })
+    const load = jest.fn(readValue)
+
+    await cache.get('tenant', load)
+    await fs.writeFile(file, 'v2')
+    const later = new Date(Date.now() + 5000)
+    await fs.utimes(file, later, later)
+
+    await expect(cache.get('tenant', load)).resolves.toBe('v2')
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  test('should keep entries whose files are unchanged', async () => {
+    const cache = new FileCache<string>({ ttl: 60000, mtimeCheckInterval: 0 })
+    const load = jest.fn(readValue)
+
+    await cache.get('tenant', load)
+    await cache.get('tenant', load)
+
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  test('should reload after the TTL expires', async () => {
+    const cache = new FileCache<string>({ ttl: 0, mtimeCheckInterval: 60000 })
+    const load = jest.fn(readValue)
+
+    await cache.get('tenant', load)
+    await cache.get('tenant', load)
+
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  test('should invalidate a single key or everything', async () => {
+    const cache = new FileCache<string>({
+      ttl: 60000,
+      mtimeCheckInterval: 60000,
+    })
+
+    await cache.get('a', readValue)
+    await cache.get('b', readValue)
+
+    expect(cache.invalidate('a')).toEqual(['a'])
+    expect(cache.invalidate('missing')).toEqual([])
+    expect(cache.keys()).toEqual(['b'])
+    expect(cache.invalidate()).toEqual(['b'])
+    expect(cache.keys()).toEqual([])
+  })
+
+  test('should invalidate entries matching a predicate', async () => {
+    const cache = new FileCache<string>({
+      ttl: 60000,
+      mtimeCheckInterval: 60000,
+    })
+
+    await cache.get('a', readValue)
+    await cache.get('b', async () => ({ value: 'other', files: [file] }))
+
+    expect(cache.invalidateWhere((_key, value) => value === 'v1')).toEqual([
+      'a',
+    ])
+    expect(cache.keys()).toEqual(['b'])
+  })
+
+  test('should drop the least recently used entry beyond maxEntries', async () => {
+    const cache = new FileCache<string>({
+      ttl: 60000,
+      mtimeCheckInterval: 60000,
+      maxEntries: 2,
+    })
+
+    await cache.get('a', readValue)
+    await cache.get('b', readValue)
+    await cache.get('a', readValue)
+    await cache.get('c', readValue)
+
+    expect(cache.keys()).toEqual(['a', 'c'])
+  })
+})
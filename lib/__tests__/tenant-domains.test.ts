@@ -0,0 +1,116 @@
+/**
+ * Tests for custom domain -> tenant resolution
+ */
+
+import { parseTenantRegistry } from '../schemas/tenant.schema'
+import {
+  buildTenantDomainIndex,
+  normalizeHost,
+  resolveTenantFromHost,
+} from '../tenant-domains'
+
+const tenants = {
+  'arts-shop': {
+    id: 'arts-shop',
+    name: 'Arts Shop',
+    status: 'active',
+    configFile: 'arts-shop.json',
+    domains: ['shop.example.com', 'arts.example.org'],
+  },
+  'xyz-cars': {
+    id: 'xyz-cars',
+    name: 'XYZ Cars',
+    status: 'active',
+    configFile: 'xyz-cars.json',
+    domains: ['www.xyzcars.com'],
+    redirectToPrimaryDomain: false,
+  },
+  retired: {
+    id: 'retired',
+    name: 'Retired',
+    status: 'inactive',
+    configFile: 'retired.json',
+    domains: ['retired.example.com'],
+  },
+}
+
+describe('tenant domains', () => {
+  const index = buildTenantDomainIndex(tenants)
+
+  it('normalizes case, ports and trailing dots', () => {
+    expect(normalizeHost('Shop.Example.COM:3000')).toBe('shop.example.com')
+    expect(normalizeHost('shop.example.com.')).toBe('shop.example.com')
+    expect(normalizeHost('[::1]:3000')).toBe('[::1]')
+  })
+
+  it('resolves the primary domain without redirect', () => {
+    expect(resolveTenantFromHost('shop.example.com:443', index)).toEqual({
+      tenantId: 'arts-shop',
+      host: 'shop.example.com',
+      primaryDomain: 'shop.example.com',
+      isPrimary: true,
+      shouldRedirect: false,
+    })
+  })
+
+  it('redirects secondary and www hosts to the primary domain', () => {
+    const www = resolveTenantFromHost('www.shop.example.com', index)
+    const secondary = resolveTenantFromHost('arts.example.org', index)
+
+    expect(www).toMatchObject({ tenantId: 'arts-shop', shouldRedirect: true })
+    expect(secondary).toMatchObject({
+      tenantId: 'arts-shop',
+      primaryDomain: 'shop.example.com',
+      shouldRedirect: true,
+    })
+  })
+
+  it('honours redirectToPrimaryDomain: false', () => {
+    expect(resolveTenantFromHost('xyzcars.com', index)).toMatchObject({
+      tenantId: 'xyz-cars',
+      isPrimary: false,
+      shouldRedirect: false,
+    })
+  })
+
+  it('ignores inactive tenants and unknown hosts', () => {
+    expect(resolveTenantFromHost('retired.example.com', index)).toBeNull()
+    expect(
+      resolveTenantFromHost('abc-rentals.localhost:3000', index),
+    ).toBeNull()
+  })
+
+  it('rejects registries that map one domain to two tenants', () => {
+    const result = parseTenantRegistry({
+      default: 'default.json',
+      tenants: {
+        ...tenants,
+        copycat: {
+          id: 'copycat',
+          name: 'Copycat',
+          status: 'active',
+          configFile: 'copycat.json',
+          domains: ['www.arts.example.org'],
+        },
+      },
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toContain(
+      'tenants.copycat.domains.0: www.arts.example.org is already mapped to arts-shop',
+    )
+  })
+
+  it('rejects domains with a protocol or port', () => {
+    const result = parseTenantRegistry({
+      default: 'default.json',
+      tenants: {
+        bad: { ...tenants.retired, domains: ['https://bad.example.com'] },
+      },
+    })
+
+    expect(result.errors).toEqual([
+      'tenants.bad.domains.0: must be a lowercase hostname without protocol or port',
+    ])
+  })
+})
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for tenant config caching and invalidation
+ */
+
+import { getTenantConfig, invalidateTenantConfig } from '../tenant'
+
+describe('Tenant config cache', () => {
+  beforeEach(() => {
+    invalidateTenantConfig()
+  })
+
+  it('should share one entry for every unknown tenant ID', async () => {
+    const config = await getTenantConfig('no-such-tenant')
+
+    await getTenantConfig('another-unknown-tenant')
+    await getTenantConfig(null)
+
+    // All three share the default entry
+    expect(invalidateTenantConfig(config.id)).toEqual(['__default__'])
+  })
+
+  it('should drop entries that resolved to an invalidated tenant', async () => {
+    const config = await getTenantConfig(null)
+    await getTenantConfig(config.id)
+    await getTenantConfig('test-rental')
+
+    expect(invalidateTenantConfig(config.id).sort()).toEqual(
+      ['__default__', config.id].sort(),
+    )
+    expect(invalidateTenantConfig('test-rental')).toEqual(['test-rental'])
+  })
+})
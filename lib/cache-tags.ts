@@ -0,0 +1,32 @@
+/**
+ * Cache tags for server data fetches
+ * Catalog fetches are tagged by tenant and resource so /api/revalidate can
+ * purge one tenant's data without touching anyone else's
+ */
+
+/** Every cached fetch made for a tenant, e.g. `tenant:abc-rentals` */
+export function tenantTag(tenantId: string): string {
+  return `tenant:${tenantId}`
+}
+
+/** A tenant's catalog listings and products, e.g. `catalog:abc-rentals` */
+export function catalogTag(tenantId: string): string {
+  return `catalog:${tenantId}`
+}
+
+/**
+ * A single product of a tenant, e.g. `product:abc-rentals:12`
+ * Tenants can share a catalog, so product IDs alone are not unique to one
+ */
+export function productTag(tenantId: string, productId: number): string {
+  return `product:${tenantId}:${productId}`
+}
+
+/**
+ * Tags for a tenant's catalog fetch, plus the product's tag for detail reads
+ */
+export function getCatalogTags(tenantId: string, productId?: number): string[] {
+  const tags = [tenantTag(tenantId), catalogTag(tenantId)]
+  if (productId !== undefined) tags.push(productTag(tenantId, productId))
+  return tags
+}
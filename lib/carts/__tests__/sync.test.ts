@@ -0,0 +1,358 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for server cart storage and merge semantics
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import testRentalCatalog from '../../../public/catalogs/test-rental.json'
+import { CatalogFile, FileCatalogProvider } from '../../services/catalog'
+import { ProductsService } from '../../services/products'
+import { FileCartStore } from '../file-store'
+import {
+  findAbandonedCarts,
+  isCartExpired,
+  isCartToken,
+  mergeCartLines,
+  parseCartSyncRequest,
+  pruneCarts,
+  resolveCartSync,
+  claimCart,
+  shareCart,
+  syncCart,
+} from '../sync'
+import type { ServerCart } from '../types'
+
+const productsService = new ProductsService(
+  new FileCatalogProvider({
+    file: 'test-rental.json',
+    load: async () => testRentalCatalog as CatalogFile,
+  }),
+)
+
+const token = '3f1c2a4e-8b7d-4c6a-9e5f-0a1b2c3d4e5f'
+const desktopToken = '7d2e9b1a-4c3f-4a8e-b6d5-1f0e9d8c7b6a'
+
+const serverCart: ServerCart = {
+  token,
+  tenantId: 'test-rental',
+  items: [
+    { id: 1, quantity: 2 },
+    { id: 2, quantity: 1 },
+  ],
+  couponCode: 'WELCOME10',
+  revision: 3,
+  createdAt: '2025-06-01T10:00:00.000Z',
+  updatedAt: '2025-06-01T12:00:00.000Z',
+}
+
+describe('cart merging', () => {
+  it('keeps the larger quantity of lines in both carts', () => {
+    expect(
+      mergeCartLines(serverCart.items, [
+        { id: 2, quantity: 3 },
+        { id: 3, quantity: 1 },
+      ]),
+    ).toEqual([
+      { id: 1, quantity: 2 },
+      { id: 2, quantity: 3 },
+      { id: 3, quantity: 1 },
+    ])
+  })
+
+  it('lets an up-to-date client replace the server cart', () => {
+    expect(
+      resolveCartSync(serverCart, {
+        items: [{ id: 2, quantity: 1 }],
+        couponCode: null,
+        revision: 3,
+      }),
+    ).toEqual({ items: [{ id: 2, quantity: 1 }], couponCode: null })
+  })
+
+  it('merges a client that missed changes from another device', () => {
+    expect(
+      resolveCartSync(serverCart, {
+        items: [{ id: 3, quantity: 1 }],
+        revision: 2,
+      }),
+    ).toEqual({
+      items: [
+        { id: 1, quantity: 2 },
+        { id: 2, quantity: 1 },
+        { id: 3, quantity: 1 },
+      ],
+      couponCode: 'WELCOME10',
+    })
+  })
+
+  it('only accepts cart tokens it could have issued', () => {
+    expect(isCartToken(token)).toBe(true)
+    expect(isCartToken('../orders')).toBe(false)
+    expect(isCartToken(undefined)).toBe(false)
+  })
+
+  it('rejects malformed requests', () => {
+    expect(() =>
+      parseCartSyncRequest({ items: [{ id: 1, quantity: 0 }] }),
+    ).toThrow(/items\.0\.quantity/)
+  })
+
+  it('finds carts idle for longer than the threshold', () => {
+    const now = new Date('2025-06-02T12:00:00.000Z')
+
+    expect(findAbandonedCarts([serverCart], 24, now)).toEqual([serverCart])
+    expect(findAbandonedCarts([serverCart], 48, now)).toEqual([])
+    expect(findAbandonedCarts([{ ...serverCart, items: [] }], 24, now)).toEqual(
+      [],
+    )
+  })
+
+  it('expires empty carts after a day and others with their token', () => {
+    const emptyCart = { ...serverCart, items: [] }
+
+    expect(isCartExpired(emptyCart, new Date('2025-06-02T11:00:00.000Z'))).toBe(
+      false,
+    )
+    expect(isCartExpired(emptyCart, new Date('2025-06-02T12:00:00.000Z'))).toBe(
+      true,
+    )
+    expect(
+      isCartExpired(serverCart, new Date('2025-08-29T12:00:00.000Z')),
+    ).toBe(false)
+    expect(
+      isCartExpired(serverCart, new Date('2025-08-30T12:00:00.000Z')),
+    ).toBe(true)
+  })
+})
+
+describe('syncCart', () => {
+  let dir: string
+  let store: FileCartStore
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'carts-'))
+    store = new FileCartStore(dir)
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const sync = (
+    request: Parameters<typeof syncCart>[4],
+    now = new Date('2025-06-01T12:00:00.000Z'),
+  ) => syncCart(store, productsService, 'test-rental', token, request, now)
+
+  it('stores the cart and returns it priced from the catalog', async () => {
+    const cart = await sync({ items: [{ id: 1, quantity: 2 }] })
+
+    expect(cart).toMatchObject({
+      couponCode: null,
+      revision: 1,
+      updatedAt: '2025-06-01T12:00:00.000Z',
+      items: [
+        {
+          id: 1,
+          title: 'Essence Mascara Lash Princess',
+          quantity: 2,
+          stock: 5,
+        },
+      ],
+    })
+    expect(await store.get('test-rental', token)).toMatchObject({
+      items: [{ id: 1, quantity: 2 }],
+      revision: 1,
+    })
+  })
+
+  it('does not store an empty cart that was never synced', async () => {
+    const cart = await sync({ items: [] })
+
+    expect(cart).toMatchObject({ items: [], revision: 0 })
+    expect(await store.list('test-rental')).toEqual([])
+  })
+
+  it('prunes expired carts only', async () => {
+    await sync({ items: [{ id: 1, quantity: 1 }] })
+    await syncCart(
+      store,
+      productsService,
+      'test-rental',
+      desktopToken,
+      { items: [{ id: 1, quantity: 1 }] },
+      new Date('2025-06-01T12:00:00.000Z'),
+    )
+    await syncCart(
+      store,
+      productsService,
+      'test-rental',
+      desktopToken,
+      { items: [], revision: 1 },
+      new Date('2025-06-01T12:00:00.000Z'),
+    )
+
+    expect(
+      await pruneCarts(
+        store,
+        'test-rental',
+        new Date('2025-06-03T12:00:00.000Z'),
+      ),
+    ).toBe(1)
+    expect((await store.list('test-rental')).map(cart => cart.token)).toEqual([
+      token,
+    ])
+  })
+
+  it('drops unavailable lines and caps quantities at stock', async () => {
+    const cart = await sync({
+      items: [
+        { id: 1, quantity: 9 },
+        { id: 4, quantity: 1 },
+        { id: 999, quantity: 1 },
+      ],
+    })
+
+    expect(cart.items.map(({ id, quantity }) => ({ id, quantity }))).toEqual([
+      { id: 1, quantity: 5 },
+    ])
+  })
+
+  it('merges syncs from clients that missed changes', async () => {
+    const first = await sync({ items: [{ id: 1, quantity: 1 }] })
+    // Another tab on the same cart token that has never synced
+    const second = await sync({ items: [{ id: 2, quantity: 1 }] })
+
+    expect(second.items.map(item => item.id)).toEqual([1, 2])
+
+    // The first tab is now behind, so its removal of everything is merged away
+    const merged = await sync({ items: [], revision: first.revision })
+    expect(merged.items.map(item => item.id)).toEqual([1, 2])
+
+    // Once up to date, its changes replace the server cart
+    const updated = await sync({ items: [], revision: merged.revision })
+    expect(updated.items).toEqual([])
+  })
+
+  it('merges concurrent syncs from the same revision', async () => {
+    const base = await sync({ items: [{ id: 1, quantity: 1 }] })
+
+    const results = await Promise.all([
+      sync({
+        items: [
+          { id: 1, quantity: 1 },
+          { id: 2, quantity: 1 },
+        ],
+        revision: base.revision,
+      }),
+      sync({
+        items: [
+          { id: 1, quantity: 1 },
+          { id: 3, quantity: 1 },
+        ],
+        revision: base.revision,
+      }),
+    ])
+
+    // Only the first replaces; the second sees its write and merges
+    expect(results.map(cart => cart.revision)).toEqual([2, 3])
+    expect(await store.get('test-rental', token)).toMatchObject({
+      items: [
+        { id: 1, quantity: 1 },
+        { id: 2, quantity: 1 },
+        { id: 3, quantity: 1 },
+      ],
+      revision: 3,
+    })
+  })
+
+  it('starts over when the cart changes during the catalog read', async () => {
+    const base = await sync({ items: [{ id: 1, quantity: 1 }] })
+    const getProduct = productsService.getProduct.bind(productsService)
+    jest
+      .spyOn(productsService, 'getProduct')
+      .mockImplementationOnce(async id => {
+        // Another tab syncs while this one waits on the catalog
+        await sync({ items: [{ id: 3, quantity: 1 }], revision: base.revision })
+        return getProduct(id)
+      })
+
+    const cart = await sync({
+      items: [{ id: 2, quantity: 1 }],
+      revision: base.revision,
+    })
+
+    // Its replace would have dropped the other tab's write, so it merged
+    expect(cart.revision).toBe(3)
+    expect(cart.items.map(item => item.id).sort()).toEqual([2, 3])
+  })
+
+  it('hands a cart to another device with a share code', async () => {
+    const now = new Date('2025-06-01T12:00:00.000Z')
+    // Started on mobile
+    await sync({ items: [{ id: 1, quantity: 1 }] })
+    const share = await shareCart(store, 'test-rental', token, now)
+    // Desktop has a cart of its own
+    await syncCart(
+      store,
+      productsService,
+      'test-rental',
+      desktopToken,
+      { items: [{ id: 2, quantity: 1 }] },
+      now,
+    )
+
+    const claim = () =>
+      claimCart(
+        store,
+        productsService,
+        'test-rental',
+        share.code,
+        desktopToken,
+        now,
+      )
+    const claimed = await claim()
+
+    expect(share.code).toMatch(/^[A-Z2-9]{8}$/)
+    expect(claimed.token).toBe(token)
+    expect(claimed.cart.items.map(item => item.id)).toEqual([1, 2])
+    expect(await store.get('test-rental', desktopToken)).toBeNull()
+    // Codes work once
+    await expect(claim()).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('rejects expired share codes and carts that do not exist', async () => {
+    await sync({ items: [{ id: 1, quantity: 1 }] })
+    const share = await shareCart(
+      store,
+      'test-rental',
+      token,
+      new Date('2025-06-01T12:00:00.000Z'),
+    )
+
+    await expect(
+      claimCart(
+        store,
+        productsService,
+        'test-rental',
+        share.code,
+        undefined,
+        new Date('2025-06-01T12:15:00.000Z'),
+      ),
+    ).rejects.toMatchObject({ status: 404 })
+    await expect(
+      shareCart(store, 'test-rental', desktopToken),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('keeps tenants apart', async () => {
+    await sync({ items: [{ id: 1, quantity: 1 }] })
+
+    expect(await store.get('arts-shop', token)).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * File-backed cart store
+ * One carts file per tenant, see lib/tenant-file-store.ts
+ */
+
+import { TenantFileStore } from '../tenant-file-store'
+import type { CartStore, ServerCart } from './types'
+
+export class FileCartStore implements CartStore {
+  private readonly carts: TenantFileStore<ServerCart>
+
+  constructor(dir: string) {
+    this.carts = new TenantFileStore(dir, 'carts')
+  }
+
+  get(tenantId: string, token: string): Promise<ServerCart | null> {
+    return this.carts.find(tenantId, cart => cart.token === token)
+  }
+
+  async list(tenantId: string): Promise<ServerCart[]> {
+    const carts = await this.carts.read(tenantId)
+    return carts.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+  }
+
+  update(
+    tenantId: string,
+    token: string,
+    mutate: (current: ServerCart | null) => ServerCart | null,
+  ): Promise<ServerCart | null> {
+    return this.carts.update(tenantId, cart => cart.token === token, mutate)
+  }
+
+  async prune(
+    tenantId: string,
+    match: (cart: ServerCart) => boolean,
+  ): Promise<number> {
+    return (await this.carts.remove(tenantId, match)).length
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Cart route helpers (server only)
+ * Cart token cookie handling and error responses shared by the /api/cart
+ * routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isApiRequestError } from '../services/base/errors'
+import { CART_TOKEN_COOKIE, CART_TOKEN_MAX_AGE, isCartToken } from './sync'
+
+/**
+ * The request's cart token, if it carries a well-formed one
+ */
+export function getCartToken(request: NextRequest): string | undefined {
+  const token = request.cookies.get(CART_TOKEN_COOKIE)?.value
+  return isCartToken(token) ? token : undefined
+}
+
+/**
+ * Point the browser at the cart stored under `token`
+ */
+export function setCartTokenCookie(response: NextResponse, token: string) {
+  response.cookies.set(CART_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: CART_TOKEN_MAX_AGE,
+  })
+}
+
+/**
+ * Client errors as `{ message, code }`; anything else is logged as a 500
+ */
+export function cartErrorResponse(error: unknown, message: string) {
+  if (isApiRequestError(error) && error.status && error.status < 500) {
+    return NextResponse.json(
+      { message: error.message, code: error.code },
+      { status: error.status },
+    )
+  }
+
+  console.error('Cart error:', error)
+  return NextResponse.json({ message }, { status: 500 })
+}
@@ -0,0 +1,25 @@
+/**
+ * Server cart storage (server only)
+ */
+
+import path from 'path'
+import { FileCartStore } from './file-store'
+import type { CartStore } from './types'
+
+export * from './types'
+export { FileCartStore } from './file-store'
+
+let cartStore: CartStore | undefined
+
+/**
+ * Cart store configured from CARTS_DIR (defaults to .data/carts)
+ */
+export function getCartStore(): CartStore {
+  if (!cartStore) {
+    cartStore = new FileCartStore(
+      process.env.CARTS_DIR || path.join(process.cwd(), '.data', 'carts'),
+    )
+  }
+
+  return cartStore
+}
@@ -0,0 +1,608 @@
+/**
+ * Server cart sync
+ * Merges the browser cart into the server copy for the shopper's cart token
+ * and returns it rebuilt from the tenant's catalog, so every device sees the
+ * same lines with current prices and stock. Another device picks the cart
+ * up by claiming a short-lived share code, which moves its cart token over.
+ */
+
+import { randomInt, randomUUID } from 'crypto'
+import { z } from 'zod'
+import { ERROR_CODES } from '../config/api-endpoints'
+import { getServerProductsService } from '../catalog'
+import { formatSchemaIssues } from '../schemas/tenant.schema'
+import {
+  BusinessLogicError,
+  isBusinessLogicError,
+  ValidationError,
+} from '../services/base/errors'
+import { ProductsService } from '../services/products'
+import type { CartItem } from '../stores/slices/cart.slice'
+import { getTenantConfig } from '../tenant'
+import type { TenantConfig } from '../types/tenant'
+import {
+  clampQuantity,
+  getQuantityLimits,
+  MAX_ITEM_QUANTITY,
+  toCartItem,
+} from '../utils/cart-validation'
+import { getCartStore } from '.'
+import type { CartLine, CartShare, CartStore, ServerCart } from './types'
+
+export const CART_TOKEN_COOKIE = 'cart_token'
+
+/** Cart token cookie lifetime in seconds (90 days) */
+export const CART_TOKEN_MAX_AGE = 60 * 60 * 24 * 90
+
+/** Default idle time before a cart counts as abandoned */
+export const DEFAULT_ABANDONED_AFTER_HOURS = 24
+
+/** How long a share code can be claimed, in minutes */
+export const CART_SHARE_TTL_MINUTES = 15
+
+/** Idle time after which a cart without items is deleted */
+export const EMPTY_CART_TTL_HOURS = 24
+
+/** How often a tenant's expired carts are pruned, at most */
+export const CART_PRUNE_INTERVAL_MINUTES = 60
+
+/** Writes attempted before a cart under heavy contention gives up */
+export const MAX_CART_WRITE_ATTEMPTS = 5
+
+const CART_TOKEN_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+// Easy to read out and type: no 0/O, 1/I/L
+const SHARE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const SHARE_CODE_LENGTH = 8
+
+/**
+ * New anonymous cart token
+ */
+export function createCartToken(): string {
+  return randomUUID()
+}
+
+export function isCartToken(value: string | null | undefined): value is string {
+  return typeof value === 'string' && CART_TOKEN_PATTERN.test(value)
+}
+
+/**
+ * New one-time share code, e.g. `K7RM2QXD`
+ */
+export function createCartShareCode(): string {
+  return Array.from(
+    { length: SHARE_CODE_LENGTH },
+    () => SHARE_CODE_ALPHABET[randomInt(SHARE_CODE_ALPHABET.length)],
+  ).join('')
+}
+
+// Only product IDs and quantities are read from the client cart
+export const CartSyncRequestSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.number().int().positive(),
+        quantity: z.number().int().min(1).max(MAX_ITEM_QUANTITY),
+      }),
+    )
+    .max(100),
+  couponCode: z.string().max(32).nullable().optional(),
+  // Server revision the client cart was last synced with
+  revision: z.number().int().min(0).nullable().optional(),
+})
+
+export const CartClaimRequestSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .length(SHARE_CODE_LENGTH, { error: 'must be an 8 character share code' }),
+})
+
+export type CartSyncRequest = z.infer<typeof CartSyncRequestSchema>
+export type CartClaimRequest = z.infer<typeof CartClaimRequestSchema>
+
+/**
+ * Cart as returned to the browser
+ */
+export interface SyncedCart {
+  items: CartItem[]
+  couponCode: string | null
+  /** 0 while nothing is stored for the token */
+  revision: number
+  updatedAt: string
+}
+
+/**
+ * Cart claimed with a share code, and the token it is stored under
+ */
+export interface ClaimedCart {
+  token: string
+  cart: SyncedCart
+}
+
+function parseRequest<T>(schema: z.ZodType<T>, input: unknown): T {
+  const result = schema.safeParse(input)
+
+  if (!result.success) {
+    throw new ValidationError(
+      formatSchemaIssues(result.error.issues).join('; '),
+      { status: 400 },
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Validate the untrusted sync request body
+ */
+export function parseCartSyncRequest(input: unknown): CartSyncRequest {
+  return parseRequest(CartSyncRequestSchema, input)
+}
+
+/**
+ * Validate the untrusted claim request body
+ */
+export function parseCartClaimRequest(input: unknown): CartClaimRequest {
+  return parseRequest(CartClaimRequestSchema, input)
+}
+
+/**
+ * Union of two carts; lines in both keep the larger quantity so merging the
+ * same cart twice never doubles it
+ */
+export function mergeCartLines(
+  server: CartLine[],
+  local: CartLine[],
+): CartLine[] {
+  const quantities = new Map<number, number>()
+
+  for (const line of [...server, ...local]) {
+    quantities.set(
+      line.id,
+      Math.max(quantities.get(line.id) ?? 0, line.quantity),
+    )
+  }
+
+  return [...quantities].map(([id, quantity]) => ({ id, quantity }))
+}
+
+/**
+ * Decide what the server cart becomes after a sync
+ * A client that saw the latest revision replaces the server cart, so its
+ * removals stick. A client that diverged (another device wrote since) is
+ * merged with it instead, so neither device loses items.
+ */
+export function resolveCartSync(
+  current: ServerCart | null,
+  request: CartSyncRequest,
+): Pick<ServerCart, 'items' | 'couponCode'> {
+  const local = mergeCartLines([], request.items)
+
+  if (!current || request.revision === current.revision) {
+    return { items: local, couponCode: request.couponCode ?? null }
+  }
+
+  return {
+    items: mergeCartLines(current.items, local),
+    couponCode: request.couponCode ?? current.couponCode,
+  }
+}
+
+/**
+ * Rebuild cart lines from the catalog
+ * Lines for missing or sold out products are dropped and quantities are
+ * kept within stock and order limits.
+ */
+export async function loadCartItems(
+  lines: CartLine[],
+  productsService: ProductsService,
+): Promise<CartItem[]> {
+  const items = await Promise.all(
+    lines.map(async line => {
+      try {
+        const product = await productsService.getProduct(line.id)
+        const quantity = clampQuantity(
+          line.quantity,
+          getQuantityLimits(product),
+        )
+        return quantity > 0 ? toCartItem(product, quantity) : null
+      } catch (error) {
+        if (isBusinessLogicError(error) && error.status === 404) return null
+        throw error
+      }
+    }),
+  )
+
+  return items.filter((item): item is CartItem => item !== null)
+}
+
+/**
+ * Write the cart for `token` only if it is still the cart the write was
+ * prepared from, as checked by `isUnchanged`
+ * Both callbacks run inside the store's exclusive update, so they must not
+ * wait on anything; catalog reads happen before. Returns null when another
+ * write got there first.
+ */
+async function compareAndSetCart(
+  store: CartStore,
+  tenantId: string,
+  token: string,
+  isUnchanged: (current: ServerCart | null) => boolean,
+  build: (current: ServerCart | null) => ServerCart,
+): Promise<ServerCart | null> {
+  let written: ServerCart | null = null
+
+  await store.update(tenantId, token, current => {
+    if (!isUnchanged(current)) return current
+    written = build(current)
+    return written
+  })
+
+  return written
+}
+
+function cartConflict() {
+  return new BusinessLogicError('Cart is being updated, please try again', {
+    status: 409,
+    code: ERROR_CODES.CONFLICT_ERROR,
+  })
+}
+
+function toSyncedCart(cart: ServerCart, items: CartItem[]): SyncedCart {
+  return {
+    items,
+    couponCode: cart.couponCode,
+    revision: cart.revision,
+    updatedAt: cart.updatedAt,
+  }
+}
+
+/**
+ * Merge a browser cart into the stored cart for `token`
+ * The catalog is read outside the store's exclusive update and the write only
+ * lands if the cart is still at the revision that was merged against.
+ * Otherwise the sync starts over from the newer cart, so concurrent syncs
+ * from the same revision can't both replace it: the later one merges.
+ */
+export async function syncCart(
+  store: CartStore,
+  productsService: ProductsService,
+  tenantId: string,
+  token: string,
+  request: CartSyncRequest,
+  now: Date = new Date(),
+): Promise<SyncedCart> {
+  const timestamp = now.toISOString()
+
+  for (let attempt = 0; attempt < MAX_CART_WRITE_ATTEMPTS; attempt++) {
+    const stored = await store.get(tenantId, token)
+    const { items: lines, couponCode } = resolveCartSync(stored, request)
+
+    // Nothing to keep, so don't store a cart for every visitor
+    if (!stored && lines.length === 0 && !couponCode) {
+      return { items: [], couponCode: null, revision: 0, updatedAt: timestamp }
+    }
+    const items = await loadCartItems(lines, productsService)
+    const revision = stored?.revision ?? 0
+
+    const cart = await compareAndSetCart(
+      store,
+      tenantId,
+      token,
+      current => (current?.revision ?? 0) === revision,
+      current => ({
+        token,
+        tenantId,
+        items: items.map(({ id, quantity }) => ({ id, quantity })),
+        couponCode,
+        revision: revision + 1,
+        share: current?.share,
+        createdAt: current?.createdAt ?? timestamp,
+        updatedAt: timestamp,
+      }),
+    )
+
+    if (cart) return toSyncedCart(cart, items)
+  }
+
+  throw cartConflict()
+}
+
+function cartNotFound(message = 'Cart not found') {
+  return new BusinessLogicError(message, {
+    status: 404,
+    code: ERROR_CODES.NOT_FOUND_ERROR,
+  })
+}
+
+function isShareValid(
+  share: CartShare | undefined,
+  code: string,
+  now: Date,
+): boolean {
+  return share?.code === code && Date.parse(share.expiresAt) > now.getTime()
+}
+
+/**
+ * Issue a share code for the cart stored under `token`, replacing any
+ * earlier one, so another device can claim it
+ */
+export async function shareCart(
+  store: CartStore,
+  tenantId: string,
+  token: string,
+  now: Date = new Date(),
+): Promise<CartShare> {
+  const share: CartShare = {
+    code: createCartShareCode(),
+    expiresAt: new Date(
+      now.getTime() + CART_SHARE_TTL_MINUTES * 60 * 1000,
+    ).toISOString(),
+  }
+
+  await store.update(tenantId, token, stored => {
+    if (!stored) throw cartNotFound()
+    return { ...stored, share }
+  })
+
+  return share
+}
+
+/**
+ * Hand the cart shared under `code` to the claiming device
+ * The code works once. Lines from the claiming device's own cart
+ * (`currentToken`) are merged in and that cart is removed, so the device
+ * ends up on the shared cart token with nothing lost. Like syncs, the merge
+ * is written with a revision check and retried if the cart changed.
+ */
+export async function claimCart(
+  store: CartStore,
+  productsService: ProductsService,
+  tenantId: string,
+  code: string,
+  currentToken?: string,
+  now: Date = new Date(),
+): Promise<ClaimedCart> {
+  const invalidCode = () => cartNotFound('Share code is invalid or has expired')
+  const findShared = async () =>
+    (await store.list(tenantId)).find(cart =>
+      isShareValid(cart.share, code, now),
+    )
+
+  const first = await findShared()
+  if (!first) throw invalidCode()
+
+  const token = first.token
+  const local =
+    currentToken && currentToken !== token
+      ? await store.get(tenantId, currentToken)
+      : null
+
+  for (let attempt = 0; attempt < MAX_CART_WRITE_ATTEMPTS; attempt++) {
+    const shared = attempt === 0 ? first : await findShared()
+    // Claimed by someone else meanwhile
+    if (shared?.token !== token) throw invalidCode()
+
+    const items = await loadCartItems(
+      mergeCartLines(shared.items, local?.items ?? []),
+      productsService,
+    )
+    const cart = await compareAndSetCart(
+      store,
+      tenantId,
+      token,
+      current =>
+        current?.revision === shared.revision &&
+        isShareValid(current.share, code, now),
+      current => ({
+        ...current!,
+        items: items.map(({ id, quantity }) => ({ id, quantity })),
+        couponCode: current!.couponCode ?? local?.couponCode ?? null,
+        revision: shared.revision + 1,
+        share: undefined,
+        updatedAt: now.toISOString(),
+      }),
+    )
+
+    if (cart) {
+      if (local) await store.update(tenantId, local.token, () => null)
+      return { token, cart: toSyncedCart(cart, items) }
+    }
+  }
+
+  throw cartConflict()
+}
+
+/**
+ * Stored cart for `token`, or null if there is none
+ */
+export async function getCart(
+  store: CartStore,
+  productsService: ProductsService,
+  tenantId: string,
+  token: string,
+): Promise<SyncedCart | null> {
+  const cart = await store.get(tenantId, token)
+  if (!cart) return null
+
+  return toSyncedCart(cart, await loadCartItems(cart.items, productsService))
+}
+
+/**
+ * Carts with items that have been idle for at least `abandonedAfterHours`
+ */
+export function findAbandonedCarts(
+  carts: ServerCart[],
+  abandonedAfterHours: number,
+  now: Date = new Date(),
+): ServerCart[] {
+  const cutoff = now.getTime() - abandonedAfterHours * 60 * 60 * 1000
+
+  return carts.filter(
+    cart => cart.items.length > 0 && Date.parse(cart.updatedAt) <= cutoff,
+  )
+}
+
+/**
+ * Whether a cart can be deleted: its token cookie has expired, or it has no
+ * items and has been idle for EMPTY_CART_TTL_HOURS
+ * Abandoned carts with items are kept until then for recovery.
+ */
+export function isCartExpired(
+  cart: ServerCart,
+  now: Date = new Date(),
+): boolean {
+  const idle = now.getTime() - Date.parse(cart.updatedAt)
+
+  if (idle >= CART_TOKEN_MAX_AGE * 1000) return true
+  return (
+    cart.items.length === 0 && idle >= EMPTY_CART_TTL_HOURS * 60 * 60 * 1000
+  )
+}
+
+/**
+ * Delete a tenant's expired carts
+ * Returns how many were deleted.
+ */
+export function pruneCarts(
+  store: CartStore,
+  tenantId: string,
+  now: Date = new Date(),
+): Promise<number> {
+  return store.prune(tenantId, cart => isCartExpired(cart, now))
+}
+
+const lastPruned = new Map<string, number>()
+
+// Prune on the side of regular syncs, at most once an interval per tenant
+async function pruneCartsPeriodically(store: CartStore, tenantId: string) {
+  const now = Date.now()
+  const last = lastPruned.get(tenantId)
+  if (last && now - last < CART_PRUNE_INTERVAL_MINUTES * 60 * 1000) return
+
+  lastPruned.set(tenantId, now)
+  try {
+    await pruneCarts(store, tenantId, new Date(now))
+  } catch (error) {
+    console.error(`Failed to prune carts for ${tenantId}:`, error)
+  }
+}
+
+/**
+ * Tenant config for cart sync, rejecting tenants that have not enabled it
+ */
+async function getCartSyncConfig(
+  tenantId: string | null,
+): Promise<TenantConfig> {
+  const config = await getTenantConfig(tenantId)
+
+  if (!config.cart?.sync) {
+    throw new BusinessLogicError('Cart sync is not enabled', {
+      status: 404,
+      code: ERROR_CODES.NOT_FOUND_ERROR,
+    })
+  }
+
+  return config
+}
+
+/**
+ * Sync the current tenant's cart for `token`
+ */
+export async function syncTenantCart(
+  tenantId: string | null,
+  token: string,
+  request: CartSyncRequest,
+): Promise<SyncedCart> {
+  const config = await getCartSyncConfig(tenantId)
+  const store = getCartStore()
+  const cart = await syncCart(
+    store,
+    getServerProductsService(config.catalog, config.id),
+    config.id,
+    token,
+    request,
+  )
+
+  await pruneCartsPeriodically(store, config.id)
+  return cart
+}
+
+/**
+ * Current tenant's cart for `token`, or null if there is none
+ */
+export async function getTenantCart(
+  tenantId: string | null,
+  token: string,
+): Promise<SyncedCart | null> {
+  const config = await getCartSyncConfig(tenantId)
+
+  return getCart(
+    getCartStore(),
+    getServerProductsService(config.catalog, config.id),
+    config.id,
+    token,
+  )
+}
+
+/**
+ * Share the current tenant's cart for `token` with another device
+ */
+export async function shareTenantCart(
+  tenantId: string | null,
+  token: string,
+): Promise<CartShare> {
+  const config = await getCartSyncConfig(tenantId)
+
+  return shareCart(getCartStore(), config.id, token)
+}
+
+/**
+ * Claim a cart shared on the current tenant
+ */
+export async function claimTenantCart(
+  tenantId: string | null,
+  request: CartClaimRequest,
+  currentToken?: string,
+): Promise<ClaimedCart> {
+  const config = await getCartSyncConfig(tenantId)
+
+  return claimCart(
+    getCartStore(),
+    getServerProductsService(config.catalog, config.id),
+    config.id,
+    request.code,
+    currentToken,
+  )
+}
+
+/**
+ * Forget the current tenant's cart for `token`
+ */
+export async function deleteTenantCart(
+  tenantId: string | null,
+  token: string,
+): Promise<void> {
+  const config = await getCartSyncConfig(tenantId)
+
+  await getCartStore().update(config.id, token, () => null)
+}
+
+/**
+ * Current tenant's abandoned carts, for recovery
+ */
+export async function listAbandonedCarts(
+  tenantId: string | null,
+  now: Date = new Date(),
+): Promise<ServerCart[]> {
+  const config = await getCartSyncConfig(tenantId)
+
+  return findAbandonedCarts(
+    await getCartStore().list(config.id),
+    config.cart?.abandonedAfterHours ?? DEFAULT_ABANDONED_AFTER_HOURS,
+    now,
+  )
+}
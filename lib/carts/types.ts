@@ -0,0 +1,51 @@
+/**
+ * Server-side carts
+ * A shopper's cart, keyed by the anonymous cart token cookie, so it can be
+ * handed to another device with a share code and recovered when abandoned.
+ * Only product IDs and quantities are stored; everything else comes from
+ * the catalog.
+ */
+
+export interface CartLine {
+  id: number
+  quantity: number
+}
+
+export interface CartShare {
+  code: string
+  expiresAt: string
+}
+
+export interface ServerCart {
+  token: string
+  tenantId: string
+  items: CartLine[]
+  couponCode: string | null
+  /** Incremented on every write; clients send the last one they saw */
+  revision: number
+  /** One-time code another device can claim the cart with */
+  share?: CartShare
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Persistence for carts, always scoped to one tenant
+ */
+export interface CartStore {
+  get(tenantId: string, token: string): Promise<ServerCart | null>
+  /** Least recently updated first */
+  list(tenantId: string): Promise<ServerCart[]>
+  /**
+   * Read-modify-write a single cart without interleaving other writes for
+   * the tenant. `mutate` receives null when the cart does not exist yet and
+   * may return null to delete it.
+   */
+  update(
+    tenantId: string,
+    token: string,
+    mutate: (current: ServerCart | null) => ServerCart | null,
+  ): Promise<ServerCart | null>
+  /** Delete every cart matching `match`; returns how many were deleted */
+  prune(tenantId: string, match: (cart: ServerCart) => boolean): Promise<number>
+}
@@ -0,0 +1,164 @@
+/**
+ * Server-side product catalog resolution
+ * Builds each tenant's ProductsService from its `catalog` config and reads
+ * file catalogs straight from disk instead of over HTTP
+ */
+
+import { promises as fs } from 'fs'
+import { unstable_cache } from 'next/cache'
+import path from 'path'
+import { getCatalogTags } from './cache-tags'
+import { CACHE_CONFIG } from './config/service-config'
+import {
+  CATALOG_FILES_PATH,
+  CatalogFile,
+  createCatalogProvider,
+} from './services/catalog'
+import { ProductsService } from './services/products'
+import { getTenantConfig } from './tenant'
+import { FileCache } from './tenant-cache'
+import type { TenantCatalogConfig } from './types/tenant'
+import {
+  getShareCard,
+  getShareCardCacheKey,
+  getShareCardSignature,
+  RenderedShareCard,
+  ShareCard,
+  ShareCardCache,
+  ShareCardTarget,
+} from './utils/share-card'
+import { getCatalogSitemap } from './utils/sitemap'
+
+const CATALOGS_DIR = path.join(process.cwd(), 'public', CATALOG_FILES_PATH)
+
+// Catalog files change rarely, reuse the tenant config invalidation rules
+const catalogFileCache = new FileCache<CatalogFile>({
+  ttl: CACHE_CONFIG.TENANT_CONFIG.ttl,
+  mtimeCheckInterval: CACHE_CONFIG.TENANT_CONFIG.mtimeCheckInterval,
+  watchDirs: [CATALOGS_DIR],
+})
+
+// One service per tenant (or per catalog without one), replaced when the
+// tenant's catalog config changes so stale services are not kept around
+const servicesByTenant = new Map<
+  string,
+  { catalogKey: string; service: ProductsService }
+>()
+
+const shareCardCache = new ShareCardCache()
+
+/**
+ * Read a catalog file from public/catalogs (cached)
+ */
+export async function readCatalogFile(file: string): Promise<CatalogFile> {
+  const filePath = path.join(CATALOGS_DIR, path.basename(file))
+
+  return catalogFileCache.get(file, async () => ({
+    value: JSON.parse(await fs.readFile(filePath, 'utf-8')),
+    files: [filePath],
+  }))
+}
+
+/**
+ * Drop a cached catalog file, or every file when none is given
+ * Returns the files that were dropped
+ */
+export function invalidateCatalogFile(file?: string): string[] {
+  return catalogFileCache.invalidate(file)
+}
+
+/**
+ * Get the ProductsService for a catalog config on the server
+ * With a tenant ID its fetches carry that tenant's cache tags.
+ */
+export function getServerProductsService(
+  catalog?: TenantCatalogConfig,
+  tenantId?: string,
+): ProductsService {
+  const catalogKey = JSON.stringify(catalog ?? {})
+  const key = tenantId ? `tenant:${tenantId}` : `catalog:${catalogKey}`
+  const cached = servicesByTenant.get(key)
+
+  if (cached?.catalogKey === catalogKey) return cached.service
+
+  const service = new ProductsService(
+    createCatalogProvider(catalog, { loadFile: readCatalogFile, tenantId }),
+  )
+  servicesByTenant.set(key, { catalogKey, service })
+
+  return service
+}
+
+/**
+ * Get the ProductsService for a tenant (falls back to the default config)
+ */
+export async function getTenantProductsService(
+  tenantId: string | null,
+): Promise<ProductsService> {
+  const config = await getTenantConfig(tenantId)
+  return getServerProductsService(config.catalog, config.id)
+}
+
+/**
+ * Sitemap for a tenant's storefront and catalog
+ * URLs use the tenant's canonical base, or the request origin without one.
+ * Building it walks the whole catalog, so it is cached per tenant and base
+ * URL until the tenant's catalog is revalidated, like the fetches it makes.
+ */
+export async function getTenantSitemap(
+  tenantId: string | null,
+  requestOrigin: string,
+) {
+  const config = await getTenantConfig(tenantId)
+  const baseUrl = config.metadata.seo?.canonicalBase || requestOrigin
+
+  return unstable_cache(
+    () =>
+      getCatalogSitemap(
+        getServerProductsService(config.catalog, config.id),
+        baseUrl,
+      ),
+    ['sitemap', config.id, baseUrl],
+    {
+      tags: getCatalogTags(config.id),
+      revalidate: CACHE_CONFIG.CATALOG.ttl / 1000,
+    },
+  )()
+}
+
+/**
+ * Share card image for a tenant's page, rendered once per tenant and target
+ * and re-rendered only when what the card shows changes
+ * Incomplete renders (a theme font failed to load) are not cached, so the
+ * next request tries the fonts again.
+ */
+export async function getTenantShareCardImage(
+  tenantId: string | null,
+  target: ShareCardTarget,
+  render: (card: ShareCard) => Promise<RenderedShareCard>,
+): Promise<RenderedShareCard & { signature: string }> {
+  const config = await getTenantConfig(tenantId)
+  const card = await getShareCard(
+    config,
+    getServerProductsService(config.catalog, config.id),
+    target,
+  )
+  const key = getShareCardCacheKey(config.id, target)
+  const signature = getShareCardSignature(card)
+
+  const cached = shareCardCache.get(key, signature)
+  if (cached) return { body: cached, complete: true, signature }
+
+  const rendered = await render(card)
+  if (rendered.complete) shareCardCache.set(key, signature, rendered.body)
+
+  return { ...rendered, signature }
+}
+
+/**
+ * Drop rendered share cards for one tenant, or all tenants
+ * Returns the cache keys that were dropped
+ */
+export function invalidateShareCards(tenantId?: string): string[] {
+  return shareCardCache.invalidate(tenantId)
+}
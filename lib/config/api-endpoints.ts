@@ -8,22 +8,30 @@ export const API_CONFIG = {
   TIMEOUT: 30000,
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY: 1000,
+  MAX_RETRY_DELAY: 10000,
 } as const
 
+// Products API endpoints for a DummyJSON-compatible catalog
+export function createProductEndpoints(baseURL: string) {
+  return {
+    LIST: `${baseURL}/products`,
+    DETAIL: (id: number) => `${baseURL}/products/${id}`,
+    SEARCH: `${baseURL}/products/search`,
+    CATEGORIES: `${baseURL}/products/categories`,
+    CATEGORY_LIST: `${baseURL}/products/category-list`,
+    BY_CATEGORY: (category: string) =>
+      `${baseURL}/products/category/${category}`,
+    CREATE: `${baseURL}/products/add`,
+    UPDATE: (id: number) => `${baseURL}/products/${id}`,
+    DELETE: (id: number) => `${baseURL}/products/${id}`,
+  } as const
+}
+
+export type ProductEndpoints = ReturnType<typeof createProductEndpoints>
+
 // Products API endpoints (DummyJSON API)
 export const API_ENDPOINTS = {
-  PRODUCTS: {
-    LIST: 'https://dummyjson.com/products',
-    DETAIL: (id: number) => `https://dummyjson.com/products/${id}`,
-    SEARCH: 'https://dummyjson.com/products/search',
-    CATEGORIES: 'https://dummyjson.com/products/categories',
-    CATEGORY_LIST: 'https://dummyjson.com/products/category-list',
-    BY_CATEGORY: (category: string) =>
-      `https://dummyjson.com/products/category/${category}`,
-    CREATE: 'https://dummyjson.com/products/add',
-    UPDATE: (id: number) => `https://dummyjson.com/products/${id}`,
-    DELETE: (id: number) => `https://dummyjson.com/products/${id}`,
-  },
+  PRODUCTS: createProductEndpoints(API_CONFIG.BASE_URL),
 } as const
 
 // HTTP methods
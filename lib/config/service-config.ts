@@ -35,9 +35,16 @@ export const CACHE_CONFIG = {
   },
   TENANT_CONFIG: {
     ttl: 60 * 60 * 1000, // 1 hour
+    mtimeCheckInterval: 30 * 1000, // 30 seconds
+    maxEntries: 200,
     key: 'tenant-config',
     invalidateOn: ['tenant-update'],
   },
+  CATALOG: {
+    ttl: 60 * 60 * 1000, // 1 hour, matches page ISR
+    key: 'catalog',
+    invalidateOn: ['catalog-update'],
+  },
   BOOKING_LIST: {
     ttl: 2 * 60 * 1000, // 2 minutes
     key: 'booking-list',
@@ -0,0 +1,89 @@
+/**
+ * Server-side exchange rates
+ * Rates come from an ExchangeRateProvider; the default reads
+ * config/exchange-rates.json (or EXCHANGE_RATES_FILE) through the file cache,
+ * so rates can be updated without a deploy.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CACHE_CONFIG } from './config/service-config'
+import { FileCache } from './tenant-cache'
+import type { TenantCurrencyConfig } from './types/tenant'
+import {
+  ExchangeRateTable,
+  getCurrencySettings,
+  pickRates,
+} from './utils/currency'
+
+export interface ExchangeRateProvider {
+  readonly id: string
+  getRates(): Promise<ExchangeRateTable>
+}
+
+const DEFAULT_RATES_FILE = path.join(
+  process.cwd(),
+  'config',
+  'exchange-rates.json',
+)
+
+const ratesCache = new FileCache<ExchangeRateTable>({
+  ttl: CACHE_CONFIG.TENANT_CONFIG.ttl,
+  mtimeCheckInterval: CACHE_CONFIG.TENANT_CONFIG.mtimeCheckInterval,
+})
+
+/**
+ * Rate table stored as JSON on disk
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly id = 'file'
+  private readonly file: string
+
+  constructor(file: string = DEFAULT_RATES_FILE) {
+    this.file = file
+  }
+
+  getRates(): Promise<ExchangeRateTable> {
+    return ratesCache.get(this.file, async () => ({
+      value: JSON.parse(await fs.readFile(this.file, 'utf-8')),
+      files: [this.file],
+    }))
+  }
+}
+
+let exchangeRateProvider: ExchangeRateProvider | undefined
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!exchangeRateProvider) {
+    exchangeRateProvider = new FileExchangeRateProvider(
+      process.env.EXCHANGE_RATES_FILE || DEFAULT_RATES_FILE,
+    )
+  }
+
+  return exchangeRateProvider
+}
+
+/**
+ * Replace the rate source, e.g. with a live FX API adapter
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider): void {
+  exchangeRateProvider = provider
+}
+
+/**
+ * Rates limited to the tenant's currencies, safe to pass to the client
+ */
+export async function getTenantExchangeRates(
+  currency?: TenantCurrencyConfig,
+): Promise<ExchangeRateTable> {
+  const settings = getCurrencySettings(currency)
+
+  try {
+    const table = await getExchangeRateProvider().getRates()
+    return pickRates(table, settings.display)
+  } catch (error) {
+    // Without rates the storefront still works in its base currency
+    console.error('Failed to load exchange rates:', error)
+    return { base: settings.base, rates: {} }
+  }
+}
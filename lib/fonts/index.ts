@@ -4,7 +4,7 @@
  */
 
 import { DM_Sans, IBM_Plex_Mono, Nunito_Sans, Poppins } from 'next/font/google'
-import type { ThemeId } from '../themes/themes'
+import type { Theme, ThemeFontFamily, ThemeId } from '../themes/themes'
 
 // ============================================================================
 // Font Definitions with Next.js Optimization
@@ -61,6 +61,14 @@ export const THEME_FONTS = {
   },
 } as const
 
+// Fonts a custom theme can pick by family name
+export const FONT_FAMILIES: Record<ThemeFontFamily, typeof poppins> = {
+  Poppins: poppins,
+  'Nunito Sans': nunitoSans,
+  'IBM Plex Mono': ibmPlexMono,
+  'DM Sans': dmSans,
+}
+
 // ============================================================================
 // Font Utilities
 // ============================================================================
@@ -87,6 +95,18 @@ export function getAllFontVariables(): string {
   return [poppins.variable, nunitoSans.variable, dmSans.variable].join(' ')
 }
 
+/**
+ * Get font CSS variables for theme font families, e.g. a custom theme's
+ */
+export function getFontFamilyVariables(
+  fonts: Theme['fonts'],
+): Record<string, string> {
+  return {
+    '--font-heading': FONT_FAMILIES[fonts.heading].style.fontFamily,
+    '--font-body': FONT_FAMILIES[fonts.body].style.fontFamily,
+  }
+}
+
 /**
  * Get font CSS variables for a theme
  */
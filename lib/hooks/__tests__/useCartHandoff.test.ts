@@ -0,0 +1,56 @@
+/**
+ * Tests for the cart hand-off requests
+ */
+
+import { claimSharedCart, requestCartShareCode } from '../useCartHandoff'
+
+// The hook's store wiring is not under test
+jest.mock('../../providers/StoreProvider', () => ({ useAppStore: jest.fn() }))
+
+const mockFetch = global.fetch as jest.Mock
+
+const respond = (status: number, body: unknown) =>
+  mockFetch.mockResolvedValueOnce({
+    ok: status < 400,
+    status,
+    json: async () => body,
+  })
+
+describe('Cart hand-off', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should request a share code for the current cart', async () => {
+    const share = { code: 'K7RM2QXD', expiresAt: '2025-06-01T12:15:00.000Z' }
+    respond(200, share)
+
+    await expect(requestCartShareCode()).resolves.toEqual(share)
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/cart/share',
+      expect.objectContaining({ method: 'POST' }),
+    )
+  })
+
+  it('should claim a cart with a normalized code', async () => {
+    const cart = { items: [], couponCode: null, revision: 4 }
+    respond(200, cart)
+
+    await expect(claimSharedCart(' k7rm2qxd ')).resolves.toEqual(cart)
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/cart/claim',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ code: 'K7RM2QXD' }),
+      }),
+    )
+  })
+
+  it('should surface the server message when a code is rejected', async () => {
+    respond(404, { message: 'Share code is invalid or has expired' })
+
+    await expect(claimSharedCart('K7RM2QXD')).rejects.toThrow(
+      'Share code is invalid or has expired',
+    )
+  })
+})
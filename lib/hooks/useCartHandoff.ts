@@ -0,0 +1,73 @@
+/**
+ * Cart hand-off hook
+ * Moves the server cart to another device: one device asks for a share code
+ * and the other claims it, switching its cart token to the shared cart
+ */
+'use client'
+
+import { useAppStore } from '../providers/StoreProvider'
+import type { ServerCartSnapshot } from '../stores/slices/cart.slice'
+import { useMutation } from '@tanstack/react-query'
+
+export interface CartShareCode {
+  code: string
+  expiresAt: string
+}
+
+async function postCart<T>(path: string, body?: unknown): Promise<T> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Unable to hand off cart')
+  }
+
+  return data
+}
+
+/**
+ * One-time code for this browser's server cart
+ */
+export function requestCartShareCode(): Promise<CartShareCode> {
+  return postCart('/api/cart/share')
+}
+
+/**
+ * Claim a cart shared from another device; this browser's own lines are
+ * merged in and the merged cart is returned
+ */
+export function claimSharedCart(code: string): Promise<ServerCartSnapshot> {
+  return postCart('/api/cart/claim', { code: code.trim().toUpperCase() })
+}
+
+export function useCartHandoff() {
+  // Nothing to share until the cart has reached the server
+  const canShare = useAppStore(state => Boolean(state.cartRevision))
+  const applyServerCart = useAppStore(state => state.applyServerCart)
+
+  const share = useMutation({ mutationFn: requestCartShareCode })
+  const claim = useMutation({
+    mutationFn: claimSharedCart,
+    onSuccess: applyServerCart,
+  })
+
+  return {
+    canShare,
+    share: () => share.mutate(),
+    shareCode: share.data,
+    isSharing: share.isPending,
+    shareError: share.error,
+    claim: (code: string, onClaimed?: () => void) =>
+      claim.mutate(code, { onSuccess: onClaimed }),
+    isClaiming: claim.isPending,
+    claimError: claim.error,
+    reset: () => {
+      share.reset()
+      claim.reset()
+    },
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Cart re-validation hook
+ * Checks items restored from localStorage against the tenant's catalog once
+ * the store has hydrated, so stale prices, stock and removed products are
+ * corrected (and reported) before the shopper reaches checkout
+ */
+'use client'
+
+import { useStoreHydration } from '@/lib/hooks/useHydration'
+import { useProductsService } from '@/lib/providers/ProductsServiceProvider'
+import { StoreContext } from '@/lib/providers/StoreProvider'
+import { ApiRequestError } from '@/lib/services/base/errors'
+import type { Product } from '@/lib/types/products.types'
+import { useContext, useEffect, useRef } from 'react'
+
+export function useCartRevalidation() {
+  const store = useContext(StoreContext)
+  const productsService = useProductsService()
+  // Only the client store has the persist API
+  const persistAPI = (
+    store as { persist?: Parameters<typeof useStoreHydration>[0] } | null
+  )?.persist
+  const hydrated = useStoreHydration(persistAPI)
+  const checked = useRef(false)
+
+  useEffect(() => {
+    if (!store || !hydrated || checked.current) return
+    checked.current = true
+
+    const ids = store.getState().items.map(item => item.id)
+    if (ids.length === 0) return
+
+    Promise.all(
+      ids.map(async id => {
+        try {
+          return [id, await productsService.getProduct(id)] as const
+        } catch (error) {
+          // Only a missing product removes the line; other failures keep it
+          if (error instanceof ApiRequestError && error.status === 404) {
+            return [id, null] as const
+          }
+          console.error(`Failed to re-validate cart item ${id}:`, error)
+          return undefined
+        }
+      }),
+    ).then(results => {
+      const products = new Map<number, Product | null>()
+      for (const result of results) {
+        if (result) products.set(result[0], result[1])
+      }
+      store.getState().revalidateItems(products)
+    })
+  }, [store, hydrated, productsService])
+}
+
+/**
+ * Renders nothing; mounts the hook inside the store and catalog providers
+ */
+export function CartRevalidator() {
+  useCartRevalidation()
+  return null
+}
@@ -0,0 +1,135 @@
+/**
+ * Cart sync hook
+ * Keeps the browser cart and the server cart for the shopper's cart token in
+ * step: syncs once after hydration, then again shortly after every change.
+ * A browser that has never synced waits for its first item, so visitors who
+ * never shop get no server cart.
+ */
+'use client'
+
+import { useStoreHydration } from '@/lib/hooks/useHydration'
+import { StoreContext } from '@/lib/providers/StoreProvider'
+import type {
+  CartItem,
+  ServerCartSnapshot,
+} from '@/lib/stores/slices/cart.slice'
+import { useContext, useEffect } from 'react'
+
+// Wait for quantity clicks to settle before syncing
+const SYNC_DELAY = 1000
+
+interface CartSyncBody {
+  items: { id: number; quantity: number }[]
+  couponCode: string | null
+  revision: number | null
+}
+
+async function pushCart(
+  body: CartSyncBody,
+  signal: AbortSignal,
+): Promise<ServerCartSnapshot> {
+  const response = await fetch('/api/cart', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Unable to sync cart')
+  }
+
+  return data
+}
+
+// Lines and coupon only; display fields come from the catalog
+function getCartSignature(items: CartItem[], couponCode: string | null) {
+  const lines = items.map(item => `${item.id}:${item.quantity}`).join(',')
+  return `${lines}|${couponCode ?? ''}`
+}
+
+export function useCartSync(enabled: boolean) {
+  const store = useContext(StoreContext)
+  // Only the client store has the persist API
+  const persistAPI = (
+    store as { persist?: Parameters<typeof useStoreHydration>[0] } | null
+  )?.persist
+  const hydrated = useStoreHydration(persistAPI)
+
+  useEffect(() => {
+    if (!enabled || !store || !hydrated) return
+
+    let lastSynced: string | undefined
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let controller: AbortController | undefined
+
+    const sync = async () => {
+      const { items, couponCode, cartRevision } = store.getState()
+      const signature = getCartSignature(items, couponCode)
+
+      if (cartRevision === null && items.length === 0 && !couponCode) return
+
+      controller?.abort()
+      controller = new AbortController()
+
+      try {
+        const cart = await pushCart(
+          {
+            items: items.map(({ id, quantity }) => ({ id, quantity })),
+            couponCode,
+            revision: cartRevision,
+          },
+          controller.signal,
+        )
+
+        // Edits made while the request was in flight are sent next time.
+        // Keep the revision regardless, or that sync would be merged with
+        // this one and bring back lines the shopper has since removed.
+        const state = store.getState()
+        if (getCartSignature(state.items, state.couponCode) !== signature) {
+          state.setCartRevision(cart.revision)
+          return
+        }
+
+        lastSynced = getCartSignature(cart.items, cart.couponCode)
+        state.applyServerCart(cart)
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to sync cart:', error)
+        }
+      }
+    }
+
+    sync()
+
+    const unsubscribe = store.subscribe((state, previous) => {
+      if (
+        state.items === previous.items &&
+        state.couponCode === previous.couponCode
+      ) {
+        return
+      }
+      if (getCartSignature(state.items, state.couponCode) === lastSynced) {
+        return
+      }
+
+      clearTimeout(timer)
+      timer = setTimeout(sync, SYNC_DELAY)
+    })
+
+    return () => {
+      unsubscribe()
+      clearTimeout(timer)
+      controller?.abort()
+    }
+  }, [enabled, store, hydrated])
+}
+
+/**
+ * Renders nothing; mounts the hook inside the store provider
+ */
+export function CartSync({ enabled }: { enabled: boolean }) {
+  useCartSync(enabled)
+  return null
+}
@@ -0,0 +1,72 @@
+/**
+ * Checkout hook
+ * Starts a server-priced Stripe Checkout Session and redirects to it
+ */
+'use client'
+
+import { useCurrency } from '@/lib/providers/CurrencyProvider'
+import type { CartItem } from '@/lib/stores/slices/cart.slice'
+import type { ShippingSelection } from '@/lib/utils/shipping'
+import { useMutation } from '@tanstack/react-query'
+
+export interface CheckoutSessionResponse {
+  id: string
+  url: string | null
+}
+
+/**
+ * Ask the server for a Checkout Session; only IDs and quantities are sent,
+ * plus the shipping choice, the coupon code and the display currency the
+ * shopper saw (recorded, not charged)
+ */
+async function createCheckoutSession({
+  items,
+  shipping,
+  couponCode,
+  currency,
+}: {
+  items: CartItem[]
+  shipping?: ShippingSelection
+  couponCode?: string
+  currency: string
+}): Promise<CheckoutSessionResponse> {
+  const response = await fetch('/api/checkout', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      items: items.map(({ id, quantity }) => ({ id, quantity })),
+      shipping,
+      couponCode,
+      currency,
+    }),
+  })
+  const data = await response.json()
+
+  if (!response.ok || !data.url) {
+    throw new Error(data.message || 'Unable to start checkout')
+  }
+
+  return data
+}
+
+export function useCheckout() {
+  const { currency } = useCurrency()
+  const mutation = useMutation({
+    mutationFn: createCheckoutSession,
+    onSuccess: session => {
+      if (session.url) {
+        window.location.assign(session.url)
+      }
+    },
+  })
+
+  return {
+    startCheckout: (
+      items: CartItem[],
+      options: { shipping?: ShippingSelection; couponCode?: string } = {},
+    ) => mutation.mutate({ items, ...options, currency }),
+    // Stays true while the browser navigates to Stripe
+    isRedirecting: mutation.isPending || mutation.isSuccess,
+    error: mutation.error,
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Promotions hook
+ * Evaluates the tenant's promotions and the entered coupon on the server,
+ * re-running whenever the cart or the code changes
+ */
+'use client'
+
+import type { CartItem } from '@/lib/stores/slices/cart.slice'
+import type { PromotionResult } from '@/lib/utils/promotions'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+
+export const promotionsKeys = {
+  all: ['promotions'] as const,
+  cart: (items: { id: number; quantity: number }[], couponCode?: string) =>
+    [...promotionsKeys.all, items, couponCode ?? null] as const,
+}
+
+async function fetchPromotions(
+  items: { id: number; quantity: number }[],
+  couponCode: string | undefined,
+  signal: AbortSignal,
+): Promise<PromotionResult> {
+  const response = await fetch('/api/promotions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items, couponCode }),
+    signal,
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.message || 'Unable to check promotions')
+  }
+
+  return data
+}
+
+export function usePromotions(items: CartItem[], couponCode?: string | null) {
+  // Only IDs and quantities matter; prices are looked up on the server
+  const lines = items.map(({ id, quantity }) => ({ id, quantity }))
+  const code = couponCode ?? undefined
+
+  const query = useQuery({
+    queryKey: promotionsKeys.cart(lines, code),
+    queryFn: ({ signal }) => fetchPromotions(lines, code, signal),
+    enabled: lines.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // 1 minute
+  })
+
+  return {
+    promotions: lines.length > 0 ? query.data : undefined,
+    isChecking: query.isFetching,
+    error: query.error,
+  }
+}
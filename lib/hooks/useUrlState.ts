@@ -269,10 +269,11 @@ export function usePreferencesState() {
       parse: value => value as 'light' | 'dark' | 'system',
       serialize: value => value,
     },
+    // Unset means the tenant's base currency (see useCurrency)
     currency: {
-      defaultValue: 'USD',
-      parse: value => value || 'USD',
-      serialize: value => value,
+      defaultValue: undefined,
+      parse: value => value?.toUpperCase() || undefined,
+      serialize: value => value || undefined,
     },
     language: {
       defaultValue: 'en',
@@ -0,0 +1,42 @@
+/**
+ * File-backed order store
+ * One orders file per tenant, see lib/tenant-file-store.ts
+ */
+
+import { TenantFileStore } from '../tenant-file-store'
+import type { Order, OrderStore } from './types'
+
+export class FileOrderStore implements OrderStore {
+  private readonly orders: TenantFileStore<Order>
+
+  constructor(dir: string) {
+    this.orders = new TenantFileStore(dir, 'orders')
+  }
+
+  get(tenantId: string, orderId: string): Promise<Order | null> {
+    return this.orders.find(tenantId, order => order.id === orderId)
+  }
+
+  findByPaymentIntent(
+    tenantId: string,
+    paymentIntentId: string,
+  ): Promise<Order | null> {
+    return this.orders.find(
+      tenantId,
+      order => order.paymentIntentId === paymentIntentId,
+    )
+  }
+
+  async list(tenantId: string): Promise<Order[]> {
+    const orders = await this.orders.read(tenantId)
+    return orders.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  update(
+    tenantId: string,
+    orderId: string,
+    mutate: (current: Order | null) => Order,
+  ): Promise<Order> {
+    return this.orders.update(tenantId, order => order.id === orderId, mutate)
+  }
+}
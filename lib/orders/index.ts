@@ -0,0 +1,25 @@
+/**
+ * Order storage (server only)
+ */
+
+import path from 'path'
+import { FileOrderStore } from './file-store'
+import type { OrderStore } from './types'
+
+export * from './types'
+export { FileOrderStore } from './file-store'
+
+let orderStore: OrderStore | undefined
+
+/**
+ * Order store configured from ORDERS_DIR (defaults to .data/orders)
+ */
+export function getOrderStore(): OrderStore {
+  if (!orderStore) {
+    orderStore = new FileOrderStore(
+      process.env.ORDERS_DIR || path.join(process.cwd(), '.data', 'orders'),
+    )
+  }
+
+  return orderStore
+}
@@ -0,0 +1,72 @@
+/**
+ * Order records
+ * Orders are written by the Stripe webhook and are the tenant's
+ * authoritative record of what was sold. All amounts are in cents.
+ */
+
+export const ORDER_STATUSES = [
+  'pending',
+  'payment_failed',
+  'paid',
+  'partially_refunded',
+  'refunded',
+] as const
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number]
+
+export interface OrderLineItem {
+  /** Catalog product ID, null if the line was not created by our checkout */
+  productId: number | null
+  title: string
+  quantity: number
+  unitAmount: number
+  amountTotal: number
+}
+
+export interface OrderTotals {
+  subtotal: number
+  discount: number
+  shipping: number
+  tax: number
+  total: number
+  refunded: number
+}
+
+export interface Order {
+  id: string
+  tenantId: string
+  status: OrderStatus
+  currency: string
+  lineItems: OrderLineItem[]
+  totals: OrderTotals
+  checkoutSessionId?: string
+  paymentIntentId?: string
+  customerEmail?: string
+  failureReason?: string
+  /** Stripe event IDs already applied, used to ignore redeliveries */
+  processedEventIds: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Persistence for orders, always scoped to one tenant
+ */
+export interface OrderStore {
+  get(tenantId: string, orderId: string): Promise<Order | null>
+  findByPaymentIntent(
+    tenantId: string,
+    paymentIntentId: string,
+  ): Promise<Order | null>
+  /** Newest first */
+  list(tenantId: string): Promise<Order[]>
+  /**
+   * Read-modify-write a single order without interleaving other writes for
+   * the tenant. `mutate` receives null when the order does not exist yet.
+   */
+  update(
+    tenantId: string,
+    orderId: string,
+    mutate: (current: Order | null) => Order,
+  ): Promise<Order>
+}
@@ -0,0 +1,122 @@
+/**
+ * Currency Provider
+ * Resolves the shopper's display currency from the `currency` URL param
+ * (remembered across navigation) and converts base-currency prices for display
+ */
+'use client'
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import { usePreferencesState } from '@/lib/hooks/useUrlState'
+import type { TenantCurrencyConfig } from '@/lib/types/tenant'
+import {
+  convertMoney,
+  CurrencySettings,
+  ExchangeRateTable,
+  getAvailableCurrencies,
+  getCurrencySettings,
+  resolveDisplayCurrency,
+} from '@/lib/utils/currency'
+import { formatMoney, Money } from '@/lib/utils/money'
+
+interface CurrencyContextValue {
+  settings: CurrencySettings
+  rates: ExchangeRateTable
+  currency: string
+  setCurrency: (currency: string) => void
+}
+
+const defaultSettings = getCurrencySettings()
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  settings: defaultSettings,
+  rates: { base: defaultSettings.base, rates: {} },
+  currency: defaultSettings.base,
+  setCurrency: () => {},
+})
+
+interface CurrencyProviderProps {
+  children: ReactNode
+  currency?: TenantCurrencyConfig
+  rates?: ExchangeRateTable
+}
+
+export function CurrencyProvider({
+  children,
+  currency: config,
+  rates,
+}: CurrencyProviderProps) {
+  const settings = useMemo(() => getCurrencySettings(config), [config])
+  const table = useMemo(
+    () => rates ?? { base: settings.base, rates: {} },
+    [rates, settings.base],
+  )
+  const [{ currency: requested }, setPreferences] = usePreferencesState()
+  const [remembered, setRemembered] = useState<string | undefined>()
+
+  // Links drop the query string, so keep the last explicit choice
+  useEffect(() => {
+    if (requested) setRemembered(requested)
+  }, [requested])
+
+  const currency = resolveDisplayCurrency(
+    requested ?? remembered,
+    settings,
+    table,
+  )
+
+  const setCurrency = useCallback(
+    (next: string) => {
+      setRemembered(next)
+      setPreferences({ currency: next === settings.base ? null : next })
+    },
+    [setPreferences, settings.base],
+  )
+
+  const value = useMemo(
+    () => ({ settings, rates: table, currency, setCurrency }),
+    [settings, table, currency, setCurrency],
+  )
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+/**
+ * Display currency and helpers to show base-currency prices in it
+ */
+export function useCurrency() {
+  const { settings, rates, currency, setCurrency } = useContext(CurrencyContext)
+
+  const convert = useCallback(
+    (value: Money) => convertMoney(value, currency, rates),
+    [currency, rates],
+  )
+
+  const formatPrice = useCallback(
+    (value: Money) => formatMoney(convert(value)),
+    [convert],
+  )
+
+  return {
+    /** Currency catalog prices and checkout use */
+    baseCurrency: settings.base,
+    /** Currency prices are displayed in */
+    currency,
+    currencies: getAvailableCurrencies(settings, rates),
+    isConverted: currency !== settings.base,
+    setCurrency,
+    convert,
+    formatPrice,
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Products Service Provider
+ * Gives client components the ProductsService for the tenant's catalog
+ */
+'use client'
+
+import { createContext, ReactNode, useContext } from 'react'
+import {
+  getProductsService,
+  ProductsService,
+  productsService,
+} from '@/lib/services/products/products-service'
+import type { TenantCatalogConfig } from '@/lib/types/tenant'
+
+const ProductsServiceContext = createContext<ProductsService>(productsService)
+
+interface ProductsServiceProviderProps {
+  children: ReactNode
+  catalog?: TenantCatalogConfig
+}
+
+export function ProductsServiceProvider({
+  children,
+  catalog,
+}: ProductsServiceProviderProps) {
+  return (
+    <ProductsServiceContext.Provider value={getProductsService(catalog)}>
+      {children}
+    </ProductsServiceContext.Provider>
+  )
+}
+
+/**
+ * ProductsService for the current tenant (DummyJSON outside a provider)
+ */
+export function useProductsService(): ProductsService {
+  return useContext(ProductsServiceContext)
+}
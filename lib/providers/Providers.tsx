@@ -4,25 +4,61 @@
  */
 'use client'
 
+import { CartRevalidator } from '@/lib/hooks/useCartRevalidation'
+import { CartSync } from '@/lib/hooks/useCartSync'
 import { AppStoreProvider } from './StoreProvider'
+import { CurrencyProvider } from './CurrencyProvider'
+import { ProductsServiceProvider } from './ProductsServiceProvider'
 import { QueryProvider } from './QueryProvider'
 import { ReactNode } from 'react'
 import type { StoreState } from '@/lib/stores/store'
+import type {
+  TenantCatalogConfig,
+  TenantCurrencyConfig,
+} from '@/lib/types/tenant'
+import type { ExchangeRateTable } from '@/lib/utils/currency'
 
 interface ProvidersProps {
   children: ReactNode
   initialState?: Partial<StoreState>
+  tenantId?: string
+  // Sync the cart with /api/cart across the shopper's devices
+  cartSync?: boolean
+  catalog?: TenantCatalogConfig
+  currency?: TenantCurrencyConfig
+  rates?: ExchangeRateTable
 }
 
 /**
  * Providers component following host-consumer-website pattern
- * Combines Zustand store and React Query client providers
+ * Combines the tenant's Zustand store, React Query client, catalog and currency
  */
-export function Providers({ children, initialState }: ProvidersProps) {
+export function Providers({
+  children,
+  initialState,
+  tenantId,
+  cartSync = false,
+  catalog,
+  currency,
+  rates,
+}: ProvidersProps) {
   return (
-    <AppStoreProvider initialState={initialState}>
+    // Keyed by tenant so switching storefronts loads that tenant's cart
+    <AppStoreProvider
+      key={tenantId}
+      initialState={initialState}
+      tenantId={tenantId}
+    >
       {/* Provide React Query client (keeping DevTools as requested) */}
-      <QueryProvider>{children}</QueryProvider>
+      <QueryProvider>
+        <ProductsServiceProvider catalog={catalog}>
+          <CartRevalidator />
+          <CartSync enabled={cartSync} />
+          <CurrencyProvider currency={currency} rates={rates}>
+            {children}
+          </CurrencyProvider>
+        </ProductsServiceProvider>
+      </QueryProvider>
     </AppStoreProvider>
   )
 }
@@ -6,7 +6,9 @@
 
 import type { AppStore } from '@/lib/stores/store'
 import { createAppStore, StoreState } from '@/lib/stores/store'
-import { createContext, useContext, useEffect, useRef } from 'react'
+import { calculateCartTotals } from '@/lib/utils/pricing'
+import { useCurrency } from './CurrencyProvider'
+import { createContext, useContext, useEffect, useMemo, useRef } from 'react'
 import { useStore as useZustandStore } from 'zustand'
 import { useShallow } from 'zustand/react/shallow'
 
@@ -21,6 +23,8 @@ export const StoreContext = createContext<AppStore | null>(null)
 interface AppStoreProviderProps {
   children: React.ReactNode
   initialState?: Partial<StoreState>
+  // Tenant whose saved cart is loaded
+  tenantId?: string
 }
 
 /**
@@ -31,13 +35,14 @@ interface AppStoreProviderProps {
 export function AppStoreProvider({
   children,
   initialState,
+  tenantId,
 }: AppStoreProviderProps) {
   // Create store instance once per component mount
   const storeRef = useRef<AppStore | null>(null)
 
   if (!storeRef.current) {
     // eslint-disable-next-line
-    storeRef.current = createAppStore(initialState as any)
+    storeRef.current = createAppStore(initialState as any, tenantId)
   }
 
   // Handle client-side hydration
@@ -115,19 +120,12 @@ export const useCart = () => {
     throw new Error('useCart must be used within StoreProvider')
   }
 
-  return useZustandStore(
+  const cart = useZustandStore(
     store,
     useShallow(state => {
       // Calculate computed properties reactively
       const totalItems =
         state.items?.reduce((total, item) => total + item.quantity, 0) || 0
-      const totalPrice =
-        state.items?.reduce((total, item) => {
-          const itemPrice = item.discountPercentage
-            ? item.price - (item.price * item.discountPercentage) / 100
-            : item.price
-          return total + itemPrice * item.quantity
-        }, 0) || 0
       const itemCount = state.items?.length || 0
       const isEmpty = itemCount === 0
 
@@ -142,6 +140,9 @@ export const useCart = () => {
         // Cart state
         items: state.items,
         isOpen: state.isOpen,
+        shipping: state.shipping,
+        couponCode: state.couponCode,
+        cartIssues: state.cartIssues,
         isLoading: state.isLoading,
         error: state.error,
 
@@ -152,18 +153,30 @@ export const useCart = () => {
         clearCart: state.clearCart,
         toggleCart: state.toggleCart,
         setCartOpen: state.setCartOpen,
+        setShipping: state.setShipping,
+        setCouponCode: state.setCouponCode,
+        revalidateItems: state.revalidateItems,
+        dismissCartIssues: state.dismissCartIssues,
         setLoading: state.setLoading,
         setError: state.setError,
         clearError: state.clearError,
 
         // Computed properties (calculated reactively)
         totalItems,
-        totalPrice,
         itemCount,
         isEmpty,
       }
     }),
   )
+
+  // Money is an object, so keep it out of the shallow-compared selector
+  const { baseCurrency } = useCurrency()
+  const totalPrice = useMemo(
+    () => calculateCartTotals(cart.items || [], baseCurrency).total,
+    [cart.items, baseCurrency],
+  )
+
+  return { ...cart, totalPrice }
 }
 
 /**
@@ -0,0 +1,284 @@
+/**
+ * On-demand revalidation (server only)
+ * Turns /api/revalidate requests into cache purges. Tenant, catalog and
+ * product targets purge one tenant's tagged fetches and in-process caches;
+ * paths, raw tags and global purges need the admin secret.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { z } from 'zod'
+import { catalogTag, productTag, tenantTag } from './cache-tags'
+import { invalidateCatalogFile, invalidateShareCards } from './catalog'
+import { ERROR_CODES } from './config/api-endpoints'
+import { formatSchemaIssues } from './schemas/tenant.schema'
+import {
+  AuthenticationError,
+  TenantError,
+  ValidationError,
+} from './services/base/errors'
+import {
+  getTenantConfig,
+  invalidateTenantConfig,
+  loadTenantRegistry,
+} from './tenant'
+
+/** Most targets accepted in one request */
+export const MAX_REVALIDATION_TARGETS = 50
+
+const RevalidationTargetSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('tenant') }),
+  z.object({ type: z.literal('catalog') }),
+  z.object({ type: z.literal('product'), id: z.number().int().positive() }),
+  z.object({ type: z.literal('path'), path: z.string().startsWith('/') }),
+  z.object({ type: z.literal('tag'), tag: z.string().min(1) }),
+])
+
+export const RevalidationRequestSchema = z.object({
+  secret: z.string({ error: 'secret is required' }),
+  tenantId: z.string().min(1).optional(),
+  targets: z
+    .array(RevalidationTargetSchema)
+    .min(1)
+    .max(MAX_REVALIDATION_TARGETS)
+    .optional(),
+  // Single-target shorthand from before batches
+  path: z.string().startsWith('/').optional(),
+  tag: z.string().min(1).optional(),
+})
+
+export type RevalidationTarget = z.infer<typeof RevalidationTargetSchema>
+export type RevalidationRequest = z.infer<typeof RevalidationRequestSchema>
+
+/**
+ * `admin` holds REVALIDATION_SECRET; `tenant` holds the tenant's own secret
+ */
+export type RevalidationScope = 'admin' | 'tenant'
+
+/**
+ * What a request purged
+ */
+export interface RevalidationResult {
+  tenantId: string | null
+  tags: string[]
+  paths: string[]
+  /** Tenant config cache keys dropped */
+  configs: string[]
+  /** Catalog files dropped from the in-process cache */
+  catalogFiles: string[]
+  /** Rendered share card cache keys dropped */
+  shareCards: string[]
+}
+
+// Targets a tenant secret may purge; the rest reach other tenants' caches
+const TENANT_TARGET_TYPES: RevalidationTarget['type'][] = [
+  'tenant',
+  'catalog',
+  'product',
+]
+
+/**
+ * Validate the untrusted request body
+ */
+export function parseRevalidationRequest(input: unknown): RevalidationRequest {
+  const result = RevalidationRequestSchema.safeParse(input)
+
+  if (!result.success) {
+    throw new ValidationError(
+      formatSchemaIssues(result.error.issues).join('; '),
+      { status: 400 },
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Targets of a request; the single-target shorthand maps onto a batch, and
+ * an empty batch means a global purge
+ */
+export function getRevalidationTargets(
+  request: RevalidationRequest,
+): RevalidationTarget[] {
+  if (request.targets) return request.targets
+  if (request.tenantId) return [{ type: 'tenant' }]
+  if (request.path) return [{ type: 'path', path: request.path }]
+  if (request.tag) return [{ type: 'tag', tag: request.tag }]
+  return []
+}
+
+/**
+ * Environment variable holding a tenant's own secret,
+ * e.g. REVALIDATION_SECRET_ABC_RENTALS
+ */
+export function getTenantSecretVariable(tenantId: string): string {
+  return `REVALIDATION_SECRET_${tenantId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+}
+
+/**
+ * Constant-time secret comparison
+ * Digests are compared so neither the content nor the length of the
+ * expected secret leaks through timing.
+ */
+export function secretsMatch(
+  candidate: string,
+  expected: string | undefined,
+): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  const matches = timingSafeEqual(digest(candidate), digest(expected ?? ''))
+
+  return matches && Boolean(expected)
+}
+
+/**
+ * Scope granted by a secret, or null when it matches neither the admin
+ * secret nor the tenant's own
+ */
+export function authorizeRevalidation(
+  secret: string,
+  tenantId: string | undefined,
+  env: Record<string, string | undefined> = process.env,
+): RevalidationScope | null {
+  const admin = secretsMatch(secret, env.REVALIDATION_SECRET)
+  const tenant =
+    tenantId !== undefined &&
+    secretsMatch(secret, env[getTenantSecretVariable(tenantId)])
+
+  if (admin) return 'admin'
+  if (tenant) return 'tenant'
+  return null
+}
+
+function forbidden(message: string) {
+  return new AuthenticationError(message, {
+    status: 403,
+    code: ERROR_CODES.AUTHORIZATION_ERROR,
+  })
+}
+
+/**
+ * Reject targets outside the secret's scope or missing their tenant
+ */
+export function checkRevalidationTargets(
+  targets: RevalidationTarget[],
+  scope: RevalidationScope,
+  tenantId: string | undefined,
+): void {
+  if (scope === 'tenant') {
+    if (targets.length === 0) {
+      throw forbidden('A tenant secret cannot purge every tenant')
+    }
+
+    const target = targets.find(
+      target => !TENANT_TARGET_TYPES.includes(target.type),
+    )
+    if (target) {
+      throw forbidden(
+        `A tenant secret cannot revalidate ${target.type} targets`,
+      )
+    }
+  }
+
+  const needsTenant = targets.find(target =>
+    TENANT_TARGET_TYPES.includes(target.type),
+  )
+  if (needsTenant && !tenantId) {
+    throw new ValidationError(
+      `tenantId is required for ${needsTenant.type} targets`,
+      { status: 400 },
+    )
+  }
+}
+
+/**
+ * Tags purged for a target of `tenantId`
+ */
+export function getTargetTags(
+  target: RevalidationTarget,
+  tenantId: string | undefined,
+): string[] {
+  switch (target.type) {
+    case 'tenant':
+      return [tenantTag(tenantId!)]
+    case 'catalog':
+      return [catalogTag(tenantId!)]
+    case 'product':
+      return [productTag(tenantId!, target.id)]
+    case 'tag':
+      return [target.tag]
+    default:
+      return []
+  }
+}
+
+/**
+ * Purge everything a request asks for and report what was purged
+ */
+export async function revalidate(
+  request: RevalidationRequest,
+  env: Record<string, string | undefined> = process.env,
+): Promise<RevalidationResult> {
+  const { tenantId } = request
+  const scope = authorizeRevalidation(request.secret, tenantId, env)
+
+  if (!scope) {
+    throw new AuthenticationError('Invalid secret', { status: 401 })
+  }
+
+  const targets = getRevalidationTargets(request)
+  checkRevalidationTargets(targets, scope, tenantId)
+
+  if (tenantId && !(await loadTenantRegistry()).tenants[tenantId]) {
+    throw new TenantError(`Unknown tenant: ${tenantId}`, { status: 404 })
+  }
+
+  const result: RevalidationResult = {
+    tenantId: tenantId ?? null,
+    tags: [],
+    paths: [],
+    configs: [],
+    catalogFiles: [],
+    shareCards: [],
+  }
+
+  if (targets.length === 0) {
+    result.configs = invalidateTenantConfig()
+    result.catalogFiles = invalidateCatalogFile()
+    result.shareCards = invalidateShareCards()
+    revalidatePath('/')
+    result.paths.push('/')
+    return result
+  }
+
+  const tags = new Set(
+    targets.flatMap(target => getTargetTags(target, tenantId)),
+  )
+  const paths = new Set(
+    targets.flatMap(target => (target.type === 'path' ? [target.path] : [])),
+  )
+  const types = new Set(targets.map(target => target.type))
+
+  if (tenantId && types.has('tenant')) {
+    result.configs = invalidateTenantConfig(tenantId)
+  }
+
+  if (tenantId && TENANT_TARGET_TYPES.some(type => types.has(type))) {
+    // File catalogs are read from disk rather than fetched, so drop the file
+    const { catalog } = await getTenantConfig(tenantId)
+    if (catalog?.provider === 'file') {
+      result.catalogFiles = invalidateCatalogFile(catalog.file)
+    }
+  }
+
+  // Product cards re-render on their own once the price they show changes
+  if (tenantId && (types.has('tenant') || types.has('catalog'))) {
+    result.shareCards = invalidateShareCards(tenantId)
+  }
+
+  tags.forEach(tag => revalidateTag(tag))
+  paths.forEach(path => revalidatePath(path))
+  result.tags = [...tags]
+  result.paths = [...paths]
+
+  return result
+}
@@ -0,0 +1,222 @@
+/**
+ * Tests for the shared tenant configuration schema
+ */
+
+import artsShopConfig from '../../../config/tenants/arts-shop.json'
+import { parseTenantConfig, parseTenantSEO } from '../tenant.schema'
+
+const cloneConfig = () => JSON.parse(JSON.stringify(artsShopConfig))
+
+describe('Tenant Config Schema', () => {
+  describe('parseTenantConfig', () => {
+    it('should accept a valid tenant configuration', () => {
+      const result = parseTenantConfig(artsShopConfig)
+
+      expect(result.success).toBe(true)
+      expect(result.errors).toEqual([])
+      expect(result.data?.id).toBe('arts-shop')
+    })
+
+    it('should report missing fields by path', () => {
+      const config = cloneConfig()
+      delete config.content.hero.headline
+      config.metadata.title = ''
+
+      const result = parseTenantConfig(config)
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual([
+        'content.hero.headline: required',
+        'metadata.title: required',
+      ])
+    })
+
+    it('should reject unknown theme IDs', () => {
+      const config = cloneConfig()
+      config.theme = 'sunset'
+
+      const result = parseTenantConfig(config)
+
+      expect(result.errors).toEqual([
+        'theme: must be one of: ocean, fire, forest',
+      ])
+    })
+
+    it('should validate legacy theme objects field by field', () => {
+      const config = cloneConfig()
+      config.theme = { primary: '#dc2626', secondary: '#6b7280', text: '#000' }
+
+      const result = parseTenantConfig(config)
+
+      expect(result.errors).toEqual(['theme.background: required'])
+    })
+
+    it('should reject themes that are neither IDs nor objects', () => {
+      const config = cloneConfig()
+      config.theme = 42
+
+      const result = parseTenantConfig(config)
+
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]).toMatch(/^theme: must be one of/)
+    })
+
+    it('should accept custom themes', () => {
+      const config = cloneConfig()
+      config.theme = {
+        colors: {
+          primary: '#7c3aed',
+          secondary: '#57534e',
+          accent: '#f59e0b',
+          accentForeground: '#1c1917',
+          background: '#fffbeb',
+          foreground: '#1c1917',
+          muted: '#fef3c7',
+          border: '#e7e5e4',
+          ring: '#7c3aed',
+        },
+        radius: '0.75rem',
+        fonts: { heading: 'DM Sans', body: 'Nunito Sans' },
+      }
+
+      expect(parseTenantConfig(config).errors).toEqual([])
+
+      config.theme.colors.border = 'beige'
+      config.theme.fonts.body = 'Comic Sans'
+      config.theme.radius = 'round'
+
+      expect(parseTenantConfig(config).errors).toEqual([
+        'theme.colors.border: must be a hex color, e.g. #2563eb',
+        'theme.radius: must be a CSS length, e.g. 0.5rem',
+        'theme.fonts.body: must be one of: Poppins, Nunito Sans, IBM Plex Mono, DM Sans',
+      ])
+    })
+
+    it('should report low contrast in custom themes', () => {
+      const config = cloneConfig()
+      config.theme = {
+        colors: {
+          primary: '#fde047',
+          secondary: '#a8a29e',
+          accent: '#0f766e',
+          background: '#ffffff',
+          foreground: '#1c1917',
+          muted: '#f5f5f4',
+          border: '#e7e5e4',
+          ring: '#0f766e',
+        },
+        dark: { background: '#334155' },
+      }
+
+      expect(parseTenantConfig(config).errors).toEqual([
+        'theme.colors.mutedForeground: contrast 2.5:1 against background, needs at least 4.5:1',
+        'theme.colors.mutedForeground: contrast 2.3:1 against muted, needs at least 4.5:1',
+        'theme.colors.primaryForeground: contrast 1.3:1 against primary, needs at least 4.5:1',
+        'theme.dark.mutedForeground: contrast 4:1 against background, needs at least 4.5:1',
+        'theme.dark.primaryForeground: contrast 1.2:1 against primary, needs at least 4.5:1',
+        'theme.dark.ring: contrast 1.8:1 against background, needs at least 3:1',
+      ])
+    })
+
+    it('should include nested SEO errors', () => {
+      const config = cloneConfig()
+      config.metadata.seo.twitter.card = 'gallery'
+
+      const result = parseTenantConfig(config)
+
+      expect(result.errors).toEqual([
+        'metadata.seo.twitter.card: must be one of: summary, summary_large_image, app, player',
+      ])
+    })
+
+    it('should validate the catalog provider config', () => {
+      const config = cloneConfig()
+
+      config.catalog = { provider: 'file', file: '../secrets.json' }
+      expect(parseTenantConfig(config).errors).toEqual([
+        'catalog.file: must be a .json file name inside public/catalogs',
+      ])
+
+      config.catalog = { provider: 'shopify' }
+      expect(parseTenantConfig(config).errors).toEqual([
+        'catalog.provider: must be one of: dummyjson, file',
+      ])
+    })
+
+    it('should validate currency codes', () => {
+      const config = cloneConfig()
+
+      config.currency = { base: 'EUR', display: ['EUR', 'usd'] }
+      expect(parseTenantConfig(config).errors).toEqual([
+        'currency.display.1: must be an upper-case ISO 4217 currency code',
+      ])
+    })
+
+    it('should validate tax rules', () => {
+      const config = cloneConfig()
+
+      config.tax.defaultRegion = 'NY'
+      config.tax.regions.CA.rate = 107.25
+      expect(parseTenantConfig(config).errors).toEqual([
+        'tax.regions.CA.rate: Too big: expected number to be <=100',
+        'tax.defaultRegion: must be one of the configured regions',
+      ])
+    })
+
+    it('should validate shipping zones and methods', () => {
+      const config = cloneConfig()
+      const [ground, express] = config.shipping.zones.us.methods
+
+      config.shipping.defaultZone = 'eu'
+      config.shipping.zones.us.countries = ['usa']
+      express.id = ground.id
+      express.delivery = { minDays: 3, maxDays: 1 }
+      expect(parseTenantConfig(config).errors).toEqual([
+        'shipping.zones.us.countries.0: must be an upper-case ISO 3166-1 alpha-2 country code',
+        'shipping.zones.us.methods.1.delivery.maxDays: must not be less than minDays',
+        'shipping.defaultZone: must be one of the configured zones',
+        'shipping.zones.us.methods.1.id: duplicate method id "ground"',
+      ])
+
+      config.shipping = cloneConfig().shipping
+      config.shipping.zones.us.methods[0].type = 'pickup'
+      expect(parseTenantConfig(config).errors).toEqual([
+        'shipping.zones.us.methods.0.type: must be one of: flat, weight, free',
+      ])
+
+      config.shipping = cloneConfig().shipping
+      config.shipping.zones.us.taxRegion = 'NY'
+      expect(parseTenantConfig(config).errors).toEqual([
+        'shipping.zones.us.taxRegion: must be one of the configured tax regions',
+      ])
+    })
+
+    it('should validate promotions', () => {
+      const config = cloneConfig()
+      const [welcome, beauty] = config.promotions
+
+      welcome.code = 'welcome'
+      beauty.id = welcome.id
+      beauty.startsAt = '2028-01-01T00:00:00Z'
+      expect(parseTenantConfig(config).errors).toEqual([
+        'promotions.0.code: must be 3-32 upper-case letters, digits or dashes',
+        'promotions.1.id: duplicate promotion id "welcome"',
+        'promotions.1.endsAt: must be after startsAt',
+      ])
+    })
+  })
+
+  describe('parseTenantSEO', () => {
+    it('should reject non-URL canonical bases and non-array keywords', () => {
+      const result = parseTenantSEO({
+        keywords: 'shop, cars',
+        canonicalBase: 'arts-shop.vercel.app',
+      })
+
+      expect(result.errors).toEqual([
+        'keywords: expected array',
+        'canonicalBase: must be a full URL starting with http/https',
+      ])
+    })
+  })
+})
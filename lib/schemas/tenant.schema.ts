@@ -0,0 +1,662 @@
+/**
+ * Tenant configuration schema
+ * Single declarative source of truth for the tenant config shape.
+ * Shared by the tenant loader, the SEO helpers and
+ * scripts/test-tenant-configs.js, which transpiles it and everything it
+ * imports from lib/ on the fly. Import only other lib/ modules, by relative
+ * path, that follow the same rules: no path aliases, no Node-only APIs and
+ * no imports from outside lib/ (currently ../tenant-domains and ../themes).
+ */
+
+import { z } from 'zod'
+import { getDomainAliases } from '../tenant-domains'
+import { findContrastIssues, formatContrastIssue } from '../themes/contrast'
+import {
+  getDarkPalette,
+  getLightPalette,
+  THEME_FONT_FAMILIES,
+} from '../themes/themes'
+
+// ============================================================================
+// Enumerations
+// ============================================================================
+
+export const TENANT_THEME_IDS = ['ocean', 'fire', 'forest'] as const
+
+export const CATALOG_PROVIDER_IDS = ['dummyjson', 'file'] as const
+
+export const SHIPPING_METHOD_TYPES = ['flat', 'weight', 'free'] as const
+
+export const PROMOTION_TYPES = ['percentage', 'fixed', 'buy-x-get-y'] as const
+
+export const TWITTER_CARD_TYPES = [
+  'summary',
+  'summary_large_image',
+  'app',
+  'player',
+] as const
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const requiredString = () => z.string().min(1)
+
+const hexColor = () =>
+  z.string().regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, {
+    error: 'must be a hex color, e.g. #2563eb',
+  })
+
+// Legacy theme format (object with colors); strict so it can't be
+// mistaken for a custom theme
+export const TenantThemeObjectSchema = z.strictObject({
+  primary: requiredString(),
+  secondary: requiredString(),
+  background: requiredString(),
+  text: requiredString(),
+})
+
+// New theme format (theme ID string)
+export const TenantThemeIdSchema = z.enum(TENANT_THEME_IDS)
+
+// Every Theme.colors token
+export const TenantThemeColorsSchema = z.object({
+  primary: hexColor(),
+  secondary: hexColor(),
+  accent: hexColor(),
+  background: hexColor(),
+  foreground: hexColor(),
+  muted: hexColor(),
+  border: hexColor(),
+  ring: hexColor(),
+  primaryForeground: hexColor().optional(),
+  accentForeground: hexColor().optional(),
+  mutedForeground: hexColor().optional(),
+  secondarySurface: hexColor().optional(),
+  secondaryHover: hexColor().optional(),
+})
+
+// Custom theme format; text and focus ring colors must meet WCAG AA
+// contrast in both light and dark mode
+export const TenantCustomThemeSchema = z
+  .strictObject({
+    name: requiredString().optional(),
+    colors: TenantThemeColorsSchema,
+    // Overrides of the default dark palette
+    dark: TenantThemeColorsSchema.partial().optional(),
+    radius: z
+      .string()
+      .regex(/^(0|\d*\.?\d+(rem|px|em))$/, {
+        error: 'must be a CSS length, e.g. 0.5rem',
+      })
+      .optional(),
+    fonts: z
+      .object({
+        heading: z.enum(THEME_FONT_FAMILIES),
+        body: z.enum(THEME_FONT_FAMILIES),
+      })
+      .partial()
+      .optional(),
+  })
+  .superRefine((theme, ctx) => {
+    const palettes = [
+      { path: 'colors', palette: getLightPalette(theme.colors) },
+      { path: 'dark', palette: getDarkPalette(theme.colors, theme.dark) },
+    ]
+
+    for (const { path, palette } of palettes) {
+      findContrastIssues(palette).forEach(issue => {
+        ctx.addIssue({
+          code: 'custom',
+          path: [path, issue.foreground],
+          message: formatContrastIssue(issue),
+        })
+      })
+    }
+  })
+
+// Union type supporting all formats
+export const TenantThemeSchema = z.union(
+  [TenantThemeIdSchema, TenantCustomThemeSchema, TenantThemeObjectSchema],
+  {
+    error: `must be one of: ${TENANT_THEME_IDS.join(', ')}, a custom theme object with colors, or an object with primary, secondary, background and text colors`,
+  },
+)
+
+export const TenantHeroContentSchema = z.object({
+  headline: requiredString(),
+  description: requiredString(),
+})
+
+export const TenantAboutContentSchema = z.object({
+  title: requiredString(),
+  content: requiredString(),
+})
+
+export const TenantContactInfoSchema = z.object({
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  address: z.string().optional(),
+})
+
+export const TenantContentSchema = z.object({
+  hero: TenantHeroContentSchema,
+  about: TenantAboutContentSchema,
+  contact: TenantContactInfoSchema,
+})
+
+export const TenantSEOSchema = z.object({
+  keywords: z.array(z.string()).optional(),
+  favicon: z.string().optional(),
+  openGraph: z
+    .object({
+      image: z.string().optional(),
+      type: z.string().optional(),
+      locale: z.string().optional(),
+    })
+    .optional(),
+  twitter: z
+    .object({
+      card: z.enum(TWITTER_CARD_TYPES).optional(),
+      site: z.string().optional(),
+      creator: z.string().optional(),
+    })
+    .optional(),
+  canonicalBase: z
+    .string()
+    .regex(/^https?:\/\//, {
+      error: 'must be a full URL starting with http/https',
+    })
+    .optional(),
+  robots: z.string().optional(),
+})
+
+export const TenantMetadataSchema = z.object({
+  title: requiredString(),
+  description: requiredString(),
+  seo: TenantSEOSchema.optional(),
+})
+
+// Assortment rules applied on top of the catalog backend
+export const TenantCatalogRulesSchema = z.object({
+  includeCategories: z.array(requiredString()).optional(),
+  excludeCategories: z.array(requiredString()).optional(),
+  // Only these brands are shown when set
+  brands: z.array(requiredString()).optional(),
+  // Shown first, in this order
+  pinnedProductIds: z.array(z.number().int().positive()).optional(),
+  hiddenSkus: z.array(requiredString()).optional(),
+  // Percentages added to catalog prices; category entries override `percent`
+  priceMarkup: z
+    .object({
+      percent: z.number().min(0).optional(),
+      categories: z.record(z.string(), z.number().min(0)).optional(),
+    })
+    .optional(),
+})
+
+// Product catalog backend (defaults to DummyJSON when omitted)
+export const TenantCatalogSchema = z.discriminatedUnion(
+  'provider',
+  [
+    z.object({
+      provider: z.literal('dummyjson'),
+      baseURL: z
+        .string()
+        .regex(/^https?:\/\/[^/]+(\/.*[^/])?$/, {
+          error: 'must be a full URL without a trailing slash',
+        })
+        .optional(),
+      rules: TenantCatalogRulesSchema.optional(),
+    }),
+    z.object({
+      provider: z.literal('file'),
+      // JSON file in public/catalogs
+      file: z.string().regex(/^[\w-]+\.json$/, {
+        error: 'must be a .json file name inside public/catalogs',
+      }),
+      rules: TenantCatalogRulesSchema.optional(),
+    }),
+  ],
+  { error: `must be one of: ${CATALOG_PROVIDER_IDS.join(', ')}` },
+)
+
+const currencyCode = () =>
+  z.string().regex(/^[A-Z]{3}$/, {
+    error: 'must be an upper-case ISO 4217 currency code',
+  })
+
+// Catalog prices are in `base`; shoppers may switch to `display` currencies
+export const TenantCurrencySchema = z.object({
+  base: currencyCode(),
+  display: z.array(currencyCode()).optional(),
+})
+
+const percentage = () => z.number().min(0).max(100)
+
+export const TAX_PRICING_MODES = ['inclusive', 'exclusive'] as const
+
+// Tax rates per region; category rates override the region's standard rate
+export const TenantTaxRegionSchema = z.object({
+  // Shown in the cart, e.g. "VAT" or "Sales tax"
+  label: z.string().optional(),
+  rate: percentage(),
+  categories: z.record(z.string(), percentage()).optional(),
+})
+
+export const TenantTaxSchema = z
+  .object({
+    // inclusive: catalog prices already contain tax (EU VAT style)
+    pricing: z.enum(TAX_PRICING_MODES),
+    defaultRegion: requiredString(),
+    regions: z.record(z.string(), TenantTaxRegionSchema),
+    exemptCategories: z.array(requiredString()).optional(),
+  })
+  .superRefine((tax, ctx) => {
+    if (!tax.regions[tax.defaultRegion]) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['defaultRegion'],
+        message: 'must be one of the configured regions',
+      })
+    }
+  })
+
+// Configured amounts are in major units of the base currency, like catalog prices
+const majorAmount = () => z.number().min(0)
+
+const countryCode = () =>
+  z.string().regex(/^[A-Z]{2}$/, {
+    error: 'must be an upper-case ISO 3166-1 alpha-2 country code',
+  })
+
+// Business days in transit, shown as an estimated delivery window
+export const TenantDeliveryEstimateSchema = z
+  .object({
+    minDays: z.number().int().min(0),
+    maxDays: z.number().int().min(0),
+  })
+  .refine(delivery => delivery.maxDays >= delivery.minDays, {
+    path: ['maxDays'],
+    error: 'must not be less than minDays',
+  })
+
+const slug = () =>
+  z.string().regex(/^[a-z0-9-]+$/, {
+    error: 'must be lowercase letters, digits and dashes',
+  })
+
+const shippingMethodBase = {
+  id: slug(),
+  label: requiredString(),
+  delivery: TenantDeliveryEstimateSchema,
+}
+
+export const TenantShippingMethodSchema = z.discriminatedUnion(
+  'type',
+  [
+    z.object({
+      ...shippingMethodBase,
+      type: z.literal('flat'),
+      amount: majorAmount(),
+    }),
+    // baseAmount plus perKg for each started kilogram
+    z.object({
+      ...shippingMethodBase,
+      type: z.literal('weight'),
+      baseAmount: majorAmount(),
+      perKg: majorAmount(),
+      maxWeight: z.number().positive().optional(),
+    }),
+    // Offered once the discounted subtotal reaches minSubtotal
+    z.object({
+      ...shippingMethodBase,
+      type: z.literal('free'),
+      minSubtotal: majorAmount(),
+    }),
+  ],
+  { error: `must be one of: ${SHIPPING_METHOD_TYPES.join(', ')}` },
+)
+
+export const TenantShippingZoneSchema = z.object({
+  label: requiredString(),
+  countries: z.array(countryCode()).min(1),
+  methods: z.array(TenantShippingMethodSchema).min(1),
+  // Tax region charged for deliveries here; defaults to tax.defaultRegion
+  taxRegion: requiredString().optional(),
+})
+
+export const TenantShippingSchema = z
+  .object({
+    defaultZone: requiredString(),
+    zones: z.record(z.string(), TenantShippingZoneSchema),
+  })
+  .superRefine((shipping, ctx) => {
+    if (!shipping.zones[shipping.defaultZone]) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['defaultZone'],
+        message: 'must be one of the configured zones',
+      })
+    }
+
+    for (const [zoneId, zone] of Object.entries(shipping.zones)) {
+      const seen = new Set<string>()
+      zone.methods.forEach((method, index) => {
+        if (seen.has(method.id)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['zones', zoneId, 'methods', index, 'id'],
+            message: `duplicate method id "${method.id}"`,
+          })
+        }
+        seen.add(method.id)
+      })
+    }
+  })
+
+const promotionBase = {
+  id: slug(),
+  // Shown in the cart, e.g. "Summer sale"
+  label: requiredString(),
+  // Coupon code; promotions without one apply automatically
+  code: z
+    .string()
+    .regex(/^[A-Z0-9-]{3,32}$/, {
+      error: 'must be 3-32 upper-case letters, digits or dashes',
+    })
+    .optional(),
+  // Only lines in these categories are discounted
+  categories: z.array(requiredString()).min(1).optional(),
+  // Minimum cart total after catalog discounts
+  minSubtotal: majorAmount().optional(),
+  startsAt: z.iso.datetime({ offset: true }).optional(),
+  endsAt: z.iso.datetime({ offset: true }).optional(),
+}
+
+export const TenantPromotionSchema = z.discriminatedUnion(
+  'type',
+  [
+    z.object({
+      ...promotionBase,
+      type: z.literal('percentage'),
+      percent: percentage(),
+    }),
+    // Spread across eligible lines, never more than they cost
+    z.object({
+      ...promotionBase,
+      type: z.literal('fixed'),
+      amount: majorAmount(),
+    }),
+    // For every `buy` units, the cheapest `get` units are `percent` off
+    z.object({
+      ...promotionBase,
+      type: z.literal('buy-x-get-y'),
+      buy: z.number().int().min(1),
+      get: z.number().int().min(1),
+      percent: percentage().default(100),
+    }),
+  ],
+  { error: `must be one of: ${PROMOTION_TYPES.join(', ')}` },
+)
+
+// Applied in order, each to what earlier promotions left of a line
+export const TenantPromotionsSchema = z
+  .array(TenantPromotionSchema)
+  .superRefine((promotions, ctx) => {
+    const ids = new Set<string>()
+    const codes = new Set<string>()
+
+    promotions.forEach((promotion, index) => {
+      if (ids.has(promotion.id)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [index, 'id'],
+          message: `duplicate promotion id "${promotion.id}"`,
+        })
+      }
+      ids.add(promotion.id)
+
+      if (promotion.code) {
+        if (codes.has(promotion.code)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [index, 'code'],
+            message: `duplicate promotion code "${promotion.code}"`,
+          })
+        }
+        codes.add(promotion.code)
+      }
+
+      if (
+        promotion.startsAt &&
+        promotion.endsAt &&
+        Date.parse(promotion.endsAt) <= Date.parse(promotion.startsAt)
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [index, 'endsAt'],
+          message: 'must be after startsAt',
+        })
+      }
+    })
+  })
+
+// Server-side cart shared across the shopper's devices
+export const TenantCartSchema = z.object({
+  sync: z.boolean(),
+  // Idle time after which a synced cart counts as abandoned
+  abandonedAfterHours: z.number().int().positive().optional(),
+})
+
+export const TenantConfigSchema = z
+  .object({
+    id: requiredString(),
+    name: requiredString(),
+    theme: TenantThemeSchema,
+    content: TenantContentSchema,
+    metadata: TenantMetadataSchema,
+    catalog: TenantCatalogSchema.optional(),
+    currency: TenantCurrencySchema.optional(),
+    tax: TenantTaxSchema.optional(),
+    shipping: TenantShippingSchema.optional(),
+    promotions: TenantPromotionsSchema.optional(),
+    cart: TenantCartSchema.optional(),
+  })
+  .superRefine((config, ctx) => {
+    for (const [zoneId, zone] of Object.entries(config.shipping?.zones ?? {})) {
+      if (zone.taxRegion && !config.tax?.regions[zone.taxRegion]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['shipping', 'zones', zoneId, 'taxRegion'],
+          message: 'must be one of the configured tax regions',
+        })
+      }
+    }
+  })
+
+const domainName = () =>
+  z
+    .string()
+    .regex(
+      /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/,
+      {
+        error: 'must be a lowercase hostname without protocol or port',
+      },
+    )
+
+export const TenantRegistryEntrySchema = z.object({
+  id: requiredString(),
+  name: requiredString(),
+  status: z.enum(['active', 'inactive']),
+  configFile: requiredString(),
+  // First entry is the primary domain; apex/www aliases are implied
+  domains: z.array(domainName()).optional(),
+  redirectToPrimaryDomain: z.boolean().optional(),
+})
+
+export const TenantRegistrySchema = z
+  .object({
+    tenants: z.record(z.string(), TenantRegistryEntrySchema),
+    default: requiredString(),
+  })
+  .superRefine((registry, ctx) => {
+    // A host (or its apex/www alias) may only belong to one tenant
+    const owners = new Map<string, string>()
+
+    for (const [tenantId, entry] of Object.entries(registry.tenants)) {
+      entry.domains?.forEach((domain, index) => {
+        for (const host of getDomainAliases(domain)) {
+          const owner = owners.get(host)
+          if (owner && owner !== tenantId) {
+            ctx.addIssue({
+              code: 'custom',
+              path: ['tenants', tenantId, 'domains', index],
+              message: `${host} is already mapped to ${owner}`,
+            })
+          }
+          owners.set(host, owner || tenantId)
+        }
+      })
+    }
+  })
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export type SchemaParseResult<T> =
+  | { success: true; data: T; errors: [] }
+  | { success: false; data?: undefined; errors: string[] }
+
+/**
+ * Error map producing short, path-friendly messages
+ * e.g. `content.hero.headline: required`
+ */
+const tenantConfigErrorMap: z.core.$ZodErrorMap = issue => {
+  if (issue.input === undefined) return 'required'
+
+  switch (issue.code) {
+    case 'too_small':
+      return issue.origin === 'string' && issue.minimum === 1
+        ? 'required'
+        : undefined
+    case 'invalid_type':
+      return `expected ${issue.expected}`
+    case 'invalid_value':
+      return `must be one of: ${issue.values.join(', ')}`
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Flatten union issues into the branch that matched the input's type,
+ * so `theme.primary: required` is reported instead of a generic union error
+ */
+function flattenIssue(issue: z.core.$ZodIssue): z.core.$ZodIssue[] {
+  if (issue.code !== 'invalid_union') return [issue]
+
+  const hasRootIssue = (branch: z.core.$ZodIssue[], code?: string) =>
+    branch.some(
+      branchIssue =>
+        branchIssue.path.length === 0 && (!code || branchIssue.code === code),
+    )
+
+  // Drop branches whose type didn't match, then prefer ones that only failed deeper
+  let matchingBranches = issue.errors.filter(
+    branch => !hasRootIssue(branch, 'invalid_type'),
+  )
+  if (matchingBranches.length > 1) {
+    matchingBranches = matchingBranches.filter(branch => !hasRootIssue(branch))
+  }
+
+  if (matchingBranches.length !== 1) return [issue]
+
+  return matchingBranches[0].flatMap(branchIssue =>
+    flattenIssue({
+      ...branchIssue,
+      path: [...issue.path, ...branchIssue.path],
+    }),
+  )
+}
+
+/**
+ * Format schema issues as `path.to.field: message` strings
+ */
+export function formatSchemaIssues(issues: z.core.$ZodIssue[]): string[] {
+  return issues.flatMap(flattenIssue).map(issue => {
+    const path = issue.path.map(String).join('.')
+    return path ? `${path}: ${issue.message}` : issue.message
+  })
+}
+
+/**
+ * Parse a value against a schema and collect path-addressed errors
+ */
+export function parseWithSchema<T>(
+  schema: z.ZodType<T>,
+  input: unknown,
+): SchemaParseResult<T> {
+  const result = schema.safeParse(input, { error: tenantConfigErrorMap })
+
+  if (result.success) {
+    return { success: true, data: result.data, errors: [] }
+  }
+
+  return { success: false, errors: formatSchemaIssues(result.error.issues) }
+}
+
+/**
+ * Parse a full tenant configuration
+ */
+export function parseTenantConfig(
+  input: unknown,
+): SchemaParseResult<TenantConfig> {
+  return parseWithSchema(TenantConfigSchema, input)
+}
+
+/**
+ * Parse a tenant SEO configuration block (metadata.seo)
+ */
+export function parseTenantSEO(input: unknown): SchemaParseResult<TenantSEO> {
+  return parseWithSchema(TenantSEOSchema, input)
+}
+
+/**
+ * Parse the tenant registry (config/tenants.json)
+ */
+export function parseTenantRegistry(
+  input: unknown,
+): SchemaParseResult<TenantRegistry> {
+  return parseWithSchema(TenantRegistrySchema, input)
+}
+
+// ============================================================================
+// Inferred Types
+// ============================================================================
+
+export type TenantThemeObject = z.infer<typeof TenantThemeObjectSchema>
+export type TenantThemeId = z.infer<typeof TenantThemeIdSchema>
+export type TenantThemeColors = z.infer<typeof TenantThemeColorsSchema>
+export type TenantCustomTheme = z.infer<typeof TenantCustomThemeSchema>
+export type TenantTheme = z.infer<typeof TenantThemeSchema>
+export type TenantHeroContent = z.infer<typeof TenantHeroContentSchema>
+export type TenantAboutContent = z.infer<typeof TenantAboutContentSchema>
+export type TenantContactInfo = z.infer<typeof TenantContactInfoSchema>
+export type TenantContent = z.infer<typeof TenantContentSchema>
+export type TenantSEO = z.infer<typeof TenantSEOSchema>
+export type TenantMetadata = z.infer<typeof TenantMetadataSchema>
+export type TenantCatalogRules = z.infer<typeof TenantCatalogRulesSchema>
+export type TenantCatalogConfig = z.infer<typeof TenantCatalogSchema>
+export type TenantCurrencyConfig = z.infer<typeof TenantCurrencySchema>
+export type TenantTaxConfig = z.infer<typeof TenantTaxSchema>
+export type TenantTaxRegion = z.infer<typeof TenantTaxRegionSchema>
+export type TenantShippingConfig = z.infer<typeof TenantShippingSchema>
+export type TenantShippingZone = z.infer<typeof TenantShippingZoneSchema>
+export type TenantShippingMethod = z.infer<typeof TenantShippingMethodSchema>
+export type TenantPromotion = z.infer<typeof TenantPromotionSchema>
+export type TenantCartConfig = z.infer<typeof TenantCartSchema>
+export type TenantConfig = z.infer<typeof TenantConfigSchema>
+export type TenantRegistryEntry = z.infer<typeof TenantRegistryEntrySchema>
+export type TenantRegistry = z.infer<typeof TenantRegistrySchema>
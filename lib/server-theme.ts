@@ -5,7 +5,16 @@
  */
 
 import React from 'react'
-import { generateThemeCSS, getTheme, type ThemeId } from './themes'
+import {
+  TenantCustomThemeSchema,
+  parseWithSchema,
+} from './schemas/tenant.schema'
+import {
+  generateThemeCSS,
+  getTheme,
+  isCustomTheme,
+  resolveTenantTheme,
+} from './themes'
 import { TenantTheme } from './types/tenant'
 
 /**
@@ -13,19 +22,8 @@ import { TenantTheme } from './types/tenant'
  * Can be used in server components to inject theme styles
  */
 export function generateServerThemeCSS(theme: TenantTheme): string {
-  if (typeof theme === 'string') {
-    // New theme format: theme ID
-    return generateThemeCSS(theme as ThemeId)
-  } else {
-    // Legacy theme format: determine closest theme
-    const primaryColor = theme.primary
-    let themeId: ThemeId = 'ocean'
-
-    if (primaryColor === '#dc2626') themeId = 'fire'
-    else if (primaryColor === '#059669') themeId = 'forest'
-
-    return generateThemeCSS(themeId)
-  }
+  // Legacy theme objects map to the closest preset
+  return generateThemeCSS(resolveTenantTheme(theme))
 }
 
 /**
@@ -50,7 +48,14 @@ export function createThemeStyleElement(
  * Useful for server components that need to handle theme validation
  */
 export function validateServerTheme(theme: TenantTheme) {
-  if (typeof theme === 'string') {
+  if (isCustomTheme(theme)) {
+    const { errors } = parseWithSchema(TenantCustomThemeSchema, theme)
+    return {
+      isValid: errors.length === 0,
+      errors,
+      validatedTheme: resolveTenantTheme(theme),
+    }
+  } else if (typeof theme === 'string') {
     const validThemeIds = ['ocean', 'fire', 'forest']
     return {
       isValid: validThemeIds.includes(theme),
@@ -0,0 +1,289 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for ApiClient retries, timeouts and cancellation
+ */
+
+import { API_CONFIG, ERROR_CODES } from '../../../config/api-endpoints'
+import { ApiClient, createApiClient } from '../api-client'
+import { BusinessLogicError } from '../errors'
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  })
+
+describe('ApiClient retries and timeouts', () => {
+  let client: ApiClient
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+
+    client = createApiClient({
+      baseURL: API_CONFIG.BASE_URL,
+      timeout: 50,
+      retryAttempts: 2,
+      retryDelay: 1,
+      maxRetryDelay: 100,
+    })
+  })
+
+  it('retries retryable statuses for idempotent methods', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ message: 'unavailable' }, 503))
+      .mockResolvedValueOnce(jsonResponse({ message: 'slow down' }, 429))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(client.get('/products')).resolves.toEqual({ ok: true })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up after retryAttempts', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({}, 500))
+
+    await expect(client.get('/products')).rejects.toMatchObject({
+      status: 500,
+    })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry non-idempotent methods or client errors', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({}, 503))
+    await expect(client.post('/products', { title: 'x' })).rejects.toThrow()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async () => jsonResponse({}, 404))
+    await expect(client.get('/products/999')).rejects.toMatchObject({
+      status: 404,
+    })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('honors Retry-After and skips retries it cannot wait for', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}, 429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+    await expect(client.get('/products')).resolves.toEqual({ ok: true })
+
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValue(jsonResponse({}, 503, { 'retry-after': '120' }))
+    await expect(client.get('/products')).rejects.toMatchObject({
+      status: 503,
+      retryAfter: 120000,
+    })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out slow requests and retries them', async () => {
+    mockFetch
+      .mockImplementationOnce(() => new Promise<Response>(() => {}))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(client.get('/products')).resolves.toEqual({ ok: true })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('uses the per-request timeout and reports a timeout error', async () => {
+    mockFetch.mockImplementation(() => new Promise<Response>(() => {}))
+
+    await expect(
+      client.get('/products', { timeout: 5, retries: 0 }),
+    ).rejects.toMatchObject({
+      code: ERROR_CODES.TIMEOUT_ERROR,
+      message: 'Request timed out after 5ms',
+    })
+  })
+
+  it('retries network failures', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    await expect(client.get('/products')).resolves.toEqual({ ok: true })
+  })
+
+  it('stops immediately when the caller aborts', async () => {
+    mockFetch.mockImplementation(() => new Promise<Response>(() => {}))
+
+    const request = client.get('/products', {
+      signal: AbortSignal.timeout(10),
+    })
+
+    await expect(request).rejects.toMatchObject({ name: 'TimeoutError' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('never calls fetch with an already aborted signal', async () => {
+    await expect(
+      client.get('/products', { signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('ApiClient request deduplication', () => {
+  let client: ApiClient
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  const deferredResponse = () => {
+    let resolve: (response: Response) => void = () => {}
+    const promise = new Promise<Response>(r => (resolve = r))
+    return { promise, resolve }
+  }
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+
+    client = createApiClient({
+      baseURL: API_CONFIG.BASE_URL,
+      timeout: 1000,
+      retryAttempts: 0,
+      retryDelay: 0,
+    })
+  })
+
+  it('coalesces identical concurrent GETs onto one fetch', async () => {
+    const response = deferredResponse()
+    mockFetch.mockReturnValueOnce(response.promise)
+
+    const first = client.get('/products/1')
+    const second = client.get('/products/1')
+    response.resolve(jsonResponse({ id: 1 }))
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      { id: 1 },
+      { id: 1 },
+    ])
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(client.getDedupeMetrics()).toEqual({
+      inFlightRequests: 0,
+      coalescedRequests: 1,
+    })
+  })
+
+  it('releases the entry once the request settles', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }))
+
+    await client.get('/products/1')
+    await client.get('/products/1')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(client.getDedupeMetrics().coalescedRequests).toBe(0)
+  })
+
+  it('shares failures and releases failed entries', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, 404))
+
+    const results = await Promise.allSettled([
+      client.get('/products/999'),
+      client.get('/products/999'),
+    ])
+
+    expect(results.map(result => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ])
+    expect(client.getDedupeMetrics().inFlightRequests).toBe(0)
+  })
+
+  it("tags each caller's copy of a shared failure with its own request", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({}, 404))
+
+    // Both callers join the same failing request
+    const failed = () =>
+      client
+        .get<never>('/products/999')
+        .catch((error: BusinessLogicError) => error)
+    const errors = await Promise.all([failed(), failed()])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(errors[0]).not.toBe(errors[1])
+    expect(errors[0].requestId).not.toBe(errors[1].requestId)
+    errors.forEach(error => {
+      expect(error).toBeInstanceOf(BusinessLogicError)
+      expect(error).toMatchObject({
+        status: 404,
+        code: ERROR_CODES.NOT_FOUND_ERROR,
+      })
+      expect(error.message).toBeTruthy()
+    })
+  })
+
+  it('keeps different tenants, headers and methods apart', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ ok: true }))
+
+    await Promise.all([
+      client.get('/products', { headers: { 'X-Tenant-ID': 'tenant-a' } }),
+      client.get('/products', { headers: { 'X-Tenant-ID': 'tenant-b' } }),
+      client.get('/products', { headers: { Authorization: 'Bearer x' } }),
+      client.delete('/products'),
+      client.delete('/products'),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+  })
+
+  it('ignores per-request IDs when matching', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ ok: true }))
+
+    await Promise.all([
+      client.get('/products', { headers: { 'X-Request-ID': 'one' } }),
+      client.get('/products', { headers: { 'X-Request-ID': 'two' } }),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('lets one caller abort without cancelling the others', async () => {
+    const response = deferredResponse()
+    mockFetch.mockReturnValueOnce(response.promise)
+
+    const aborted = client.get('/products/1', {
+      signal: AbortSignal.timeout(5),
+    })
+    const kept = client.get('/products/1')
+
+    await expect(aborted).rejects.toMatchObject({ name: 'TimeoutError' })
+    response.resolve(jsonResponse({ id: 1 }))
+    await expect(kept).resolves.toEqual({ id: 1 })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops the shared call once every caller has aborted', async () => {
+    mockFetch
+      .mockImplementationOnce(() => new Promise<Response>(() => {}))
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }))
+
+    await Promise.allSettled([
+      client.get('/products/1', { signal: AbortSignal.timeout(5) }),
+      client.get('/products/1', { signal: AbortSignal.timeout(5) }),
+    ])
+    expect(client.getDedupeMetrics().inFlightRequests).toBe(0)
+
+    // A later caller starts a fresh request instead of joining the dead one
+    await expect(client.get('/products/1')).resolves.toEqual({ id: 1 })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('can be disabled per request', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ ok: true }))
+
+    await Promise.all([
+      client.get('/products', { dedupe: false }),
+      client.get('/products', { dedupe: false }),
+    ])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the typed API error taxonomy
+ */
+
+import { API_CONFIG, ERROR_CODES } from '../../../config/api-endpoints'
+import { createApiClient } from '../api-client'
+import {
+  AuthenticationError,
+  BusinessLogicError,
+  createErrorFromStatus,
+  isNetworkError,
+  isRetryableError,
+  NetworkError,
+  TenantError,
+  ValidationError,
+} from '../errors'
+import { ErrorCategory } from '../types'
+
+const rejectionOf = <E>(promise: Promise<unknown>): Promise<E> =>
+  promise.then(
+    () => {
+      throw new Error('Expected the request to fail')
+    },
+    (error: E) => error,
+  )
+
+describe('createErrorFromStatus', () => {
+  it.each([
+    [400, ValidationError, ERROR_CODES.BAD_REQUEST, false],
+    [422, ValidationError, ERROR_CODES.VALIDATION_ERROR, false],
+    [401, AuthenticationError, ERROR_CODES.AUTHENTICATION_ERROR, false],
+    [403, AuthenticationError, ERROR_CODES.AUTHORIZATION_ERROR, false],
+    [404, BusinessLogicError, ERROR_CODES.NOT_FOUND_ERROR, false],
+    [409, BusinessLogicError, ERROR_CODES.CONFLICT_ERROR, false],
+    [408, NetworkError, ERROR_CODES.TIMEOUT_ERROR, true],
+    [429, NetworkError, ERROR_CODES.RATE_LIMITED, true],
+    [500, NetworkError, ERROR_CODES.SERVER_ERROR, true],
+    [503, NetworkError, ERROR_CODES.SERVICE_UNAVAILABLE, true],
+    [501, NetworkError, ERROR_CODES.SERVER_ERROR, false],
+    [418, BusinessLogicError, ERROR_CODES.BUSINESS_LOGIC_ERROR, false],
+  ])('classifies %i', (status, ErrorClass, code, retryable) => {
+    const error = createErrorFromStatus(status, {})
+
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toMatchObject({ status, code, retryable })
+    expect(isRetryableError(error)).toBe(retryable)
+  })
+
+  it('uses tenant error codes from the response body', () => {
+    const error = createErrorFromStatus(404, { code: 'TENANT_NOT_FOUND' })
+
+    expect(error).toBeInstanceOf(TenantError)
+    expect(error.category).toBe(ErrorCategory.TENANT)
+    expect(error.code).toBe('TENANT_NOT_FOUND')
+  })
+})
+
+describe('ApiClient error classification', () => {
+  const client = createApiClient({
+    baseURL: API_CONFIG.BASE_URL,
+    timeout: 50,
+    retryAttempts: 0,
+    retryDelay: 0,
+  })
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+  })
+
+  it('throws concrete classes stamped with request and tenant', async () => {
+    mockFetch.mockResolvedValue(
+      new Response('{}', {
+        status: 401,
+        headers: { 'content-type': 'application/json' },
+      }),
+    )
+
+    const error = await rejectionOf<AuthenticationError>(
+      client.get('/products'),
+    )
+    const sentHeaders = mockFetch.mock.calls[0][1]?.headers as Record<
+      string,
+      string
+    >
+
+    expect(error).toBeInstanceOf(AuthenticationError)
+    expect(error.requestId).toEqual(expect.any(String))
+    expect(error.tenantId).toBe(sentHeaders['X-Tenant-ID'])
+  })
+
+  it('reports fetch failures as retryable network errors', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'))
+
+    const error = await rejectionOf<NetworkError>(client.get('/products'))
+
+    expect(isNetworkError(error)).toBe(true)
+    expect(error).toMatchObject({
+      code: ERROR_CODES.NETWORK_ERROR,
+      message: 'fetch failed',
+      retryable: true,
+    })
+  })
+})
@@ -5,10 +5,11 @@
  * Requirements: 1.1, 1.6
  */
 
+import { API_CONFIG } from '../../../config/api-endpoints'
+import { createApiClient, createSharedApiClient } from '../api-client'
 import {
   InterceptorManager,
   createCacheControlInterceptor,
-  createDeduplicationInterceptor,
   createDefaultErrorInterceptors,
   createDefaultRequestInterceptors,
   createDefaultResponseInterceptors,
@@ -16,6 +17,11 @@ import {
 import { DefaultTenantResolver } from '../tenant-context'
 import { RequestConfig, RequestContext, TenantContext } from '../types'
 
+// Mock UUID
+jest.mock('uuid', () => ({
+  v4: () => 'test-request-id-123',
+}))
+
 // Mock tenant utilities
 jest.mock('../../../tenant', () => ({
   getTenantConfig: jest.fn(),
@@ -382,26 +388,6 @@ describe('Default Error Interceptors', () => {
   })
 })
 
-describe('Deduplication Interceptor', () => {
-  test('should throw error for duplicate requests', async () => {
-    const interceptor = createDeduplicationInterceptor()
-    const config: RequestConfig = { method: 'GET' }
-    const context: RequestContext = {
-      requestId: 'test',
-      timestamp: '2023-01-01T00:00:00.000Z',
-    }
-
-    // First request should pass
-    const result1 = await interceptor('/test', config, context)
-    expect(result1).toEqual({ url: '/test', config })
-
-    // Second identical request should throw
-    await expect(interceptor('/test', config, context)).rejects.toThrow(
-      'DUPLICATE_REQUEST',
-    )
-  })
-})
-
 describe('Cache Control Interceptor', () => {
   test('should add cache headers for GET requests', async () => {
     const interceptor = createCacheControlInterceptor()
@@ -444,3 +430,112 @@ describe('Cache Control Interceptor', () => {
     expect(result.config.headers).toBeUndefined()
   })
 })
+
+describe('ApiClient interceptor pipeline', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  const mockResponse = (status: number, data: unknown) =>
+    ({
+      status,
+      statusText: status === 200 ? 'OK' : 'Not Found',
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: async () => data,
+    }) as Response
+
+  const createClient = () =>
+    createApiClient({
+      baseURL: API_CONFIG.BASE_URL,
+      timeout: API_CONFIG.TIMEOUT,
+      retryAttempts: 0,
+      retryDelay: 0,
+    })
+
+  const sentHeaders = (): Record<string, string> =>
+    mockFetch.mock.calls[0][1]?.headers as Record<string, string>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+    mockFetch.mockResolvedValue(mockResponse(200, { ok: true }))
+  })
+
+  test('should run request interceptors before fetch', async () => {
+    const client = createClient()
+    client.interceptors.request.use((url, config) => ({
+      url: `${url}?from=interceptor`,
+      config: { ...config, headers: { ...config.headers, 'X-Test': '1' } },
+    }))
+
+    await client.get('/products')
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${API_CONFIG.BASE_URL}/products?from=interceptor`,
+      expect.anything(),
+    )
+    expect(sentHeaders()['X-Test']).toBe('1')
+  })
+
+  test('should stop running an interceptor once ejected', async () => {
+    const client = createClient()
+    const interceptor = jest.fn((url: string, config: RequestConfig) => ({
+      url,
+      config,
+    }))
+
+    const eject = client.interceptors.request.use(interceptor)
+    await client.get('/products')
+    eject()
+    await client.get('/products')
+
+    expect(interceptor).toHaveBeenCalledTimes(1)
+  })
+
+  test('should pass responses through response interceptors', async () => {
+    const client = createClient()
+    client.interceptors.response.use(response => ({
+      ...response,
+      data: { ...response.data, intercepted: true },
+    }))
+
+    await expect(client.get('/products')).resolves.toEqual({
+      ok: true,
+      intercepted: true,
+    })
+  })
+
+  test('should reject with the error interceptor result', async () => {
+    mockFetch.mockResolvedValue(mockResponse(404, { message: 'missing' }))
+
+    const client = createClient()
+    createDefaultErrorInterceptors(false).forEach(interceptor =>
+      client.interceptors.error.use(interceptor),
+    )
+    client.interceptors.error.use(error => ({ ...error, code: 'NOT_FOUND' }))
+
+    await expect(client.get('/products/999')).rejects.toEqual(
+      expect.objectContaining({
+        code: 'NOT_FOUND',
+        message: 'Request failed with status 404',
+        requestId: 'test-request-id-123',
+      }),
+    )
+  })
+
+  test('should register default interceptors on the shared client', async () => {
+    jest
+      .spyOn(DefaultTenantResolver.prototype, 'resolve')
+      .mockResolvedValue({ tenantId: 'abc-rentals', subdomain: 'abc-rentals' })
+
+    const client = createSharedApiClient()
+    await client.get('/products')
+
+    expect(sentHeaders()).toEqual(
+      expect.objectContaining({
+        'X-Tenant-ID': 'abc-rentals',
+        'X-Tenant-Subdomain': 'abc-rentals',
+        'X-Request-ID': 'test-request-id-123',
+        'Cache-Control': 'max-age=300',
+      }),
+    )
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for request-scoped tenant context
+ * Concurrent server requests must never observe each other's tenant
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { API_CONFIG } from '../../../config/api-endpoints'
+import { createApiClient } from '../api-client'
+import {
+  createTenantContextFromHeaders,
+  getCurrentTenantId,
+  runWithTenantContext,
+  ServerTenantResolver,
+  TenantContext,
+} from '../tenant-context'
+
+// Next.js provides this global on the server
+;(globalThis as { AsyncLocalStorage?: unknown }).AsyncLocalStorage =
+  AsyncLocalStorage
+
+const mockHeaders = new Headers()
+jest.mock('next/headers', () => ({
+  headers: async () => mockHeaders,
+}))
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function tenantContext(tenantId: string): TenantContext {
+  return {
+    tenantId,
+    host: `${tenantId}.localhost:3000`,
+    environment: 'development',
+  }
+}
+
+describe('request-scoped tenant context', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+    mockHeaders.delete('x-tenant-id')
+    mockHeaders.delete('host')
+  })
+
+  it('keeps interleaved requests for two tenants isolated', async () => {
+    // Responses resolve in reverse order so the requests interleave
+    mockFetch.mockImplementation(async (_url, init) => {
+      const headers = init?.headers as Record<string, string>
+      await delay(headers['X-Tenant-ID'] === 'tenant-a' ? 20 : 5)
+      return new Response(JSON.stringify({ tenant: headers['X-Tenant-ID'] }), {
+        headers: { 'content-type': 'application/json' },
+      })
+    })
+
+    const client = createApiClient({
+      baseURL: API_CONFIG.BASE_URL,
+      timeout: API_CONFIG.TIMEOUT,
+      retryAttempts: 0,
+      retryDelay: 0,
+      tenantResolver: new ServerTenantResolver(),
+    })
+
+    const handleRequest = (tenantId: string, step: number) =>
+      runWithTenantContext(tenantContext(tenantId), async () => {
+        const seen: string[] = []
+        for (let i = 0; i < 3; i++) {
+          await delay(step)
+          const data = await client.get<{ tenant: string }>('/products')
+          seen.push(data.tenant, getCurrentTenantId() || 'none')
+        }
+        return seen
+      })
+
+    const [a, b] = await Promise.all([
+      handleRequest('tenant-a', 3),
+      handleRequest('tenant-b', 7),
+    ])
+
+    expect(a).toEqual(Array(6).fill('tenant-a'))
+    expect(b).toEqual(Array(6).fill('tenant-b'))
+    expect(getCurrentTenantId()).toBeNull()
+  })
+
+  it('falls back to the x-tenant-id request header', async () => {
+    mockHeaders.set('host', 'shop.example.com')
+    mockHeaders.set('x-tenant-id', 'arts-shop')
+
+    await expect(new ServerTenantResolver().resolve()).resolves.toEqual({
+      tenantId: 'arts-shop',
+      subdomain: undefined,
+    })
+  })
+
+  it('prefers the request scope over headers', async () => {
+    mockHeaders.set('x-tenant-id', 'arts-shop')
+
+    const resolved = await runWithTenantContext(tenantContext('xyz-cars'), () =>
+      new ServerTenantResolver().resolve(),
+    )
+
+    expect(resolved).toEqual({ tenantId: 'xyz-cars', subdomain: 'xyz-cars' })
+  })
+
+  it('refuses to set a tenant outside the request scope', () => {
+    expect(() => new ServerTenantResolver().setTenant()).toThrow(
+      /request-scoped/,
+    )
+  })
+
+  it('builds a context from request headers', () => {
+    const headers = new Headers({
+      host: 'abc-rentals.localhost:3000',
+      'x-tenant-id': 'abc-rentals',
+    })
+
+    expect(createTenantContextFromHeaders(headers)).toEqual({
+      tenantId: 'abc-rentals',
+      host: 'abc-rentals.localhost:3000',
+      environment: 'development',
+    })
+  })
+})
@@ -9,10 +9,25 @@ import { DEFAULT_DEV_TENANT_ID } from '../../../constants/development'
 import {
   API_CONFIG,
   CONTENT_TYPES,
+  ERROR_CODES,
   HTTP_METHODS,
 } from '../../config/api-endpoints'
-// Auth interceptors removed - products-only app
-import { getCurrentEnvironment, getCurrentTenantId } from './tenant-context'
+import { CACHE_CONFIG } from '../../config/service-config'
+import {
+  createCacheControlInterceptor,
+  createDefaultRequestInterceptors,
+  createDefaultResponseInterceptors,
+  InterceptorManager,
+} from './interceptors'
+import {
+  ApiRequestError,
+  createErrorFromStatus,
+  isApiRequestError,
+  NetworkError,
+  ValidationError,
+  withRequestContext,
+} from './errors'
+import { DefaultTenantResolver, getCurrentEnvironment } from './tenant-context'
 import { ApiClientConfig, RequestConfig, RequestContext } from './types'
 
 // Simplified response structure
@@ -23,7 +38,7 @@ export interface ApiResponse<T = unknown> {
   headers: Record<string, string>
 }
 
-// Simplified error structure
+// Error shape shared by every class in ./errors
 export interface ApiError extends Error {
   status?: number
   response?: {
@@ -32,6 +47,10 @@ export interface ApiError extends Error {
     statusText: string
   }
   isApiError: boolean
+  /** Error code from ERROR_CODES for failures without a response */
+  code?: string
+  /** Server-requested delay before retrying (from Retry-After), in ms */
+  retryAfter?: number
 }
 
 // Simplified config options
@@ -45,6 +64,25 @@ export interface ApiConfig extends RequestConfig {
   timeout?: number
   headers?: Record<string, string>
   credentials?: RequestCredentials // ✅ Add credentials support for HTTP-only cookies
+  signal?: AbortSignal // Caller cancellation (e.g. React Query's signal)
+  dedupe?: boolean // Set false to opt a GET out of in-flight deduplication
+  tags?: string[] // Cache tags; tagged GETs are kept in the Next.js data cache
+}
+
+// Per-call options accepted by service methods
+export type RequestOptions = Pick<ApiConfig, 'signal' | 'timeout' | 'tags'>
+
+// Methods that are safe to send more than once
+const IDEMPOTENT_METHODS: string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+// Per-request headers that must not split otherwise identical GETs
+const DEDUPE_IGNORED_HEADERS = ['x-request-id']
+
+// Shared GET awaiting a response, with the number of callers waiting on it
+interface InFlightRequest {
+  promise: Promise<ApiResponse<unknown>>
+  controller: AbortController
+  waiters: number
 }
 
 // Service-level configuration
@@ -60,24 +98,19 @@ export interface ServiceConfig {
 export class ApiClient {
   private config: ApiClientConfig
   private serviceConfig: ServiceConfig
-  private authInterceptor?:
-    | ((
-        url: string,
-        config: RequestConfig,
-        context: RequestContext,
-      ) =>
-        | Promise<{ url: string; config: RequestConfig }>
-        | { url: string; config: RequestConfig })
-    | null
-
-  private errorInterceptor?:
-    | ((error: any, context: RequestContext) => Promise<any> | any)
-    | null
+
+  /**
+   * Interceptor pipeline, e.g. `client.interceptors.request.use(fn)`
+   */
+  readonly interceptors = new InterceptorManager()
+
+  // In-flight GETs keyed by method + URL + tenant/relevant headers
+  private inFlight = new Map<string, InFlightRequest>()
+  private coalescedRequests = 0
 
   constructor(config: ApiClientConfig, serviceConfig?: ServiceConfig) {
     this.config = config
     this.serviceConfig = serviceConfig || {}
-    // Auth interceptors removed for products-only app
   }
 
   /**
@@ -163,6 +196,8 @@ export class ApiClient {
 
   /**
    * Core request method
+   * Runs request interceptors, the fetch (with retries), then response
+   * interceptors. Failures pass through error interceptors before rejecting.
    */
   async request<T = unknown>(config: ApiConfig): Promise<ApiResponse<T>> {
     // console.error('🔥 API CLIENT REQUEST METHOD CALLED 🔥', config.url)
@@ -171,7 +206,7 @@ export class ApiClient {
 
     // Ensure URL is present
     if (!config.url) {
-      throw this.createError('URL is required', 400)
+      throw new ValidationError('URL is required', { status: 400 })
     }
 
     // Create request context
@@ -182,8 +217,51 @@ export class ApiClient {
         typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
     }
 
-    // Resolve tenant context
-    if (this.config.tenantResolver) {
+    try {
+      const processed = await this.interceptors.processRequest(
+        config.url,
+        config,
+        context,
+      )
+
+      const response = await this.dispatch<T>(
+        processed.url,
+        { ...config, ...processed.config },
+        context,
+      )
+
+      return await this.interceptors.processResponse(response, context)
+    } catch (error) {
+      // Caller cancellation is not an API failure, surface it untouched
+      if (config.signal?.aborted) {
+        throw config.signal.reason ?? error
+      }
+
+      // Anything unclassified by now is a client-side failure
+      const apiError = withRequestContext(
+        isApiRequestError(error)
+          ? error
+          : new ApiRequestError(
+              error instanceof Error ? error.message : String(error),
+              { cause: error },
+            ),
+        context,
+      )
+
+      throw await this.interceptors.processError(apiError, context)
+    }
+  }
+
+  /**
+   * Send a processed request, retrying transient failures
+   */
+  private async dispatch<T>(
+    processedUrl: string,
+    processedConfig: ApiConfig,
+    context: RequestContext,
+  ): Promise<ApiResponse<T>> {
+    // Resolve tenant context unless a request interceptor already did
+    if (this.config.tenantResolver && !context.tenantId) {
       try {
         const tenantContext = await this.config.tenantResolver.resolve(context)
         if (tenantContext) {
@@ -194,22 +272,6 @@ export class ApiClient {
       }
     }
 
-    // Apply auth interceptor
-    let processedUrl = config.url
-    let processedConfig = { ...config }
-
-    if (this.authInterceptor) {
-      try {
-        const result = await Promise.resolve(
-          this.authInterceptor(config.url, config, context),
-        )
-        processedUrl = result.url
-        processedConfig = { ...processedConfig, ...result.config }
-      } catch (error) {
-        console.warn('Auth interceptor failed:', error)
-      }
-    }
-
     // Create full URL with service-level baseURL override
     const baseURL = this.serviceConfig.baseURL || this.config.baseURL
     const fullUrl = processedUrl.startsWith('http')
@@ -222,7 +284,8 @@ export class ApiClient {
     }
 
     // Add X-Tenant-ID header for multi-tenant API calls
-    const tenantId = this.resolveTenantId()
+    const tenantId = this.resolveTenantId(context)
+    context.tenantId = tenantId || undefined
     const environment = getCurrentEnvironment()
 
     // Enhanced debug logging for server-side tenant context
@@ -230,10 +293,9 @@ export class ApiClient {
       console.log('🔍 API CLIENT TENANT DEBUG:', {
         tenantId,
         environment,
-        url: config.url,
+        url: processedUrl,
         isServerSide: typeof window === 'undefined',
-        globalTenantContext:
-          typeof window === 'undefined' ? getCurrentTenantId() : 'client-side',
+        resolvedTenantId: context.tenantId || 'none',
       })
     }
 
@@ -264,16 +326,22 @@ export class ApiClient {
     console.log('🚀 API REQUEST DEBUG END 🚀')
 
     // Prepare fetch options
+    const method = processedConfig.method || HTTP_METHODS.GET
     const fetchOptions: RequestInit = {
-      method: processedConfig.method || HTTP_METHODS.GET,
+      method,
       headers,
-      signal: AbortSignal.timeout(
-        processedConfig.timeout || this.config.timeout,
-      ),
       credentials:
         processedConfig.credentials || this.serviceConfig.credentials || 'omit', // ✅ Service-level credentials with fallback
     }
 
+    // Tagged reads are cached on the server until their tags are revalidated
+    if (processedConfig.tags?.length && method.toUpperCase() === 'GET') {
+      fetchOptions.next = {
+        tags: processedConfig.tags,
+        revalidate: CACHE_CONFIG.CATALOG.ttl / 1000,
+      }
+    }
+
     // Add body and Content-Type for requests that support it
     if (this.shouldHaveBody(processedConfig.method) && processedConfig.data) {
       if (processedConfig.data instanceof FormData) {
@@ -286,59 +354,260 @@ export class ApiClient {
       }
     }
 
-    try {
+    // Per-request timeout wins over per-service, then client default
+    const timeout =
+      processedConfig.timeout ||
+      this.serviceConfig.timeout ||
+      this.config.timeout
+    const signal = processedConfig.signal
+
+    // Only idempotent methods are retried
+    const maxRetries = IDEMPOTENT_METHODS.includes(method.toUpperCase())
+      ? (processedConfig.retries ?? this.config.retryAttempts)
+      : 0
+
+    const send = (sendSignal?: AbortSignal) =>
+      this.sendWithRetries<T>(
+        urlWithParams,
+        fetchOptions,
+        timeout,
+        maxRetries,
+        sendSignal,
+      )
+
+    if (method.toUpperCase() !== 'GET' || processedConfig.dedupe === false) {
+      return send(signal)
+    }
+
+    if (signal?.aborted) {
+      throw signal.reason
+    }
+
+    // Coalesce identical concurrent GETs onto one network call. Each caller
+    // can stop waiting on its own abort; the shared call is only cancelled
+    // once every caller has gone.
+    const key = createDedupeKey(
+      method,
+      urlWithParams,
+      headers,
+      processedConfig.tags,
+    )
+    let entry = this.inFlight.get(key)
+
+    if (entry) {
+      this.coalescedRequests++
+      console.log(`[Deduplication] Reusing pending request: ${key}`)
+    } else {
+      const controller = new AbortController()
+      const created: InFlightRequest = {
+        promise: send(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key)
+          }
+        }),
+        controller,
+        waiters: 0,
+      }
+      this.inFlight.set(key, created)
+      entry = created
+    }
+
+    return this.waitForInFlight(key, entry, signal) as Promise<ApiResponse<T>>
+  }
+
+  /**
+   * Wait for a shared in-flight request on behalf of one caller
+   */
+  private waitForInFlight(
+    key: string,
+    entry: InFlightRequest,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<unknown>> {
+    entry.waiters++
+    if (!signal) return entry.promise
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters--
+        if (entry.waiters === 0) {
+          // Nobody is waiting anymore, cancel the network call
+          if (this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key)
+          }
+          entry.controller.abort()
+        }
+        reject(signal.reason)
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true })
+      entry.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort)
+      })
+    })
+  }
+
+  /**
+   * Send a request, retrying transient failures with backoff
+   */
+  private async sendWithRetries<T>(
+    url: string,
+    fetchOptions: RequestInit,
+    timeout: number,
+    maxRetries: number,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.performRequest<T>(url, fetchOptions, timeout, signal)
+      } catch (error) {
+        const delay =
+          attempt < maxRetries && !signal?.aborted
+            ? this.getRetryDelay(error, attempt)
+            : null
+
+        if (delay === null) {
+          throw error
+        }
+
+        console.warn(
+          `API Retry - URL: ${url}, Attempt: ${attempt + 1}/${maxRetries}, Delay: ${delay}ms`,
+        )
+        await sleep(delay, signal)
+      }
+    }
+  }
+
+  /**
+   * Request deduplication metrics
+   * `coalescedRequests` counts GETs served by an already in-flight request
+   */
+  getDedupeMetrics(): { inFlightRequests: number; coalescedRequests: number } {
+    return {
+      inFlightRequests: this.inFlight.size,
+      coalescedRequests: this.coalescedRequests,
+    }
+  }
+
+  /**
+   * Perform a single fetch attempt bounded by a timeout and the caller's signal
+   * Rejects as soon as either fires, even if fetch ignores the abort
+   */
+  private async performRequest<T>(
+    url: string,
+    fetchOptions: RequestInit,
+    timeout: number,
+    signal?: AbortSignal,
+  ): Promise<ApiResponse<T>> {
+    if (signal?.aborted) {
+      throw signal.reason
+    }
+
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let onCallerAbort: (() => void) | undefined
+
+    const aborted = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort()
+        reject(
+          new NetworkError(`Request timed out after ${timeout}ms`, {
+            code: ERROR_CODES.TIMEOUT_ERROR,
+          }),
+        )
+      }, timeout)
+
+      onCallerAbort = () => {
+        controller.abort()
+        reject(signal?.reason)
+      }
+      signal?.addEventListener('abort', onCallerAbort, { once: true })
+    })
+
+    const attempt = async (): Promise<ApiResponse<T>> => {
       // Make the request
-      const response = await fetch(urlWithParams, fetchOptions)
+      const response = await fetch(url, {
+        ...fetchOptions,
+        signal: controller.signal,
+      })
 
       // Parse response data
       const data = await this.parseResponse<T>(response)
 
-      // Create response object
-      const apiResponse: ApiResponse<T> = {
-        data,
-        status: response.status,
-        statusText: response.statusText,
-        headers: this.parseHeaders(response.headers),
-      }
-
       // Enhanced debug logging for response (both dev and production)
       console.log(
-        `API Response - URL: ${urlWithParams}, Status: ${response.status} ${response.statusText}`,
+        `API Response - URL: ${url}, Status: ${response.status} ${response.statusText}`,
       )
       console.log('🔍 Response Headers:', this.parseHeaders(response.headers))
 
       // Check if response is successful
       if (response.status >= 200 && response.status < 300) {
-        return apiResponse
+        return {
+          data,
+          status: response.status,
+          statusText: response.statusText,
+          headers: this.parseHeaders(response.headers),
+        }
       }
 
       // Enhanced error logging (both dev and production)
       console.error(
-        `API Error - URL: ${urlWithParams}, Status: ${response.status}, Data:`,
+        `API Error - URL: ${url}, Status: ${response.status}, Data:`,
         data,
       )
       console.error(
         '🔍 Error Response Headers:',
         this.parseHeaders(response.headers),
       )
-      throw this.createErrorFromResponse(response, data)
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'))
+      throw createErrorFromStatus(response.status, data, {
+        response: {
+          data,
+          status: response.status,
+          statusText: response.statusText,
+        },
+        retryAfter: retryAfter ?? undefined,
+      })
+    }
+
+    try {
+      return await Promise.race([attempt(), aborted])
     } catch (error) {
-      // Apply error interceptor if available
-      if (this.errorInterceptor) {
-        try {
-          throw await Promise.resolve(this.errorInterceptor(error, context))
-        } catch (interceptedError) {
-          throw interceptedError
-        }
+      // Network failures (fetch rejected before a response)
+      if (!isApiRequestError(error)) {
+        if (signal?.aborted) throw signal.reason
+        throw new NetworkError(
+          error instanceof Error ? error.message : String(error),
+          { status: 0, cause: error },
+        )
       }
-
-      // Handle network errors
-      if (error instanceof Error && !('isApiError' in error)) {
-        throw this.createError(error.message, 0, error)
+      throw error
+    } finally {
+      clearTimeout(timer)
+      if (onCallerAbort) {
+        signal?.removeEventListener('abort', onCallerAbort)
       }
+    }
+  }
 
-      throw error
+  /**
+   * Delay before the next retry, or null when the error is not retryable
+   * Exponential backoff with full jitter; Retry-After is honored when present
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (!isApiRequestError(error) || !error.retryable) {
+      return null
     }
+    const apiError = error
+
+    const maxDelay = this.config.maxRetryDelay ?? API_CONFIG.MAX_RETRY_DELAY
+
+    if (apiError.retryAfter !== undefined) {
+      // Don't retry when the server asks us to wait longer than we would
+      return apiError.retryAfter <= maxDelay ? apiError.retryAfter : null
+    }
+
+    const backoff = Math.min(maxDelay, this.config.retryDelay * 2 ** attempt)
+    return Math.round(Math.random() * backoff)
   }
 
   /**
@@ -369,41 +638,6 @@ export class ApiClient {
     return result
   }
 
-  /**
-   * Create API error
-   */
-  private createError(
-    message: string,
-    status?: number,
-    originalError?: Error,
-  ): ApiError {
-    const error = new Error(message) as ApiError
-    error.status = status
-    error.isApiError = true
-
-    if (originalError) {
-      error.stack = originalError.stack
-    }
-
-    return error
-  }
-
-  /**
-   * Create error from response
-   */
-  private createErrorFromResponse(response: Response, data: unknown): ApiError {
-    const message = `Request failed with status ${response.status}`
-    const error = this.createError(message, response.status)
-
-    error.response = {
-      data,
-      status: response.status,
-      statusText: response.statusText,
-    }
-
-    return error
-  }
-
   /**
    * Add query parameters to URL
    */
@@ -436,21 +670,19 @@ export class ApiClient {
    * Centralized tenant ID resolution that works in all environments
    * This is the single source of truth for tenant ID detection
    */
-  private resolveTenantId(): string | null {
+  private resolveTenantId(context: RequestContext): string | null {
     console.log('🔍 RESOLVING TENANT ID - START')
 
+    // Strategy 1: Request-scoped tenant from the tenant resolver
+    if (context.tenantId) {
+      console.log('✅ TENANT ID RESOLVED: Tenant Resolver ->', context.tenantId)
+      return context.tenantId
+    }
+
     // Server-side: Try multiple resolution strategies
     if (typeof window === 'undefined') {
       console.log('🔍 SERVER-SIDE TENANT RESOLUTION')
 
-      // Strategy 1: Global tenant context (set by middleware)
-      const globalTenantId = getCurrentTenantId()
-      console.log('🔍 Strategy 1 - Global Context:', globalTenantId)
-      if (globalTenantId) {
-        console.log('✅ TENANT ID RESOLVED: Global Context ->', globalTenantId)
-        return globalTenantId
-      }
-
       // Strategy 2: Extract from Vercel environment variables
       const vercelTenantId = this.extractTenantFromVercelEnvironment()
       console.log('🔍 Strategy 2 - Vercel Environment:', vercelTenantId)
@@ -587,6 +819,59 @@ export class ApiClient {
   }
 }
 
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Build the deduplication key for a request
+ * Headers (tenant, auth, environment...) and cache tags are part of the key
+ * so requests for different tenants or users are never shared.
+ */
+function createDedupeKey(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  tags: string[] = [],
+): string {
+  const relevantHeaders = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .filter(([name]) => !DEDUPE_IGNORED_HEADERS.includes(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&')
+
+  return `${method.toUpperCase()} ${url} ${relevantHeaders} ${tags.join(',')}`
+}
+
+/**
+ * Wait before retrying; rejects early if the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
 /**
  * Create API client instance
  */
@@ -598,23 +883,38 @@ export function createApiClient(
 }
 
 /**
- * Create shared API client with auth interceptors
+ * Create shared API client with the default interceptors
+ * (tenant header, request ID, logging, cache control)
  */
 export function createSharedApiClient(
   serviceConfig?: ServiceConfig,
 ): ApiClient {
-  return createApiClient(
+  const tenantResolver = new DefaultTenantResolver()
+  const enableLogging = process.env.NODE_ENV === 'development'
+
+  const client = createApiClient(
     {
       baseURL: API_CONFIG.BASE_URL,
       timeout: API_CONFIG.TIMEOUT,
       retryAttempts: API_CONFIG.RETRY_ATTEMPTS,
       retryDelay: API_CONFIG.RETRY_DELAY,
-      // tenantResolver: handled by global tenant context
-      enableLogging: process.env.NODE_ENV === 'development',
+      maxRetryDelay: API_CONFIG.MAX_RETRY_DELAY,
+      tenantResolver,
+      enableLogging,
       enableCaching: false, // Simplified - no caching
     },
     serviceConfig,
   )
+
+  createDefaultRequestInterceptors(tenantResolver, enableLogging).forEach(
+    interceptor => client.interceptors.request.use(interceptor),
+  )
+  client.interceptors.request.use(createCacheControlInterceptor())
+  createDefaultResponseInterceptors(enableLogging).forEach(interceptor =>
+    client.interceptors.response.use(interceptor),
+  )
+
+  return client
 }
 
 /**
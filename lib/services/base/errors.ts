@@ -0,0 +1,252 @@
+/**
+ * Typed API error taxonomy
+ * ApiClient classifies every failure into one of these classes so callers
+ * and UI can branch on the kind of error instead of parsing messages.
+ */
+
+import { ERROR_CODES } from '../../config/api-endpoints'
+import { ErrorCategory } from './types'
+
+export interface ApiErrorOptions {
+  code?: string
+  status?: number
+  retryable?: boolean
+  retryAfter?: number
+  requestId?: string
+  tenantId?: string
+  response?: {
+    data: unknown
+    status: number
+    statusText: string
+  }
+  cause?: unknown
+}
+
+/**
+ * Base class for all errors produced by ApiClient
+ */
+export class ApiRequestError extends Error {
+  readonly isApiError = true
+  readonly category: ErrorCategory = ErrorCategory.SYSTEM
+  code: string
+  status?: number
+  /** Whether repeating the same request may succeed */
+  retryable: boolean
+  /** Server-requested delay before retrying (from Retry-After), in ms */
+  retryAfter?: number
+  requestId?: string
+  tenantId?: string
+  response?: ApiErrorOptions['response']
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message)
+    this.name = 'ApiRequestError'
+    this.code = options.code || ERROR_CODES.UNKNOWN_ERROR
+    this.status = options.status
+    this.retryable = options.retryable ?? false
+    this.retryAfter = options.retryAfter
+    this.requestId = options.requestId
+    this.tenantId = options.tenantId
+    this.response = options.response
+
+    if (options.cause instanceof Error && options.cause.stack) {
+      this.stack = options.cause.stack
+    }
+  }
+}
+
+/**
+ * Connectivity failures, timeouts, rate limiting and server errors
+ */
+export class NetworkError extends ApiRequestError {
+  readonly category = ErrorCategory.NETWORK
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, {
+      code: ERROR_CODES.NETWORK_ERROR,
+      retryable: true,
+      ...options,
+    })
+    this.name = 'NetworkError'
+  }
+}
+
+/**
+ * The request was rejected as invalid (400/422)
+ */
+export class ValidationError extends ApiRequestError {
+  readonly category = ErrorCategory.VALIDATION
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: ERROR_CODES.VALIDATION_ERROR, ...options })
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * Missing or insufficient credentials (401/403)
+ */
+export class AuthenticationError extends ApiRequestError {
+  readonly category = ErrorCategory.AUTHENTICATION
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: ERROR_CODES.AUTHENTICATION_ERROR, ...options })
+    this.name = 'AuthenticationError'
+  }
+}
+
+/**
+ * The request was understood but cannot be fulfilled (404/409/other 4xx)
+ */
+export class BusinessLogicError extends ApiRequestError {
+  readonly category = ErrorCategory.BUSINESS_LOGIC
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: ERROR_CODES.BUSINESS_LOGIC_ERROR, ...options })
+    this.name = 'BusinessLogicError'
+  }
+}
+
+/**
+ * Unknown, inactive or misconfigured tenant
+ */
+export class TenantError extends ApiRequestError {
+  readonly category = ErrorCategory.TENANT
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { code: ERROR_CODES.TENANT_ERROR, ...options })
+    this.name = 'TenantError'
+  }
+}
+
+/**
+ * Classify a non-2xx response into a concrete error class
+ */
+export function createErrorFromStatus(
+  status: number,
+  data: unknown,
+  options: ApiErrorOptions = {},
+): ApiRequestError {
+  const message = `Request failed with status ${status}`
+  const base = { ...options, status }
+  const bodyCode =
+    data && typeof data === 'object' && 'code' in data
+      ? String((data as { code: unknown }).code)
+      : undefined
+
+  if (bodyCode?.startsWith('TENANT_')) {
+    return new TenantError(message, { ...base, code: bodyCode })
+  }
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, {
+        ...base,
+        code: ERROR_CODES.BAD_REQUEST,
+      })
+    case 422:
+      return new ValidationError(message, base)
+    case 401:
+      return new AuthenticationError(message, base)
+    case 403:
+      return new AuthenticationError(message, {
+        ...base,
+        code: ERROR_CODES.AUTHORIZATION_ERROR,
+      })
+    case 404:
+      return new BusinessLogicError(message, {
+        ...base,
+        code: ERROR_CODES.NOT_FOUND_ERROR,
+      })
+    case 409:
+      return new BusinessLogicError(message, {
+        ...base,
+        code: ERROR_CODES.CONFLICT_ERROR,
+      })
+    case 408:
+      return new NetworkError(message, {
+        ...base,
+        code: ERROR_CODES.TIMEOUT_ERROR,
+      })
+    case 429:
+      return new NetworkError(message, {
+        ...base,
+        code: ERROR_CODES.RATE_LIMITED,
+      })
+    case 500:
+    case 502:
+    case 504:
+      return new NetworkError(message, {
+        ...base,
+        code: ERROR_CODES.SERVER_ERROR,
+      })
+    case 503:
+      return new NetworkError(message, {
+        ...base,
+        code: ERROR_CODES.SERVICE_UNAVAILABLE,
+      })
+  }
+
+  if (status >= 500) {
+    return new NetworkError(message, {
+      ...base,
+      code: ERROR_CODES.SERVER_ERROR,
+      retryable: false,
+    })
+  }
+
+  return new BusinessLogicError(message, base)
+}
+
+/**
+ * Copy of an error tagged with one request's ID and tenant
+ * Coalesced requests share a single rejection, so errors are never tagged in
+ * place; each caller gets its own copy of the same class.
+ */
+export function withRequestContext<E extends ApiRequestError>(
+  error: E,
+  context: { requestId?: string; tenantId?: string },
+): E {
+  const copy = Object.create(Object.getPrototypeOf(error)) as E
+  Object.defineProperties(copy, Object.getOwnPropertyDescriptors(error))
+  copy.requestId = context.requestId
+  copy.tenantId = context.tenantId
+  return copy
+}
+
+// Type guards
+
+export function isApiRequestError(error: unknown): error is ApiRequestError {
+  return error instanceof ApiRequestError
+}
+
+export function isNetworkError(error: unknown): error is NetworkError {
+  return error instanceof NetworkError
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError
+}
+
+export function isAuthenticationError(
+  error: unknown,
+): error is AuthenticationError {
+  return error instanceof AuthenticationError
+}
+
+export function isBusinessLogicError(
+  error: unknown,
+): error is BusinessLogicError {
+  return error instanceof BusinessLogicError
+}
+
+export function isTenantError(error: unknown): error is TenantError {
+  return error instanceof TenantError
+}
+
+/**
+ * Whether retrying the failed request may succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  return isApiRequestError(error) && error.retryable
+}
@@ -12,46 +12,70 @@ export {
   type ApiConfig,
   type ApiError,
   type ApiResponse,
+  type RequestOptions,
 } from './api-client'
 
+// Error taxonomy
+export {
+  ApiRequestError,
+  AuthenticationError,
+  BusinessLogicError,
+  createErrorFromStatus,
+  isApiRequestError,
+  isAuthenticationError,
+  isBusinessLogicError,
+  isNetworkError,
+  isRetryableError,
+  isTenantError,
+  isValidationError,
+  NetworkError,
+  TenantError,
+  ValidationError,
+  type ApiErrorOptions,
+} from './errors'
+
 // Interceptors
 export {
   createDefaultErrorInterceptors,
   createDefaultRequestInterceptors,
+  createCacheControlInterceptor,
   createDefaultResponseInterceptors,
   InterceptorManager,
 } from './interceptors'
 
 export type {
   ErrorInterceptor,
+  InterceptorChain,
   RequestInterceptor,
   ResponseInterceptor,
 } from './interceptors'
 
 // Tenant context
-export { DefaultTenantResolver } from './tenant-context'
+export {
+  createTenantContextFromHeaders,
+  DefaultTenantResolver,
+  getRequestTenantContext,
+  runWithTenantContext,
+  ServerTenantResolver,
+  TENANT_ID_HEADER,
+} from './tenant-context'
 
 // Types
 export type {
   ApiClientConfig,
-  AuthenticationError,
-  BusinessLogicError,
   CacheStrategy,
   ErrorCategory,
   ErrorSeverity,
   FileConstraints,
   FileUploadError,
   HttpResponse,
-  NetworkError,
   RateLimitError,
   RequestConfig,
   RequestContext,
   ServiceError,
   TenantContext,
-  TenantError,
   TenantResolver,
   UploadConfig,
   UploadProgress,
-  ValidationError,
   ValidationResult,
 } from './types'
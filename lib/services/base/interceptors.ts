@@ -35,6 +35,14 @@ export type ErrorInterceptor = (
   context: RequestContext,
 ) => Promise<ServiceError> | ServiceError
 
+/**
+ * Registration handle for one interceptor chain
+ * use() returns a function that removes the interceptor again
+ */
+export interface InterceptorChain<T> {
+  use(interceptor: T): () => void
+}
+
 /**
  * Interceptor manager for handling request/response middleware
  */
@@ -43,6 +51,39 @@ export class InterceptorManager {
   private responseInterceptors: ResponseInterceptor[] = []
   private errorInterceptors: ErrorInterceptor[] = []
 
+  readonly request: InterceptorChain<RequestInterceptor> = {
+    use: interceptor => {
+      this.addRequestInterceptor(interceptor)
+      return () => {
+        this.requestInterceptors = this.requestInterceptors.filter(
+          registered => registered !== interceptor,
+        )
+      }
+    },
+  }
+
+  readonly response: InterceptorChain<ResponseInterceptor> = {
+    use: interceptor => {
+      this.addResponseInterceptor(interceptor)
+      return () => {
+        this.responseInterceptors = this.responseInterceptors.filter(
+          registered => registered !== interceptor,
+        )
+      }
+    },
+  }
+
+  readonly error: InterceptorChain<ErrorInterceptor> = {
+    use: interceptor => {
+      this.addErrorInterceptor(interceptor)
+      return () => {
+        this.errorInterceptors = this.errorInterceptors.filter(
+          registered => registered !== interceptor,
+        )
+      }
+    },
+  }
+
   /**
    * Add request interceptor
    */
@@ -140,7 +181,7 @@ export function createDefaultRequestInterceptors(
 
     const updatedConfig = {
       ...config,
-      headers: injectTenantHeaders(config.headers || {}),
+      headers: injectTenantHeaders(config.headers || {}, tenantContext),
     }
 
     // Add tenant context to request context for logging
@@ -260,29 +301,6 @@ export function createDefaultErrorInterceptors(
   return interceptors
 }
 
-/**
- * Request deduplication interceptor
- * Prevents duplicate concurrent requests
- */
-export function createDeduplicationInterceptor(): RequestInterceptor {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const pendingRequests = new Map<string, Promise<any>>()
-
-  return async (url, config, _context) => {
-    // Create request key for deduplication
-    const requestKey = `${config.method || 'GET'}:${url}:${JSON.stringify(config.headers || {})}`
-
-    // Check if identical request is already pending
-    if (pendingRequests.has(requestKey)) {
-      console.log(`[Deduplication] Reusing pending request: ${requestKey}`)
-      // Return the existing promise (this will be handled by the caller)
-      throw new Error('DUPLICATE_REQUEST')
-    }
-
-    return { url, config }
-  }
-}
-
 /**
  * Cache control interceptor
  * Adds cache headers based on configuration
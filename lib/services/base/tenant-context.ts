@@ -67,30 +67,78 @@ export function createTenantContext(host: string): TenantContext {
 }
 
 /**
- * Global tenant context (for server-side usage)
- * This would be set by Next.js middleware
+ * Request header carrying the resolved tenant (set by middleware)
  */
-let globalTenantContext: TenantContext | null = null
+export const TENANT_ID_HEADER = 'x-tenant-id'
 
 /**
- * Set global tenant context (called by middleware)
+ * Minimal AsyncLocalStorage surface used for the request scope
  */
-export function setGlobalTenantContext(context: TenantContext): void {
-  globalTenantContext = context
+interface TenantContextStorage {
+  run<R>(store: TenantContext, callback: () => R): R
+  getStore(): TenantContext | undefined
 }
 
 /**
- * Get global tenant context
+ * Request-scoped tenant context storage
+ * Next.js exposes AsyncLocalStorage on globalThis in both the Node.js and
+ * Edge runtimes; in the browser there is no request scope (null).
  */
-export function getGlobalTenantContext(): TenantContext | null {
-  return globalTenantContext
+let tenantContextStorage: TenantContextStorage | null | undefined
+
+function getTenantContextStorage(): TenantContextStorage | null {
+  if (tenantContextStorage === undefined) {
+    const Storage = (
+      globalThis as { AsyncLocalStorage?: new () => TenantContextStorage }
+    ).AsyncLocalStorage
+    tenantContextStorage = Storage ? new Storage() : null
+  }
+  return tenantContextStorage
+}
+
+/**
+ * Run a callback with a tenant context bound to the current request
+ * Everything awaited inside the callback sees this context, concurrent
+ * requests never see each other's tenant.
+ */
+export function runWithTenantContext<R>(
+  context: TenantContext,
+  callback: () => R,
+): R {
+  const storage = getTenantContextStorage()
+  return storage ? storage.run(context, callback) : callback()
+}
+
+/**
+ * Get the tenant context bound to the current request, if any
+ */
+export function getRequestTenantContext(): TenantContext | null {
+  return getTenantContextStorage()?.getStore() || null
+}
+
+/**
+ * Build a tenant context from request headers
+ * The tenant ID comes from the middleware-set x-tenant-id header,
+ * falling back to host-based extraction.
+ */
+export function createTenantContextFromHeaders(headers: {
+  get(name: string): string | null
+}): TenantContext {
+  const host = headers.get('host') || ''
+  const context = createTenantContext(host)
+
+  return {
+    ...context,
+    host: host || null,
+    tenantId: headers.get(TENANT_ID_HEADER) || context.tenantId,
+  }
 }
 
 /**
  * Get current tenant ID (for API calls)
  */
 export function getCurrentTenantId(): string | null {
-  const context = getGlobalTenantContext()
+  const context = getRequestTenantContext()
   return context?.tenantId || null
 }
 
@@ -98,7 +146,7 @@ export function getCurrentTenantId(): string | null {
  * Get current environment (for API calls)
  */
 export function getCurrentEnvironment(): 'development' | 'qa' | 'production' {
-  const context = getGlobalTenantContext()
+  const context = getRequestTenantContext()
   if (context?.environment) {
     return context.environment
   }
@@ -144,37 +192,115 @@ export function getCurrentEnvironment(): 'development' | 'qa' | 'production' {
 }
 
 // Import tenant utilities
+import { REQUEST_HEADERS } from '../../config/api-endpoints'
 import { TenantContext as ApiTenantContext, TenantResolver } from './types'
 
-// Placeholder implementations for Edge Runtime compatibility
-export class DefaultTenantResolver implements TenantResolver {
+/**
+ * Convert a request tenant context into the API tenant context shape
+ */
+function toApiTenantContext(
+  context: TenantContext | null,
+): ApiTenantContext | null {
+  if (!context?.tenantId) return null
+
+  return {
+    tenantId: context.tenantId,
+    subdomain: context.host
+      ? extractTenantIdFromHost(context.host) || undefined
+      : undefined,
+  }
+}
+
+/**
+ * Server-side tenant resolver
+ * Reads the request scope (runWithTenantContext) first, then the
+ * x-tenant-id request header via next/headers. Never falls back to
+ * state shared between requests.
+ */
+export class ServerTenantResolver implements TenantResolver {
   async resolve(): Promise<ApiTenantContext | null> {
-    return null
+    const scoped = this.getCurrentTenant()
+    if (scoped) return scoped
+
+    try {
+      // Loaded lazily so this module stays importable from client code
+      const { headers } = await import('next/headers')
+      return toApiTenantContext(createTenantContextFromHeaders(await headers()))
+    } catch {
+      // Outside a request (build time, scripts, tests)
+      return null
+    }
   }
+
   getCurrentTenant(): ApiTenantContext | null {
-    return null
+    return toApiTenantContext(getRequestTenantContext())
   }
-  setTenant(): void {}
+
+  setTenant(): void {
+    throw new Error(
+      'Server tenant context is request-scoped, use runWithTenantContext()',
+    )
+  }
+
   clearTenant(): void {}
 }
 
-export class ServerTenantResolver implements TenantResolver {
+/**
+ * Default tenant resolver for code shared by server and browser
+ * Server: delegates to ServerTenantResolver.
+ * Browser: explicitly set tenant, then the current hostname.
+ */
+export class DefaultTenantResolver implements TenantResolver {
+  private tenant: ApiTenantContext | null = null
+  private serverResolver = new ServerTenantResolver()
+
   async resolve(): Promise<ApiTenantContext | null> {
-    return null
+    if (typeof window === 'undefined') {
+      return this.serverResolver.resolve()
+    }
+    return this.getCurrentTenant()
   }
+
   getCurrentTenant(): ApiTenantContext | null {
-    return null
+    if (typeof window === 'undefined') {
+      return this.serverResolver.getCurrentTenant()
+    }
+    if (this.tenant) return this.tenant
+
+    return toApiTenantContext(createTenantContext(window.location.host))
+  }
+
+  setTenant(tenant: ApiTenantContext): void {
+    if (typeof window === 'undefined') {
+      this.serverResolver.setTenant()
+    }
+    this.tenant = tenant
+  }
+
+  clearTenant(): void {
+    this.tenant = null
   }
-  setTenant(): void {}
-  clearTenant(): void {}
 }
 
+/**
+ * Add tenant headers for a resolved tenant context
+ */
 export function injectTenantHeaders(
   headers: Record<string, string>,
+  tenant?: ApiTenantContext | null,
 ): Record<string, string> {
-  return headers
+  if (!tenant) return headers
+
+  return {
+    ...headers,
+    [REQUEST_HEADERS.TENANT_ID]: tenant.tenantId,
+    ...(tenant.subdomain && { 'X-Tenant-Subdomain': tenant.subdomain }),
+  }
 }
 
-export function validateTenantContext(): boolean {
-  return false
+/**
+ * Check that a tenant context carries a usable tenant ID
+ */
+export function validateTenantContext(context?: TenantContext | null): boolean {
+  return Boolean(context?.tenantId && /^[a-z0-9-]+$/.test(context.tenantId))
 }
@@ -1,7 +1,10 @@
 /**
  * Base service types and interfaces
+ * Concrete error classes (NetworkError, ValidationError, ...) live in errors.ts
  */
 
+import type { NetworkError } from './errors'
+
 // Base HTTP response wrapper
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export interface HttpResponse<T = any> {
@@ -83,40 +86,6 @@ export interface ServiceError {
   tenantId?: string
 }
 
-// Validation error
-export interface ValidationError extends ServiceError {
-  field: string
-  constraint: string
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  rejectedValue: any
-}
-
-// Network error
-export interface NetworkError extends ServiceError {
-  statusCode?: number
-  retryable: boolean
-  retryAfter?: number
-}
-
-// Authentication error
-export interface AuthenticationError extends ServiceError {
-  authRequired: boolean
-  redirectUrl?: string
-}
-
-// Business logic error
-export interface BusinessLogicError extends ServiceError {
-  businessCode: string
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  context?: Record<string, any>
-}
-
-// Tenant error
-export interface TenantError extends ServiceError {
-  tenantId: string
-  configIssue?: string
-}
-
 // File upload error
 export interface FileUploadError extends ServiceError {
   fileName?: string
@@ -187,6 +156,7 @@ export interface ApiClientConfig {
   timeout: number
   retryAttempts: number
   retryDelay: number
+  maxRetryDelay?: number
   tenantResolver?: TenantResolver
   enableLogging?: boolean
   enableCaching?: boolean
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for catalog providers behind ProductsService
+ * The file provider runs entirely offline against public/catalogs
+ */
+
+import testRentalCatalog from '../../../../public/catalogs/test-rental.json'
+import { BusinessLogicError } from '../../base/errors'
+import { ProductsService } from '../../products/products-service'
+import {
+  CatalogFile,
+  createCatalogProvider,
+  DummyJsonCatalogProvider,
+  FileCatalogProvider,
+} from '..'
+
+const catalog = testRentalCatalog as CatalogFile
+
+describe('FileCatalogProvider', () => {
+  const load = jest.fn(async () => catalog)
+  const service = new ProductsService(
+    new FileCatalogProvider({ file: 'test-rental.json', load }),
+  )
+
+  it('pages with DummyJSON skip/limit semantics', async () => {
+    const page = await service.getProducts({ page: 2, limit: 4 })
+
+    expect(page.products.map(product => product.id)).toEqual([5, 6])
+    expect(page).toMatchObject({ total: 6, skip: 4, limit: 2 })
+    expect(load).toHaveBeenCalledWith('test-rental.json', undefined)
+  })
+
+  it('filters, sorts and selects fields', async () => {
+    const result = await service.getProductsByCategory('furniture', {
+      sortBy: 'price',
+      order: 'asc',
+      select: 'title,price',
+    })
+
+    expect(result.products).toEqual([
+      { id: 5, title: 'Wooden Bathroom Sink With Mirror', price: 799.99 },
+      { id: 4, title: 'Annibale Colombo Bed', price: 1899.99 },
+    ])
+  })
+
+  it('searches titles, descriptions and brands', async () => {
+    const result = await service.searchProducts({ q: 'MIRROR' })
+
+    expect(result.products.map(product => product.id)).toEqual([2, 5])
+  })
+
+  it('derives categories from products', async () => {
+    await expect(service.getCategoryList()).resolves.toEqual([
+      'beauty',
+      'fragrances',
+      'furniture',
+      'groceries',
+    ])
+    await expect(service.getCategories()).resolves.toContainEqual({
+      slug: 'fragrances',
+      name: 'Fragrances',
+      url: '/products?category=fragrances',
+    })
+  })
+
+  it('reports unknown products as not found', async () => {
+    const error = await service.getProduct(999).catch(e => e)
+
+    expect(error).toBeInstanceOf(BusinessLogicError)
+    expect(error).toMatchObject({ status: 404 })
+  })
+})
+
+describe('DummyJsonCatalogProvider', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({ products: [], total: 0, skip: 0, limit: 0 }),
+          { headers: { 'content-type': 'application/json' } },
+        ),
+    )
+  })
+
+  it('converts pages to skip against the configured base URL', async () => {
+    const service = new ProductsService(
+      new DummyJsonCatalogProvider({ baseURL: 'https://catalog.example.com' }),
+    )
+
+    await service.getProducts({ page: 3, limit: 10, sortBy: 'title' })
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      'https://catalog.example.com/products?skip=20&limit=10&sortBy=title',
+    )
+  })
+
+  it('tags server fetches with the tenant, catalog and product', async () => {
+    const service = new ProductsService(
+      createCatalogProvider(
+        { provider: 'dummyjson', baseURL: 'https://catalog.example.com' },
+        { tenantId: 'abc-rentals' },
+      ),
+    )
+
+    await service.getProducts({ limit: 10 })
+    await service.getProduct(12)
+
+    expect(mockFetch.mock.calls[0][1]?.next).toEqual({
+      tags: ['tenant:abc-rentals', 'catalog:abc-rentals'],
+      revalidate: 3600,
+    })
+    expect(mockFetch.mock.calls[1][1]?.next?.tags).toEqual([
+      'tenant:abc-rentals',
+      'catalog:abc-rentals',
+      'product:abc-rentals:12',
+    ])
+  })
+
+  it('leaves fetches untagged without a tenant', async () => {
+    const service = new ProductsService(new DummyJsonCatalogProvider())
+
+    await service.getProducts({ limit: 10 })
+
+    expect(mockFetch.mock.calls[0][1]?.next).toBeUndefined()
+  })
+})
+
+describe('createCatalogProvider', () => {
+  it('selects the provider from the tenant catalog config', () => {
+    expect(createCatalogProvider().id).toBe('dummyjson')
+    expect(createCatalogProvider({ provider: 'dummyjson' }).id).toBe(
+      'dummyjson',
+    )
+    expect(
+      createCatalogProvider({ provider: 'file', file: 'test-rental.json' }).id,
+    ).toBe('file')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Tests for per-tenant catalog curation rules
+ */
+
+import testRentalCatalog from '../../../../public/catalogs/test-rental.json'
+import { isBusinessLogicError } from '../../base/errors'
+import { ProductsService } from '../../products/products-service'
+import {
+  CatalogFile,
+  CuratedCatalogProvider,
+  FileCatalogProvider,
+  isProductVisible,
+} from '..'
+import type { TenantCatalogRules } from '../../../types/tenant'
+
+const catalog = testRentalCatalog as CatalogFile
+
+function curatedService(rules: TenantCatalogRules) {
+  const inner = new FileCatalogProvider({
+    file: 'test-rental.json',
+    load: async () => catalog,
+  })
+  return new ProductsService(new CuratedCatalogProvider(inner, rules))
+}
+
+const ids = (response: { products: { id: number }[] }) =>
+  response.products.map(product => product.id)
+
+describe('CuratedCatalogProvider', () => {
+  it('applies category include/exclude lists', async () => {
+    const service = curatedService({
+      includeCategories: ['beauty', 'furniture'],
+      excludeCategories: ['furniture'],
+    })
+
+    expect(ids(await service.getProducts())).toEqual([1, 2])
+    await expect(service.getCategoryList()).resolves.toEqual(['beauty'])
+    expect(ids(await service.getProductsByCategory('furniture'))).toEqual([])
+  })
+
+  it('restricts brands and hides SKUs', async () => {
+    const service = curatedService({
+      brands: ['Essence', 'Bath Trends', 'Calvin Klein'],
+      hiddenSkus: ['TR-FRA-003'],
+    })
+
+    expect(ids(await service.getProducts())).toEqual([1, 5])
+  })
+
+  it('paginates after curation so totals stay correct', async () => {
+    const service = curatedService({ excludeCategories: ['beauty'] })
+
+    const page = await service.getProducts({ page: 2, limit: 3 })
+
+    expect(ids(page)).toEqual([6])
+    expect(page).toMatchObject({ total: 4, skip: 3, limit: 1 })
+  })
+
+  it('puts pinned products first, even when sorting', async () => {
+    const service = curatedService({ pinnedProductIds: [4, 99, 2] })
+
+    const result = await service.getProducts({ sortBy: 'price', order: 'asc' })
+
+    expect(ids(result)).toEqual([4, 2, 6, 1, 3, 5])
+  })
+
+  it('marks up prices per category before sorting', async () => {
+    const service = curatedService({
+      priceMarkup: { percent: 10, categories: { groceries: 0 } },
+    })
+
+    const result = await service.getProducts({
+      select: 'price',
+      sortBy: 'price',
+      order: 'asc',
+      limit: 3,
+    })
+
+    expect(result.products).toEqual([
+      { id: 6, price: 1.99 },
+      { id: 1, price: 10.99 },
+      { id: 2, price: 21.99 },
+    ])
+  })
+
+  it('treats hidden products as not found on detail lookups', async () => {
+    const service = curatedService({
+      excludeCategories: ['groceries'],
+      priceMarkup: { percent: 50 },
+    })
+
+    const error = await service.getProduct(6).catch(e => e)
+
+    expect(isBusinessLogicError(error)).toBe(true)
+    expect(error.status).toBe(404)
+    await expect(service.getProduct(3)).resolves.toMatchObject({
+      price: 74.99,
+    })
+  })
+})
+
+describe('isProductVisible', () => {
+  it('rejects products without a brand when brands are allowlisted', () => {
+    const apple = catalog.products[5]
+
+    expect(isProductVisible({ ...apple, brand: '' }, { brands: ['X'] })).toBe(
+      false,
+    )
+    expect(isProductVisible(apple, { brands: [] })).toBe(true)
+  })
+})
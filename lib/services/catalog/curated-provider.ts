@@ -0,0 +1,215 @@
+/**
+ * Curated catalog provider
+ * Applies a tenant's assortment rules (categories, brands, pins, hidden
+ * SKUs, price markups) on top of any other catalog provider
+ */
+
+import { ERROR_CODES } from '../../config/api-endpoints'
+import {
+  CreateProductRequest,
+  Product,
+  ProductByCategoryResponse,
+  ProductCategoriesResponse,
+  ProductCategoryListResponse,
+  ProductDeleteResponse,
+  ProductListResponse,
+  ProductResponse,
+  ProductSearchParams,
+  ProductSearchResponse,
+  UpdateProductRequest,
+} from '../../types/products.types'
+import type { TenantCatalogRules } from '../../types/tenant'
+import { RequestOptions } from '../base/api-client'
+import { BusinessLogicError } from '../base/errors'
+import { filterProducts, paginate } from './query'
+import { CatalogProvider, CatalogQuery } from './types'
+
+export class CuratedCatalogProvider implements CatalogProvider {
+  readonly id: string
+
+  constructor(
+    private readonly inner: CatalogProvider,
+    private readonly rules: TenantCatalogRules,
+  ) {
+    this.id = inner.id
+  }
+
+  /**
+   * Rules can drop any product, so listings are curated from the full
+   * upstream result and paginated here
+   */
+  async listProducts(
+    query: CatalogQuery,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse> {
+    const source = query.category
+      ? await this.inner.getProductsByCategory(
+          query.category,
+          { limit: 0 },
+          options,
+        )
+      : await this.inner.listProducts({ limit: 0 }, options)
+
+    return this.present(source.products, query)
+  }
+
+  async getProduct(
+    id: number,
+    options?: RequestOptions,
+  ): Promise<ProductResponse> {
+    const product = await this.inner.getProduct(id, options)
+
+    if (!isProductVisible(product, this.rules)) {
+      throw new BusinessLogicError(`Product with id '${id}' not found`, {
+        status: 404,
+        code: ERROR_CODES.NOT_FOUND_ERROR,
+      })
+    }
+
+    return applyPriceMarkup(product, this.rules)
+  }
+
+  async searchProducts(
+    params: ProductSearchParams,
+    options?: RequestOptions,
+  ): Promise<ProductSearchResponse> {
+    const { q, ...query } = params
+    const source = await this.inner.searchProducts({ q, limit: 0 }, options)
+    return this.present(source.products, query)
+  }
+
+  async getCategories(
+    options?: RequestOptions,
+  ): Promise<ProductCategoriesResponse> {
+    const categories = await this.inner.getCategories(options)
+    return categories.filter(category =>
+      isCategoryVisible(category.slug, this.rules),
+    )
+  }
+
+  async getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse> {
+    const categories = await this.inner.getCategoryList(options)
+    return categories.filter(slug => isCategoryVisible(slug, this.rules))
+  }
+
+  async getProductsByCategory(
+    category: string,
+    query: Omit<CatalogQuery, 'category'>,
+    options?: RequestOptions,
+  ): Promise<ProductByCategoryResponse> {
+    return this.listProducts({ ...query, category }, options)
+  }
+
+  // Catalog management bypasses curation
+  createProduct(data: CreateProductRequest): Promise<ProductResponse> {
+    return this.inner.createProduct(data)
+  }
+
+  updateProduct(
+    id: number,
+    data: UpdateProductRequest,
+  ): Promise<ProductResponse> {
+    return this.inner.updateProduct(id, data)
+  }
+
+  deleteProduct(id: number): Promise<ProductDeleteResponse> {
+    return this.inner.deleteProduct(id)
+  }
+
+  private present(
+    products: Product[],
+    query: CatalogQuery,
+  ): ProductListResponse {
+    const curated = curateProducts(products, this.rules)
+    return paginate(
+      pinProducts(filterProducts(curated, query), this.rules),
+      query,
+    )
+  }
+}
+
+/**
+ * Whether a category passes the include/exclude lists
+ */
+export function isCategoryVisible(
+  category: string,
+  rules: TenantCatalogRules,
+): boolean {
+  if (
+    rules.includeCategories?.length &&
+    !rules.includeCategories.includes(category)
+  ) {
+    return false
+  }
+  return !rules.excludeCategories?.includes(category)
+}
+
+/**
+ * Whether a product may be shown under the tenant's rules
+ */
+export function isProductVisible(
+  product: Product,
+  rules: TenantCatalogRules,
+): boolean {
+  if (!isCategoryVisible(product.category, rules)) {
+    return false
+  }
+  if (rules.brands?.length && !rules.brands.includes(product.brand)) {
+    return false
+  }
+  return !(product.sku && rules.hiddenSkus?.includes(product.sku))
+}
+
+/**
+ * Apply the tenant markup for the product's category, rounded to cents
+ */
+export function applyPriceMarkup<T extends Product>(
+  product: T,
+  rules: TenantCatalogRules,
+): T {
+  const percent =
+    rules.priceMarkup?.categories?.[product.category] ??
+    rules.priceMarkup?.percent
+
+  if (!percent) {
+    return product
+  }
+
+  return {
+    ...product,
+    price: Math.round(product.price * (100 + percent)) / 100,
+  }
+}
+
+/**
+ * Drop products hidden by the rules and mark up the rest
+ */
+export function curateProducts(
+  products: Product[],
+  rules: TenantCatalogRules,
+): Product[] {
+  return products
+    .filter(product => isProductVisible(product, rules))
+    .map(product => applyPriceMarkup(product, rules))
+}
+
+/**
+ * Move pinned products to the front, in pin order
+ */
+function pinProducts(
+  products: Product[],
+  rules: TenantCatalogRules,
+): Product[] {
+  const pins = rules.pinnedProductIds
+  if (!pins?.length) {
+    return products
+  }
+
+  const pinned = pins
+    .map(id => products.find(product => product.id === id))
+    .filter((product): product is Product => product !== undefined)
+
+  return [...pinned, ...products.filter(product => !pins.includes(product.id))]
+}
@@ -0,0 +1,131 @@
+/**
+ * DummyJSON catalog provider
+ * Talks to a DummyJSON-compatible REST API through the shared API client
+ */
+
+import {
+  API_CONFIG,
+  createProductEndpoints,
+  ProductEndpoints,
+} from '../../config/api-endpoints'
+import {
+  CreateProductRequest,
+  ProductByCategoryResponse,
+  ProductCategoriesResponse,
+  ProductCategoryListResponse,
+  ProductDeleteResponse,
+  ProductListResponse,
+  ProductResponse,
+  ProductSearchParams,
+  ProductSearchResponse,
+  UpdateProductRequest,
+} from '../../types/products.types'
+import { ApiClient, RequestOptions, sharedApiClient } from '../base/api-client'
+import { CatalogProvider, CatalogQuery } from './types'
+
+export interface DummyJsonCatalogOptions {
+  baseURL?: string
+  client?: ApiClient
+}
+
+export class DummyJsonCatalogProvider implements CatalogProvider {
+  readonly id = 'dummyjson'
+  private readonly endpoints: ProductEndpoints
+  private readonly client: ApiClient
+
+  constructor(options: DummyJsonCatalogOptions = {}) {
+    this.endpoints = createProductEndpoints(
+      options.baseURL || API_CONFIG.BASE_URL,
+    )
+    this.client = options.client || sharedApiClient
+  }
+
+  async listProducts(
+    query: CatalogQuery,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse> {
+    const url = `${this.endpoints.LIST}?${toSearchParams(query)}`
+    return this.client.get<ProductListResponse>(url, options)
+  }
+
+  async getProduct(
+    id: number,
+    options?: RequestOptions,
+  ): Promise<ProductResponse> {
+    return this.client.get<ProductResponse>(this.endpoints.DETAIL(id), options)
+  }
+
+  async searchProducts(
+    params: ProductSearchParams,
+    options?: RequestOptions,
+  ): Promise<ProductSearchResponse> {
+    const queryParams = new URLSearchParams()
+
+    queryParams.set('q', params.q)
+    if (params.limit) queryParams.set('limit', params.limit.toString())
+    if (params.skip) queryParams.set('skip', params.skip.toString())
+    if (params.select) queryParams.set('select', params.select)
+
+    const url = `${this.endpoints.SEARCH}?${queryParams.toString()}`
+    return this.client.get<ProductSearchResponse>(url, options)
+  }
+
+  async getCategories(
+    options?: RequestOptions,
+  ): Promise<ProductCategoriesResponse> {
+    return this.client.get<ProductCategoriesResponse>(
+      this.endpoints.CATEGORIES,
+      options,
+    )
+  }
+
+  async getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse> {
+    return this.client.get<ProductCategoryListResponse>(
+      this.endpoints.CATEGORY_LIST,
+      options,
+    )
+  }
+
+  async getProductsByCategory(
+    category: string,
+    query: Omit<CatalogQuery, 'category'>,
+    options?: RequestOptions,
+  ): Promise<ProductByCategoryResponse> {
+    const url = `${this.endpoints.BY_CATEGORY(category)}?${toSearchParams(query)}`
+    return this.client.get<ProductByCategoryResponse>(url, options)
+  }
+
+  async createProduct(data: CreateProductRequest): Promise<ProductResponse> {
+    return this.client.post<ProductResponse>(this.endpoints.CREATE, data)
+  }
+
+  async updateProduct(
+    id: number,
+    data: UpdateProductRequest,
+  ): Promise<ProductResponse> {
+    return this.client.put<ProductResponse>(this.endpoints.UPDATE(id), data)
+  }
+
+  async deleteProduct(id: number): Promise<ProductDeleteResponse> {
+    return this.client.delete<ProductDeleteResponse>(this.endpoints.DELETE(id))
+  }
+}
+
+/**
+ * Serialize a listing query the way DummyJSON expects it
+ */
+function toSearchParams(query: CatalogQuery): string {
+  const queryParams = new URLSearchParams()
+
+  if (query.skip) queryParams.set('skip', query.skip.toString())
+  if (query.limit) queryParams.set('limit', query.limit.toString())
+  if (query.search) queryParams.set('search', query.search)
+  if (query.category) queryParams.set('category', query.category)
+  if (query.sortBy) queryParams.set('sortBy', query.sortBy)
+  if (query.order) queryParams.set('order', query.order)
+  if (query.select) queryParams.set('select', query.select)
+
+  return queryParams.toString()
+}
@@ -0,0 +1,219 @@
+/**
+ * JSON file catalog provider
+ * Serves products from a static catalog file with DummyJSON-compatible
+ * pagination, search, sorting and field selection, so storefronts (and
+ * tests) can run without a remote catalog API.
+ */
+
+import { ERROR_CODES } from '../../config/api-endpoints'
+import {
+  CreateProductRequest,
+  Product,
+  ProductByCategoryResponse,
+  ProductCategoriesResponse,
+  ProductCategory,
+  ProductCategoryListResponse,
+  ProductDeleteResponse,
+  ProductListResponse,
+  ProductResponse,
+  ProductSearchParams,
+  ProductSearchResponse,
+  UpdateProductRequest,
+} from '../../types/products.types'
+import { RequestOptions, sharedApiClient } from '../base/api-client'
+import { BusinessLogicError, ValidationError } from '../base/errors'
+import { filterProducts, paginate } from './query'
+import { CatalogProvider, CatalogQuery } from './types'
+
+// Public path the catalog files are served from (public/catalogs)
+export const CATALOG_FILES_PATH = '/catalogs'
+
+// Shape of a catalog file
+export interface CatalogFile {
+  products: Product[]
+  /** Optional display names/URLs; derived from products when omitted */
+  categories?: ProductCategory[]
+}
+
+export type CatalogFileLoader = (
+  file: string,
+  options?: RequestOptions,
+) => Promise<CatalogFile>
+
+export interface FileCatalogOptions {
+  /** File name inside public/catalogs */
+  file: string
+  /** Defaults to fetching the file from CATALOG_FILES_PATH */
+  load?: CatalogFileLoader
+}
+
+export class FileCatalogProvider implements CatalogProvider {
+  readonly id = 'file'
+  private readonly file: string
+  private readonly load: CatalogFileLoader
+
+  constructor(options: FileCatalogOptions) {
+    this.file = options.file
+    this.load = options.load || fetchCatalogFile
+  }
+
+  async listProducts(
+    query: CatalogQuery,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse> {
+    const { products } = await this.getCatalog(options)
+    return paginate(filterProducts(products, query), query)
+  }
+
+  async getProduct(
+    id: number,
+    options?: RequestOptions,
+  ): Promise<ProductResponse> {
+    const { products } = await this.getCatalog(options)
+    return findProduct(products, id)
+  }
+
+  async searchProducts(
+    params: ProductSearchParams,
+    options?: RequestOptions,
+  ): Promise<ProductSearchResponse> {
+    const { products } = await this.getCatalog(options)
+    const { q, ...query } = params
+    return paginate(filterProducts(products, { search: q }), query)
+  }
+
+  async getCategories(
+    options?: RequestOptions,
+  ): Promise<ProductCategoriesResponse> {
+    const catalog = await this.getCatalog(options)
+    if (catalog.categories) {
+      return catalog.categories
+    }
+
+    return getCategorySlugs(catalog.products).map(slug => ({
+      slug,
+      name: formatCategoryName(slug),
+      url: `/products?category=${encodeURIComponent(slug)}`,
+    }))
+  }
+
+  async getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse> {
+    const catalog = await this.getCatalog(options)
+    return catalog.categories
+      ? catalog.categories.map(category => category.slug)
+      : getCategorySlugs(catalog.products)
+  }
+
+  async getProductsByCategory(
+    category: string,
+    query: Omit<CatalogQuery, 'category'>,
+    options?: RequestOptions,
+  ): Promise<ProductByCategoryResponse> {
+    return this.listProducts({ ...query, category }, options)
+  }
+
+  /**
+   * Writes are simulated like DummyJSON: the product is returned but the
+   * catalog file is left untouched
+   */
+  async createProduct(data: CreateProductRequest): Promise<ProductResponse> {
+    const { products } = await this.getCatalog()
+    const id = products.reduce((max, product) => Math.max(max, product.id), 0)
+
+    return {
+      discountPercentage: 0,
+      rating: 0,
+      stock: 0,
+      brand: '',
+      thumbnail: '',
+      images: [],
+      ...data,
+      id: id + 1,
+    }
+  }
+
+  async updateProduct(
+    id: number,
+    data: UpdateProductRequest,
+  ): Promise<ProductResponse> {
+    const { products } = await this.getCatalog()
+    return { ...findProduct(products, id), ...data, id }
+  }
+
+  async deleteProduct(id: number): Promise<ProductDeleteResponse> {
+    const { products } = await this.getCatalog()
+    return {
+      ...findProduct(products, id),
+      isDeleted: true,
+      deletedOn: new Date().toISOString(),
+    }
+  }
+
+  private async getCatalog(options?: RequestOptions): Promise<CatalogFile> {
+    const catalog = await this.load(this.file, options)
+
+    if (!catalog || !Array.isArray(catalog.products)) {
+      throw new ValidationError(
+        `Catalog file ${this.file} must contain a products array`,
+      )
+    }
+
+    return catalog
+  }
+}
+
+// Browser-side catalog files, shared by every provider for the same file
+const fetchedCatalogs = new Map<string, Promise<CatalogFile>>()
+
+/**
+ * Default loader: fetch the file from the app's public directory
+ */
+function fetchCatalogFile(
+  file: string,
+  options?: RequestOptions,
+): Promise<CatalogFile> {
+  if (typeof window === 'undefined') {
+    throw new ValidationError(
+      'File catalogs need a loader on the server, use getServerProductsService() from lib/catalog',
+    )
+  }
+
+  const cached = fetchedCatalogs.get(file)
+  if (cached) {
+    return cached
+  }
+
+  const url = `${window.location.origin}${CATALOG_FILES_PATH}/${file}`
+  const promise = sharedApiClient.get<CatalogFile>(url, options)
+  fetchedCatalogs.set(file, promise)
+  promise.catch(() => fetchedCatalogs.delete(file))
+
+  return promise
+}
+
+function findProduct(products: Product[], id: number): Product {
+  const product = products.find(item => item.id === id)
+
+  if (!product) {
+    throw new BusinessLogicError(`Product with id '${id}' not found`, {
+      status: 404,
+      code: ERROR_CODES.NOT_FOUND_ERROR,
+    })
+  }
+
+  return product
+}
+
+function getCategorySlugs(products: Product[]): string[] {
+  return [...new Set(products.map(product => product.category))].sort()
+}
+
+// 'home-decoration' -> 'Home Decoration'
+export function formatCategoryName(slug: string): string {
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
@@ -0,0 +1,74 @@
+/**
+ * Catalog providers module exports
+ */
+
+import type { TenantCatalogConfig } from '../../types/tenant'
+import { CuratedCatalogProvider } from './curated-provider'
+import { DummyJsonCatalogProvider } from './dummyjson-provider'
+import { CatalogFileLoader, FileCatalogProvider } from './file-provider'
+import { TaggedCatalogProvider } from './tagged-provider'
+import { CatalogProvider } from './types'
+
+export {
+  applyPriceMarkup,
+  curateProducts,
+  CuratedCatalogProvider,
+  isCategoryVisible,
+  isProductVisible,
+} from './curated-provider'
+export { DummyJsonCatalogProvider } from './dummyjson-provider'
+export type { DummyJsonCatalogOptions } from './dummyjson-provider'
+export {
+  CATALOG_FILES_PATH,
+  FileCatalogProvider,
+  formatCategoryName,
+} from './file-provider'
+export type {
+  CatalogFile,
+  CatalogFileLoader,
+  FileCatalogOptions,
+} from './file-provider'
+export { TaggedCatalogProvider } from './tagged-provider'
+export type { CatalogProvider, CatalogQuery } from './types'
+
+export interface CreateCatalogProviderOptions {
+  /** Loader for file catalogs (the server reads them from disk) */
+  loadFile?: CatalogFileLoader
+  /** Tenant whose cache tags are added to catalog fetches (server only) */
+  tenantId?: string
+}
+
+/**
+ * Create the catalog provider described by a tenant's `catalog` config
+ * Tenants without one use DummyJSON; `rules` wrap it in curation, and a
+ * `tenantId` tags its fetches for revalidation
+ */
+export function createCatalogProvider(
+  config?: TenantCatalogConfig,
+  options: CreateCatalogProviderOptions = {},
+): CatalogProvider {
+  const backend = createBackendProvider(config, options)
+  const provider = options.tenantId
+    ? new TaggedCatalogProvider(backend, options.tenantId)
+    : backend
+  return config?.rules
+    ? new CuratedCatalogProvider(provider, config.rules)
+    : provider
+}
+
+function createBackendProvider(
+  config: TenantCatalogConfig | undefined,
+  options: CreateCatalogProviderOptions,
+): CatalogProvider {
+  switch (config?.provider) {
+    case 'file':
+      return new FileCatalogProvider({
+        file: config.file,
+        load: options.loadFile,
+      })
+    case 'dummyjson':
+      return new DummyJsonCatalogProvider({ baseURL: config.baseURL })
+    default:
+      return new DummyJsonCatalogProvider()
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * In-memory catalog querying
+ * DummyJSON-compatible filtering, sorting, pagination and field selection
+ * for providers that hold the product list themselves
+ */
+
+import { Product, ProductListResponse } from '../../types/products.types'
+import { CatalogQuery } from './types'
+
+// DummyJSON returns 30 products when no limit is given
+const DEFAULT_LIMIT = 30
+
+/**
+ * Filter by category and search text, then sort
+ */
+export function filterProducts(
+  products: Product[],
+  query: CatalogQuery,
+): Product[] {
+  const search = query.search?.trim().toLowerCase()
+
+  const matches = products.filter(product => {
+    if (query.category && product.category !== query.category) {
+      return false
+    }
+    if (search) {
+      return [product.title, product.description, product.brand].some(text =>
+        text?.toLowerCase().includes(search),
+      )
+    }
+    return true
+  })
+
+  if (!query.sortBy) {
+    return matches
+  }
+
+  const key = query.sortBy as keyof Product
+  const direction = query.order === 'desc' ? -1 : 1
+
+  return [...matches].sort((a, b) => {
+    const left = a[key]
+    const right = b[key]
+    if (left === right) return 0
+    if (left === undefined) return 1
+    if (right === undefined) return -1
+    return (left > right ? 1 : -1) * direction
+  })
+}
+
+/**
+ * Apply DummyJSON skip/limit/select semantics (limit 0 returns everything)
+ */
+export function paginate(
+  products: Product[],
+  query: Pick<CatalogQuery, 'skip' | 'limit' | 'select'>,
+): ProductListResponse {
+  const skip = query.skip || 0
+  const limit = query.limit ?? DEFAULT_LIMIT
+  const page = products.slice(skip, limit === 0 ? undefined : skip + limit)
+  const { select } = query
+
+  return {
+    // Like DummyJSON, listings keep the Product type under `select`; callers
+    // that pass it only read the fields they asked for
+    products: select
+      ? (page.map(product => selectFields(product, select)) as Product[])
+      : page,
+    total: products.length,
+    skip,
+    limit: limit === 0 ? page.length : Math.min(limit, page.length),
+  }
+}
+
+// Product narrowed to the `select`ed fields
+type SelectedProduct = Pick<Product, 'id'> & Partial<Product>
+
+// `select` narrows products to the listed fields; `id` is always kept
+function selectFields(product: Product, select: string): SelectedProduct {
+  const fields = select.split(',').map(field => field.trim())
+  const selected: SelectedProduct = { id: product.id }
+
+  for (const field of fields) {
+    if (field in product) {
+      const key = field as keyof Product
+      Object.assign(selected, { [key]: product[key] })
+    }
+  }
+
+  return selected
+}
@@ -0,0 +1,94 @@
+/**
+ * Tagged catalog provider
+ * Tags every read with the tenant's cache tags so the server caches catalog
+ * fetches per tenant and /api/revalidate can purge them by tenant, catalog
+ * or product
+ */
+
+import { getCatalogTags } from '../../cache-tags'
+import {
+  CreateProductRequest,
+  ProductByCategoryResponse,
+  ProductCategoriesResponse,
+  ProductCategoryListResponse,
+  ProductDeleteResponse,
+  ProductListResponse,
+  ProductResponse,
+  ProductSearchParams,
+  ProductSearchResponse,
+  UpdateProductRequest,
+} from '../../types/products.types'
+import { RequestOptions } from '../base/api-client'
+import { CatalogProvider, CatalogQuery } from './types'
+
+export class TaggedCatalogProvider implements CatalogProvider {
+  readonly id: string
+
+  constructor(
+    private readonly inner: CatalogProvider,
+    private readonly tenantId: string,
+  ) {
+    this.id = inner.id
+  }
+
+  listProducts(
+    query: CatalogQuery,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse> {
+    return this.inner.listProducts(query, this.tag(options))
+  }
+
+  getProduct(id: number, options?: RequestOptions): Promise<ProductResponse> {
+    return this.inner.getProduct(id, this.tag(options, id))
+  }
+
+  searchProducts(
+    params: ProductSearchParams,
+    options?: RequestOptions,
+  ): Promise<ProductSearchResponse> {
+    return this.inner.searchProducts(params, this.tag(options))
+  }
+
+  getCategories(options?: RequestOptions): Promise<ProductCategoriesResponse> {
+    return this.inner.getCategories(this.tag(options))
+  }
+
+  getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse> {
+    return this.inner.getCategoryList(this.tag(options))
+  }
+
+  getProductsByCategory(
+    category: string,
+    query: Omit<CatalogQuery, 'category'>,
+    options?: RequestOptions,
+  ): Promise<ProductByCategoryResponse> {
+    return this.inner.getProductsByCategory(category, query, this.tag(options))
+  }
+
+  createProduct(data: CreateProductRequest): Promise<ProductResponse> {
+    return this.inner.createProduct(data)
+  }
+
+  updateProduct(
+    id: number,
+    data: UpdateProductRequest,
+  ): Promise<ProductResponse> {
+    return this.inner.updateProduct(id, data)
+  }
+
+  deleteProduct(id: number): Promise<ProductDeleteResponse> {
+    return this.inner.deleteProduct(id)
+  }
+
+  private tag(options?: RequestOptions, productId?: number): RequestOptions {
+    return {
+      ...options,
+      tags: [
+        ...(options?.tags ?? []),
+        ...getCatalogTags(this.tenantId, productId),
+      ],
+    }
+  }
+}
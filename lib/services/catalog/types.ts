@@ -0,0 +1,60 @@
+/**
+ * Catalog provider contract
+ * ProductsService delegates every product operation to a CatalogProvider,
+ * so each tenant can point its storefront at a different catalog backend.
+ */
+
+import type {
+  CreateProductRequest,
+  ProductByCategoryResponse,
+  ProductCategoriesResponse,
+  ProductCategoryListResponse,
+  ProductDeleteResponse,
+  ProductListResponse,
+  ProductResponse,
+  ProductSearchParams,
+  ProductSearchResponse,
+  UpdateProductRequest,
+} from '../../types/products.types'
+import type { RequestOptions } from '../base/api-client'
+
+// Listing query after page numbers have been converted to skip/limit
+export interface CatalogQuery {
+  skip?: number
+  limit?: number
+  search?: string
+  category?: string
+  sortBy?: string
+  order?: 'asc' | 'desc'
+  select?: string
+}
+
+export interface CatalogProvider {
+  /** Provider ID as used in the tenant config (`catalog.provider`) */
+  readonly id: string
+
+  listProducts(
+    query: CatalogQuery,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse>
+  getProduct(id: number, options?: RequestOptions): Promise<ProductResponse>
+  searchProducts(
+    params: ProductSearchParams,
+    options?: RequestOptions,
+  ): Promise<ProductSearchResponse>
+  getCategories(options?: RequestOptions): Promise<ProductCategoriesResponse>
+  getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse>
+  getProductsByCategory(
+    category: string,
+    query: Omit<CatalogQuery, 'category'>,
+    options?: RequestOptions,
+  ): Promise<ProductByCategoryResponse>
+  createProduct(data: CreateProductRequest): Promise<ProductResponse>
+  updateProduct(
+    id: number,
+    data: UpdateProductRequest,
+  ): Promise<ProductResponse>
+  deleteProduct(id: number): Promise<ProductDeleteResponse>
+}
@@ -15,7 +15,7 @@ import {
   ProductSearchParams,
   UpdateProductRequest,
 } from '../../types/products.types'
-import { productsService } from '../products/products-service'
+import { useProductsService } from '../../providers/ProductsServiceProvider'
 
 // Query keys for React Query
 export const productsKeys = {
@@ -44,9 +44,10 @@ export const productsKeys = {
  * Provides basic query functionality with React Query
  */
 export function useProducts(params?: ProductQueryParams) {
+  const productsService = useProductsService()
   const query = useQuery({
     queryKey: productsKeys.list(params || {}),
-    queryFn: () => productsService.getProducts(params),
+    queryFn: ({ signal }) => productsService.getProducts(params, { signal }),
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 2,
   })
@@ -71,9 +72,10 @@ export function useProducts(params?: ProductQueryParams) {
  * Get single product query hook
  */
 export function useProduct(id: number) {
+  const productsService = useProductsService()
   const query = useQuery({
     queryKey: productsKeys.detail(id),
-    queryFn: () => productsService.getProduct(id),
+    queryFn: ({ signal }) => productsService.getProduct(id, { signal }),
     enabled: !!id,
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 2,
@@ -96,11 +98,12 @@ export function useProduct(id: number) {
  * Search products query hook
  */
 export function useProductSearch(params: ProductSearchParams) {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
 
   const query = useQuery({
     queryKey: productsKeys.search(params),
-    queryFn: () => productsService.searchProducts(params),
+    queryFn: ({ signal }) => productsService.searchProducts(params, { signal }),
     enabled: !!params.q,
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 2,
@@ -126,11 +129,12 @@ export function useProductSearch(params: ProductSearchParams) {
  * Get product categories query hook
  */
 export function useProductCategories() {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
 
   const query = useQuery({
     queryKey: productsKeys.categories(),
-    queryFn: () => productsService.getCategories(),
+    queryFn: ({ signal }) => productsService.getCategories({ signal }),
     staleTime: 10 * 60 * 1000, // 10 minutes
     retry: 2,
   })
@@ -152,11 +156,12 @@ export function useProductCategories() {
  * Get product category list query hook
  */
 export function useProductCategoryList() {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
 
   const query = useQuery({
     queryKey: productsKeys.categoryList(),
-    queryFn: () => productsService.getCategoryList(),
+    queryFn: ({ signal }) => productsService.getCategoryList({ signal }),
     staleTime: 10 * 60 * 1000, // 10 minutes
     retry: 2,
   })
@@ -181,11 +186,13 @@ export function useProductsByCategory(
   category: string,
   params?: Omit<ProductQueryParams, 'category'>,
 ) {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
 
   const query = useQuery({
     queryKey: productsKeys.byCategory(category, params),
-    queryFn: () => productsService.getProductsByCategory(category, params),
+    queryFn: ({ signal }) =>
+      productsService.getProductsByCategory(category, params, { signal }),
     enabled: !!category,
     staleTime: 5 * 60 * 1000, // 5 minutes
     retry: 2,
@@ -211,6 +218,7 @@ export function useProductsByCategory(
  * Create product mutation hook
  */
 export function useCreateProduct() {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
   const queryClient = useQueryClient()
 
@@ -241,6 +249,7 @@ export function useCreateProduct() {
  * Update product mutation hook
  */
 export function useUpdateProduct() {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
   const queryClient = useQueryClient()
 
@@ -273,6 +282,7 @@ export function useUpdateProduct() {
  * Delete product mutation hook
  */
 export function useDeleteProduct() {
+  const productsService = useProductsService()
   // Removed useAuth - cart-only app
   const queryClient = useQueryClient()
 
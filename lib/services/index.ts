@@ -4,9 +4,10 @@
 
 // Base types and utilities
 export * from './base/types'
+export * from './base/errors'
 
 // Products service
-export { productsService } from './products'
+export { getProductsService, productsService } from './products'
 export type {
   CreateProductRequest,
   Product,
@@ -22,6 +23,9 @@ export type {
   UpdateProductRequest,
 } from './products'
 
+// Catalog providers
+export * from './catalog'
+
 // Configuration
 export * from '../config/api-endpoints'
 export * from '../config/service-config'
@@ -2,7 +2,11 @@
  * Products Service module exports
  */
 
-export { ProductsService, productsService } from './products-service'
+export {
+  getProductsService,
+  ProductsService,
+  productsService,
+} from './products-service'
 export type {
   CreateProductRequest,
   Product,
@@ -1,9 +1,8 @@
 /**
- * Products Service for managing products from DummyJSON API
- * Uses shared API client with auth interceptors
+ * Products Service for managing products
+ * Delegates to the tenant's catalog provider (DummyJSON by default)
  */
 
-import { API_ENDPOINTS } from '../../config/api-endpoints'
 import {
   CreateProductRequest,
   Product,
@@ -18,7 +17,13 @@ import {
   ProductSearchResponse,
   UpdateProductRequest,
 } from '../../types/products.types'
-import { sharedApiClient } from '../base/api-client'
+import type { TenantCatalogConfig } from '../../types/tenant'
+import { RequestOptions } from '../base/api-client'
+import {
+  CatalogProvider,
+  CatalogQuery,
+  createCatalogProvider,
+} from '../catalog'
 
 // Re-export types for convenience
 export type {
@@ -37,46 +42,32 @@ export type {
 }
 
 /**
- * Products Service for managing products from DummyJSON API
- * Uses shared API client with auth interceptors
+ * Products Service for managing products
+ * Normalizes query params and delegates to a CatalogProvider
  */
 export class ProductsService {
+  constructor(readonly catalog: CatalogProvider = createCatalogProvider()) {}
+
   /**
    * Get list of products with pagination and filtering
-   * Note: DummyJSON API uses 'limit' and 'skip' for pagination, not 'page'
+   * Note: catalogs paginate with 'limit' and 'skip', not 'page'
    * If 'page' is provided, it will be converted to 'skip' using: skip = (page - 1) * limit
    */
-  async getProducts(params?: ProductQueryParams): Promise<ProductListResponse> {
-    const queryParams = new URLSearchParams()
-
-    // Handle pagination: convert page to skip if page is provided
-    if (params?.page && params?.limit) {
-      const skip = (params.page - 1) * params.limit
-      queryParams.set('skip', skip.toString())
-    } else if (params?.skip) {
-      queryParams.set('skip', params.skip.toString())
-    }
-
-    if (params?.limit) queryParams.set('limit', params.limit.toString())
-    if (params?.search) queryParams.set('search', params.search)
-    if (params?.category) queryParams.set('category', params.category)
-    if (params?.sortBy) queryParams.set('sortBy', params.sortBy)
-    if (params?.order) queryParams.set('order', params.order)
-    if (params?.select) queryParams.set('select', params.select)
-
-    const url = `${API_ENDPOINTS.PRODUCTS.LIST}?${queryParams.toString()}`
-    const response = await sharedApiClient.get<ProductListResponse>(url)
-    return response
+  async getProducts(
+    params?: ProductQueryParams,
+    options?: RequestOptions,
+  ): Promise<ProductListResponse> {
+    return this.catalog.listProducts(toCatalogQuery(params), options)
   }
 
   /**
    * Get single product by ID
    */
-  async getProduct(id: number): Promise<ProductResponse> {
-    const response = await sharedApiClient.get<ProductResponse>(
-      API_ENDPOINTS.PRODUCTS.DETAIL(id),
-    )
-    return response
+  async getProduct(
+    id: number,
+    options?: RequestOptions,
+  ): Promise<ProductResponse> {
+    return this.catalog.getProduct(id, options)
   }
 
   /**
@@ -84,78 +75,51 @@ export class ProductsService {
    */
   async searchProducts(
     params: ProductSearchParams,
+    options?: RequestOptions,
   ): Promise<ProductSearchResponse> {
-    const queryParams = new URLSearchParams()
-
-    queryParams.set('q', params.q)
-    if (params.limit) queryParams.set('limit', params.limit.toString())
-    if (params.skip) queryParams.set('skip', params.skip.toString())
-    if (params.select) queryParams.set('select', params.select)
-
-    const url = `${API_ENDPOINTS.PRODUCTS.SEARCH}?${queryParams.toString()}`
-    const response = await sharedApiClient.get<ProductSearchResponse>(url)
-    return response
+    return this.catalog.searchProducts(params, options)
   }
 
   /**
    * Get all product categories
    */
-  async getCategories(): Promise<ProductCategoriesResponse> {
-    const response = await sharedApiClient.get<ProductCategoriesResponse>(
-      API_ENDPOINTS.PRODUCTS.CATEGORIES,
-    )
-    return response
+  async getCategories(
+    options?: RequestOptions,
+  ): Promise<ProductCategoriesResponse> {
+    return this.catalog.getCategories(options)
   }
 
   /**
    * Get product category list (simple array)
    */
-  async getCategoryList(): Promise<ProductCategoryListResponse> {
-    const response = await sharedApiClient.get<ProductCategoryListResponse>(
-      API_ENDPOINTS.PRODUCTS.CATEGORY_LIST,
-    )
-    return response
+  async getCategoryList(
+    options?: RequestOptions,
+  ): Promise<ProductCategoryListResponse> {
+    return this.catalog.getCategoryList(options)
   }
 
   /**
    * Get products by category
-   * Note: DummyJSON API uses 'limit' and 'skip' for pagination, not 'page'
+   * Note: catalogs paginate with 'limit' and 'skip', not 'page'
    * If 'page' is provided, it will be converted to 'skip' using: skip = (page - 1) * limit
    */
   async getProductsByCategory(
     category: string,
     params?: Omit<ProductQueryParams, 'category'>,
+    options?: RequestOptions,
   ): Promise<ProductByCategoryResponse> {
-    const queryParams = new URLSearchParams()
-
-    // Handle pagination: convert page to skip if page is provided
-    if (params?.page && params?.limit) {
-      const skip = (params.page - 1) * params.limit
-      queryParams.set('skip', skip.toString())
-    } else if (params?.skip) {
-      queryParams.set('skip', params.skip.toString())
-    }
-
-    if (params?.limit) queryParams.set('limit', params.limit.toString())
-    if (params?.search) queryParams.set('search', params.search)
-    if (params?.sortBy) queryParams.set('sortBy', params.sortBy)
-    if (params?.order) queryParams.set('order', params.order)
-    if (params?.select) queryParams.set('select', params.select)
-
-    const url = `${API_ENDPOINTS.PRODUCTS.BY_CATEGORY(category)}?${queryParams.toString()}`
-    const response = await sharedApiClient.get<ProductByCategoryResponse>(url)
-    return response
+    return this.catalog.getProductsByCategory(
+      category,
+      toCatalogQuery(params),
+      options,
+    )
   }
 
   /**
    * Create new product
    */
   async createProduct(data: CreateProductRequest): Promise<ProductResponse> {
-    const response = await sharedApiClient.post<ProductResponse>(
-      API_ENDPOINTS.PRODUCTS.CREATE,
-      data,
-    )
-    return response
+    return this.catalog.createProduct(data)
   }
 
   /**
@@ -165,23 +129,54 @@ export class ProductsService {
     id: number,
     data: UpdateProductRequest,
   ): Promise<ProductResponse> {
-    const response = await sharedApiClient.put<ProductResponse>(
-      API_ENDPOINTS.PRODUCTS.UPDATE(id),
-      data,
-    )
-    return response
+    return this.catalog.updateProduct(id, data)
   }
 
   /**
    * Delete product
    */
   async deleteProduct(id: number): Promise<ProductDeleteResponse> {
-    const response = await sharedApiClient.delete<ProductDeleteResponse>(
-      API_ENDPOINTS.PRODUCTS.DELETE(id),
-    )
-    return response
+    return this.catalog.deleteProduct(id)
   }
 }
 
-// Export singleton instance
+/**
+ * Convert page-based params into a skip/limit catalog query
+ */
+function toCatalogQuery(params?: ProductQueryParams): CatalogQuery {
+  const { page, ...query } = params || {}
+
+  if (page && query.limit) {
+    query.skip = (page - 1) * query.limit
+  }
+
+  return query
+}
+
+// Export singleton instance (default DummyJSON catalog)
 export const productsService = new ProductsService()
+
+// One service per catalog config, shared across client components
+const servicesByCatalog = new Map<string, ProductsService>()
+
+/**
+ * Get the ProductsService for a tenant's catalog config
+ * File catalogs are fetched from public/catalogs; on the server use
+ * getServerProductsService() from lib/catalog instead
+ */
+export function getProductsService(
+  catalog?: TenantCatalogConfig,
+): ProductsService {
+  if (!catalog) {
+    return productsService
+  }
+
+  const key = JSON.stringify(catalog)
+  let service = servicesByCatalog.get(key)
+  if (!service) {
+    service = new ProductsService(createCatalogProvider(catalog))
+    servicesByCatalog.set(key, service)
+  }
+
+  return service
+}
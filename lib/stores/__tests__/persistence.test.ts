@@ -0,0 +1,87 @@
+import {
+  CART_STORE_VERSION,
+  createTenantCartStorage,
+  getCartStorageKey,
+  LEGACY_CART_STORAGE_KEY,
+  migrateCartState,
+} from '../persistence'
+
+const legacyCart = JSON.stringify({
+  state: { items: [{ id: 1, quantity: 2 }], isOpen: false },
+  version: 1,
+})
+
+describe('Cart persistence', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('createTenantCartStorage', () => {
+    it('should keep carts separate per tenant', () => {
+      const storage = createTenantCartStorage(localStorage)
+
+      storage.setItem(getCartStorageKey('arts-shop'), 'arts')
+
+      expect(storage.getItem(getCartStorageKey('arts-shop'))).toBe('arts')
+      expect(storage.getItem(getCartStorageKey('test-rental'))).toBeNull()
+    })
+
+    it('should hand the legacy cart to the first tenant only', () => {
+      localStorage.setItem(LEGACY_CART_STORAGE_KEY, legacyCart)
+      const storage = createTenantCartStorage(localStorage)
+
+      expect(storage.getItem(getCartStorageKey('arts-shop'))).toBe(legacyCart)
+      expect(localStorage.getItem(LEGACY_CART_STORAGE_KEY)).toBeNull()
+      expect(localStorage.getItem(getCartStorageKey('arts-shop'))).toBe(
+        legacyCart,
+      )
+      expect(storage.getItem(getCartStorageKey('test-rental'))).toBeNull()
+    })
+
+    it("should not replace a tenant's own cart with the legacy cart", () => {
+      localStorage.setItem(LEGACY_CART_STORAGE_KEY, legacyCart)
+      localStorage.setItem(getCartStorageKey('arts-shop'), 'arts')
+      const storage = createTenantCartStorage(localStorage)
+
+      expect(storage.getItem(getCartStorageKey('arts-shop'))).toBe('arts')
+      expect(localStorage.getItem(LEGACY_CART_STORAGE_KEY)).toBe(legacyCart)
+    })
+  })
+
+  describe('migrateCartState', () => {
+    it('should fill fields missing from v1 carts and drop malformed lines', () => {
+      expect(
+        migrateCartState(
+          {
+            items: [
+              { id: 1, quantity: 2 },
+              { id: 2, quantity: 0 },
+              { title: 'No id', quantity: 1 },
+            ],
+            isOpen: false,
+          },
+          1,
+        ),
+      ).toEqual({
+        items: [{ id: 1, quantity: 2 }],
+        isOpen: false,
+        shipping: {},
+        couponCode: null,
+      })
+    })
+
+    it('should leave current carts unchanged', () => {
+      const state = { items: [], shipping: { zone: 'us' }, couponCode: 'X' }
+
+      expect(migrateCartState(state, CART_STORE_VERSION)).toBe(state)
+    })
+
+    it('should discard carts it cannot migrate', () => {
+      expect(migrateCartState({ items: [] }, CART_STORE_VERSION + 1)).toEqual(
+        {},
+      )
+      expect(migrateCartState({ items: [] }, 0)).toEqual({})
+      expect(migrateCartState(null, 1)).toMatchObject({ items: [] })
+    })
+  })
+})
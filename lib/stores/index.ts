@@ -13,6 +13,11 @@ export {
 // Store factory and types
 export { createAppStore } from './store'
 export type { StoreState, AppStore } from './store'
+export {
+  CART_STORE_VERSION,
+  getCartStorageKey,
+  LEGACY_CART_STORAGE_KEY,
+} from './persistence'
 
 // Slice types
 export type { CartState, CartItem } from './slices/cart.slice'
@@ -0,0 +1,100 @@
+/**
+ * Cart persistence helpers
+ * Namespaces saved carts per tenant and migrates older saved shapes, so a cart
+ * built in one storefront never shows up in another on the same origin
+ */
+
+import type { StateStorage } from 'zustand/middleware'
+import type { StoreState } from './store'
+
+/**
+ * Current shape of the persisted cart; bump with a new entry in
+ * CART_MIGRATIONS whenever the persisted fields change
+ */
+export const CART_STORE_VERSION = 2
+
+/**
+ * Key used before carts were namespaced by tenant
+ */
+export const LEGACY_CART_STORAGE_KEY = 'storefront-cart-store'
+
+/**
+ * localStorage key for a tenant's cart
+ */
+export function getCartStorageKey(tenantId: string): string {
+  return `storefront-cart:${tenantId}`
+}
+
+type PersistedCart = Record<string, unknown>
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const CART_MIGRATIONS: Record<number, (state: PersistedCart) => PersistedCart> =
+  {
+    // v1 predates shipping and coupons, and carts could hold malformed lines
+    1: state => ({
+      ...state,
+      items: Array.isArray(state.items)
+        ? state.items.filter(
+            item =>
+              typeof item?.id === 'number' &&
+              typeof item?.quantity === 'number' &&
+              item.quantity > 0,
+          )
+        : [],
+      shipping:
+        state.shipping && typeof state.shipping === 'object'
+          ? state.shipping
+          : {},
+      couponCode:
+        typeof state.couponCode === 'string' ? state.couponCode : null,
+    }),
+  }
+
+/**
+ * Upgrade a persisted cart from `version` to CART_STORE_VERSION
+ * Carts from unknown (e.g. newer) versions are discarded.
+ */
+export function migrateCartState(
+  persisted: unknown,
+  version: number,
+): Partial<StoreState> {
+  let state: PersistedCart =
+    persisted && typeof persisted === 'object'
+      ? (persisted as PersistedCart)
+      : {}
+
+  if (version > CART_STORE_VERSION) return {}
+
+  for (let from = version; from < CART_STORE_VERSION; from++) {
+    const migrate = CART_MIGRATIONS[from]
+    if (!migrate) return {}
+    state = migrate(state)
+  }
+
+  // Once migrated, the saved fields have their current persisted shape
+  return state as Partial<StoreState>
+}
+
+/**
+ * Storage that hands the legacy shared cart to the first tenant loaded
+ * without a cart of its own, then deletes it so no other tenant sees it
+ */
+export function createTenantCartStorage(storage: StateStorage): StateStorage {
+  return {
+    getItem: name => {
+      const value = storage.getItem(name)
+      if (value !== null || name === LEGACY_CART_STORAGE_KEY) return value
+
+      const legacy = storage.getItem(LEGACY_CART_STORAGE_KEY)
+      if (typeof legacy !== 'string') return null
+
+      storage.setItem(name, legacy)
+      storage.removeItem(LEGACY_CART_STORAGE_KEY)
+      return legacy
+    },
+    setItem: (name, value) => storage.setItem(name, value),
+    removeItem: name => storage.removeItem(name),
+  }
+}
@@ -7,6 +7,17 @@
 import { ActionCreator, BaseSlice } from '@/lib/types/store.types'
 import { StateCreator } from 'zustand'
 import { Product } from '@/lib/types/products.types'
+import {
+  CartIssue,
+  clampQuantity,
+  getQuantityError,
+  getQuantityLimits,
+  revalidateCartItems,
+  toCartItem,
+} from '@/lib/utils/cart-validation'
+import { Money } from '@/lib/utils/money'
+import { calculateCartTotals } from '@/lib/utils/pricing'
+import type { ShippingSelection } from '@/lib/utils/shipping'
 
 /**
  * Cart item interface
@@ -21,6 +32,21 @@ export interface CartItem {
   discountPercentage?: number
   brand?: string
   category?: string
+  weight?: number
+  shippingInformation?: string
+  // Last known availability, used to cap quantities
+  stock?: number
+  minimumOrderQuantity?: number
+  availabilityStatus?: string
+}
+
+/**
+ * Server cart as returned by /api/cart
+ */
+export interface ServerCartSnapshot {
+  items: CartItem[]
+  couponCode: string | null
+  revision: number
 }
 
 /**
@@ -31,6 +57,14 @@ export interface CartState extends BaseSlice {
   // Core cart state
   items: CartItem[]
   isOpen: boolean
+  // Shipping zone and method picked in the cart
+  shipping: ShippingSelection
+  // Coupon entered in the cart, validated on the server
+  couponCode: string | null
+  // Changes found when re-validating saved items, shown until dismissed
+  cartIssues: CartIssue[]
+  // Server cart revision last synced with, when cart sync is enabled
+  cartRevision: number | null
 
   // Cart actions
   addItem: ActionCreator<[Product, number?]>
@@ -39,10 +73,16 @@ export interface CartState extends BaseSlice {
   clearCart: ActionCreator<[]>
   toggleCart: ActionCreator<[]>
   setCartOpen: ActionCreator<[boolean]>
+  setShipping: ActionCreator<[ShippingSelection]>
+  setCouponCode: ActionCreator<[string | null]>
+  revalidateItems: ActionCreator<[Map<number, Product | null>]>
+  dismissCartIssues: ActionCreator<[]>
+  applyServerCart: ActionCreator<[ServerCartSnapshot]>
+  setCartRevision: ActionCreator<[number]>
 
   // Computed properties
   totalItems: number
-  totalPrice: number
+  totalPrice: Money
   itemCount: number
   isEmpty: boolean
 }
@@ -58,6 +98,12 @@ export const initialCartState: Omit<
   | 'clearCart'
   | 'toggleCart'
   | 'setCartOpen'
+  | 'setShipping'
+  | 'setCouponCode'
+  | 'revalidateItems'
+  | 'dismissCartIssues'
+  | 'applyServerCart'
+  | 'setCartRevision'
   | 'setLoading'
   | 'setError'
   | 'clearError'
@@ -68,6 +114,10 @@ export const initialCartState: Omit<
 > = {
   items: [],
   isOpen: false,
+  shipping: {},
+  couponCode: null,
+  cartIssues: [],
+  cartRevision: null,
   isLoading: false,
   error: null,
 }
@@ -83,35 +133,40 @@ export const createCartSlice: StateCreator<CartState, [], [], CartState> = (
   // Initialize with default state
   ...initialCartState,
 
-  // Add item to cart
+  // Add item to cart, within the product's stock and order limits
   addItem: (product: Product, quantity: number = 1) => {
     console.log('🛒 Adding item to cart:', { product: product.title, quantity })
-    set(state => {
-      const existingItem = state.items.find(item => item.id === product.id)
+    const limits = getQuantityLimits(product)
+    const existingItem = get().items.find(item => item.id === product.id)
+    const requested = (existingItem?.quantity ?? 0) + quantity
+    const allowed = clampQuantity(requested, limits)
+
+    if (allowed !== requested) {
+      set({ error: getQuantityError(product.title, requested, product) })
+    }
+    if (allowed === 0) return
 
+    set(state => {
       if (existingItem) {
         // Update quantity if item already exists
         console.log('🛒 Updating existing item quantity')
         return {
           items: state.items.map(item =>
             item.id === product.id
-              ? { ...item, quantity: item.quantity + quantity }
+              ? {
+                  ...item,
+                  quantity: allowed,
+                  stock: product.stock,
+                  minimumOrderQuantity: product.minimumOrderQuantity,
+                  availabilityStatus: product.availabilityStatus,
+                }
               : item,
           ),
         }
       } else {
         // Add new item to cart
         console.log('🛒 Adding new item to cart')
-        const newItem: CartItem = {
-          id: product.id,
-          title: product.title,
-          price: product.price,
-          thumbnail: product.thumbnail,
-          quantity,
-          discountPercentage: product.discountPercentage,
-          brand: product.brand,
-          category: product.category,
-        }
+        const newItem = toCartItem(product, allowed)
 
         return {
           items: [...state.items, newItem],
@@ -134,9 +189,17 @@ export const createCartSlice: StateCreator<CartState, [], [], CartState> = (
       return
     }
 
+    // Keep the quantity within the item's last known limits
     set(state => ({
       items: state.items.map(item =>
-        item.id === id ? { ...item, quantity } : item,
+        item.id === id
+          ? {
+              ...item,
+              quantity:
+                clampQuantity(quantity, getQuantityLimits(item)) ||
+                item.quantity,
+            }
+          : item,
       ),
     }))
   },
@@ -160,6 +223,41 @@ export const createCartSlice: StateCreator<CartState, [], [], CartState> = (
     set({ isOpen })
   },
 
+  // Set shipping zone and method
+  setShipping: (shipping: ShippingSelection) => {
+    set(state => ({
+      shipping: { ...state.shipping, ...shipping },
+    }))
+  },
+
+  // Set or clear the coupon code
+  setCouponCode: (couponCode: string | null) => {
+    set({ couponCode })
+  },
+
+  // Replace saved items with fresh product data and record what changed
+  revalidateItems: (products: Map<number, Product | null>) => {
+    set(state => {
+      const { items, issues } = revalidateCartItems(state.items, products)
+      return { items, cartIssues: [...state.cartIssues, ...issues] }
+    })
+  },
+
+  // Hide re-validation notices
+  dismissCartIssues: () => {
+    set({ cartIssues: [] })
+  },
+
+  // Adopt the merged cart from the server
+  applyServerCart: ({ items, couponCode, revision }: ServerCartSnapshot) => {
+    set({ items, couponCode, cartRevision: revision })
+  },
+
+  // Track the server revision without touching local edits
+  setCartRevision: (revision: number) => {
+    set({ cartRevision: revision })
+  },
+
   // Set loading state (from BaseSlice)
   setLoading: (isLoading: boolean) =>
     set({
@@ -193,14 +291,9 @@ export const createCartSlice: StateCreator<CartState, [], [], CartState> = (
   get totalPrice() {
     const state = get()
     if (!state || !state.items || !Array.isArray(state.items)) {
-      return 0
+      return calculateCartTotals([]).total
     }
-    return state.items.reduce((total, item) => {
-      const itemPrice = item.discountPercentage
-        ? item.price - (item.price * item.discountPercentage) / 100
-        : item.price
-      return total + itemPrice * item.quantity
-    }, 0)
+    return calculateCartTotals(state.items).total
   },
 
   // Computed: Number of unique items in cart
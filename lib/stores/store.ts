@@ -6,6 +6,12 @@
 
 import { createJSONStorage, persist } from 'zustand/middleware'
 import { createStore } from 'zustand/vanilla'
+import {
+  CART_STORE_VERSION,
+  createTenantCartStorage,
+  getCartStorageKey,
+  migrateCartState,
+} from './persistence'
 import {
   CartState,
   createCartSlice,
@@ -28,6 +34,7 @@ interface StorePersistConfig {
   name: string
   version: number
   partialize: (state: StoreState) => Partial<StoreState>
+  migrate: (persistedState: unknown, version: number) => Partial<StoreState>
   storage: ReturnType<typeof createJSONStorage>
   skipHydration: boolean
 }
@@ -43,19 +50,26 @@ const defaultInitialState = {
 
 /**
  * Store persistence configuration factory
+ * Each tenant's cart is saved under its own key
  */
-const createPersistConfig = (): StorePersistConfig => ({
-  name: 'storefront-cart-store',
-  version: 1,
+const createPersistConfig = (tenantId: string): StorePersistConfig => ({
+  name: getCartStorageKey(tenantId),
+  version: CART_STORE_VERSION,
 
   // Persist cart items only
   partialize: (state: StoreState) => ({
     items: state.items,
     isOpen: state.isOpen,
+    shipping: state.shipping,
+    couponCode: state.couponCode,
+    cartRevision: state.cartRevision,
     _storeVersion: state._storeVersion,
     _lastUpdated: state._lastUpdated,
   }),
 
+  // Upgrade carts saved by older versions
+  migrate: migrateCartState,
+
   // Server-safe storage with fallback
   storage: createJSONStorage(() => {
     if (typeof window === 'undefined') {
@@ -66,7 +80,8 @@ const createPersistConfig = (): StorePersistConfig => ({
         removeItem: () => {},
       }
     }
-    return localStorage
+    // Adopt the cart saved before keys were namespaced by tenant
+    return createTenantCartStorage(localStorage)
   }),
 
   // Skip automatic hydration in SSR, handle manually
@@ -78,7 +93,10 @@ const createPersistConfig = (): StorePersistConfig => ({
  * Creates a new store instance per request (SSR-safe)
  * Following the official Zustand Next.js guide pattern
  */
-export const createAppStore = (initialState: Partial<StoreState> = {}) => {
+export const createAppStore = (
+  initialState: Partial<StoreState> = {},
+  tenantId: string = 'default',
+) => {
   const mergedInitialState = {
     ...defaultInitialState,
     ...initialState,
@@ -107,7 +125,7 @@ export const createAppStore = (initialState: Partial<StoreState> = {}) => {
         // Add cart slice actions
         ...createCartSlice(set, get, api),
       }),
-      createPersistConfig(),
+      createPersistConfig(tenantId),
     ),
   )
 }
@@ -0,0 +1,418 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for server-side checkout pricing and the Stripe adapter
+ */
+
+import testRentalCatalog from '../../../public/catalogs/test-rental.json'
+import artsShopConfig from '../../../config/tenants/arts-shop.json'
+import testRentalConfig from '../../../config/tenants/test-rental.json'
+import { CatalogFile, FileCatalogProvider } from '../../services/catalog'
+import { ProductsService } from '../../services/products'
+import type { TenantConfig } from '../../types/tenant'
+import {
+  buildCheckoutSessionParams,
+  buildPromotionCouponParams,
+  evaluateCheckoutPromotions,
+  parseCheckoutRequest,
+  priceCartItems,
+  quoteCheckoutShipping,
+} from '../checkout'
+import { encodeStripeParams, StripeApiClient } from '../stripe-api'
+
+const productsService = new ProductsService(
+  new FileCatalogProvider({
+    file: 'test-rental.json',
+    load: async () => testRentalCatalog as CatalogFile,
+  }),
+)
+
+describe('checkout pricing', () => {
+  it('ignores client prices and merges duplicate items', async () => {
+    const request = parseCheckoutRequest({
+      items: [
+        { id: 1, quantity: 1, price: 0.01 },
+        { id: 3, quantity: 2 },
+        { id: 1, quantity: 2 },
+      ],
+    })
+
+    const lines = await priceCartItems(request.items, productsService)
+
+    expect(lines).toEqual([
+      expect.objectContaining({ productId: 1, quantity: 3, unitAmount: 927 }),
+      expect.objectContaining({ productId: 3, quantity: 2, unitAmount: 4983 }),
+    ])
+  })
+
+  it('rejects malformed carts', () => {
+    expect(() => parseCheckoutRequest({ items: [] })).toThrow(/items/)
+    expect(() =>
+      parseCheckoutRequest({ items: [{ id: 1, quantity: 0 }] }),
+    ).toThrow(/items\.0\.quantity/)
+  })
+
+  it('reports unknown products as unavailable', async () => {
+    await expect(
+      priceCartItems([{ id: 999, quantity: 1 }], productsService),
+    ).rejects.toMatchObject({
+      status: 422,
+      message: 'Product 999 is no longer available',
+    })
+  })
+
+  it('rejects lines the stock cannot fill', async () => {
+    await expect(
+      priceCartItems([{ id: 4, quantity: 1 }], productsService),
+    ).rejects.toMatchObject({
+      status: 422,
+      message: 'Annibale Colombo Bed is out of stock',
+    })
+    await expect(
+      priceCartItems(
+        [
+          { id: 1, quantity: 4 },
+          { id: 1, quantity: 2 },
+        ],
+        productsService,
+      ),
+    ).rejects.toMatchObject({
+      status: 422,
+      message: 'Only 5 of Essence Mascara Lash Princess can be ordered',
+    })
+  })
+
+  it('brands the session and returns to the tenant domain', () => {
+    const params = buildCheckoutSessionParams(
+      artsShopConfig as TenantConfig,
+      [{ productId: 1, title: 'Mascara', quantity: 2, unitAmount: 927 }],
+      'https://shop.example.com',
+    )
+
+    expect(params).toMatchObject({
+      success_url:
+        'https://shop.example.com/checkout/success?session_id={CHECKOUT_SESSION_ID}',
+      cancel_url: 'https://shop.example.com/cart',
+      metadata: { tenant_id: 'arts-shop' },
+      branding_settings: { display_name: 'InstaShop', button_color: '#dc2626' },
+    })
+  })
+})
+
+describe('checkout currency', () => {
+  it("charges the tenant's base currency and records the display currency", () => {
+    const params = buildCheckoutSessionParams(
+      testRentalConfig as TenantConfig,
+      [{ productId: 1, title: 'Mascara', quantity: 1, unitAmount: 927 }],
+      'https://shop.example.com',
+      { displayCurrency: 'GBP' },
+    )
+
+    expect(params.line_items[0].price_data.currency).toBe('eur')
+    expect(params.metadata).toEqual({
+      tenant_id: 'test-rental',
+      display_currency: 'GBP',
+      tax_region: 'DE',
+      tax_total: '148',
+    })
+  })
+
+  it('charges USD when the tenant has no currency config', () => {
+    const { currency, tax, ...config } = artsShopConfig
+    const params = buildCheckoutSessionParams(
+      config as TenantConfig,
+      [{ productId: 1, title: 'Mascara', quantity: 1, unitAmount: 927 }],
+      'https://shop.example.com',
+      { displayCurrency: 'USD' },
+    )
+
+    expect(currency.base).toBe('USD')
+    expect(tax).toBeDefined()
+    expect(params.line_items[0].price_data.currency).toBe('usd')
+    expect(params.metadata).toEqual({ tenant_id: 'arts-shop' })
+  })
+})
+
+describe('checkout tax', () => {
+  const lines = [
+    {
+      productId: 1,
+      title: 'Mascara',
+      category: 'beauty',
+      quantity: 2,
+      unitAmount: 1000,
+    },
+    {
+      productId: 2,
+      title: 'Apples',
+      category: 'groceries',
+      quantity: 1,
+      unitAmount: 500,
+    },
+  ]
+
+  it('adds exclusive tax as one line per rate', () => {
+    const params = buildCheckoutSessionParams(
+      artsShopConfig as TenantConfig,
+      lines,
+      'https://shop.example.com',
+    )
+
+    expect(params.line_items).toHaveLength(3)
+    expect(params.line_items[2]).toEqual({
+      quantity: 1,
+      price_data: {
+        currency: 'usd',
+        unit_amount: 145,
+        product_data: {
+          name: 'Sales tax 7.25%',
+          metadata: { type: 'tax' },
+        },
+      },
+    })
+    expect(params.metadata).toMatchObject({
+      tax_region: 'CA',
+      tax_total: '145',
+    })
+  })
+
+  it('records inclusive tax without extra lines', () => {
+    const params = buildCheckoutSessionParams(
+      testRentalConfig as TenantConfig,
+      lines,
+      'https://shop.example.com',
+    )
+
+    // 2000 at 19% contains 319, 500 at 7% contains 33
+    expect(params.line_items).toHaveLength(2)
+    expect(params.metadata).toMatchObject({
+      tax_region: 'DE',
+      tax_total: '352',
+    })
+  })
+
+  it("charges the tax region of the shopper's shipping zone", () => {
+    const config = testRentalConfig as TenantConfig
+    const shipping = quoteCheckoutShipping(
+      config,
+      lines.map(line => ({ ...line, weight: 1 })),
+      { zone: 'eu' },
+    )
+    const params = buildCheckoutSessionParams(
+      config,
+      lines,
+      'https://shop.example.com',
+      { shipping },
+    )
+
+    // 2000 at 20% contains 333, 500 at 10% contains 45
+    expect(params.metadata).toMatchObject({
+      shipping_zone: 'eu',
+      tax_region: 'EU',
+      tax_total: '378',
+    })
+  })
+})
+
+describe('checkout shipping', () => {
+  const config = artsShopConfig as TenantConfig
+  const lines = [
+    {
+      productId: 1,
+      title: 'Mascara',
+      weight: 1.2,
+      shippingInformation: 'Ships in 1-2 business days',
+      quantity: 2,
+      unitAmount: 927,
+    },
+  ]
+
+  it('re-quotes the chosen method and offers only that rate', () => {
+    const shipping = quoteCheckoutShipping(config, lines, {
+      zone: 'us',
+      method: 'express',
+    })
+    const params = buildCheckoutSessionParams(
+      config,
+      lines,
+      'https://shop.example.com',
+      { shipping },
+    )
+
+    expect(params.shipping_address_collection).toEqual({
+      allowed_countries: ['US'],
+    })
+    expect(params.shipping_options).toEqual([
+      {
+        shipping_rate_data: {
+          type: 'fixed_amount',
+          display_name: 'Express',
+          fixed_amount: { amount: 2499, currency: 'usd' },
+          delivery_estimate: {
+            minimum: { unit: 'business_day', value: 3 },
+            maximum: { unit: 'business_day', value: 4 },
+          },
+        },
+      },
+    ])
+    expect(params.metadata).toMatchObject({
+      shipping_zone: 'us',
+      shipping_method: 'express',
+    })
+  })
+
+  it('defaults to the cheapest method', () => {
+    // 2.4 kg rounds up to 3 kg: $5.00 + 3 x $0.75
+    expect(quoteCheckoutShipping(config, lines)?.selected).toMatchObject({
+      id: 'ground',
+      amount: { amount: 725, currency: 'USD' },
+    })
+  })
+
+  it('rejects methods the cart does not qualify for', () => {
+    expect(() =>
+      quoteCheckoutShipping(config, lines, { method: 'free' }),
+    ).toThrow('Shipping method "free" is not available for this cart')
+  })
+
+  it('skips shipping for tenants without shipping config', () => {
+    const { shipping, ...rest } = artsShopConfig
+
+    expect(shipping).toBeDefined()
+    expect(quoteCheckoutShipping(rest as TenantConfig, lines)).toBeUndefined()
+    expect(
+      buildCheckoutSessionParams(
+        rest as TenantConfig,
+        lines,
+        'https://shop.example.com',
+      ).shipping_options,
+    ).toBeUndefined()
+  })
+})
+
+describe('checkout promotions', () => {
+  const config = artsShopConfig as TenantConfig
+  const lines = [
+    {
+      productId: 1,
+      title: 'Mascara',
+      category: 'beauty',
+      quantity: 2,
+      unitAmount: 3000,
+    },
+  ]
+
+  it('re-validates coupons on the server', () => {
+    expect(
+      evaluateCheckoutPromotions(config, lines, 'WELCOME10').applied,
+    ).toHaveLength(1)
+    expect(
+      evaluateCheckoutPromotions(config, lines.slice(0, 1), 'FREE-STUFF')
+        .rejection,
+    ).toEqual({ code: 'FREE-STUFF', reason: 'FREE-STUFF is not a valid code' })
+  })
+
+  it('charges the discount through a single-use coupon', () => {
+    const promotions = evaluateCheckoutPromotions(config, lines, 'welcome10')
+    const coupon = buildPromotionCouponParams(config, promotions)
+    const params = buildCheckoutSessionParams(
+      config,
+      lines,
+      'https://shop.example.com',
+      { promotions, couponId: 'co_123' },
+    )
+
+    expect(coupon).toEqual({
+      amount_off: 1000,
+      currency: 'usd',
+      duration: 'once',
+      max_redemptions: 1,
+      name: 'Welcome offer',
+      metadata: { tenant_id: 'arts-shop', promotion_ids: 'welcome' },
+    })
+    expect(params.discounts).toEqual([{ coupon: 'co_123' }])
+    expect(params.metadata).toMatchObject({
+      promotion_ids: 'welcome',
+      coupon_code: 'WELCOME10',
+      // 7.25% of the $50.00 left after the coupon
+      tax_total: '363',
+    })
+  })
+
+  it('skips the coupon when nothing is discounted', () => {
+    const promotions = evaluateCheckoutPromotions(config, lines)
+
+    expect(buildPromotionCouponParams(config, promotions)).toBeUndefined()
+  })
+})
+
+describe('StripeApiClient', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>
+
+  beforeEach(() => {
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>
+    mockFetch.mockReset()
+  })
+
+  it('encodes nested params in bracket notation', () => {
+    const form = encodeStripeParams({
+      mode: 'payment',
+      line_items: [{ quantity: 2, price_data: { unit_amount: 927 } }],
+      customer_email: undefined,
+    })
+
+    expect(form.toString()).toBe(
+      'mode=payment&line_items%5B0%5D%5Bquantity%5D=2&line_items%5B0%5D%5Bprice_data%5D%5Bunit_amount%5D=927',
+    )
+  })
+
+  it('posts form-encoded sessions to the configured API base', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ id: 'cs_test_1', url: 'https://pay' })),
+    )
+    const stripe = new StripeApiClient({
+      secretKey: 'sk_test_123',
+      apiBase: 'http://localhost:12111/',
+    })
+
+    const session = await stripe.createCheckoutSession({
+      mode: 'payment',
+      line_items: [],
+      success_url: 'https://a/success',
+      cancel_url: 'https://a/cart',
+    })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(session.id).toBe('cs_test_1')
+    expect(url).toBe('http://localhost:12111/v1/checkout/sessions')
+    expect(init?.headers).toMatchObject({
+      Authorization: 'Bearer sk_test_123',
+    })
+  })
+
+  it('surfaces Stripe errors as typed API errors', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: { type: 'invalid_request_error', message: 'No such price' },
+        }),
+        { status: 400 },
+      ),
+    )
+    const stripe = new StripeApiClient({ secretKey: 'sk_test_123' })
+
+    await expect(
+      stripe.createCheckoutSession({
+        mode: 'payment',
+        line_items: [],
+        success_url: 'https://a/success',
+        cancel_url: 'https://a/cart',
+      }),
+    ).rejects.toMatchObject({
+      name: 'ValidationError',
+      message: 'No such price',
+    })
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for Stripe webhook verification and order bookkeeping
+ */
+
+import { createHmac } from 'crypto'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileOrderStore } from '../../orders'
+import { isAuthenticationError } from '../../services/base/errors'
+import type { StripeApiClient, StripeEvent } from '../stripe-api'
+import { constructStripeEvent, handleStripeEvent } from '../webhooks'
+
+const SECRET = 'whsec_test'
+const NOW = 1_760_000_000_000
+
+function sign(payload: string, timestamp = NOW / 1000, secret = SECRET) {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+function event<T>(id: string, type: string, object: T): StripeEvent<T> {
+  return {
+    id,
+    object: 'event',
+    type,
+    created: NOW / 1000,
+    livemode: false,
+    data: { object },
+  }
+}
+
+const completedSession = event('evt_completed', 'checkout.session.completed', {
+  id: 'cs_test_1',
+  object: 'checkout.session',
+  url: null,
+  amount_subtotal: 6837,
+  amount_total: 6837,
+  currency: 'usd',
+  payment_intent: 'pi_1',
+  payment_status: 'paid',
+  status: 'complete',
+  customer_details: { email: 'buyer@example.com' },
+  total_details: { amount_discount: 0, amount_shipping: 0, amount_tax: 0 },
+  metadata: { tenant_id: 'test-rental' },
+})
+
+function refundEvent(id: string, amountRefunded: number) {
+  return event(id, 'charge.refunded', {
+    id: 'ch_1',
+    object: 'charge',
+    amount: 6837,
+    amount_refunded: amountRefunded,
+    currency: 'usd',
+    payment_intent: 'pi_1',
+    refunded: amountRefunded === 6837,
+    metadata: {},
+  })
+}
+
+describe('constructStripeEvent', () => {
+  const payload = JSON.stringify(completedSession)
+
+  it('accepts a valid signature', () => {
+    const parsed = constructStripeEvent(payload, sign(payload), SECRET, {
+      now: NOW,
+    })
+    expect(parsed.id).toBe('evt_completed')
+  })
+
+  it('accepts any matching v1 signature during secret rotation', () => {
+    const header = `${sign(payload, NOW / 1000, 'whsec_old')},${sign(payload).split(',')[1]}`
+    expect(() =>
+      constructStripeEvent(payload, header, SECRET, { now: NOW }),
+    ).not.toThrow()
+  })
+
+  it.each([
+    ['missing', null],
+    ['malformed', 'v1=abc'],
+    ['tampered', sign(payload.replace('6837', '1'))],
+    ['wrong secret', sign(payload, NOW / 1000, 'whsec_other')],
+    ['stale', sign(payload, NOW / 1000 - 301)],
+  ])('rejects a %s signature', (_, header) => {
+    let error: unknown
+    try {
+      constructStripeEvent(payload, header, SECRET, { now: NOW })
+    } catch (e) {
+      error = e
+    }
+
+    expect(isAuthenticationError(error)).toBe(true)
+    expect((error as { status: number }).status).toBe(400)
+  })
+})
+
+describe('handleStripeEvent', () => {
+  let dir: string
+  let store: FileOrderStore
+  let stripe: jest.Mocked<
+    Pick<
+      StripeApiClient,
+      'listCheckoutSessionLineItems' | 'retrievePaymentIntent'
+    >
+  >
+  let context: Parameters<typeof handleStripeEvent>[1]
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'orders-'))
+    store = new FileOrderStore(dir)
+    stripe = {
+      listCheckoutSessionLineItems: jest.fn().mockResolvedValue({
+        object: 'list',
+        has_more: false,
+        data: [
+          {
+            id: 'li_1',
+            description: 'Essence Mascara Lash Princess',
+            quantity: 3,
+            amount_subtotal: 2781,
+            amount_total: 2781,
+            currency: 'usd',
+            price: {
+              unit_amount: 927,
+              product: {
+                id: 'prod_1',
+                name: 'Essence Mascara Lash Princess',
+                metadata: { product_id: '1' },
+              },
+            },
+          },
+        ],
+      }),
+      retrievePaymentIntent: jest.fn().mockResolvedValue({
+        id: 'pi_1',
+        metadata: { tenant_id: 'test-rental' },
+      }),
+    }
+    context = {
+      store,
+      stripe: stripe as unknown as StripeApiClient,
+      now: () => new Date(NOW),
+    }
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('records a paid order for a completed checkout session', async () => {
+    const result = await handleStripeEvent(completedSession, context)
+
+    expect(result).toEqual({
+      status: 'processed',
+      orderId: 'cs_test_1',
+      orderStatus: 'paid',
+    })
+
+    const order = await store.get('test-rental', 'cs_test_1')
+    expect(order).toMatchObject({
+      tenantId: 'test-rental',
+      paymentIntentId: 'pi_1',
+      customerEmail: 'buyer@example.com',
+      lineItems: [
+        {
+          productId: 1,
+          title: 'Essence Mascara Lash Princess',
+          quantity: 3,
+          unitAmount: 927,
+          amountTotal: 2781,
+        },
+      ],
+      totals: { subtotal: 6837, total: 6837, refunded: 0 },
+    })
+    expect(await store.list('other-tenant')).toEqual([])
+  })
+
+  it('keeps tax lines out of order items', async () => {
+    const { data } = await stripe.listCheckoutSessionLineItems('cs_test_1')
+    stripe.listCheckoutSessionLineItems.mockResolvedValueOnce({
+      object: 'list',
+      has_more: false,
+      data: [
+        ...data,
+        {
+          id: 'li_tax',
+          description: 'Sales tax 7.25%',
+          quantity: 1,
+          amount_subtotal: 202,
+          amount_total: 202,
+          currency: 'usd',
+          price: {
+            unit_amount: 202,
+            product: {
+              id: 'prod_tax',
+              name: 'Sales tax 7.25%',
+              metadata: { type: 'tax' },
+            },
+          },
+        },
+      ],
+    })
+
+    await handleStripeEvent(
+      event('evt_taxed', 'checkout.session.completed', {
+        ...completedSession.data.object,
+        amount_subtotal: 2983,
+        amount_total: 2983,
+        metadata: { tenant_id: 'test-rental', tax_total: '202' },
+      }),
+      context,
+    )
+
+    const order = await store.get('test-rental', 'cs_test_1')
+    expect(order?.lineItems).toHaveLength(1)
+    expect(order?.totals).toMatchObject({
+      subtotal: 2781,
+      tax: 202,
+      total: 2983,
+    })
+  })
+
+  it('ignores redelivered events', async () => {
+    await handleStripeEvent(completedSession, context)
+    const result = await handleStripeEvent(completedSession, context)
+
+    expect(result.status).toBe('duplicate')
+    expect(stripe.listCheckoutSessionLineItems).toHaveBeenCalledTimes(1)
+    expect(await store.list('test-rental')).toHaveLength(1)
+  })
+
+  it('applies refunds idempotently from the cumulative amount', async () => {
+    await handleStripeEvent(completedSession, context)
+
+    const partial = refundEvent('evt_refund_1', 1000)
+    expect(await handleStripeEvent(partial, context)).toMatchObject({
+      status: 'processed',
+      orderStatus: 'partially_refunded',
+    })
+    expect(await handleStripeEvent(partial, context)).toMatchObject({
+      status: 'duplicate',
+    })
+
+    const full = refundEvent('evt_refund_2', 6837)
+    await handleStripeEvent(full, context)
+    // An older event arriving late must not reduce the refunded amount
+    await handleStripeEvent(refundEvent('evt_refund_0', 500), context)
+
+    const order = await store.get('test-rental', 'cs_test_1')
+    expect(order?.status).toBe('refunded')
+    expect(order?.totals.refunded).toBe(6837)
+    expect(stripe.retrievePaymentIntent).toHaveBeenCalledWith('pi_1')
+  })
+
+  it('rejects refunds for unknown orders so Stripe retries', async () => {
+    await expect(
+      handleStripeEvent(refundEvent('evt_refund', 100), context),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+
+  it('records failed payments without downgrading paid orders', async () => {
+    const failed = event('evt_failed', 'payment_intent.payment_failed', {
+      id: 'pi_1',
+      object: 'payment_intent',
+      amount: 6837,
+      currency: 'usd',
+      status: 'requires_payment_method',
+      metadata: { tenant_id: 'test-rental' },
+      last_payment_error: { message: 'Your card was declined.' },
+    })
+
+    expect(await handleStripeEvent(failed, context)).toEqual({
+      status: 'processed',
+      orderId: 'pi_1',
+      orderStatus: 'payment_failed',
+    })
+
+    // The retry succeeds and completes the same order
+    const result = await handleStripeEvent(completedSession, context)
+    expect(result).toMatchObject({ orderId: 'pi_1', orderStatus: 'paid' })
+
+    // A late failure for an earlier attempt leaves the order paid
+    expect(
+      await handleStripeEvent({ ...failed, id: 'evt_failed_late' }, context),
+    ).toMatchObject({ orderStatus: 'paid' })
+
+    const order = await store.get('test-rental', 'pi_1')
+    expect(order?.failureReason).toBe('Your card was declined.')
+    expect(order?.checkoutSessionId).toBe('cs_test_1')
+  })
+
+  it('ignores events without tenant metadata or of other types', async () => {
+    const anonymous = {
+      ...completedSession,
+      data: { object: { ...completedSession.data.object, metadata: null } },
+    }
+
+    expect(await handleStripeEvent(anonymous, context)).toEqual({
+      status: 'ignored',
+    })
+    expect(
+      await handleStripeEvent(event('evt_x', 'customer.created', {}), context),
+    ).toEqual({ status: 'ignored' })
+  })
+})
@@ -0,0 +1,497 @@
+/**
+ * Server-side checkout
+ * Re-prices cart items from the tenant's catalog and builds a branded
+ * Stripe Checkout Session. Client-supplied prices are never used.
+ */
+
+import { z } from 'zod'
+import { ERROR_CODES } from '../config/api-endpoints'
+import { getServerProductsService } from '../catalog'
+import { formatSchemaIssues } from '../schemas/tenant.schema'
+import { isBusinessLogicError, ValidationError } from '../services/base/errors'
+import { ProductsService } from '../services/products'
+import { getPrimaryDomain } from '../tenant-domains'
+import { getTenantConfig, loadTenantRegistry } from '../tenant'
+import { isCustomTheme, resolveTenantTheme } from '../themes/tenant-theme'
+import type { TenantConfig } from '../types/tenant'
+import { getQuantityError, MAX_ITEM_QUANTITY } from '../utils/cart-validation'
+import { getCurrencySettings } from '../utils/currency'
+import { DEFAULT_CURRENCY, isZero, money, subtract, sum } from '../utils/money'
+import { calculateItemPricing } from '../utils/pricing'
+import {
+  evaluatePromotions,
+  getLineDiscount,
+  PromotionResult,
+} from '../utils/promotions'
+import {
+  getShippingOptions,
+  parseHandlingDays,
+  ShippingOptions,
+  ShippingSelection,
+} from '../utils/shipping'
+import {
+  calculateTax,
+  formatTaxRate,
+  getTaxRegion,
+  TaxBreakdown,
+} from '../utils/tax'
+import {
+  StripeApiClient,
+  StripeCheckoutSession,
+  StripeCheckoutSessionParams,
+  StripeCouponParams,
+} from './stripe-api'
+
+// Only product IDs and quantities are read from the client cart
+export const CheckoutRequestSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.number().int().positive(),
+        quantity: z.number().int().min(1).max(MAX_ITEM_QUANTITY),
+      }),
+    )
+    .min(1)
+    .max(100),
+  // Zone and method picked in the cart; re-quoted on the server
+  shipping: z
+    .object({
+      zone: z.string().optional(),
+      method: z.string().optional(),
+    })
+    .optional(),
+  // Coupon entered in the cart; re-validated on the server
+  couponCode: z.string().max(32).optional(),
+  // Currency the shopper browsed in; the charge is always the base currency
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/)
+    .optional(),
+})
+
+export type CheckoutRequest = z.infer<typeof CheckoutRequestSchema>
+
+export interface PricedLineItem {
+  productId: number
+  title: string
+  image?: string
+  /** Catalog category, used for tax rates and exemptions */
+  category?: string
+  /** Weight per unit in kg */
+  weight?: number
+  shippingInformation?: string
+  quantity: number
+  /** Price after the catalog discount, in cents */
+  unitAmount: number
+}
+
+/**
+ * Validate a checkout request body
+ */
+export function parseCheckoutRequest(input: unknown): CheckoutRequest {
+  const result = CheckoutRequestSchema.safeParse(input)
+
+  if (!result.success) {
+    throw new ValidationError(
+      formatSchemaIssues(result.error.issues).join('; '),
+      { status: 400 },
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Look up current prices for cart items, merging duplicate products
+ * Amounts are in `currency`, the tenant's base currency. Lines the product's
+ * stock or order limits cannot fill are rejected.
+ */
+export async function priceCartItems(
+  items: CheckoutRequest['items'],
+  productsService: ProductsService,
+  currency: string = DEFAULT_CURRENCY,
+): Promise<PricedLineItem[]> {
+  const quantities = new Map<number, number>()
+  for (const item of items) {
+    quantities.set(item.id, (quantities.get(item.id) || 0) + item.quantity)
+  }
+
+  return Promise.all(
+    [...quantities].map(async ([productId, quantity]) => {
+      try {
+        const product = await productsService.getProduct(productId)
+        const quantityError = getQuantityError(product.title, quantity, product)
+        if (quantityError) {
+          throw new ValidationError(quantityError, {
+            status: 422,
+            code: ERROR_CODES.VALIDATION_ERROR,
+          })
+        }
+
+        const { discountedUnitPrice } = calculateItemPricing(
+          { ...product, quantity },
+          currency,
+        )
+
+        return {
+          productId,
+          title: product.title,
+          image: product.thumbnail || undefined,
+          category: product.category,
+          weight: product.weight,
+          shippingInformation: product.shippingInformation,
+          quantity,
+          unitAmount: discountedUnitPrice.amount,
+        }
+      } catch (error) {
+        if (isBusinessLogicError(error) && error.status === 404) {
+          throw new ValidationError(
+            `Product ${productId} is no longer available`,
+            { status: 422, code: ERROR_CODES.VALIDATION_ERROR },
+          )
+        }
+        throw error
+      }
+    }),
+  )
+}
+
+/**
+ * Absolute base URL for the tenant's storefront
+ * Prefers the tenant's primary custom domain over the request origin
+ */
+export async function getTenantBaseUrl(
+  tenantId: string | null,
+  requestOrigin: string,
+): Promise<string> {
+  if (tenantId) {
+    const registry = await loadTenantRegistry()
+    const entry = registry.tenants[tenantId]
+    const primaryDomain = entry && getPrimaryDomain(entry)
+    if (primaryDomain) {
+      return `https://${primaryDomain}`
+    }
+  }
+
+  return requestOrigin.replace(/\/$/, '')
+}
+
+/**
+ * Apply the tenant's promotions and the shopper's coupon to priced lines
+ */
+export function evaluateCheckoutPromotions(
+  config: TenantConfig,
+  lines: PricedLineItem[],
+  couponCode?: string,
+  now?: Date,
+): PromotionResult {
+  const { base } = getCurrencySettings(config.currency)
+
+  return evaluatePromotions(
+    config.promotions,
+    lines.map(line => ({
+      id: line.productId,
+      title: line.title,
+      category: line.category,
+      quantity: line.quantity,
+      unitAmount: money(line.unitAmount, base),
+    })),
+    { code: couponCode, now, currency: base },
+  )
+}
+
+/**
+ * Tax for priced lines under the tenant's rules, in the base currency
+ * Promotion discounts reduce the taxable amount of the lines they apply to,
+ * and the region follows the shipping zone.
+ */
+export function calculateCheckoutTax(
+  config: TenantConfig,
+  lines: PricedLineItem[],
+  promotions?: PromotionResult,
+  shippingZone?: string,
+): TaxBreakdown {
+  const { base } = getCurrencySettings(config.currency)
+
+  return calculateTax(
+    lines.map(line => ({
+      id: line.productId,
+      category: line.category,
+      amount: subtract(
+        money(line.unitAmount * line.quantity, base),
+        getLineDiscount(promotions, line.productId, base),
+      ),
+    })),
+    config.tax,
+    {
+      region: getTaxRegion(config.tax, config.shipping, shippingZone),
+      currency: base,
+    },
+  )
+}
+
+/**
+ * Re-quote the shopper's shipping choice for priced lines
+ * Returns undefined when the tenant does not configure shipping.
+ */
+export function quoteCheckoutShipping(
+  config: TenantConfig,
+  lines: PricedLineItem[],
+  selection: ShippingSelection = {},
+): ShippingOptions | undefined {
+  if (!config.shipping) return undefined
+
+  const { base } = getCurrencySettings(config.currency)
+  const options = getShippingOptions(
+    config.shipping,
+    {
+      subtotal: sum(
+        lines.map(line => money(line.unitAmount * line.quantity, base)),
+        base,
+      ),
+      weight: lines.reduce(
+        (total, line) => total + (line.weight ?? 0) * line.quantity,
+        0,
+      ),
+      handlingDays: Math.max(
+        0,
+        ...lines.map(line => parseHandlingDays(line.shippingInformation)),
+      ),
+    },
+    selection,
+  )
+
+  if (
+    !options.selected ||
+    (selection.method && options.selected.id !== selection.method)
+  ) {
+    throw new ValidationError(
+      selection.method
+        ? `Shipping method "${selection.method}" is not available for this cart`
+        : 'No shipping method is available for this cart',
+      { status: 422, code: ERROR_CODES.VALIDATION_ERROR },
+    )
+  }
+
+  return options
+}
+
+/**
+ * Single-use Stripe coupon for the promotion discount, if there is one
+ */
+export function buildPromotionCouponParams(
+  config: TenantConfig,
+  promotions: PromotionResult,
+): StripeCouponParams | undefined {
+  if (isZero(promotions.discount)) return undefined
+
+  return {
+    amount_off: promotions.discount.amount,
+    currency: promotions.discount.currency.toLowerCase(),
+    duration: 'once',
+    max_redemptions: 1,
+    name: promotions.applied
+      .map(promotion => promotion.label)
+      .join(', ')
+      .slice(0, 40),
+    metadata: {
+      tenant_id: config.id,
+      promotion_ids: promotions.applied.map(({ id }) => id).join(','),
+    },
+  }
+}
+
+export interface CheckoutSessionOptions {
+  /** Currency the shopper browsed in */
+  displayCurrency?: string
+  shipping?: ShippingOptions
+  promotions?: PromotionResult
+  /** Stripe coupon carrying the promotion discount */
+  couponId?: string
+}
+
+/**
+ * Build Checkout Session params branded for the tenant
+ * Charges the tenant's base currency; a different display currency is
+ * only recorded in the session metadata. Tax added on top of prices is
+ * charged as one line per rate, matching the cart summary. The selected
+ * shipping method is the only shipping option offered, and promotion
+ * discounts are applied through a single-use coupon.
+ */
+export function buildCheckoutSessionParams(
+  config: TenantConfig,
+  lines: PricedLineItem[],
+  baseUrl: string,
+  {
+    displayCurrency,
+    shipping,
+    promotions,
+    couponId,
+  }: CheckoutSessionOptions = {},
+): StripeCheckoutSessionParams {
+  // Legacy theme objects carry their own colors
+  const colors =
+    typeof config.theme === 'object' && !isCustomTheme(config.theme)
+      ? config.theme
+      : resolveTenantTheme(config.theme).colors
+  const { base } = getCurrencySettings(config.currency)
+  const metadata: Record<string, string> = { tenant_id: config.id }
+  if (displayCurrency && displayCurrency !== base) {
+    metadata.display_currency = displayCurrency
+  }
+
+  const tax = calculateCheckoutTax(config, lines, promotions, shipping?.zone)
+  if (tax.region) {
+    metadata.tax_region = tax.region
+    metadata.tax_total = String(tax.tax.amount)
+  }
+  const taxLines =
+    tax.pricing === 'exclusive'
+      ? tax.rates.map(rate => ({
+          quantity: 1,
+          price_data: {
+            currency: base.toLowerCase(),
+            unit_amount: rate.tax.amount,
+            product_data: {
+              name: `${rate.label} ${formatTaxRate(rate.rate)}`,
+              metadata: { type: 'tax' },
+            },
+          },
+        }))
+      : []
+
+  const shippingQuote = shipping?.selected
+  if (shipping && shippingQuote) {
+    metadata.shipping_zone = shipping.zone
+    metadata.shipping_method = shippingQuote.id
+  }
+
+  if (promotions?.applied.length) {
+    metadata.promotion_ids = promotions.applied.map(({ id }) => id).join(',')
+    const coupon = promotions.applied.find(promotion => promotion.code)
+    if (coupon?.code) metadata.coupon_code = coupon.code
+  }
+
+  return {
+    mode: 'payment',
+    line_items: [
+      ...lines.map(line => ({
+        quantity: line.quantity,
+        price_data: {
+          currency: base.toLowerCase(),
+          unit_amount: line.unitAmount,
+          product_data: {
+            name: line.title,
+            images: line.image ? [line.image] : undefined,
+            metadata: { product_id: String(line.productId) },
+          },
+        },
+      })),
+      ...taxLines,
+    ],
+    success_url: `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${baseUrl}/cart`,
+    client_reference_id: config.id,
+    metadata,
+    payment_intent_data: { metadata: { tenant_id: config.id } },
+    discounts: couponId ? [{ coupon: couponId }] : undefined,
+    ...(shipping &&
+      shippingQuote && {
+        shipping_address_collection: { allowed_countries: shipping.countries },
+        shipping_options: [
+          {
+            shipping_rate_data: {
+              type: 'fixed_amount',
+              display_name: shippingQuote.label,
+              fixed_amount: {
+                amount: shippingQuote.amount.amount,
+                currency: base.toLowerCase(),
+              },
+              delivery_estimate: {
+                minimum: { unit: 'business_day', value: shippingQuote.minDays },
+                maximum: { unit: 'business_day', value: shippingQuote.maxDays },
+              },
+            },
+          },
+        ],
+      }),
+    custom_text: {
+      submit: { message: `Thank you for shopping with ${config.name}` },
+    },
+    branding_settings: {
+      display_name: config.name,
+      background_color: colors.background,
+      button_color: colors.primary,
+    },
+  }
+}
+
+/**
+ * Price a tenant's cart from its catalog, in the tenant's base currency
+ */
+async function priceTenantCart(
+  config: TenantConfig,
+  items: CheckoutRequest['items'],
+): Promise<PricedLineItem[]> {
+  return priceCartItems(
+    items,
+    getServerProductsService(config.catalog, config.id),
+    getCurrencySettings(config.currency).base,
+  )
+}
+
+/**
+ * Evaluate promotions for a tenant's cart, as shown in the cart summary
+ * A rejected coupon is reported in the result rather than thrown.
+ */
+export async function getCartPromotions(
+  tenantId: string | null,
+  request: Pick<CheckoutRequest, 'items' | 'couponCode'>,
+): Promise<PromotionResult> {
+  const config = await getTenantConfig(tenantId)
+  const lines = await priceTenantCart(config, request.items)
+
+  return evaluateCheckoutPromotions(config, lines, request.couponCode)
+}
+
+/**
+ * Create a Checkout Session for a tenant's cart
+ */
+export async function createTenantCheckoutSession(
+  stripe: StripeApiClient,
+  tenantId: string | null,
+  request: CheckoutRequest,
+  requestOrigin: string,
+): Promise<StripeCheckoutSession> {
+  const config = await getTenantConfig(tenantId)
+
+  const [lines, baseUrl] = await Promise.all([
+    priceTenantCart(config, request.items),
+    getTenantBaseUrl(tenantId, requestOrigin),
+  ])
+
+  const shipping = quoteCheckoutShipping(config, lines, request.shipping)
+  const promotions = evaluateCheckoutPromotions(
+    config,
+    lines,
+    request.couponCode,
+  )
+  if (promotions.rejection) {
+    throw new ValidationError(promotions.rejection.reason, {
+      status: 422,
+      code: ERROR_CODES.VALIDATION_ERROR,
+    })
+  }
+
+  const couponParams = buildPromotionCouponParams(config, promotions)
+  const coupon = couponParams && (await stripe.createCoupon(couponParams))
+
+  return stripe.createCheckoutSession(
+    buildCheckoutSessionParams(config, lines, baseUrl, {
+      displayCurrency: request.currency,
+      shipping,
+      promotions,
+      couponId: coupon?.id,
+    }),
+  )
+}
@@ -0,0 +1,312 @@
+/**
+ * Minimal server-side Stripe REST adapter
+ * Speaks the form-encoded Stripe API directly, so it works against both
+ * api.stripe.com and stripe-mock (set STRIPE_API_BASE=http://localhost:12111)
+ */
+
+import { createErrorFromStatus } from '../services/base/errors'
+
+export const STRIPE_API_BASE = 'https://api.stripe.com'
+
+export interface StripeApiClientOptions {
+  secretKey: string
+  /** Override for stripe-mock or a proxy */
+  apiBase?: string
+  apiVersion?: string
+}
+
+export interface StripeRequestOptions {
+  idempotencyKey?: string
+}
+
+export interface StripeLineItemParams {
+  quantity: number
+  price_data: {
+    currency: string
+    unit_amount: number
+    product_data: {
+      name: string
+      images?: string[]
+      metadata?: Record<string, string>
+    }
+  }
+}
+
+export interface StripeDeliveryEstimateBound {
+  unit: 'business_day' | 'day' | 'hour' | 'month' | 'week'
+  value: number
+}
+
+export interface StripeShippingOptionParams {
+  shipping_rate_data: {
+    type: 'fixed_amount'
+    display_name: string
+    fixed_amount: { amount: number; currency: string }
+    delivery_estimate?: {
+      minimum?: StripeDeliveryEstimateBound
+      maximum?: StripeDeliveryEstimateBound
+    }
+    metadata?: Record<string, string>
+  }
+}
+
+export interface StripeCouponParams {
+  amount_off: number
+  currency: string
+  duration: 'once'
+  max_redemptions?: number
+  /** Shown to the customer, at most 40 characters */
+  name?: string
+  metadata?: Record<string, string>
+}
+
+export interface StripeCoupon {
+  id: string
+  object: 'coupon'
+  amount_off: number | null
+  currency: string | null
+}
+
+export interface StripeCheckoutSessionParams {
+  mode: 'payment'
+  line_items: StripeLineItemParams[]
+  success_url: string
+  cancel_url: string
+  client_reference_id?: string
+  customer_email?: string
+  metadata?: Record<string, string>
+  payment_intent_data?: { metadata?: Record<string, string> }
+  shipping_options?: StripeShippingOptionParams[]
+  shipping_address_collection?: { allowed_countries: string[] }
+  discounts?: { coupon: string }[]
+  custom_text?: { submit?: { message: string } }
+  branding_settings?: {
+    display_name?: string
+    background_color?: string
+    button_color?: string
+  }
+}
+
+export interface StripeCheckoutSession {
+  id: string
+  object: 'checkout.session'
+  url: string | null
+  amount_subtotal: number | null
+  amount_total: number | null
+  currency: string | null
+  payment_intent: string | null
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required'
+  status: string | null
+  customer_details?: { email: string | null } | null
+  total_details?: {
+    amount_discount: number
+    amount_shipping: number | null
+    amount_tax: number
+  } | null
+  metadata: Record<string, string> | null
+}
+
+export interface StripeProduct {
+  id: string
+  name: string
+  images?: string[]
+  metadata: Record<string, string>
+}
+
+export interface StripeLineItem {
+  id: string
+  description: string
+  quantity: number | null
+  amount_subtotal: number
+  amount_total: number
+  currency: string
+  price: {
+    unit_amount: number | null
+    /** Expanded when requested with expand[]=data.price.product */
+    product: string | StripeProduct
+  } | null
+}
+
+export interface StripeList<T> {
+  object: 'list'
+  data: T[]
+  has_more: boolean
+}
+
+export interface StripePaymentIntent {
+  id: string
+  object: 'payment_intent'
+  amount: number
+  currency: string
+  status: string
+  metadata: Record<string, string>
+  last_payment_error?: { message?: string } | null
+}
+
+export interface StripeCharge {
+  id: string
+  object: 'charge'
+  amount: number
+  amount_refunded: number
+  currency: string
+  payment_intent: string | null
+  refunded: boolean
+  metadata: Record<string, string>
+}
+
+export interface StripeEvent<T = unknown> {
+  id: string
+  object: 'event'
+  type: string
+  created: number
+  livemode: boolean
+  data: { object: T }
+}
+
+/**
+ * Encode nested params with Stripe's bracket notation
+ * e.g. { line_items: [{ quantity: 1 }] } -> line_items[0][quantity]=1
+ */
+export function encodeStripeParams(
+  params: object,
+  prefix = '',
+  form = new URLSearchParams(),
+): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+
+    const name = prefix ? `${prefix}[${key}]` : key
+
+    if (typeof value === 'object') {
+      encodeStripeParams(value, name, form)
+    } else {
+      form.append(name, String(value))
+    }
+  }
+
+  return form
+}
+
+export class StripeApiClient {
+  private readonly secretKey: string
+  private readonly apiBase: string
+  private readonly apiVersion?: string
+
+  constructor(options: StripeApiClientOptions) {
+    this.secretKey = options.secretKey
+    this.apiBase = (options.apiBase || STRIPE_API_BASE).replace(/\/$/, '')
+    this.apiVersion = options.apiVersion
+  }
+
+  /**
+   * Create a Checkout Session (POST /v1/checkout/sessions)
+   */
+  createCheckoutSession(
+    params: StripeCheckoutSessionParams,
+    options?: StripeRequestOptions,
+  ): Promise<StripeCheckoutSession> {
+    return this.request('POST', '/v1/checkout/sessions', params, options)
+  }
+
+  /**
+   * Create a coupon (POST /v1/coupons)
+   */
+  createCoupon(
+    params: StripeCouponParams,
+    options?: StripeRequestOptions,
+  ): Promise<StripeCoupon> {
+    return this.request('POST', '/v1/coupons', params, options)
+  }
+
+  /**
+   * List a Checkout Session's line items with their products expanded
+   * (GET /v1/checkout/sessions/:id/line_items)
+   */
+  listCheckoutSessionLineItems(
+    sessionId: string,
+  ): Promise<StripeList<StripeLineItem>> {
+    return this.request(
+      'GET',
+      `/v1/checkout/sessions/${encodeURIComponent(sessionId)}/line_items`,
+      { limit: 100, expand: ['data.price.product'] },
+    )
+  }
+
+  /**
+   * Retrieve a PaymentIntent (GET /v1/payment_intents/:id)
+   */
+  retrievePaymentIntent(paymentIntentId: string): Promise<StripePaymentIntent> {
+    return this.request(
+      'GET',
+      `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}`,
+    )
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    params?: object,
+    options: StripeRequestOptions = {},
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.secretKey}`,
+    }
+    if (method === 'POST') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded'
+    }
+    if (this.apiVersion) headers['Stripe-Version'] = this.apiVersion
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey
+    }
+
+    // GET params travel in the query string, POST params in the body
+    const encoded = params ? encodeStripeParams(params).toString() : ''
+    const url =
+      method === 'GET' && encoded
+        ? `${this.apiBase}${path}?${encoded}`
+        : `${this.apiBase}${path}`
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: method === 'POST' && encoded ? encoded : undefined,
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      // Stripe errors look like { error: { type, code, message, param } }
+      const error = createErrorFromStatus(response.status, data.error, {
+        response: {
+          data,
+          status: response.status,
+          statusText: response.statusText,
+        },
+      })
+      if (data.error?.message) error.message = data.error.message
+      throw error
+    }
+
+    return data as T
+  }
+}
+
+let stripeApiClient: StripeApiClient | undefined
+
+/**
+ * Stripe client configured from STRIPE_SECRET_KEY / STRIPE_API_BASE
+ */
+export function getStripeApiClient(): StripeApiClient {
+  const secretKey = process.env.STRIPE_SECRET_KEY
+  if (!secretKey) {
+    throw new Error('STRIPE_SECRET_KEY is not defined in environment variables')
+  }
+
+  if (!stripeApiClient) {
+    stripeApiClient = new StripeApiClient({
+      secretKey,
+      apiBase: process.env.STRIPE_API_BASE,
+    })
+  }
+
+  return stripeApiClient
+}
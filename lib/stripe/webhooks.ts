@@ -0,0 +1,367 @@
+/**
+ * Stripe webhook handling
+ * Verifies event signatures and turns payment events into Order records.
+ * Every handler is idempotent: redelivered events are detected by ID and
+ * refund totals come from Stripe's cumulative amount, never incremented.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { ERROR_CODES } from '../config/api-endpoints'
+import {
+  AuthenticationError,
+  BusinessLogicError,
+} from '../services/base/errors'
+import type { Order, OrderLineItem, OrderStatus, OrderStore } from '../orders'
+import {
+  StripeApiClient,
+  StripeCharge,
+  StripeCheckoutSession,
+  StripeEvent,
+  StripeLineItem,
+  StripePaymentIntent,
+} from './stripe-api'
+
+/** Maximum age of a signed event, in seconds (matches Stripe's libraries) */
+export const STRIPE_SIGNATURE_TOLERANCE = 300
+
+export interface StripeWebhookContext {
+  store: OrderStore
+  stripe: StripeApiClient
+  now?: () => Date
+}
+
+export interface StripeWebhookResult {
+  status: 'processed' | 'duplicate' | 'ignored'
+  orderId?: string
+  orderStatus?: OrderStatus
+}
+
+// Later states win, so out-of-order events can't undo a payment or refund
+const STATUS_RANK: Record<OrderStatus, number> = {
+  pending: 0,
+  payment_failed: 1,
+  paid: 2,
+  partially_refunded: 3,
+  refunded: 4,
+}
+
+function advanceStatus(current: OrderStatus, next: OrderStatus): OrderStatus {
+  return STATUS_RANK[next] > STATUS_RANK[current] ? next : current
+}
+
+function signatureError(message: string): AuthenticationError {
+  return new AuthenticationError(message, { status: 400 })
+}
+
+/**
+ * Verify a Stripe-Signature header against the raw request body and parse
+ * the event. Header format: t=<unix seconds>,v1=<hex hmac>[,v1=...]
+ */
+export function constructStripeEvent(
+  payload: string,
+  signatureHeader: string | null,
+  secret: string,
+  { tolerance = STRIPE_SIGNATURE_TOLERANCE, now = Date.now() } = {},
+): StripeEvent {
+  if (!signatureHeader) {
+    throw signatureError('Missing Stripe-Signature header')
+  }
+
+  let timestamp = NaN
+  const signatures: string[] = []
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.split('=', 2)
+    if (key === 't') timestamp = Number(value)
+    if (key === 'v1' && value) signatures.push(value)
+  }
+
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw signatureError('Malformed Stripe-Signature header')
+  }
+
+  const expected = Buffer.from(
+    createHmac('sha256', secret)
+      .update(`${timestamp}.${payload}`, 'utf8')
+      .digest('hex'),
+  )
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature)
+    return (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    )
+  })
+
+  if (!matches) {
+    throw signatureError('Stripe signature does not match the payload')
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > tolerance) {
+    throw signatureError('Stripe signature timestamp is outside the tolerance')
+  }
+
+  return JSON.parse(payload) as StripeEvent
+}
+
+// Exclusive tax is charged as its own line items (see buildCheckoutSessionParams)
+function isTaxLineItem(item: StripeLineItem): boolean {
+  return (
+    typeof item.price?.product === 'object' &&
+    item.price.product.metadata.type === 'tax'
+  )
+}
+
+function toOrderLineItem(item: StripeLineItem): OrderLineItem {
+  const product =
+    item.price && typeof item.price.product === 'object'
+      ? item.price.product
+      : undefined
+  const productId = Number(product?.metadata.product_id)
+  const quantity = item.quantity ?? 1
+
+  return {
+    productId: Number.isInteger(productId) ? productId : null,
+    title: product?.name || item.description,
+    quantity,
+    unitAmount:
+      item.price?.unit_amount ?? Math.round(item.amount_total / quantity),
+    amountTotal: item.amount_total,
+  }
+}
+
+function emptyOrder(
+  id: string,
+  tenantId: string,
+  currency: string,
+  timestamp: string,
+): Order {
+  return {
+    id,
+    tenantId,
+    status: 'pending',
+    currency,
+    lineItems: [],
+    totals: {
+      subtotal: 0,
+      discount: 0,
+      shipping: 0,
+      tax: 0,
+      total: 0,
+      refunded: 0,
+    },
+    processedEventIds: [],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * Apply one event to an order unless it was applied before
+ */
+async function applyEvent(
+  context: StripeWebhookContext,
+  event: StripeEvent,
+  tenantId: string,
+  orderId: string,
+  apply: (order: Order) => Order,
+  create: () => Order,
+): Promise<StripeWebhookResult> {
+  let duplicate = false
+
+  const order = await context.store.update(tenantId, orderId, current => {
+    if (current?.processedEventIds.includes(event.id)) {
+      duplicate = true
+      return current
+    }
+
+    const next = apply(current ?? create())
+    return {
+      ...next,
+      processedEventIds: [...next.processedEventIds, event.id],
+      updatedAt: (context.now?.() ?? new Date()).toISOString(),
+    }
+  })
+
+  return {
+    status: duplicate ? 'duplicate' : 'processed',
+    orderId: order.id,
+    orderStatus: order.status,
+  }
+}
+
+async function handleCheckoutCompleted(
+  event: StripeEvent<StripeCheckoutSession>,
+  context: StripeWebhookContext,
+): Promise<StripeWebhookResult> {
+  const session = event.data.object
+  const tenantId = session.metadata?.tenant_id
+  if (!tenantId) return { status: 'ignored' }
+
+  // A failed attempt on the same PaymentIntent may already have an order
+  const existing =
+    (session.payment_intent &&
+      (await context.store.findByPaymentIntent(
+        tenantId,
+        session.payment_intent,
+      ))) ||
+    (await context.store.get(tenantId, session.id))
+  const orderId = existing?.id ?? session.id
+
+  if (existing?.processedEventIds.includes(event.id)) {
+    return { status: 'duplicate', orderId, orderStatus: existing.status }
+  }
+
+  const lineItems = await context.stripe.listCheckoutSessionLineItems(
+    session.id,
+  )
+  const timestamp = (context.now?.() ?? new Date()).toISOString()
+  const currency = session.currency || 'usd'
+  const productLines = lineItems.data.filter(item => !isTaxLineItem(item))
+  const taxLines = lineItems.data.filter(isTaxLineItem)
+  const taxCharged = taxLines.reduce(
+    (total, item) => total + item.amount_total,
+    0,
+  )
+
+  return applyEvent(
+    context,
+    event,
+    tenantId,
+    orderId,
+    order => ({
+      ...order,
+      status: advanceStatus(
+        order.status,
+        session.payment_status === 'unpaid' ? 'pending' : 'paid',
+      ),
+      currency,
+      lineItems: productLines.map(toOrderLineItem),
+      totals: {
+        ...order.totals,
+        subtotal: (session.amount_subtotal ?? 0) - taxCharged,
+        discount: session.total_details?.amount_discount ?? 0,
+        shipping: session.total_details?.amount_shipping ?? 0,
+        tax:
+          session.total_details?.amount_tax ||
+          Number(session.metadata?.tax_total ?? 0),
+        total: session.amount_total ?? 0,
+      },
+      checkoutSessionId: session.id,
+      paymentIntentId: session.payment_intent ?? order.paymentIntentId,
+      customerEmail: session.customer_details?.email ?? order.customerEmail,
+    }),
+    () => emptyOrder(orderId, tenantId, currency, timestamp),
+  )
+}
+
+async function handlePaymentFailed(
+  event: StripeEvent<StripePaymentIntent>,
+  context: StripeWebhookContext,
+): Promise<StripeWebhookResult> {
+  const paymentIntent = event.data.object
+  const tenantId = paymentIntent.metadata?.tenant_id
+  if (!tenantId) return { status: 'ignored' }
+
+  const existing = await context.store.findByPaymentIntent(
+    tenantId,
+    paymentIntent.id,
+  )
+  const timestamp = (context.now?.() ?? new Date()).toISOString()
+
+  return applyEvent(
+    context,
+    event,
+    tenantId,
+    existing?.id ?? paymentIntent.id,
+    order => ({
+      ...order,
+      status: advanceStatus(order.status, 'payment_failed'),
+      paymentIntentId: paymentIntent.id,
+      failureReason:
+        paymentIntent.last_payment_error?.message ?? order.failureReason,
+    }),
+    () => {
+      const order = emptyOrder(
+        paymentIntent.id,
+        tenantId,
+        paymentIntent.currency,
+        timestamp,
+      )
+      return {
+        ...order,
+        totals: { ...order.totals, total: paymentIntent.amount },
+      }
+    },
+  )
+}
+
+async function handleChargeRefunded(
+  event: StripeEvent<StripeCharge>,
+  context: StripeWebhookContext,
+): Promise<StripeWebhookResult> {
+  const charge = event.data.object
+  if (!charge.payment_intent) return { status: 'ignored' }
+
+  // Checkout copies metadata to the PaymentIntent but not to its charges
+  const tenantId =
+    charge.metadata?.tenant_id ||
+    (await context.stripe.retrievePaymentIntent(charge.payment_intent)).metadata
+      ?.tenant_id
+  if (!tenantId) return { status: 'ignored' }
+
+  const existing = await context.store.findByPaymentIntent(
+    tenantId,
+    charge.payment_intent,
+  )
+  if (!existing) {
+    // Non-2xx makes Stripe redeliver once the completed event has landed
+    throw new BusinessLogicError(
+      `No order found for payment ${charge.payment_intent}`,
+      { status: 404, code: ERROR_CODES.NOT_FOUND_ERROR, tenantId },
+    )
+  }
+
+  return applyEvent(
+    context,
+    event,
+    tenantId,
+    existing.id,
+    order => {
+      const refunded = Math.max(order.totals.refunded, charge.amount_refunded)
+      return {
+        ...order,
+        status: advanceStatus(
+          order.status,
+          refunded >= order.totals.total ? 'refunded' : 'partially_refunded',
+        ),
+        totals: { ...order.totals, refunded },
+      }
+    },
+    () => existing,
+  )
+}
+
+/**
+ * Apply a verified Stripe event to the tenant's orders
+ */
+export async function handleStripeEvent(
+  event: StripeEvent,
+  context: StripeWebhookContext,
+): Promise<StripeWebhookResult> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(
+        event as StripeEvent<StripeCheckoutSession>,
+        context,
+      )
+    case 'payment_intent.payment_failed':
+      return handlePaymentFailed(
+        event as StripeEvent<StripePaymentIntent>,
+        context,
+      )
+    case 'charge.refunded':
+      return handleChargeRefunded(event as StripeEvent<StripeCharge>, context)
+    default:
+      return { status: 'ignored' }
+  }
+}
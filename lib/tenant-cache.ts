@@ -0,0 +1,217 @@
+/**
+ * In-process cache for file-backed tenant configuration
+ * Keeps parsed tenant configs in memory so renders don't hit the disk
+ *
+ * Invalidation:
+ * - development: fs.watch on the config directories drops entries on change
+ * - production: entries are re-checked against file mtimes every
+ *   `mtimeCheckInterval` and hard-expire after `ttl`
+ * - explicit: invalidate() (wired into /api/revalidate)
+ * - size: beyond `maxEntries` the least recently used entry is dropped
+ */
+
+import { FSWatcher, promises as fs, watch } from 'fs'
+
+export interface FileCacheOptions {
+  /** Maximum age of an entry before it is reloaded unconditionally */
+  ttl: number
+  /** How often an entry's source files are re-stat'ed (production) */
+  mtimeCheckInterval: number
+  /** Directories to watch for changes (development only) */
+  watchDirs?: string[]
+  /** Most entries held; the least recently used is dropped beyond it */
+  maxEntries?: number
+}
+
+export interface FileCacheLoadResult<T> {
+  value: T
+  /** Files the value was derived from, used for mtime invalidation */
+  files: string[]
+}
+
+interface FileCacheEntry<T> {
+  value: T
+  mtimes: Record<string, number>
+  loadedAt: number
+  checkedAt: number
+}
+
+/**
+ * Cache keyed by string whose entries are derived from files on disk
+ */
+export class FileCache<T> {
+  private entries = new Map<string, FileCacheEntry<T>>()
+  private pending = new Map<string, Promise<T>>()
+  private watchers: FSWatcher[] = []
+  private options: FileCacheOptions
+
+  constructor(options: FileCacheOptions) {
+    this.options = options
+  }
+
+  /**
+   * Get a cached value, loading it if missing or stale
+   */
+  async get(
+    key: string,
+    load: () => Promise<FileCacheLoadResult<T>>,
+  ): Promise<T> {
+    this.ensureWatchers()
+
+    const entry = this.entries.get(key)
+    if (entry && (await this.isFresh(entry))) {
+      // Re-insert so Map order tracks recency
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+      return entry.value
+    }
+
+    // Coalesce concurrent loads for the same key
+    const pending = this.pending.get(key)
+    if (pending) {
+      return pending
+    }
+
+    const promise = this.load(key, load).finally(() => {
+      this.pending.delete(key)
+    })
+    this.pending.set(key, promise)
+
+    return promise
+  }
+
+  /**
+   * Invalidate one key, or every key when none is given
+   * Returns the keys that were dropped
+   */
+  invalidate(key?: string): string[] {
+    if (key === undefined) {
+      const keys = Array.from(this.entries.keys())
+      this.entries.clear()
+      return keys
+    }
+
+    return this.entries.delete(key) ? [key] : []
+  }
+
+  /**
+   * Invalidate every entry matching a predicate
+   * Returns the keys that were dropped
+   */
+  invalidateWhere(predicate: (key: string, value: T) => boolean): string[] {
+    const keys = Array.from(this.entries)
+      .filter(([key, entry]) => predicate(key, entry.value))
+      .map(([key]) => key)
+
+    keys.forEach(key => this.entries.delete(key))
+    return keys
+  }
+
+  /**
+   * Keys currently held in the cache
+   */
+  keys(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  /**
+   * Stop watching config directories
+   */
+  close(): void {
+    this.watchers.forEach(watcher => watcher.close())
+    this.watchers = []
+  }
+
+  private async load(
+    key: string,
+    load: () => Promise<FileCacheLoadResult<T>>,
+  ): Promise<T> {
+    const { value, files } = await load()
+    const now = Date.now()
+
+    this.entries.delete(key)
+    this.entries.set(key, {
+      value,
+      mtimes: await readMtimes(files),
+      loadedAt: now,
+      checkedAt: now,
+    })
+
+    const { maxEntries } = this.options
+    while (maxEntries !== undefined && this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+
+    return value
+  }
+
+  private async isFresh(entry: FileCacheEntry<T>): Promise<boolean> {
+    const now = Date.now()
+
+    if (now - entry.loadedAt >= this.options.ttl) {
+      return false
+    }
+
+    // Watchers invalidate eagerly, so no need to stat files
+    if (this.watchers.length > 0) {
+      return true
+    }
+
+    if (now - entry.checkedAt < this.options.mtimeCheckInterval) {
+      return true
+    }
+
+    const current = await readMtimes(Object.keys(entry.mtimes))
+    const unchanged = Object.entries(entry.mtimes).every(
+      ([file, mtime]) => current[file] === mtime,
+    )
+
+    if (unchanged) {
+      entry.checkedAt = now
+    }
+
+    return unchanged
+  }
+
+  private ensureWatchers(): void {
+    if (
+      this.watchers.length > 0 ||
+      !this.options.watchDirs ||
+      process.env.NODE_ENV !== 'development'
+    ) {
+      return
+    }
+
+    for (const dir of this.options.watchDirs) {
+      try {
+        const watcher = watch(dir, () => {
+          this.invalidate()
+        })
+        // Never keep the process alive just for config watching
+        watcher.unref()
+        this.watchers.push(watcher)
+      } catch (error) {
+        console.warn(`Failed to watch tenant config directory ${dir}:`, error)
+      }
+    }
+  }
+}
+
+/**
+ * Read modification times for a set of files
+ * Missing files are recorded as -1 so their creation is detected too
+ */
+async function readMtimes(files: string[]): Promise<Record<string, number>> {
+  const entries = await Promise.all(
+    files.map(async file => {
+      try {
+        const stats = await fs.stat(file)
+        return [file, stats.mtimeMs] as const
+      } catch {
+        return [file, -1] as const
+      }
+    }),
+  )
+
+  return Object.fromEntries(entries)
+}
@@ -0,0 +1,132 @@
+/**
+ * Custom domain mapping for tenants
+ * Resolves request hosts to tenants using `domains` from config/tenants.json
+ *
+ * Edge Runtime safe (no Node.js APIs) so it can run inside middleware.
+ * Keep this module free of path aliases: scripts/test-tenant-configs.js loads it.
+ *
+ * Rules:
+ * - the first entry in `domains` is the tenant's primary domain
+ * - apex and `www.` hosts alias each other (example.com <-> www.example.com)
+ * - non-primary hosts redirect to the primary domain unless
+ *   `redirectToPrimaryDomain` is false
+ */
+
+/**
+ * Minimal registry entry shape needed for domain lookup
+ */
+export interface TenantDomainSource {
+  id: string
+  status: string
+  domains?: string[]
+  redirectToPrimaryDomain?: boolean
+}
+
+/**
+ * Result of resolving a host against the domain index
+ */
+export interface TenantDomainMatch {
+  tenantId: string
+  host: string
+  primaryDomain: string
+  isPrimary: boolean
+  shouldRedirect: boolean
+}
+
+interface TenantDomainIndexEntry {
+  tenantId: string
+  primaryDomain: string
+  redirectToPrimaryDomain: boolean
+}
+
+export type TenantDomainIndex = Map<string, TenantDomainIndexEntry>
+
+/**
+ * Normalize a host header value: lowercase, no port, no trailing dot
+ */
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim().toLowerCase()
+  const withoutPort = trimmed.startsWith('[')
+    ? trimmed.slice(0, trimmed.indexOf(']') + 1)
+    : trimmed.split(':')[0]
+
+  return withoutPort.replace(/\.$/, '')
+}
+
+/**
+ * Get the apex/www aliases for a domain (including the domain itself)
+ */
+export function getDomainAliases(domain: string): string[] {
+  const normalized = normalizeHost(domain)
+  const alias = normalized.startsWith('www.')
+    ? normalized.slice('www.'.length)
+    : `www.${normalized}`
+
+  return [normalized, alias]
+}
+
+/**
+ * Get a tenant's primary domain (first entry in `domains`)
+ */
+export function getPrimaryDomain(entry: TenantDomainSource): string | null {
+  const primary = entry.domains?.[0]
+  return primary ? normalizeHost(primary) : null
+}
+
+/**
+ * Build a host -> tenant lookup table from registry entries
+ * Only active tenants are indexed; the first tenant to claim a host wins
+ */
+export function buildTenantDomainIndex(
+  tenants: Record<string, TenantDomainSource>,
+): TenantDomainIndex {
+  const index: TenantDomainIndex = new Map()
+
+  for (const [tenantId, entry] of Object.entries(tenants)) {
+    const primaryDomain = getPrimaryDomain(entry)
+    if (entry.status !== 'active' || !primaryDomain) continue
+
+    for (const domain of entry.domains || []) {
+      for (const host of getDomainAliases(domain)) {
+        const existing = index.get(host)
+        if (existing && existing.tenantId !== tenantId) {
+          console.warn(
+            `Domain ${host} is claimed by both ${existing.tenantId} and ${tenantId}`,
+          )
+          continue
+        }
+
+        index.set(host, {
+          tenantId,
+          primaryDomain,
+          redirectToPrimaryDomain: entry.redirectToPrimaryDomain !== false,
+        })
+      }
+    }
+  }
+
+  return index
+}
+
+/**
+ * Resolve a request host to a tenant via the domain index
+ */
+export function resolveTenantFromHost(
+  host: string,
+  index: TenantDomainIndex,
+): TenantDomainMatch | null {
+  const normalized = normalizeHost(host)
+  const entry = index.get(normalized)
+
+  if (!entry) return null
+
+  const isPrimary = normalized === entry.primaryDomain
+
+  return {
+    tenantId: entry.tenantId,
+    host: normalized,
+    primaryDomain: entry.primaryDomain,
+    isPrimary,
+    shouldRedirect: !isPrimary && entry.redirectToPrimaryDomain,
+  }
+}
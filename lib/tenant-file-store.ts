@@ -0,0 +1,122 @@
+/**
+ * Per-tenant JSON file store (server only)
+ * Keeps one JSON file per tenant holding a single collection, e.g.
+ * `{ "orders": [...] }`, and serializes writes per tenant, which is enough
+ * for a single Node process. Files are replaced atomically via rename.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export class TenantFileStore<T> {
+  private queues = new Map<string, Promise<unknown>>()
+
+  constructor(
+    private readonly dir: string,
+    private readonly collection: string,
+  ) {}
+
+  /**
+   * Every record for a tenant, in file order
+   */
+  async read(tenantId: string): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filePath(tenantId), 'utf-8')
+      return (JSON.parse(content) as Record<string, T[]>)[this.collection]
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  /**
+   * First record matching `match`, or null
+   */
+  async find(
+    tenantId: string,
+    match: (record: T) => boolean,
+  ): Promise<T | null> {
+    const records = await this.read(tenantId)
+    return records.find(match) ?? null
+  }
+
+  /**
+   * Read-modify-write the record matching `match` without interleaving
+   * other writes for the tenant
+   * `mutate` receives null when there is no such record and may return null
+   * to delete it; returning the record unchanged skips the write. Other
+   * writes for the tenant wait for it, so it must not do slow work.
+   */
+  update<R extends T | null>(
+    tenantId: string,
+    match: (record: T) => boolean,
+    mutate: (current: T | null) => R,
+  ): Promise<R> {
+    return this.exclusive(tenantId, async () => {
+      const records = await this.read(tenantId)
+      const index = records.findIndex(match)
+      const current = index === -1 ? null : records[index]
+      const next = mutate(current)
+
+      if (next === current) return next
+
+      if (!next) {
+        records.splice(index, 1)
+      } else if (index === -1) {
+        records.push(next)
+      } else {
+        records[index] = next
+      }
+
+      await this.write(tenantId, records)
+      return next
+    })
+  }
+
+  /**
+   * Delete every record matching `match` in one write
+   * Returns the records that were removed.
+   */
+  remove(tenantId: string, match: (record: T) => boolean): Promise<T[]> {
+    return this.exclusive(tenantId, async () => {
+      const records = await this.read(tenantId)
+      const removed = records.filter(match)
+
+      if (removed.length > 0) {
+        await this.write(
+          tenantId,
+          records.filter(record => !match(record)),
+        )
+      }
+
+      return removed
+    })
+  }
+
+  private filePath(tenantId: string): string {
+    // basename keeps tenant IDs from escaping the store directory
+    return path.join(this.dir, `${path.basename(tenantId)}.json`)
+  }
+
+  private async write(tenantId: string, records: T[]): Promise<void> {
+    const filePath = this.filePath(tenantId)
+    const tempPath = `${filePath}.${process.pid}.tmp`
+
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(
+      tempPath,
+      JSON.stringify({ [this.collection]: records }, null, 2),
+    )
+    await fs.rename(tempPath, filePath)
+  }
+
+  private exclusive<R>(tenantId: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.queues.get(tenantId) ?? Promise.resolve()
+    const result = previous.then(task, task)
+    this.queues.set(
+      tenantId,
+      result.catch(() => undefined),
+    )
+    return result
+  }
+}
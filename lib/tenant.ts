@@ -6,6 +6,9 @@
 
 import { promises as fs } from 'fs'
 import path from 'path'
+import { CACHE_CONFIG } from './config/service-config'
+import { parseTenantConfig, parseTenantRegistry } from './schemas/tenant.schema'
+import { FileCache } from './tenant-cache'
 import {
   DefaultTenantConfig,
   TenantConfig,
@@ -18,14 +21,45 @@ const CONFIG_DIR = path.join(process.cwd(), 'config')
 const TENANTS_REGISTRY_PATH = path.join(CONFIG_DIR, 'tenants.json')
 const TENANTS_CONFIG_DIR = path.join(CONFIG_DIR, 'tenants')
 
+// Cache key for requests without a tenant ID (tenant IDs never contain '_')
+const DEFAULT_CACHE_KEY = '__default__'
+const REGISTRY_CACHE_KEY = '__registry__'
+
+// In-process caches (see lib/tenant-cache.ts for invalidation rules)
+const registryCache = new FileCache<TenantRegistry>({
+  ttl: CACHE_CONFIG.TENANT_CONFIG.ttl,
+  mtimeCheckInterval: CACHE_CONFIG.TENANT_CONFIG.mtimeCheckInterval,
+  watchDirs: [CONFIG_DIR],
+})
+
+const tenantConfigCache = new FileCache<TenantConfig>({
+  ttl: CACHE_CONFIG.TENANT_CONFIG.ttl,
+  mtimeCheckInterval: CACHE_CONFIG.TENANT_CONFIG.mtimeCheckInterval,
+  watchDirs: [CONFIG_DIR, TENANTS_CONFIG_DIR],
+  maxEntries: CACHE_CONFIG.TENANT_CONFIG.maxEntries,
+})
+
 /**
- * Load the tenant registry from JSON file
+ * Load the tenant registry (cached)
  */
 export async function loadTenantRegistry(): Promise<TenantRegistry> {
+  return registryCache.get(REGISTRY_CACHE_KEY, async () => ({
+    value: await readTenantRegistry(),
+    files: [TENANTS_REGISTRY_PATH],
+  }))
+}
+
+/**
+ * Read the tenant registry from JSON file
+ */
+async function readTenantRegistry(): Promise<TenantRegistry> {
   try {
     const registryData = await fs.readFile(TENANTS_REGISTRY_PATH, 'utf-8')
-    const registry: TenantRegistry = JSON.parse(registryData)
-    return registry
+    const validation = parseTenantRegistry(JSON.parse(registryData))
+    if (!validation.success) {
+      throw new Error(validation.errors.join('; '))
+    }
+    return validation.data
   } catch (error) {
     console.error('Failed to load tenant registry:', error)
     // Return minimal registry with default fallback
@@ -55,11 +89,10 @@ export async function loadTenantConfig(
     // Load tenant configuration file
     const configPath = path.join(TENANTS_CONFIG_DIR, tenantEntry.configFile)
     const configData = await fs.readFile(configPath, 'utf-8')
-    const config: TenantConfig = JSON.parse(configData)
 
     // Validate configuration
-    const validation = validateTenantConfig(config)
-    if (!validation.isValid) {
+    const validation = parseTenantConfig(JSON.parse(configData))
+    if (!validation.success) {
       console.error(
         `Invalid configuration for tenant ${tenantId}:`,
         validation.errors,
@@ -67,7 +100,7 @@ export async function loadTenantConfig(
       return null
     }
 
-    return config
+    return validation.data
   } catch (error) {
     console.error(`Failed to load configuration for tenant ${tenantId}:`, error)
     return null
@@ -83,17 +116,16 @@ export async function loadDefaultConfig(): Promise<DefaultTenantConfig> {
     const defaultConfigPath = path.join(TENANTS_CONFIG_DIR, registry.default)
 
     const configData = await fs.readFile(defaultConfigPath, 'utf-8')
-    const config: DefaultTenantConfig = JSON.parse(configData)
 
     // Validate default configuration
-    const validation = validateTenantConfig(config)
-    if (!validation.isValid) {
+    const validation = parseTenantConfig(JSON.parse(configData))
+    if (!validation.success) {
       console.error('Invalid default configuration:', validation.errors)
       // Return hardcoded fallback if default config is invalid
       return getHardcodedFallbackConfig()
     }
 
-    return config
+    return validation.data
   } catch (error) {
     console.error('Failed to load default configuration:', error)
     return getHardcodedFallbackConfig()
@@ -103,9 +135,53 @@ export async function loadDefaultConfig(): Promise<DefaultTenantConfig> {
 /**
  * Get tenant configuration with fallback to default
  * This is the main function to use for getting tenant config
+ * Results are cached per tenant and invalidated when their files change;
+ * IDs missing from the registry share the default entry
  */
 export async function getTenantConfig(
   tenantId: string | null,
+): Promise<TenantConfig> {
+  const registry = await loadTenantRegistry()
+  const tenantEntry = tenantId ? registry.tenants[tenantId] : undefined
+  const cacheKey = tenantId && tenantEntry ? tenantId : DEFAULT_CACHE_KEY
+
+  return tenantConfigCache.get(cacheKey, async () => {
+    const value = await resolveTenantConfig(tenantEntry ? tenantId : null)
+
+    const files = [
+      TENANTS_REGISTRY_PATH,
+      path.join(TENANTS_CONFIG_DIR, registry.default),
+    ]
+    if (tenantEntry) {
+      files.push(path.join(TENANTS_CONFIG_DIR, tenantEntry.configFile))
+    }
+
+    return { value, files }
+  })
+}
+
+/**
+ * Invalidate cached tenant configuration
+ * Drops a single tenant when an ID is given, along with any entry that
+ * resolved to it (the default entry and tenants falling back to it),
+ * otherwise every tenant. The registry is always reloaded. Returns the
+ * cache keys that were dropped.
+ */
+export function invalidateTenantConfig(tenantId?: string): string[] {
+  registryCache.invalidate()
+
+  if (tenantId === undefined) return tenantConfigCache.invalidate()
+
+  return tenantConfigCache.invalidateWhere(
+    (key, config) => key === tenantId || config.id === tenantId,
+  )
+}
+
+/**
+ * Resolve tenant configuration from disk with fallback to default
+ */
+async function resolveTenantConfig(
+  tenantId: string | null,
 ): Promise<TenantConfig> {
   // If no tenant ID provided, use default
   if (!tenantId) {
@@ -127,120 +203,24 @@ export async function getTenantConfig(
 }
 
 /**
- * Validate tenant configuration structure and required fields
+ * Tenant config safe to serialize to the browser
+ * Promotions stay on the server so coupon codes cannot be read from the page.
  */
-// TODO: Remove this once we have a proper type for the config
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function validateTenantConfig(config: any): ValidationResult {
-  const errors: string[] = []
-
-  // Check required top-level fields
-  if (!config.id || typeof config.id !== 'string') {
-    errors.push('Missing or invalid id field')
-  }
-
-  if (!config.name || typeof config.name !== 'string') {
-    errors.push('Missing or invalid name field')
-  }
-
-  // Validate theme (supports both new string format and legacy object format)
-  if (!config.theme) {
-    errors.push('Missing theme field')
-  } else if (typeof config.theme === 'string') {
-    // New format: theme ID string
-    const validThemeIds = ['ocean', 'fire', 'forest']
-    if (!validThemeIds.includes(config.theme)) {
-      errors.push(
-        `Invalid theme ID. Must be one of: ${validThemeIds.join(', ')}`,
-      )
-    }
-  } else if (typeof config.theme === 'object') {
-    // Legacy format: theme object with colors
-    const requiredThemeFields = ['primary', 'secondary', 'background', 'text']
-    for (const field of requiredThemeFields) {
-      if (!config.theme[field] || typeof config.theme[field] !== 'string') {
-        errors.push(`Missing or invalid theme.${field} field`)
-      }
-    }
-  } else {
-    errors.push(
-      'Theme must be either a string ID or an object with color properties',
-    )
-  }
-
-  // Validate content object
-  if (!config.content || typeof config.content !== 'object') {
-    errors.push('Missing or invalid content object')
-  } else {
-    // Validate hero content
-    if (!config.content.hero || typeof config.content.hero !== 'object') {
-      errors.push('Missing or invalid content.hero object')
-    } else {
-      if (
-        !config.content.hero.headline ||
-        typeof config.content.hero.headline !== 'string'
-      ) {
-        errors.push('Missing or invalid content.hero.headline field')
-      }
-      if (
-        !config.content.hero.description ||
-        typeof config.content.hero.description !== 'string'
-      ) {
-        errors.push('Missing or invalid content.hero.description field')
-      }
-    }
-
-    // Validate about content
-    if (!config.content.about || typeof config.content.about !== 'object') {
-      errors.push('Missing or invalid content.about object')
-    } else {
-      if (
-        !config.content.about.title ||
-        typeof config.content.about.title !== 'string'
-      ) {
-        errors.push('Missing or invalid content.about.title field')
-      }
-      if (
-        !config.content.about.content ||
-        typeof config.content.about.content !== 'string'
-      ) {
-        errors.push('Missing or invalid content.about.content field')
-      }
-    }
-
-    // Validate contact content (optional fields, but object must exist)
-    if (!config.content.contact || typeof config.content.contact !== 'object') {
-      errors.push('Missing or invalid content.contact object')
-    }
-  }
-
-  // Validate metadata object
-  if (!config.metadata || typeof config.metadata !== 'object') {
-    errors.push('Missing or invalid metadata object')
-  } else {
-    if (!config.metadata.title || typeof config.metadata.title !== 'string') {
-      errors.push('Missing or invalid metadata.title field')
-    }
-    if (
-      !config.metadata.description ||
-      typeof config.metadata.description !== 'string'
-    ) {
-      errors.push('Missing or invalid metadata.description field')
-    }
+export function toPublicTenantConfig(config: TenantConfig): TenantConfig {
+  const { promotions: _promotions, ...publicConfig } = config
+  return publicConfig
+}
 
-    // Validate SEO configuration if present
-    if (config.metadata.seo) {
-      // Import SEO validation synchronously
-      const seoValidation = validateSEOConfigSync(config.metadata.seo)
-      if (!seoValidation.isValid) {
-        errors.push(...seoValidation.errors)
-      }
-    }
-  }
+/**
+ * Validate tenant configuration structure and required fields
+ * Errors are path-addressed, e.g. `content.hero.headline: required`
+ */
+export function validateTenantConfig(config: unknown): ValidationResult {
+  const result = parseTenantConfig(config)
 
   return {
-    isValid: errors.length === 0,
-    errors,
+    isValid: result.success,
+    errors: result.errors,
   }
 }
 
@@ -271,64 +251,6 @@ export function extractTenantFromHostname(hostname: string): string | null {
   return null
 }
 
-/**
- * Validate SEO configuration (sync version for use in validateTenantConfig)
- */
-// TODO: Remove this once we have a proper type for the seo config
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function validateSEOConfigSync(seo: any): {
-  isValid: boolean
-  errors: string[]
-} {
-  const errors: string[] = []
-
-  if (seo) {
-    // Validate keywords
-    if (seo.keywords && !Array.isArray(seo.keywords)) {
-      errors.push('SEO keywords must be an array of strings')
-    }
-
-    // Validate favicon path
-    if (seo.favicon && typeof seo.favicon !== 'string') {
-      errors.push('SEO favicon must be a string path')
-    }
-
-    // Validate Open Graph
-    if (seo.openGraph) {
-      if (seo.openGraph.image && typeof seo.openGraph.image !== 'string') {
-        errors.push('Open Graph image must be a string URL')
-      }
-      if (seo.openGraph.type && typeof seo.openGraph.type !== 'string') {
-        errors.push('Open Graph type must be a string')
-      }
-    }
-
-    // Validate Twitter
-    if (seo.twitter) {
-      if (
-        seo.twitter.card &&
-        !['summary', 'summary_large_image', 'app', 'player'].includes(
-          seo.twitter.card,
-        )
-      ) {
-        errors.push(
-          'Twitter card must be one of: summary, summary_large_image, app, player',
-        )
-      }
-    }
-
-    // Validate canonical base
-    if (seo.canonicalBase && typeof seo.canonicalBase !== 'string') {
-      errors.push('Canonical base must be a string URL')
-    }
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-  }
-}
-
 /**
  * Hardcoded fallback configuration for extreme error cases
  */
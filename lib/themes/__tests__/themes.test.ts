@@ -0,0 +1,153 @@
+/**
+ * Tests for custom tenant themes: contrast checks, resolution and CSS
+ */
+
+import type { TenantCustomTheme } from '../../schemas/tenant.schema'
+import { findContrastIssues, getContrastRatio } from '../contrast'
+import { generateTenantThemeCSS, generateThemeCSS } from '../generator'
+import { resolveTenantTheme } from '../tenant-theme'
+import { AVAILABLE_THEMES, getDarkPalette, getLightPalette } from '../themes'
+
+// next/font only works inside the Next.js compiler
+jest.mock('../../fonts', () => ({
+  getFontFamilyVariables: (fonts: { heading: string; body: string }) => ({
+    '--font-heading': `'${fonts.heading}'`,
+    '--font-body': `'${fonts.body}'`,
+  }),
+}))
+
+const customTheme: TenantCustomTheme = {
+  name: 'Sunset',
+  colors: {
+    primary: '#7c3aed',
+    secondary: '#57534e',
+    accent: '#f59e0b',
+    accentForeground: '#1c1917',
+    background: '#fffbeb',
+    foreground: '#1c1917',
+    muted: '#fef3c7',
+    border: '#e7e5e4',
+    ring: '#7c3aed',
+  },
+  dark: { background: '#1c1917', muted: '#292524' },
+  radius: '1rem',
+  fonts: { heading: 'DM Sans' },
+}
+
+describe('Themes', () => {
+  describe('contrast', () => {
+    it('should compute WCAG contrast ratios', () => {
+      expect(getContrastRatio('#000000', '#ffffff')).toBeCloseTo(21)
+      expect(getContrastRatio('#fff', '#ffffff')).toBe(1)
+      expect(getContrastRatio('#2563eb', '#ffffff')).toBeCloseTo(5.17, 2)
+    })
+
+    it('should pass a palette meeting WCAG AA in both modes', () => {
+      expect(findContrastIssues(getLightPalette(customTheme.colors))).toEqual(
+        [],
+      )
+      expect(
+        findContrastIssues(
+          getDarkPalette(customTheme.colors, customTheme.dark),
+        ),
+      ).toEqual([])
+    })
+
+    it('should report pairs below their minimum ratio', () => {
+      const issues = findContrastIssues(
+        getLightPalette({ ...customTheme.colors, ring: '#fde68a' }),
+      )
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          foreground: 'ring',
+          background: 'background',
+          minimum: 3,
+        }),
+      ])
+    })
+
+    it('should check muted text on muted surfaces', () => {
+      const issues = findContrastIssues(
+        getLightPalette({
+          ...customTheme.colors,
+          muted: '#d6d3d1',
+          mutedForeground: '#78716c',
+        }),
+      )
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          foreground: 'mutedForeground',
+          background: 'muted',
+          minimum: 4.5,
+        }),
+      ])
+    })
+  })
+
+  describe('palettes', () => {
+    it('should carry brand colors and their text into the dark palette', () => {
+      const dark = getDarkPalette(customTheme.colors, customTheme.dark)
+
+      expect(dark).toMatchObject({
+        primary: '#7c3aed',
+        accent: '#f59e0b',
+        accentForeground: '#1c1917',
+        background: '#1c1917',
+        foreground: '#f8fafc',
+      })
+    })
+  })
+
+  describe('resolveTenantTheme', () => {
+    it('should resolve presets, legacy colors and custom themes', () => {
+      expect(resolveTenantTheme('forest')).toBe(AVAILABLE_THEMES.forest)
+      expect(
+        resolveTenantTheme({
+          primary: '#dc2626',
+          secondary: '#6b7280',
+          background: '#ffffff',
+          text: '#111827',
+        }),
+      ).toBe(AVAILABLE_THEMES.fire)
+
+      expect(resolveTenantTheme(customTheme)).toMatchObject({
+        id: 'custom',
+        name: 'Sunset',
+        fonts: { heading: 'DM Sans', body: 'Nunito Sans' },
+        radius: '1rem',
+      })
+    })
+  })
+
+  describe('generateThemeCSS', () => {
+    it('should compile a custom theme to CSS variables', () => {
+      const css = generateTenantThemeCSS({ theme: customTheme })
+      const [light, dark] = css.split('.dark')
+
+      expect(light).toContain('--primary: #7c3aed;')
+      expect(light).toContain('--primary-foreground: #ffffff;')
+      expect(light).toContain('--accent-foreground: #1c1917;')
+      expect(light).toContain('--muted: #fef3c7;')
+      expect(light).toContain('--radius: 1rem;')
+      expect(light).toContain("--font-heading: 'DM Sans';")
+      expect(dark).toContain('--background: #1c1917;')
+      expect(dark).toContain('--card: #292524;')
+      expect(dark).toContain('--accent-foreground: #1c1917;')
+    })
+
+    it('should keep preset output unchanged', () => {
+      const css = generateThemeCSS('ocean')
+      const dark = css.split('.dark')[1]
+
+      expect(css).toContain('--primary-foreground: #ffffff;')
+      expect(css).toContain('--radius: 0.5rem;')
+      expect(css).toContain("--font-body: 'Nunito Sans';")
+      expect(dark).toContain('--color-secondary: #64748b;')
+      expect(dark).toContain('--color-secondary-hover: #475569;')
+      expect(dark).toContain('--secondary: #334155;')
+      expect(dark).toContain('--muted-foreground: #94a3b8;')
+    })
+  })
+})
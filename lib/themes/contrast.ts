@@ -0,0 +1,126 @@
+/**
+ * WCAG 2.1 contrast checks for theme palettes
+ * Pure helpers shared by the tenant config schema, so keep this module free
+ * of path aliases and Node-only imports.
+ */
+
+import type { ThemeColors, ThemePalette } from './themes'
+
+type ColorToken = keyof ThemeColors
+
+/** Minimum ratio for normal text (WCAG 1.4.3, level AA) */
+export const TEXT_CONTRAST_RATIO = 4.5
+
+/** Minimum ratio for focus rings and other UI components (WCAG 1.4.11) */
+export const UI_CONTRAST_RATIO = 3
+
+export interface ContrastPair {
+  foreground: ColorToken
+  background: ColorToken
+  minimum: number
+}
+
+/**
+ * Foreground/background pairs the generated CSS renders together
+ */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+  {
+    foreground: 'foreground',
+    background: 'background',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  {
+    foreground: 'foreground',
+    background: 'muted',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  {
+    foreground: 'mutedForeground',
+    background: 'background',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  {
+    foreground: 'mutedForeground',
+    background: 'muted',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  {
+    foreground: 'primaryForeground',
+    background: 'primary',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  {
+    foreground: 'accentForeground',
+    background: 'accent',
+    minimum: TEXT_CONTRAST_RATIO,
+  },
+  { foreground: 'ring', background: 'background', minimum: UI_CONTRAST_RATIO },
+]
+
+export interface ContrastIssue extends ContrastPair {
+  ratio: number
+}
+
+/**
+ * Parse #rgb or #rrggbb into 0-255 channels
+ */
+function parseHexColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '')
+  const digits =
+    hex.length === 3
+      ? hex
+          .split('')
+          .map(digit => digit + digit)
+          .join('')
+      : hex
+
+  return [0, 2, 4].map(index =>
+    parseInt(digits.slice(index, index + 2), 16),
+  ) as [number, number, number]
+}
+
+/**
+ * Relative luminance of a hex color, from 0 (black) to 1 (white)
+ */
+export function getRelativeLuminance(color: string): number {
+  const [r, g, b] = parseHexColor(color).map(channel => {
+    const value = channel / 255
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4)
+  })
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * Contrast ratio between two hex colors, from 1 to 21
+ */
+export function getContrastRatio(first: string, second: string): number {
+  const [lighter, darker] = [
+    getRelativeLuminance(first),
+    getRelativeLuminance(second),
+  ].sort((a, b) => b - a)
+
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/**
+ * Pairs of a palette below their minimum contrast ratio
+ */
+export function findContrastIssues(palette: ThemePalette): ContrastIssue[] {
+  return CONTRAST_PAIRS.flatMap(pair => {
+    const ratio = getContrastRatio(
+      palette[pair.foreground],
+      palette[pair.background],
+    )
+    return ratio < pair.minimum ? [{ ...pair, ratio }] : []
+  })
+}
+
+/**
+ * e.g. `contrast 2.1:1 against accent, needs at least 4.5:1`
+ */
+export function formatContrastIssue(issue: ContrastIssue): string {
+  return `contrast ${Math.floor(issue.ratio * 10) / 10}:1 against ${issue.background}, needs at least ${issue.minimum}:1`
+}
@@ -3,119 +3,122 @@
  * Generates CSS custom properties for ISR and SSG rendering
  */
 
-import { getThemeFontVariables } from '../fonts'
-import { AVAILABLE_THEMES, DEFAULT_THEME_ID, type ThemeId } from './themes'
+import { getFontFamilyVariables } from '../fonts'
+import type { TenantTheme } from '../schemas/tenant.schema'
+import { getLegacyThemeId, resolveTenantTheme } from './tenant-theme'
+import {
+  AVAILABLE_THEMES,
+  DEFAULT_THEME_ID,
+  DEFAULT_THEME_RADIUS,
+  getDarkPalette,
+  getLightPalette,
+  type Theme,
+  type ThemeId,
+} from './themes'
+
+function toTheme(theme: ThemeId | Theme): Theme {
+  return typeof theme === 'string' ? AVAILABLE_THEMES[theme] : theme
+}
 
 /**
  * Generate shadcn/ui compatible CSS custom properties
+ * Accepts a preset ID or a resolved theme, e.g. a tenant's custom theme
  */
-export function generateThemeCSS(themeId: ThemeId): string {
-  const theme = AVAILABLE_THEMES[themeId]
-  const fontVariables = getThemeFontVariables(themeId)
+export function generateThemeCSS(themeOrId: ThemeId | Theme): string {
+  const theme = toTheme(themeOrId)
+  const light = getLightPalette(theme.colors)
+  const dark = getDarkPalette(theme.colors, theme.dark)
+  const fontVariables = getFontFamilyVariables(theme.fonts)
 
   return `
     :root {
       /* Semantic color tokens for our app */
-      --color-primary: ${theme.colors.primary};
-      --color-secondary: ${theme.colors.secondary};
-      --color-background: ${theme.colors.background};
-      --color-surface: ${theme.colors.muted};
-      --color-text: ${theme.colors.foreground};
-      --color-muted: ${theme.colors.secondary};
-      --color-border: ${theme.colors.border};
+      --color-primary: ${light.primary};
+      --color-secondary: ${light.secondary};
+      --color-background: ${light.background};
+      --color-surface: ${light.muted};
+      --color-text: ${light.foreground};
+      --color-muted: ${light.mutedForeground};
+      --color-border: ${light.border};
       
       /* Interactive states */
-      --color-primary-hover: ${theme.colors.accent};
-      --color-secondary-hover: ${theme.colors.secondary};
+      --color-primary-hover: ${light.accent};
+      --color-secondary-hover: ${light.secondaryHover};
       
       /* Typography with Next.js optimized fonts */
       --font-heading: ${fontVariables['--font-heading']};
       --font-body: ${fontVariables['--font-body']};
       
       /* shadcn/ui compatibility */
-      --background: ${theme.colors.background};
-      --foreground: ${theme.colors.foreground};
-      --card: ${theme.colors.background};
-      --card-foreground: ${theme.colors.foreground};
-      --popover: ${theme.colors.background};
-      --popover-foreground: ${theme.colors.foreground};
-      --primary: ${theme.colors.primary};
-      --primary-foreground: #ffffff;
-      --secondary: ${theme.colors.secondary};
-      --secondary-foreground: ${theme.colors.foreground};
-      --muted: ${theme.colors.muted};
-      --muted-foreground: ${theme.colors.secondary};
-      --accent: ${theme.colors.accent};
-      --accent-foreground: #ffffff;
+      --background: ${light.background};
+      --foreground: ${light.foreground};
+      --card: ${light.background};
+      --card-foreground: ${light.foreground};
+      --popover: ${light.background};
+      --popover-foreground: ${light.foreground};
+      --primary: ${light.primary};
+      --primary-foreground: ${light.primaryForeground};
+      --secondary: ${light.secondarySurface};
+      --secondary-foreground: ${light.foreground};
+      --muted: ${light.muted};
+      --muted-foreground: ${light.mutedForeground};
+      --accent: ${light.accent};
+      --accent-foreground: ${light.accentForeground};
       --destructive: #ef4444;
       --destructive-foreground: #ffffff;
-      --border: ${theme.colors.border};
-      --input: ${theme.colors.border};
-      --ring: ${theme.colors.ring};
-      --radius: 0.5rem;
+      --border: ${light.border};
+      --input: ${light.border};
+      --ring: ${light.ring};
+      --radius: ${theme.radius ?? DEFAULT_THEME_RADIUS};
     }
     
     .dark {
-      --color-primary: ${theme.colors.primary};
-      --color-secondary: #64748b;
-      --color-background: #0f172a;
-      --color-surface: #1e293b;
-      --color-text: #f8fafc;
-      --color-muted: #94a3b8;
-      --color-border: #334155;
-      --color-primary-hover: ${theme.colors.accent};
-      --color-secondary-hover: #475569;
+      --color-primary: ${dark.primary};
+      --color-secondary: ${dark.secondary};
+      --color-background: ${dark.background};
+      --color-surface: ${dark.muted};
+      --color-text: ${dark.foreground};
+      --color-muted: ${dark.mutedForeground};
+      --color-border: ${dark.border};
+      --color-primary-hover: ${dark.accent};
+      --color-secondary-hover: ${dark.secondaryHover};
       
-      --background: #0f172a;
-      --foreground: #f8fafc;
-      --card: #1e293b;
-      --card-foreground: #f8fafc;
-      --popover: #1e293b;
-      --popover-foreground: #f8fafc;
-      --primary: ${theme.colors.primary};
-      --primary-foreground: #f8fafc;
-      --secondary: #334155;
-      --secondary-foreground: #f8fafc;
-      --muted: #1e293b;
-      --muted-foreground: #94a3b8;
-      --accent: ${theme.colors.accent};
-      --accent-foreground: #f8fafc;
+      --background: ${dark.background};
+      --foreground: ${dark.foreground};
+      --card: ${dark.muted};
+      --card-foreground: ${dark.foreground};
+      --popover: ${dark.muted};
+      --popover-foreground: ${dark.foreground};
+      --primary: ${dark.primary};
+      --primary-foreground: ${dark.primaryForeground};
+      --secondary: ${dark.secondarySurface};
+      --secondary-foreground: ${dark.foreground};
+      --muted: ${dark.muted};
+      --muted-foreground: ${dark.mutedForeground};
+      --accent: ${dark.accent};
+      --accent-foreground: ${dark.accentForeground};
       --destructive: #ef4444;
-      --destructive-foreground: #f8fafc;
-      --border: #334155;
-      --input: #334155;
-      --ring: ${theme.colors.ring};
+      --destructive-foreground: ${dark.foreground};
+      --border: ${dark.border};
+      --input: ${dark.border};
+      --ring: ${dark.ring};
     }
   `.trim()
 }
 
 /**
  * Extract theme ID from tenant configuration
- * Handles both legacy theme format and new theme ID format
+ * Handles both legacy theme format and new theme ID format; custom themes
+ * have no preset and map to the default
  */
 export function getThemeFromTenantConfig(tenantConfig: {
-  theme?: string | { primary?: string }
+  theme?: TenantTheme
 }): ThemeId {
   // Handle legacy theme format (object with colors)
   if (tenantConfig?.theme && typeof tenantConfig.theme === 'object') {
-    const primaryColor = tenantConfig.theme.primary
-
-    // Map legacy colors to new theme IDs
-    switch (primaryColor) {
-      case '#dc2626': // Red
-        return 'fire'
-      case '#2563eb': // Blue
-        return 'ocean'
-      case '#059669': // Green
-        return 'forest'
-      default:
-        // Fallback to closest match based on color
-        if (primaryColor?.includes('red') || primaryColor?.includes('#dc'))
-          return 'fire'
-        if (primaryColor?.includes('green') || primaryColor?.includes('#05'))
-          return 'forest'
-        return DEFAULT_THEME_ID
-    }
+    return 'primary' in tenantConfig.theme
+      ? getLegacyThemeId(tenantConfig.theme.primary)
+      : DEFAULT_THEME_ID
   }
 
   // Handle new theme format (string theme ID)
@@ -133,64 +136,64 @@ export function getThemeFromTenantConfig(tenantConfig: {
  * Convenience function that combines theme resolution and CSS generation
  */
 export function generateTenantThemeCSS(tenantConfig: {
-  theme?: string | { primary?: string }
+  theme?: TenantTheme
 }): string {
-  const themeId = getThemeFromTenantConfig(tenantConfig)
-  return generateCompleteThemeCSS(themeId)
+  return generateCompleteThemeCSS(resolveTenantTheme(tenantConfig.theme))
 }
 
 /**
  * Generate complete theme CSS (Next.js fonts are handled separately)
  */
-export function generateCompleteThemeCSS(themeId: ThemeId): string {
-  return generateThemeCSS(themeId)
+export function generateCompleteThemeCSS(themeOrId: ThemeId | Theme): string {
+  return generateThemeCSS(themeOrId)
 }
 
 /**
  * Generate theme CSS variables as object for dynamic injection
  */
 export function generateThemeCSSVariables(
-  themeId: ThemeId,
+  themeOrId: ThemeId | Theme,
 ): Record<string, string> {
-  const theme = AVAILABLE_THEMES[themeId]
-  const fontVariables = getThemeFontVariables(themeId)
+  const theme = toTheme(themeOrId)
+  const colors = getLightPalette(theme.colors)
+  const fontVariables = getFontFamilyVariables(theme.fonts)
 
   return {
     // Semantic color tokens for our app
-    '--color-primary': theme.colors.primary,
-    '--color-secondary': theme.colors.secondary,
-    '--color-background': theme.colors.background,
-    '--color-surface': theme.colors.muted,
-    '--color-text': theme.colors.foreground,
-    '--color-muted': theme.colors.secondary,
-    '--color-border': theme.colors.border,
-    '--color-primary-hover': theme.colors.accent,
-    '--color-secondary-hover': theme.colors.secondary,
+    '--color-primary': colors.primary,
+    '--color-secondary': colors.secondary,
+    '--color-background': colors.background,
+    '--color-surface': colors.muted,
+    '--color-text': colors.foreground,
+    '--color-muted': colors.mutedForeground,
+    '--color-border': colors.border,
+    '--color-primary-hover': colors.accent,
+    '--color-secondary-hover': colors.secondaryHover,
 
     // Typography with Next.js optimized fonts
     '--font-heading': fontVariables['--font-heading'],
     '--font-body': fontVariables['--font-body'],
 
     // shadcn/ui compatibility
-    '--background': theme.colors.background,
-    '--foreground': theme.colors.foreground,
-    '--card': theme.colors.background,
-    '--card-foreground': theme.colors.foreground,
-    '--popover': theme.colors.background,
-    '--popover-foreground': theme.colors.foreground,
-    '--primary': theme.colors.primary,
-    '--primary-foreground': '#ffffff',
-    '--secondary': theme.colors.secondary,
-    '--secondary-foreground': theme.colors.foreground,
-    '--muted': theme.colors.muted,
-    '--muted-foreground': theme.colors.secondary,
-    '--accent': theme.colors.accent,
-    '--accent-foreground': '#ffffff',
+    '--background': colors.background,
+    '--foreground': colors.foreground,
+    '--card': colors.background,
+    '--card-foreground': colors.foreground,
+    '--popover': colors.background,
+    '--popover-foreground': colors.foreground,
+    '--primary': colors.primary,
+    '--primary-foreground': colors.primaryForeground,
+    '--secondary': colors.secondarySurface,
+    '--secondary-foreground': colors.foreground,
+    '--muted': colors.muted,
+    '--muted-foreground': colors.mutedForeground,
+    '--accent': colors.accent,
+    '--accent-foreground': colors.accentForeground,
     '--destructive': '#ef4444',
     '--destructive-foreground': '#ffffff',
-    '--border': theme.colors.border,
-    '--input': theme.colors.border,
-    '--ring': theme.colors.ring,
-    '--radius': '0.5rem',
+    '--border': colors.border,
+    '--input': colors.border,
+    '--ring': colors.ring,
+    '--radius': theme.radius ?? DEFAULT_THEME_RADIUS,
   }
 }
@@ -9,12 +9,26 @@ export {
   DEFAULT_THEME,
   DEFAULT_THEME_ID,
   getAllThemes,
+  getDarkPalette,
+  getLightPalette,
   getTheme,
   isValidThemeId,
   type Theme,
+  type ThemeColors,
   type ThemeId,
+  type ThemePalette,
 } from './themes'
 
+// Tenant config themes
+export {
+  createCustomTheme,
+  isCustomTheme,
+  resolveTenantTheme,
+} from './tenant-theme'
+
+// Contrast checks
+export { findContrastIssues, getContrastRatio } from './contrast'
+
 // CSS generation
 export {
   generateTenantThemeCSS,
@@ -0,0 +1,73 @@
+/**
+ * Tenant theme resolution
+ * Turns a tenant config theme (preset ID, legacy colors or custom theme)
+ * into a full Theme for CSS generation and branded output
+ */
+
+import type { TenantCustomTheme, TenantTheme } from '../schemas/tenant.schema'
+import {
+  AVAILABLE_THEMES,
+  DEFAULT_THEME,
+  DEFAULT_THEME_ID,
+  getTheme,
+  type Theme,
+  type ThemeId,
+} from './themes'
+
+/**
+ * Whether a config theme is a custom theme
+ */
+export function isCustomTheme(
+  theme: TenantTheme | undefined,
+): theme is TenantCustomTheme {
+  return typeof theme === 'object' && 'colors' in theme
+}
+
+/**
+ * Map a legacy theme's primary color to the closest preset
+ */
+export function getLegacyThemeId(primaryColor?: string): ThemeId {
+  switch (primaryColor) {
+    case '#dc2626': // Red
+      return 'fire'
+    case '#2563eb': // Blue
+      return 'ocean'
+    case '#059669': // Green
+      return 'forest'
+    default:
+      // Fallback to closest match based on color
+      if (primaryColor?.includes('red') || primaryColor?.includes('#dc'))
+        return 'fire'
+      if (primaryColor?.includes('green') || primaryColor?.includes('#05'))
+        return 'forest'
+      return DEFAULT_THEME_ID
+  }
+}
+
+/**
+ * Build a Theme from a custom theme config; unset fonts come from the
+ * default theme
+ */
+export function createCustomTheme(theme: TenantCustomTheme): Theme {
+  return {
+    id: 'custom',
+    name: theme.name ?? 'Custom',
+    description: 'Custom tenant theme',
+    colors: theme.colors,
+    dark: theme.dark,
+    radius: theme.radius,
+    fonts: { ...DEFAULT_THEME.fonts, ...theme.fonts },
+    preview: DEFAULT_THEME.preview,
+  }
+}
+
+/**
+ * Resolve a tenant config theme to a full Theme
+ */
+export function resolveTenantTheme(theme: TenantTheme | undefined): Theme {
+  if (isCustomTheme(theme)) return createCustomTheme(theme)
+  if (typeof theme === 'object') {
+    return AVAILABLE_THEMES[getLegacyThemeId(theme.primary)]
+  }
+  return getTheme(theme)
+}
@@ -1,31 +1,77 @@
 /**
  * Theme definitions for multi-tenant theming system
- * 3 predefined themes with shadcn/ui compatible colors
+ * 3 predefined themes with shadcn/ui compatible colors; tenants can also
+ * define a custom theme in their config
  */
 
 export type ThemeId = 'ocean' | 'fire' | 'forest'
 
+/** Font families loaded through next/font (see lib/fonts) */
+export const THEME_FONT_FAMILIES = [
+  'Poppins',
+  'Nunito Sans',
+  'IBM Plex Mono',
+  'DM Sans',
+] as const
+
+export type ThemeFontFamily = (typeof THEME_FONT_FAMILIES)[number]
+
+export interface ThemeColors {
+  primary: string
+  secondary: string
+  accent: string
+  background: string
+  foreground: string
+  muted: string
+  border: string
+  ring: string
+  /** Text on primary; white unless set */
+  primaryForeground?: string
+  /** Text on accent; white unless set */
+  accentForeground?: string
+  /** Muted text on background and muted; secondary unless set */
+  mutedForeground?: string
+  /** Secondary button and badge background; secondary unless set */
+  secondarySurface?: string
+  /** Hover state of secondary; secondary unless set */
+  secondaryHover?: string
+}
+
 export interface Theme {
-  id: ThemeId
+  id: ThemeId | 'custom'
   name: string
   description: string
-  colors: {
-    primary: string
-    secondary: string
-    accent: string
-    background: string
-    foreground: string
-    muted: string
-    border: string
-    ring: string
-  }
+  colors: ThemeColors
+  /** Overrides of the default dark palette */
+  dark?: Partial<ThemeColors>
+  /** Corner radius, 0.5rem unless set */
+  radius?: string
   fonts: {
-    heading: string
-    body: string
+    heading: ThemeFontFamily
+    body: ThemeFontFamily
   }
   preview: string
 }
 
+/** Every color token, with the optional defaults filled in */
+export type ThemePalette = Required<ThemeColors>
+
+export const DEFAULT_THEME_RADIUS = '0.5rem'
+
+// Slate dark palette; brand colors follow the light palette
+const DARK_THEME_COLORS = {
+  background: '#0f172a', // Slate-900
+  foreground: '#f8fafc', // Slate-50
+  muted: '#1e293b', // Slate-800
+  secondary: '#64748b', // Slate-500
+  border: '#334155', // Slate-700
+  mutedForeground: '#94a3b8', // Slate-400
+  secondarySurface: '#334155', // Slate-700
+  secondaryHover: '#475569', // Slate-600
+  primaryForeground: '#f8fafc', // Slate-50
+  accentForeground: '#f8fafc', // Slate-50
+}
+
 export const AVAILABLE_THEMES: Record<ThemeId, Theme> = {
   ocean: {
     id: 'ocean',
@@ -104,6 +150,41 @@ export function getTheme(themeId?: string): Theme {
   return DEFAULT_THEME
 }
 
+/**
+ * Light palette of a theme
+ */
+export function getLightPalette(colors: ThemeColors): ThemePalette {
+  return {
+    primaryForeground: '#ffffff',
+    accentForeground: '#ffffff',
+    mutedForeground: colors.secondary,
+    secondarySurface: colors.secondary,
+    secondaryHover: colors.secondary,
+    ...colors,
+  }
+}
+
+/**
+ * Dark palette of a theme: the slate palette with the theme's brand colors
+ * (and any text set for them) and its own dark overrides on top
+ */
+export function getDarkPalette(
+  colors: ThemeColors,
+  dark: Partial<ThemeColors> = {},
+): ThemePalette {
+  return {
+    ...DARK_THEME_COLORS,
+    primary: colors.primary,
+    accent: colors.accent,
+    ring: colors.ring,
+    primaryForeground:
+      colors.primaryForeground ?? DARK_THEME_COLORS.primaryForeground,
+    accentForeground:
+      colors.accentForeground ?? DARK_THEME_COLORS.accentForeground,
+    ...dark,
+  }
+}
+
 /**
  * Validate if a theme ID is valid
  */
@@ -0,0 +1,159 @@
+import type { Product } from '../../types/products.types'
+import {
+  clampQuantity,
+  getQuantityError,
+  getQuantityLimits,
+  MAX_ITEM_QUANTITY,
+  revalidateCartItems,
+} from '../cart-validation'
+
+const product = {
+  id: 1,
+  title: 'Mascara',
+  price: 9.99,
+  discountPercentage: 7,
+  thumbnail: 'mascara.png',
+  stock: 5,
+  minimumOrderQuantity: 2,
+  availabilityStatus: 'Low Stock',
+} as Product
+
+const item = {
+  id: 1,
+  title: 'Mascara',
+  price: 9.99,
+  discountPercentage: 7,
+  thumbnail: 'mascara.png',
+  quantity: 3,
+}
+
+describe('Cart validation', () => {
+  describe('getQuantityLimits', () => {
+    it('should bound quantities by minimum order and stock', () => {
+      expect(getQuantityLimits(product)).toEqual({
+        min: 2,
+        max: 5,
+        available: true,
+      })
+    })
+
+    it('should cap unknown stock at the line maximum', () => {
+      expect(getQuantityLimits({})).toEqual({
+        min: 1,
+        max: MAX_ITEM_QUANTITY,
+        available: true,
+      })
+    })
+
+    it('should mark out of stock products unavailable', () => {
+      expect(getQuantityLimits({ stock: 0 }).available).toBe(false)
+      expect(
+        getQuantityLimits({ stock: 3, availabilityStatus: 'Out of Stock' })
+          .available,
+      ).toBe(false)
+      // Not enough stock to reach the minimum order
+      expect(getQuantityLimits({ stock: 1, minimumOrderQuantity: 2 })).toEqual({
+        min: 2,
+        max: 1,
+        available: false,
+      })
+    })
+  })
+
+  describe('clampQuantity', () => {
+    it('should clamp into the limits', () => {
+      const limits = getQuantityLimits(product)
+
+      expect(clampQuantity(1, limits)).toBe(2)
+      expect(clampQuantity(9, limits)).toBe(5)
+      expect(clampQuantity(3.7, limits)).toBe(3)
+      expect(clampQuantity(3, getQuantityLimits({ stock: 0 }))).toBe(0)
+    })
+  })
+
+  describe('getQuantityError', () => {
+    it('should explain why a quantity cannot be ordered', () => {
+      expect(getQuantityError('Mascara', 3, product)).toBeUndefined()
+      expect(getQuantityError('Mascara', 1, product)).toBe(
+        'Mascara has a minimum order of 2',
+      )
+      expect(getQuantityError('Mascara', 6, product)).toBe(
+        'Only 5 of Mascara can be ordered',
+      )
+      expect(getQuantityError('Bed', 1, { stock: 0 })).toBe(
+        'Bed is out of stock',
+      )
+    })
+  })
+
+  describe('revalidateCartItems', () => {
+    it('should keep unchanged items and refresh their stock', () => {
+      const result = revalidateCartItems([item], new Map([[1, product]]))
+
+      expect(result.issues).toEqual([])
+      expect(result.items).toEqual([
+        {
+          ...item,
+          stock: 5,
+          minimumOrderQuantity: 2,
+          availabilityStatus: 'Low Stock',
+        },
+      ])
+    })
+
+    it('should flag price changes and adopt the new price', () => {
+      const result = revalidateCartItems(
+        [item],
+        new Map([[1, { ...product, price: 11.5, discountPercentage: 0 }]]),
+      )
+
+      expect(result.issues).toEqual([
+        {
+          type: 'price-changed',
+          id: 1,
+          title: 'Mascara',
+          from: { price: 9.99, discountPercentage: 7 },
+          to: { price: 11.5, discountPercentage: 0 },
+        },
+      ])
+      expect(result.items[0]).toMatchObject({
+        price: 11.5,
+        discountPercentage: 0,
+      })
+    })
+
+    it('should remove missing and out of stock products', () => {
+      const result = revalidateCartItems(
+        [item, { ...item, id: 2, title: 'Bed' }],
+        new Map([
+          [1, null],
+          [2, { ...product, id: 2, title: 'Bed', stock: 0 }],
+        ]),
+      )
+
+      expect(result.items).toEqual([])
+      expect(result.issues).toEqual([
+        { type: 'removed', id: 1, title: 'Mascara' },
+        { type: 'out-of-stock', id: 2, title: 'Bed' },
+      ])
+    })
+
+    it('should reduce quantities to the available stock', () => {
+      const result = revalidateCartItems(
+        [{ ...item, quantity: 8 }],
+        new Map([[1, product]]),
+      )
+
+      expect(result.items[0].quantity).toBe(5)
+      expect(result.issues).toEqual([
+        { type: 'quantity-adjusted', id: 1, title: 'Mascara', from: 8, to: 5 },
+      ])
+    })
+
+    it('should keep items that could not be checked', () => {
+      const result = revalidateCartItems([item], new Map())
+
+      expect(result).toEqual({ items: [item], issues: [] })
+    })
+  })
+})
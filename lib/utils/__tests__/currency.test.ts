@@ -0,0 +1,91 @@
+import rates from '../../../config/exchange-rates.json'
+import {
+  convertMoney,
+  ExchangeRateTable,
+  getAvailableCurrencies,
+  getCurrencySettings,
+  getExchangeRate,
+  pickRates,
+  resolveDisplayCurrency,
+} from '../currency'
+import { money } from '../money'
+
+const table: ExchangeRateTable = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.9, GBP: 0.75, JPY: 150 },
+}
+
+describe('Currency', () => {
+  describe('getCurrencySettings', () => {
+    it('should default to USD only', () => {
+      expect(getCurrencySettings()).toEqual({ base: 'USD', display: ['USD'] })
+    })
+
+    it('should always offer the base currency first', () => {
+      expect(
+        getCurrencySettings({ base: 'EUR', display: ['GBP', 'EUR', 'USD'] }),
+      ).toEqual({ base: 'EUR', display: ['EUR', 'GBP', 'USD'] })
+    })
+  })
+
+  describe('getExchangeRate', () => {
+    it('should derive cross rates through the table base', () => {
+      expect(getExchangeRate(table, 'USD', 'EUR')).toBe(0.9)
+      expect(getExchangeRate(table, 'EUR', 'GBP')).toBeCloseTo(0.8333, 4)
+      expect(getExchangeRate(table, 'EUR', 'EUR')).toBe(1)
+      expect(getExchangeRate(table, 'EUR', 'SEK')).toBeUndefined()
+    })
+  })
+
+  describe('convertMoney', () => {
+    it('should convert and round to the target minor unit', () => {
+      expect(convertMoney(money(999), 'EUR', table)).toEqual(money(899, 'EUR'))
+      expect(convertMoney(money(900, 'EUR'), 'USD', table)).toEqual(
+        money(1000, 'USD'),
+      )
+    })
+
+    it('should handle currencies with different minor units', () => {
+      expect(convertMoney(money(999), 'JPY', table)).toEqual(money(1499, 'JPY'))
+      expect(convertMoney(money(1500, 'JPY'), 'USD', table)).toEqual(
+        money(1000, 'USD'),
+      )
+    })
+
+    it('should throw for unknown currencies', () => {
+      expect(() => convertMoney(money(100), 'SEK', table)).toThrow(
+        'No exchange rate from USD to SEK',
+      )
+    })
+  })
+
+  describe('resolveDisplayCurrency', () => {
+    const settings = getCurrencySettings({
+      base: 'EUR',
+      display: ['EUR', 'GBP', 'SEK'],
+    })
+
+    it('should accept allowed currencies case-insensitively', () => {
+      expect(resolveDisplayCurrency('gbp', settings, table)).toBe('GBP')
+    })
+
+    it('should fall back to the base currency', () => {
+      expect(resolveDisplayCurrency(undefined, settings, table)).toBe('EUR')
+      // Allowed by the tenant but not in the rate table
+      expect(resolveDisplayCurrency('SEK', settings, table)).toBe('EUR')
+      // In the rate table but not allowed by the tenant
+      expect(resolveDisplayCurrency('USD', settings, table)).toBe('EUR')
+      expect(getAvailableCurrencies(settings, table)).toEqual(['EUR', 'GBP'])
+    })
+  })
+
+  describe('pickRates', () => {
+    it('should keep only the requested currencies', () => {
+      const picked = pickRates(rates, ['EUR', 'GBP', 'XYZ'])
+
+      expect(picked.base).toBe('USD')
+      expect(Object.keys(picked.rates)).toEqual(['EUR', 'GBP'])
+      expect(getExchangeRate(picked, 'EUR', 'GBP')).toBeCloseTo(0.79 / 0.92)
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import {
+  add,
+  allocate,
+  applyDiscount,
+  compare,
+  currencyDigits,
+  formatMoney,
+  fromMajor,
+  money,
+  multiply,
+  percentOf,
+  roundMinor,
+  subtract,
+  sum,
+  toMajor,
+} from '../money'
+
+describe('Money', () => {
+  describe('construction', () => {
+    it('should convert major units to exact minor units', () => {
+      expect(fromMajor(0.1 + 0.2)).toEqual({ amount: 30, currency: 'USD' })
+      expect(fromMajor(28999.99).amount).toBe(2899999)
+      expect(fromMajor(1.005).amount).toBe(101)
+      expect(toMajor(money(149))).toBe(1.49)
+    })
+
+    it('should respect the currency minor unit', () => {
+      expect(currencyDigits('usd')).toBe(2)
+      expect(currencyDigits('JPY')).toBe(0)
+      expect(fromMajor(1234.5, 'JPY')).toEqual({
+        amount: 1235,
+        currency: 'JPY',
+      })
+    })
+
+    it('should reject fractional minor units', () => {
+      expect(() => money(1.5)).toThrow('must be an integer')
+    })
+  })
+
+  describe('arithmetic', () => {
+    it('should add and subtract exactly', () => {
+      const total = sum([fromMajor(0.1), fromMajor(0.2), fromMajor(0.3)])
+      expect(total.amount).toBe(60)
+      expect(subtract(total, money(10)).amount).toBe(50)
+    })
+
+    it('should refuse to mix currencies', () => {
+      expect(() => add(money(100), money(100, 'EUR'))).toThrow(
+        'Cannot combine USD and EUR amounts',
+      )
+      expect(() => compare(money(1), money(1, 'GBP'))).toThrow()
+    })
+
+    it('should return zero in the requested currency for empty sums', () => {
+      expect(sum([], 'EUR')).toEqual({ amount: 0, currency: 'EUR' })
+    })
+  })
+
+  describe('rounding', () => {
+    it.each([
+      ['half-up', 2.5, 3],
+      ['half-up', -2.5, -3],
+      ['half-even', 2.5, 2],
+      ['half-even', 3.5, 4],
+      ['down', 2.9, 2],
+      ['up', 2.1, 3],
+    ] as const)('should round %s: %d -> %d', (mode, value, expected) => {
+      expect(roundMinor(value, mode)).toBe(expected)
+    })
+
+    it('should ignore binary floating point noise', () => {
+      // 999 * 0.0717 = 71.62829999999999
+      expect(percentOf(money(999), 7.17, 'up').amount).toBe(72)
+      expect(multiply(money(1005), 0.5, 'half-even').amount).toBe(502)
+    })
+  })
+
+  describe('applyDiscount', () => {
+    it('should round the discount with the given mode', () => {
+      expect(applyDiscount(money(999), 7.17).amount).toBe(927)
+      expect(applyDiscount(money(250), 1, 'half-up').amount).toBe(247)
+      expect(applyDiscount(money(250), 1, 'half-even').amount).toBe(248)
+    })
+
+    it('should clamp to 0-100%', () => {
+      expect(applyDiscount(money(999), 0).amount).toBe(999)
+      expect(applyDiscount(money(999), -5).amount).toBe(999)
+      expect(applyDiscount(money(999), 150).amount).toBe(0)
+    })
+  })
+
+  describe('allocate', () => {
+    it('should split without losing minor units', () => {
+      expect(allocate(money(10), [1, 1, 1]).map(m => m.amount)).toEqual([
+        4, 3, 3,
+      ])
+      expect(allocate(money(100), [70, 20, 10]).map(m => m.amount)).toEqual([
+        70, 20, 10,
+      ])
+    })
+
+    it('should give leftovers to the largest remainders', () => {
+      const parts = allocate(money(1000), [1, 2, 3])
+      expect(parts.map(m => m.amount)).toEqual([167, 333, 500])
+      expect(sum(parts).amount).toBe(1000)
+    })
+
+    it('should handle negative amounts', () => {
+      const parts = allocate(money(-10), [1, 1, 1])
+      expect(parts.map(m => m.amount)).toEqual([-4, -3, -3])
+    })
+
+    it('should reject empty or zero ratios', () => {
+      expect(() => allocate(money(10), [])).toThrow()
+      expect(() => allocate(money(10), [0, 0])).toThrow()
+    })
+  })
+
+  describe('formatMoney', () => {
+    it('should format using currency conventions', () => {
+      expect(formatMoney(money(123450))).toBe('$1,234.50')
+      expect(formatMoney(money(1235, 'JPY'))).toBe('¥1,235')
+      expect(formatMoney(money(-599))).toBe('-$5.99')
+      expect(formatMoney(money(123450, 'EUR'), 'de-DE')).toBe('1.234,50\u00a0€')
+    })
+  })
+})
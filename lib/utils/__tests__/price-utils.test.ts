@@ -21,6 +21,10 @@ describe('Price Utilities', () => {
       expect(centsToDollars(0)).toBe(0)
       expect(centsToDollars(-100)).toBe(-1)
     })
+
+    it('should keep fractional cents', () => {
+      expect(centsToDollars(1234.5)).toBe(12.345)
+    })
   })
 
   describe('dollarsToCents', () => {
@@ -60,6 +64,10 @@ describe('Price Utilities', () => {
     it('should handle zero discount', () => {
       expect(calculateDiscountAmount(9600, 0)).toBe(0)
     })
+
+    it('should round fractional cent totals', () => {
+      expect(calculateDiscountAmount(9599.6, 10)).toBe(9.6)
+    })
   })
 
   describe('formatPrice', () => {
@@ -0,0 +1,60 @@
+import { money } from '../money'
+import {
+  calculateCartTotals,
+  calculateItemPricing,
+  formatDiscountPercentage,
+  formatPrice,
+} from '../pricing'
+
+describe('Pricing', () => {
+  describe('calculateItemPricing', () => {
+    it('should discount per unit before multiplying', () => {
+      const pricing = calculateItemPricing({
+        price: 9.99,
+        quantity: 3,
+        discountPercentage: 7.17,
+      })
+
+      expect(pricing.unitPrice).toEqual(money(999))
+      expect(pricing.discountedUnitPrice).toEqual(money(927))
+      expect(pricing.total).toEqual(money(2781))
+      expect(pricing.savings).toEqual(money(216))
+    })
+
+    it('should price items without a discount at list price', () => {
+      const pricing = calculateItemPricing({ price: 1.99, quantity: 2 })
+
+      expect(pricing.total).toEqual(money(398))
+      expect(pricing.savings).toEqual(money(0))
+    })
+  })
+
+  describe('calculateCartTotals', () => {
+    it('should produce totals that add up exactly', () => {
+      const { subtotal, savings, total } = calculateCartTotals([
+        { price: 28999.99, quantity: 8, discountPercentage: 3.98 },
+        { price: 99.99, quantity: 2, discountPercentage: 12.07 },
+      ])
+
+      expect(subtotal).toEqual(money(23219990))
+      expect(total.amount).toBe(subtotal.amount - savings.amount)
+      // 2899999 - 115420 = 2784579 per car, 9999 - 1207 = 8792 per echo
+      expect(total).toEqual(money(2784579 * 8 + 8792 * 2))
+    })
+
+    it('should return zero totals for an empty cart', () => {
+      expect(calculateCartTotals([], 'EUR')).toEqual({
+        subtotal: money(0, 'EUR'),
+        savings: money(0, 'EUR'),
+        total: money(0, 'EUR'),
+      })
+    })
+  })
+
+  describe('formatting', () => {
+    it('should format prices and discounts', () => {
+      expect(formatPrice(money(2781))).toBe('$27.81')
+      expect(formatDiscountPercentage(7.17)).toBe('-7.2%')
+    })
+  })
+})
@@ -0,0 +1,201 @@
+import type { TenantPromotion } from '../../types/tenant'
+import { money } from '../money'
+import { calculateCartSummary } from '../pricing'
+import {
+  describePromotion,
+  evaluatePromotions,
+  normalizeCouponCode,
+  PromotionLine,
+} from '../promotions'
+
+const now = new Date('2025-06-15T12:00:00Z')
+
+const lines: PromotionLine[] = [
+  {
+    id: 1,
+    title: 'Mascara',
+    category: 'beauty',
+    quantity: 2,
+    unitAmount: money(1000),
+  },
+  {
+    id: 2,
+    title: 'Apples',
+    category: 'groceries',
+    quantity: 3,
+    unitAmount: money(200),
+  },
+  {
+    id: 3,
+    title: 'Honey',
+    category: 'groceries',
+    quantity: 1,
+    unitAmount: money(500),
+  },
+]
+
+const promotions: TenantPromotion[] = [
+  {
+    id: 'beauty',
+    label: 'Beauty week',
+    type: 'percentage',
+    percent: 10,
+    categories: ['beauty'],
+  },
+  {
+    id: 'welcome',
+    label: 'Welcome offer',
+    code: 'WELCOME5',
+    type: 'fixed',
+    amount: 5,
+    minSubtotal: 30,
+  },
+  {
+    id: 'pantry',
+    label: 'Pantry deal',
+    code: 'PANTRY',
+    type: 'buy-x-get-y',
+    buy: 2,
+    get: 1,
+    percent: 100,
+    categories: ['groceries'],
+  },
+  {
+    id: 'summer',
+    label: 'Summer sale',
+    code: 'SUMMER',
+    type: 'percentage',
+    percent: 20,
+    startsAt: '2025-06-01T00:00:00Z',
+    endsAt: '2025-06-10T00:00:00Z',
+  },
+]
+
+describe('Promotions', () => {
+  describe('evaluatePromotions', () => {
+    it('should apply automatic promotions to eligible lines only', () => {
+      const result = evaluatePromotions(promotions, lines, { now })
+
+      expect(result.applied).toEqual([
+        {
+          id: 'beauty',
+          label: 'Beauty week',
+          code: undefined,
+          description: '10% off beauty',
+          discount: money(200),
+          lines: [{ lineId: 1, amount: money(200) }],
+        },
+      ])
+      expect(result.rejection).toBeUndefined()
+      expect(result.discount).toEqual(money(200))
+    })
+
+    it('should spread fixed coupons across lines after earlier promotions', () => {
+      const result = evaluatePromotions(promotions, lines, {
+        code: ' welcome5 ',
+        now,
+      })
+
+      // 1800 + 600 + 500 left after the beauty discount
+      expect(result.applied[1]).toMatchObject({
+        code: 'WELCOME5',
+        discount: money(500),
+        lines: [
+          { lineId: 1, amount: money(310) },
+          { lineId: 2, amount: money(104) },
+          { lineId: 3, amount: money(86) },
+        ],
+      })
+      expect(result.discount).toEqual(money(700))
+      expect(result.lines).toEqual([
+        { lineId: 1, amount: money(510) },
+        { lineId: 2, amount: money(104) },
+        { lineId: 3, amount: money(86) },
+      ])
+    })
+
+    it('should make the cheapest units free for buy-x-get-y', () => {
+      const result = evaluatePromotions(promotions, lines, {
+        code: 'PANTRY',
+        now,
+      })
+
+      // 4 grocery units: one of the 2.00 apples is free
+      expect(result.applied[1]).toMatchObject({
+        description: 'Buy 2, get 1 free on groceries',
+        discount: money(200),
+        lines: [{ lineId: 2, amount: money(200) }],
+      })
+    })
+
+    it('should explain why a coupon does not apply', () => {
+      const reason = (code: string, cart = lines) =>
+        evaluatePromotions(promotions, cart, { code, now }).rejection?.reason
+
+      expect(reason('NOPE')).toBe('NOPE is not a valid code')
+      expect(reason('SUMMER')).toBe('SUMMER has expired')
+      expect(reason('WELCOME5', [lines[2]])).toBe(
+        'Spend $25.00 more to use WELCOME5',
+      )
+      expect(reason('PANTRY', [lines[0], lines[2]])).toBe(
+        'PANTRY needs 3 eligible items',
+      )
+    })
+
+    it('should not apply promotions before they start', () => {
+      const result = evaluatePromotions(promotions, lines, {
+        code: 'SUMMER',
+        now: new Date('2025-05-31T23:59:59Z'),
+      })
+
+      expect(result.rejection?.reason).toBe('SUMMER is not active yet')
+      expect(result.applied.map(promotion => promotion.id)).toEqual(['beauty'])
+    })
+
+    it('should never discount a line below zero', () => {
+      const result = evaluatePromotions(
+        [{ id: 'big', label: 'Big', type: 'fixed', amount: 500 }],
+        lines,
+        { now },
+      )
+
+      expect(result.discount).toEqual(money(3100))
+    })
+  })
+
+  describe('describePromotion', () => {
+    it('should describe rewards, scope and minimum spend', () => {
+      expect(describePromotion(promotions[1])).toBe('$5.00 off over $30.00')
+      expect(
+        describePromotion({ ...promotions[2], percent: 50 } as TenantPromotion),
+      ).toBe('Buy 2, get 1 at 50% off on groceries')
+    })
+  })
+
+  describe('normalizeCouponCode', () => {
+    it('should trim and upper-case codes', () => {
+      expect(normalizeCouponCode(' save10 ')).toBe('SAVE10')
+      expect(normalizeCouponCode('  ')).toBeUndefined()
+      expect(normalizeCouponCode(null)).toBeUndefined()
+    })
+  })
+
+  describe('calculateCartSummary', () => {
+    it('should tax what is left after promotions', () => {
+      const items = [{ id: 1, category: 'beauty', price: 10, quantity: 2 }]
+      const result = evaluatePromotions(promotions, lines.slice(0, 1), { now })
+      const summary = calculateCartSummary(items, {
+        promotions: result,
+        tax: {
+          pricing: 'exclusive',
+          defaultRegion: 'CA',
+          regions: { CA: { rate: 10 } },
+        },
+      })
+
+      expect(summary.promotionDiscount).toEqual(money(200))
+      expect(summary.tax.tax).toEqual(money(180))
+      expect(summary.grandTotal).toEqual(money(1980))
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import artsShopConfig from '../../../config/tenants/arts-shop.json'
+import type { Product } from '../../types/products.types'
+import type { TenantConfig } from '../../types/tenant'
+import {
+  generateBreadcrumbStructuredData,
+  generateCategoryMetadata,
+  generateProductMetadata,
+  generateProductStructuredData,
+  generateTenantMetadata,
+  getProductBreadcrumbs,
+} from '../seo-utils'
+
+const config = artsShopConfig as TenantConfig
+
+const product = {
+  id: 1,
+  title: 'Essence Mascara Lash Princess',
+  description: 'Volumizing mascara </script>',
+  price: 9.99,
+  discountPercentage: 7.17,
+  rating: 4.5,
+  stock: 5,
+  brand: 'Essence',
+  category: 'beauty',
+  sku: 'BEA-ESS-ESS-001',
+  thumbnail: 'https://cdn.example.com/1/thumbnail.png',
+  images: ['https://cdn.example.com/1/1.png'],
+  availabilityStatus: 'Low Stock',
+  reviews: [
+    {
+      rating: 5,
+      comment: 'Great!',
+      date: '2025-04-30T09:41:02.053Z',
+      reviewerName: 'Eleanor Collins',
+      reviewerEmail: 'eleanor.collins@x.dummyjson.com',
+    },
+    {
+      rating: 4,
+      comment: 'Good',
+      date: '2025-04-30T09:41:02.053Z',
+      reviewerName: 'Lucas Gordon',
+      reviewerEmail: 'lucas.gordon@x.dummyjson.com',
+    },
+  ],
+} as Product
+
+describe('SEO utils', () => {
+  describe('generateProductStructuredData', () => {
+    it('should describe the product, its offer and reviews', () => {
+      const data = JSON.parse(generateProductStructuredData(config, product))
+
+      expect(data).toMatchObject({
+        '@type': 'Product',
+        name: 'Essence Mascara Lash Princess',
+        sku: 'BEA-ESS-ESS-001',
+        brand: { '@type': 'Brand', name: 'Essence' },
+        url: 'https://arts-shop.vercel.app/products/1',
+        offers: {
+          '@type': 'Offer',
+          price: '9.27',
+          priceCurrency: 'USD',
+          availability: 'https://schema.org/LimitedAvailability',
+          seller: { name: 'InstaShop' },
+        },
+        aggregateRating: { ratingValue: 4.5, reviewCount: 2 },
+      })
+      expect(data.review).toHaveLength(2)
+      expect(data.review[0]).toMatchObject({
+        author: { '@type': 'Person', name: 'Eleanor Collins' },
+        reviewRating: { ratingValue: 5 },
+      })
+      expect(JSON.stringify(data)).not.toContain('reviewerEmail')
+    })
+
+    it('should not let catalog text close the script tag', () => {
+      expect(generateProductStructuredData(config, product)).not.toContain(
+        '</script>',
+      )
+    })
+
+    it('should omit ratings without reviews and fall back to stock', () => {
+      const data = JSON.parse(
+        generateProductStructuredData(config, {
+          ...product,
+          reviews: [],
+          availabilityStatus: undefined,
+          stock: 0,
+        }),
+      )
+
+      expect(data.aggregateRating).toBeUndefined()
+      expect(data.review).toBeUndefined()
+      expect(data.offers.availability).toBe('https://schema.org/OutOfStock')
+    })
+  })
+
+  describe('generateBreadcrumbStructuredData', () => {
+    it('should link each crumb on the canonical domain', () => {
+      const data = JSON.parse(
+        generateBreadcrumbStructuredData(
+          config,
+          getProductBreadcrumbs(product),
+        ),
+      )
+
+      expect(data.itemListElement).toEqual([
+        {
+          '@type': 'ListItem',
+          position: 1,
+          name: 'Home',
+          item: 'https://arts-shop.vercel.app/',
+        },
+        {
+          '@type': 'ListItem',
+          position: 2,
+          name: 'Products',
+          item: 'https://arts-shop.vercel.app/products',
+        },
+        {
+          '@type': 'ListItem',
+          position: 3,
+          name: 'Beauty',
+          item: 'https://arts-shop.vercel.app/products?category=beauty',
+        },
+        {
+          '@type': 'ListItem',
+          position: 4,
+          name: 'Essence Mascara Lash Princess',
+          item: 'https://arts-shop.vercel.app/products/1',
+        },
+      ])
+    })
+  })
+
+  describe('generateProductMetadata', () => {
+    it('should title the page with the tenant name and canonical URL', () => {
+      const metadata = generateProductMetadata(config, product)
+
+      expect(metadata.title).toBe('Essence Mascara Lash Princess | InstaShop')
+      expect(metadata.alternates?.canonical).toBe(
+        'https://arts-shop.vercel.app/products/1',
+      )
+      expect(metadata.openGraph?.images).toEqual([
+        {
+          url: 'https://arts-shop.vercel.app/opengraph-image?product=1',
+          width: 1200,
+          height: 630,
+          alt: 'Essence Mascara Lash Princess',
+        },
+      ])
+      expect(metadata.twitter?.images).toEqual([
+        'https://arts-shop.vercel.app/opengraph-image?product=1',
+      ])
+    })
+  })
+
+  describe('generateCategoryMetadata', () => {
+    it('should use the category share card', () => {
+      const metadata = generateCategoryMetadata(config, 'home-decoration')
+
+      expect(metadata.title).toBe('Home Decoration | InstaShop')
+      expect(metadata.alternates?.canonical).toBe(
+        'https://arts-shop.vercel.app/products?category=home-decoration',
+      )
+      expect(metadata.openGraph?.images).toEqual([
+        {
+          url: 'https://arts-shop.vercel.app/opengraph-image?category=home-decoration',
+          width: 1200,
+          height: 630,
+          alt: 'Home Decoration',
+        },
+      ])
+    })
+  })
+
+  describe('generateTenantMetadata', () => {
+    it('should default to the generated home share card', () => {
+      const metadata = generateTenantMetadata(config)
+
+      expect(metadata.twitter?.images).toEqual([
+        'https://arts-shop.vercel.app/opengraph-image',
+      ])
+    })
+
+    it('should prefer a hand-authored Open Graph image', () => {
+      const metadata = generateTenantMetadata({
+        ...config,
+        metadata: {
+          ...config.metadata,
+          seo: {
+            ...config.metadata.seo,
+            openGraph: { image: 'https://cdn.example.com/og.jpg' },
+          },
+        },
+      })
+
+      expect(metadata.twitter?.images).toEqual([
+        'https://cdn.example.com/og.jpg',
+      ])
+    })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+
+import artsShopConfig from '../../../config/tenants/arts-shop.json'
+import testRentalCatalog from '../../../public/catalogs/test-rental.json'
+import { CatalogFile, FileCatalogProvider } from '../../services/catalog'
+import { ProductsService } from '../../services/products'
+import { AVAILABLE_THEMES } from '../../themes/themes'
+import type { Product } from '../../types/products.types'
+import type { TenantConfig } from '../../types/tenant'
+import {
+  buildProductShareCard,
+  getShareCard,
+  getShareCardCacheKey,
+  getShareCardPath,
+  getShareCardSignature,
+  loadShareCardFonts,
+  parseShareCardTarget,
+  SHARE_CARD_FONT_TIMEOUT,
+  ShareCardCache,
+} from '../share-card'
+
+const config = artsShopConfig as TenantConfig
+
+const productsService = new ProductsService(
+  new FileCatalogProvider({
+    file: 'test-rental.json',
+    load: async () => testRentalCatalog as CatalogFile,
+  }),
+)
+
+const product = testRentalCatalog.products[0] as Product
+
+describe('Share cards', () => {
+  describe('parseShareCardTarget', () => {
+    it('should read products, categories and default to home', () => {
+      expect(parseShareCardTarget(new URLSearchParams('product=12'))).toEqual({
+        kind: 'product',
+        productId: 12,
+      })
+      expect(
+        parseShareCardTarget(new URLSearchParams('category=beauty')),
+      ).toEqual({ kind: 'category', category: 'beauty' })
+      expect(parseShareCardTarget(new URLSearchParams())).toEqual({
+        kind: 'home',
+      })
+    })
+
+    it('should reject invalid product IDs', () => {
+      expect(() =>
+        parseShareCardTarget(new URLSearchParams('product=abc')),
+      ).toThrow('product must be a positive integer')
+    })
+  })
+
+  it('should build paths and cache keys per tenant and target', () => {
+    const target = { kind: 'category', category: 'home & garden' } as const
+
+    expect(getShareCardPath(target)).toBe(
+      '/opengraph-image?category=home%20%26%20garden',
+    )
+    expect(getShareCardCacheKey('arts-shop', target)).toBe(
+      'arts-shop:category:home & garden',
+    )
+    expect(
+      getShareCardCacheKey('arts-shop', { kind: 'product', productId: 12 }),
+    ).toBe('arts-shop:product:12')
+  })
+
+  describe('buildProductShareCard', () => {
+    it('should show the discounted price, list price and badge', () => {
+      const card = buildProductShareCard(config, product)
+
+      expect(card).toEqual({
+        kind: 'product',
+        siteName: 'InstaShop',
+        title: 'Essence Mascara Lash Princess',
+        subtitle: 'Essence',
+        price: '$9.27',
+        originalPrice: '$9.99',
+        discountBadge: '-7% OFF',
+        colors: AVAILABLE_THEMES.fire.colors,
+        fonts: AVAILABLE_THEMES.fire.fonts,
+      })
+    })
+
+    it('should leave out the badge without a discount', () => {
+      const card = buildProductShareCard(config, {
+        ...product,
+        discountPercentage: 0,
+      })
+
+      expect(card.price).toBe('$9.99')
+      expect(card.originalPrice).toBeUndefined()
+      expect(card.discountBadge).toBeUndefined()
+    })
+  })
+
+  describe('getShareCard', () => {
+    it('should count the products in a category', async () => {
+      const card = await getShareCard(config, productsService, {
+        kind: 'category',
+        category: 'beauty',
+      })
+
+      expect(card.title).toBe('Beauty')
+      expect(card.subtitle).toBe('2 products')
+    })
+
+    it('should reject unknown categories', async () => {
+      await expect(
+        getShareCard(config, productsService, {
+          kind: 'category',
+          category: 'missing',
+        }),
+      ).rejects.toMatchObject({ status: 404 })
+    })
+  })
+
+  describe('ShareCardCache', () => {
+    const body = new ArrayBuffer(8)
+
+    it('should reuse a render only while the card is unchanged', () => {
+      const cache = new ShareCardCache()
+      const card = buildProductShareCard(config, product)
+      const signature = getShareCardSignature(card)
+      cache.set('arts-shop:product:1', signature, body)
+
+      expect(cache.get('arts-shop:product:1', signature)).toBe(body)
+      expect(
+        cache.get(
+          'arts-shop:product:1',
+          getShareCardSignature({ ...card, price: '$8.99' }),
+        ),
+      ).toBeUndefined()
+    })
+
+    it('should evict the least recently used card', () => {
+      const cache = new ShareCardCache(2)
+      cache.set('a:home', 's', body)
+      cache.set('b:home', 's', body)
+      cache.get('a:home', 's')
+      cache.set('c:home', 's', body)
+
+      expect(cache.get('a:home', 's')).toBe(body)
+      expect(cache.get('b:home', 's')).toBeUndefined()
+    })
+
+    it('should invalidate one tenant', () => {
+      const cache = new ShareCardCache()
+      cache.set('arts-shop:home', 's', body)
+      cache.set('arts-shop:product:1', 's', body)
+      cache.set('abc-rentals:home', 's', body)
+
+      expect(cache.invalidate('arts-shop')).toEqual([
+        'arts-shop:home',
+        'arts-shop:product:1',
+      ])
+      expect(cache.get('abc-rentals:home', 's')).toBe(body)
+    })
+  })
+
+  describe('loadShareCardFonts', () => {
+    const fonts = AVAILABLE_THEMES.ocean.fonts
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    it('should report a fallback when a font fails to load', async () => {
+      jest.spyOn(global, 'fetch').mockRejectedValue(new Error('offline'))
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+      expect(await loadShareCardFonts(fonts)).toEqual({
+        fonts: undefined,
+        complete: false,
+      })
+    })
+
+    it('should give up on stalled font requests', async () => {
+      const timeout = jest
+        .spyOn(AbortSignal, 'timeout')
+        .mockImplementation(() => AbortSignal.abort())
+      // Never answers; only the signal ends the request
+      jest.spyOn(global, 'fetch').mockImplementation(
+        (_input, init) =>
+          new Promise((_resolve, reject) => {
+            if (init?.signal?.aborted) reject(init.signal.reason)
+            init?.signal?.addEventListener('abort', () =>
+              reject(init.signal?.reason),
+            )
+          }),
+      )
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+      expect(await loadShareCardFonts(fonts)).toEqual({
+        fonts: undefined,
+        complete: false,
+      })
+      expect(timeout).toHaveBeenCalledWith(SHARE_CARD_FONT_TIMEOUT)
+    })
+
+    it('should retry failed fonts and report complete loads', async () => {
+      jest
+        .spyOn(global, 'fetch')
+        .mockImplementation(async input =>
+          String(input).startsWith('https://fonts.googleapis.com/')
+            ? new Response(
+                "src: url(https://fonts.test/font.ttf) format('truetype')",
+              )
+            : new Response(new ArrayBuffer(4)),
+        )
+
+      const loaded = await loadShareCardFonts(fonts)
+
+      expect(loaded.complete).toBe(true)
+      expect(loaded.fonts?.map(font => font.weight)).toEqual([700, 400])
+    })
+  })
+})
@@ -0,0 +1,200 @@
+import type { TenantShippingConfig } from '../../types/tenant'
+import { money } from '../money'
+import { calculateCartSummary } from '../pricing'
+import {
+  addBusinessDays,
+  estimateDeliveryWindow,
+  formatDeliveryWindow,
+  getShipment,
+  getShippingOptions,
+  parseHandlingDays,
+  quoteShippingMethod,
+  Shipment,
+} from '../shipping'
+
+const config: TenantShippingConfig = {
+  defaultZone: 'us',
+  zones: {
+    us: {
+      label: 'United States',
+      countries: ['US'],
+      methods: [
+        {
+          id: 'ground',
+          label: 'Ground',
+          type: 'weight',
+          baseAmount: 5,
+          perKg: 0.75,
+          maxWeight: 20,
+          delivery: { minDays: 3, maxDays: 6 },
+        },
+        {
+          id: 'express',
+          label: 'Express',
+          type: 'flat',
+          amount: 24.99,
+          delivery: { minDays: 1, maxDays: 2 },
+        },
+        {
+          id: 'free',
+          label: 'Free ground shipping',
+          type: 'free',
+          minSubtotal: 100,
+          delivery: { minDays: 3, maxDays: 6 },
+        },
+      ],
+    },
+    ca: {
+      label: 'Canada',
+      countries: ['CA'],
+      methods: [
+        {
+          id: 'standard',
+          label: 'Standard',
+          type: 'flat',
+          amount: 15,
+          delivery: { minDays: 5, maxDays: 10 },
+        },
+      ],
+    },
+  },
+}
+
+const shipment = (overrides: Partial<Shipment> = {}): Shipment => ({
+  subtotal: money(4000),
+  weight: 2.4,
+  handlingDays: 0,
+  ...overrides,
+})
+
+describe('Shipping', () => {
+  describe('parseHandlingDays', () => {
+    it('should read the upper bound of catalog handling notes', () => {
+      expect(parseHandlingDays('Ships in 1-2 business days')).toBe(2)
+      expect(parseHandlingDays('Ships in 3-5 business days')).toBe(5)
+      expect(parseHandlingDays('Ships overnight')).toBe(1)
+      expect(parseHandlingDays('Ships in 2 weeks')).toBe(10)
+      expect(parseHandlingDays('Ships in 1 month')).toBe(20)
+    })
+
+    it('should ignore missing or unknown notes', () => {
+      expect(parseHandlingDays()).toBe(0)
+      expect(parseHandlingDays('Ships soon')).toBe(0)
+    })
+  })
+
+  describe('getShipment', () => {
+    it('should total discounted prices, weight and handling', () => {
+      expect(
+        getShipment([
+          {
+            price: 9.99,
+            quantity: 3,
+            discountPercentage: 7.17,
+            weight: 0.5,
+            shippingInformation: 'Ships in 1 week',
+          },
+          { price: 10, quantity: 1, shippingInformation: 'Ships overnight' },
+        ]),
+      ).toEqual({ subtotal: money(3781), weight: 1.5, handlingDays: 5 })
+    })
+  })
+
+  describe('quoteShippingMethod', () => {
+    const [ground, express, free] = config.zones.us.methods
+
+    it('should charge weight-based methods per started kilogram', () => {
+      expect(quoteShippingMethod(ground, shipment()).amount).toEqual(money(725))
+      expect(
+        quoteShippingMethod(ground, shipment({ weight: 25 })).available,
+      ).toBe(false)
+    })
+
+    it('should add handling time to the delivery estimate', () => {
+      expect(
+        quoteShippingMethod(express, shipment({ handlingDays: 2 })),
+      ).toMatchObject({
+        amount: money(2499),
+        available: true,
+        minDays: 3,
+        maxDays: 4,
+      })
+    })
+
+    it('should unlock free shipping at the threshold', () => {
+      expect(quoteShippingMethod(free, shipment())).toMatchObject({
+        available: false,
+        remaining: money(6000),
+      })
+      expect(
+        quoteShippingMethod(free, shipment({ subtotal: money(10000) })),
+      ).toMatchObject({ amount: money(0), available: true })
+    })
+  })
+
+  describe('getShippingOptions', () => {
+    it('should default to the cheapest available method', () => {
+      const options = getShippingOptions(config, shipment())
+
+      expect(options.zone).toBe('us')
+      expect(options.quotes).toHaveLength(3)
+      expect(options.selected?.id).toBe('ground')
+    })
+
+    it('should keep the requested method when available', () => {
+      expect(
+        getShippingOptions(config, shipment(), { method: 'express' }).selected
+          ?.id,
+      ).toBe('express')
+      expect(
+        getShippingOptions(config, shipment(), { method: 'free' }).selected?.id,
+      ).toBe('ground')
+    })
+
+    it('should fall back to the default zone', () => {
+      expect(
+        getShippingOptions(config, shipment(), { zone: 'ca' }).selected?.id,
+      ).toBe('standard')
+      expect(getShippingOptions(config, shipment(), { zone: 'mx' }).zone).toBe(
+        'us',
+      )
+    })
+  })
+
+  describe('delivery windows', () => {
+    // Friday
+    const orderedAt = new Date(2024, 4, 10, 12)
+
+    it('should skip weekends', () => {
+      expect(addBusinessDays(orderedAt, 1).getDate()).toBe(13)
+      expect(addBusinessDays(orderedAt, 6).getDate()).toBe(20)
+      expect(addBusinessDays(orderedAt, 0).getDate()).toBe(10)
+    })
+
+    it('should format the estimated window', () => {
+      const window = estimateDeliveryWindow(
+        { minDays: 1, maxDays: 3 },
+        orderedAt,
+      )
+
+      expect(formatDeliveryWindow(window)).toBe('Mon, May 13 – Wed, May 15')
+      expect(
+        formatDeliveryWindow(
+          estimateDeliveryWindow({ minDays: 1, maxDays: 1 }, orderedAt),
+        ),
+      ).toBe('Mon, May 13')
+    })
+  })
+
+  describe('calculateCartSummary', () => {
+    it('should add the shipping rate to the grand total', () => {
+      const summary = calculateCartSummary(
+        [{ id: 1, price: 9.99, quantity: 3, discountPercentage: 7.17 }],
+        { shipping: money(725) },
+      )
+
+      expect(summary.shipping).toEqual(money(725))
+      expect(summary.grandTotal).toEqual(money(3506))
+    })
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+
+import testRentalCatalog from '../../../public/catalogs/test-rental.json'
+import { CatalogFile, FileCatalogProvider } from '../../services/catalog'
+import { ProductsService } from '../../services/products'
+import type { Product } from '../../types/products.types'
+import {
+  buildSitemapEntries,
+  chunkSitemapEntries,
+  getCatalogSitemap,
+  listAllProducts,
+  renderSitemapIndex,
+  renderUrlSet,
+} from '../sitemap'
+
+const productsService = new ProductsService(
+  new FileCatalogProvider({
+    file: 'test-rental.json',
+    load: async () => testRentalCatalog as CatalogFile,
+  }),
+)
+
+const product = (id: number, category: string, updatedAt?: string) =>
+  ({
+    id,
+    category,
+    images: [`https://cdn.example.com/${id}.png`],
+    meta: updatedAt && { updatedAt },
+  }) as Product
+
+describe('Sitemap', () => {
+  describe('buildSitemapEntries', () => {
+    it('should list pages, categories and products with real lastmod', () => {
+      const entries = buildSitemapEntries(
+        'https://shop.example.com/',
+        [
+          product(1, 'beauty', '2025-03-14T12:30:00.000Z'),
+          product(2, 'beauty', '2025-04-01T08:00:00Z'),
+          product(3, 'home & garden'),
+        ],
+        [
+          { slug: 'beauty', name: 'Beauty', url: '' },
+          { slug: 'home & garden', name: 'Home', url: '' },
+        ],
+      )
+
+      expect(entries.map(entry => [entry.loc, entry.lastmod])).toEqual([
+        ['https://shop.example.com/', '2025-04-01T08:00:00.000Z'],
+        ['https://shop.example.com/products', '2025-04-01T08:00:00.000Z'],
+        [
+          'https://shop.example.com/products?category=beauty',
+          '2025-04-01T08:00:00.000Z',
+        ],
+        [
+          'https://shop.example.com/products?category=home%20%26%20garden',
+          undefined,
+        ],
+        ['https://shop.example.com/products/1', '2025-03-14T12:30:00.000Z'],
+        ['https://shop.example.com/products/2', '2025-04-01T08:00:00.000Z'],
+        ['https://shop.example.com/products/3', undefined],
+      ])
+      expect(entries[4].images).toEqual(['https://cdn.example.com/1.png'])
+    })
+  })
+
+  describe('chunkSitemapEntries', () => {
+    it('should split at the URL limit', () => {
+      const entries = Array.from({ length: 5 }, (_, i) => ({
+        loc: `https://shop.example.com/products/${i}`,
+      }))
+
+      expect(chunkSitemapEntries(entries, 2).map(c => c.length)).toEqual([
+        2, 2, 1,
+      ])
+      expect(chunkSitemapEntries([])).toEqual([[]])
+    })
+  })
+
+  describe('rendering', () => {
+    it('should escape URLs and add image extensions', () => {
+      const xml = renderUrlSet([
+        {
+          loc: 'https://shop.example.com/products?category=a&b',
+          lastmod: '2025-03-14T12:30:00.000Z',
+          priority: 1,
+          images: ['https://cdn.example.com/1.png'],
+        },
+      ])
+
+      expect(xml).toContain(
+        'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"',
+      )
+      expect(xml).toContain(
+        '<loc>https://shop.example.com/products?category=a&amp;b</loc>',
+      )
+      expect(xml).toContain('<priority>1.0</priority>')
+      expect(xml).toContain(
+        '<image:image><image:loc>https://cdn.example.com/1.png</image:loc></image:image>',
+      )
+    })
+
+    it('should render a sitemap index', () => {
+      expect(
+        renderSitemapIndex([
+          { loc: 'https://shop.example.com/sitemaps/0.xml' },
+        ]),
+      ).toContain(
+        '<sitemap>\n    <loc>https://shop.example.com/sitemaps/0.xml</loc>\n  </sitemap>',
+      )
+    })
+  })
+
+  describe('getCatalogSitemap', () => {
+    it('should page through the whole catalog', async () => {
+      const products = await listAllProducts(productsService)
+      const sitemap = await getCatalogSitemap(
+        productsService,
+        'https://rental.example.com',
+      )
+
+      expect(products.map(p => p.id)).toEqual([1, 2, 3, 4, 5, 6])
+      // 2 pages, 4 categories, 6 products
+      expect(sitemap.chunks).toHaveLength(1)
+      expect(sitemap.chunks[0]).toHaveLength(12)
+      expect(sitemap.index).toEqual([
+        {
+          loc: 'https://rental.example.com/sitemaps/0.xml',
+          lastmod: '2025-03-14T12:30:00.000Z',
+        },
+      ])
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import type { TenantShippingConfig, TenantTaxConfig } from '../../types/tenant'
+import { money } from '../money'
+import { calculateCartSummary } from '../pricing'
+import { calculateTax, formatTaxRate, getTaxRate, getTaxRegion } from '../tax'
+
+const vat: TenantTaxConfig = {
+  pricing: 'inclusive',
+  defaultRegion: 'DE',
+  regions: {
+    DE: { label: 'VAT', rate: 19, categories: { groceries: 7 } },
+    AT: { label: 'VAT', rate: 20, categories: { groceries: 10 } },
+  },
+  exemptCategories: ['gift-cards'],
+}
+
+const salesTax: TenantTaxConfig = {
+  pricing: 'exclusive',
+  defaultRegion: 'CA',
+  regions: { CA: { label: 'Sales tax', rate: 7.25 } },
+  exemptCategories: ['groceries'],
+}
+
+describe('Tax', () => {
+  describe('getTaxRate', () => {
+    it('should prefer category rates over the region rate', () => {
+      expect(getTaxRate(vat, 'DE')).toBe(19)
+      expect(getTaxRate(vat, 'DE', 'groceries')).toBe(7)
+      expect(getTaxRate(vat, 'AT', 'beauty')).toBe(20)
+    })
+
+    it('should not tax exempt categories', () => {
+      expect(getTaxRate(vat, 'DE', 'gift-cards')).toBe(0)
+    })
+
+    it('should fall back to the default region', () => {
+      expect(getTaxRate(vat, 'FR', 'groceries')).toBe(7)
+    })
+  })
+
+  describe('getTaxRegion', () => {
+    const zone = {
+      label: 'Germany',
+      countries: ['DE'],
+      methods: [
+        {
+          id: 'standard',
+          label: 'Standard',
+          type: 'flat' as const,
+          amount: 4.9,
+          delivery: { minDays: 2, maxDays: 4 },
+        },
+      ],
+    }
+    const shipping: TenantShippingConfig = {
+      defaultZone: 'de',
+      zones: { de: zone, at: { ...zone, label: 'Austria', taxRegion: 'AT' } },
+    }
+
+    it("should tax deliveries in the shipping zone's region", () => {
+      expect(getTaxRegion(vat, shipping, 'at')).toBe('AT')
+      expect(getTaxRegion(vat, shipping, 'de')).toBe('DE')
+      expect(getTaxRegion(vat, shipping)).toBe('DE')
+      expect(getTaxRegion(vat, undefined, 'at')).toBe('DE')
+      expect(getTaxRegion(undefined, shipping, 'at')).toBeUndefined()
+    })
+  })
+
+  describe('calculateTax', () => {
+    it('should add exclusive tax on top of prices', () => {
+      const breakdown = calculateTax(
+        [
+          { id: 1, category: 'beauty', amount: money(2781) },
+          { id: 2, category: 'groceries', amount: money(500) },
+        ],
+        salesTax,
+      )
+
+      expect(breakdown.lines.map(line => line.tax.amount)).toEqual([202, 0])
+      expect(breakdown.lines[1].exempt).toBe(true)
+      expect(breakdown.net).toEqual(money(3281))
+      expect(breakdown.tax).toEqual(money(202))
+      expect(breakdown.gross).toEqual(money(3483))
+      expect(breakdown.rates).toEqual([
+        { label: 'Sales tax', rate: 7.25, net: money(2781), tax: money(202) },
+      ])
+    })
+
+    it('should back inclusive tax out of prices', () => {
+      const breakdown = calculateTax(
+        [
+          { id: 1, category: 'beauty', amount: money(2000, 'EUR') },
+          { id: 2, category: 'groceries', amount: money(500, 'EUR') },
+        ],
+        vat,
+      )
+
+      // The shopper pays the catalog price; tax is only broken out
+      expect(breakdown.gross).toEqual(money(2500, 'EUR'))
+      expect(breakdown.rates.map(rate => [rate.rate, rate.tax.amount])).toEqual(
+        [
+          [19, 319],
+          [7, 33],
+        ],
+      )
+      expect(breakdown.net.amount + breakdown.tax.amount).toBe(2500)
+    })
+
+    it('should use the requested region when configured', () => {
+      const lines = [{ id: 1, amount: money(1200, 'EUR') }]
+
+      expect(calculateTax(lines, vat, { region: 'AT' })).toMatchObject({
+        region: 'AT',
+        tax: money(200, 'EUR'),
+      })
+      expect(calculateTax(lines, vat, { region: 'FR' }).region).toBe('DE')
+    })
+
+    it('should leave prices untaxed without a tax config', () => {
+      const breakdown = calculateTax([{ id: 1, amount: money(999) }], undefined)
+
+      expect(breakdown.region).toBeUndefined()
+      expect(breakdown.tax).toEqual(money(0))
+      expect(breakdown.rates).toEqual([])
+      expect(breakdown.gross).toEqual(money(999))
+    })
+  })
+
+  describe('calculateCartSummary', () => {
+    it('should tax discounted line totals', () => {
+      const summary = calculateCartSummary(
+        [
+          {
+            id: 1,
+            category: 'beauty',
+            price: 9.99,
+            quantity: 3,
+            discountPercentage: 7.17,
+          },
+        ],
+        { tax: salesTax },
+      )
+
+      expect(summary.total).toEqual(money(2781))
+      expect(summary.tax.tax).toEqual(money(202))
+      expect(summary.grandTotal).toEqual(money(2983))
+    })
+  })
+
+  describe('formatTaxRate', () => {
+    it('should format rates as percentages', () => {
+      expect(formatTaxRate(19)).toBe('19%')
+      expect(formatTaxRate(7.25)).toBe('7.25%')
+    })
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * Cart quantity limits and availability
+ * Shared by the cart store, hydration re-validation and server checkout so
+ * every layer agrees on what a possible cart line is.
+ */
+
+import type { CartItem } from '../stores/slices/cart.slice'
+import type { Product } from '../types/products.types'
+
+/** Upper bound for a single line, regardless of stock */
+export const MAX_ITEM_QUANTITY = 100
+
+export const OUT_OF_STOCK_STATUS = 'Out of Stock'
+
+type StockInfo = Partial<
+  Pick<Product, 'stock' | 'minimumOrderQuantity' | 'availabilityStatus'>
+>
+
+export interface QuantityLimits {
+  min: number
+  max: number
+  /** False when the product cannot be ordered at all */
+  available: boolean
+}
+
+/**
+ * Orderable quantity range for a product
+ * Unknown stock (e.g. carts saved before stock was tracked) only caps at
+ * MAX_ITEM_QUANTITY.
+ */
+export function getQuantityLimits(product: StockInfo): QuantityLimits {
+  const min = Math.max(1, product.minimumOrderQuantity ?? 1)
+  const max = Math.min(product.stock ?? MAX_ITEM_QUANTITY, MAX_ITEM_QUANTITY)
+
+  return {
+    min,
+    max,
+    available: product.availabilityStatus !== OUT_OF_STOCK_STATUS && max >= min,
+  }
+}
+
+/**
+ * Clamp a requested line quantity into the limits; 0 means "cannot order"
+ */
+export function clampQuantity(
+  quantity: number,
+  limits: QuantityLimits,
+): number {
+  if (!limits.available) return 0
+  return Math.min(Math.max(Math.floor(quantity), limits.min), limits.max)
+}
+
+/**
+ * Why a line is not orderable as requested, or undefined when it is
+ */
+export function getQuantityError(
+  title: string,
+  quantity: number,
+  product: StockInfo,
+): string | undefined {
+  const limits = getQuantityLimits(product)
+
+  if (!limits.available) return `${title} is out of stock`
+  if (quantity < limits.min) {
+    return `${title} has a minimum order of ${limits.min}`
+  }
+  if (quantity > limits.max) {
+    return `Only ${limits.max} of ${title} can be ordered`
+  }
+  return undefined
+}
+
+/**
+ * Cart line for a product, snapshotting what the cart displays
+ */
+export function toCartItem(product: Product, quantity: number): CartItem {
+  return {
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    thumbnail: product.thumbnail,
+    quantity,
+    discountPercentage: product.discountPercentage,
+    brand: product.brand,
+    category: product.category,
+    weight: product.weight,
+    shippingInformation: product.shippingInformation,
+    stock: product.stock,
+    minimumOrderQuantity: product.minimumOrderQuantity,
+    availabilityStatus: product.availabilityStatus,
+  }
+}
+
+/** Cart line fields that re-validation compares and refreshes */
+export interface ValidatableCartItem extends StockInfo {
+  id: number
+  title: string
+  price: number
+  discountPercentage?: number
+  quantity: number
+  thumbnail: string
+}
+
+export type CartIssue =
+  | { type: 'removed'; id: number; title: string }
+  | { type: 'out-of-stock'; id: number; title: string }
+  | {
+      type: 'quantity-adjusted'
+      id: number
+      title: string
+      from: number
+      to: number
+    }
+  | {
+      type: 'price-changed'
+      id: number
+      title: string
+      from: { price: number; discountPercentage?: number }
+      to: { price: number; discountPercentage?: number }
+    }
+
+export interface CartRevalidation<T extends ValidatableCartItem> {
+  items: T[]
+  issues: CartIssue[]
+}
+
+/**
+ * Reconcile saved cart lines with fresh product data
+ * `products` maps an item ID to its current product, or null when the
+ * product no longer exists. Items missing from the map could not be checked
+ * and are kept unchanged.
+ */
+export function revalidateCartItems<T extends ValidatableCartItem>(
+  items: T[],
+  products: Map<number, Product | null>,
+): CartRevalidation<T> {
+  const issues: CartIssue[] = []
+  const next: T[] = []
+
+  for (const item of items) {
+    if (!products.has(item.id)) {
+      next.push(item)
+      continue
+    }
+
+    const product = products.get(item.id)
+    if (!product) {
+      issues.push({ type: 'removed', id: item.id, title: item.title })
+      continue
+    }
+
+    const quantity = clampQuantity(item.quantity, getQuantityLimits(product))
+    if (quantity === 0) {
+      issues.push({ type: 'out-of-stock', id: item.id, title: product.title })
+      continue
+    }
+    if (quantity !== item.quantity) {
+      issues.push({
+        type: 'quantity-adjusted',
+        id: item.id,
+        title: product.title,
+        from: item.quantity,
+        to: quantity,
+      })
+    }
+
+    if (
+      product.price !== item.price ||
+      (product.discountPercentage ?? 0) !== (item.discountPercentage ?? 0)
+    ) {
+      issues.push({
+        type: 'price-changed',
+        id: item.id,
+        title: product.title,
+        from: {
+          price: item.price,
+          discountPercentage: item.discountPercentage,
+        },
+        to: {
+          price: product.price,
+          discountPercentage: product.discountPercentage,
+        },
+      })
+    }
+
+    next.push({
+      ...item,
+      title: product.title,
+      thumbnail: product.thumbnail,
+      price: product.price,
+      discountPercentage: product.discountPercentage,
+      stock: product.stock,
+      minimumOrderQuantity: product.minimumOrderQuantity,
+      availabilityStatus: product.availabilityStatus,
+      quantity,
+    })
+  }
+
+  return { items: next, issues }
+}
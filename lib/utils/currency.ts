@@ -0,0 +1,128 @@
+/**
+ * Currency settings and conversion
+ * Catalog prices are always in the tenant's base currency; conversion to a
+ * display currency happens only for presentation. Checkout charges the base
+ * currency.
+ */
+
+import type { TenantCurrencyConfig } from '../types/tenant'
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  RoundingMode,
+  currencyDigits,
+  money,
+  roundMinor,
+} from './money'
+
+/**
+ * Units of each currency per one unit of `base`
+ * e.g. { base: 'USD', rates: { USD: 1, EUR: 0.92 } }
+ */
+export interface ExchangeRateTable {
+  base: string
+  rates: Record<string, number>
+  /** ISO date the rates were published */
+  updatedAt?: string
+}
+
+export interface CurrencySettings {
+  base: string
+  /** Allowed display currencies, base first */
+  display: string[]
+}
+
+/**
+ * Normalize a tenant's currency config (USD only when omitted)
+ */
+export function getCurrencySettings(
+  config?: TenantCurrencyConfig,
+): CurrencySettings {
+  const base = config?.base ?? DEFAULT_CURRENCY
+  return {
+    base,
+    display: [...new Set([base, ...(config?.display ?? [])])],
+  }
+}
+
+/**
+ * Rate to convert one unit of `from` into `to`, if both are in the table
+ */
+export function getExchangeRate(
+  table: ExchangeRateTable,
+  from: string,
+  to: string,
+): number | undefined {
+  if (from === to) return 1
+
+  const fromRate = from === table.base ? 1 : table.rates[from]
+  const toRate = to === table.base ? 1 : table.rates[to]
+  if (!fromRate || !toRate) return undefined
+
+  return toRate / fromRate
+}
+
+/**
+ * Display currencies that can actually be converted to
+ */
+export function getAvailableCurrencies(
+  settings: CurrencySettings,
+  table: ExchangeRateTable,
+): string[] {
+  return settings.display.filter(
+    currency => getExchangeRate(table, settings.base, currency) !== undefined,
+  )
+}
+
+/**
+ * Pick the display currency: the requested one if allowed, else the base
+ */
+export function resolveDisplayCurrency(
+  requested: string | null | undefined,
+  settings: CurrencySettings,
+  table: ExchangeRateTable,
+): string {
+  const code = requested?.toUpperCase()
+  return code && getAvailableCurrencies(settings, table).includes(code)
+    ? code
+    : settings.base
+}
+
+/**
+ * Convert an amount to another currency using the rate table
+ */
+export function convertMoney(
+  value: Money,
+  to: string,
+  table: ExchangeRateTable,
+  mode: RoundingMode = 'half-up',
+): Money {
+  const target = to.toUpperCase()
+  if (value.currency === target) return value
+
+  const rate = getExchangeRate(table, value.currency, target)
+  if (rate === undefined) {
+    throw new Error(`No exchange rate from ${value.currency} to ${target}`)
+  }
+
+  // Adjust for currencies with different minor units (e.g. USD -> JPY)
+  const scale = 10 ** (currencyDigits(target) - currencyDigits(value.currency))
+  return money(roundMinor(value.amount * rate * scale, mode), target)
+}
+
+/**
+ * Keep only the rates a tenant can display, to keep client payloads small
+ */
+export function pickRates(
+  table: ExchangeRateTable,
+  currencies: string[],
+): ExchangeRateTable {
+  return {
+    ...table,
+    rates: Object.fromEntries(
+      currencies
+        .filter(currency => table.rates[currency] !== undefined)
+        .map(currency => [currency, table.rates[currency]]),
+    ),
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Money value type
+ * Amounts are integers in the currency's minor unit (cents for USD, yen for
+ * JPY) so sums and comparisons are exact. Fractions only appear inside
+ * percentage math and are rounded with an explicit rounding mode.
+ */
+
+export const DEFAULT_CURRENCY = 'USD'
+
+export interface Money {
+  /** Integer amount in minor units */
+  readonly amount: number
+  /** ISO 4217 code, upper case */
+  readonly currency: string
+}
+
+/**
+ * - half-up: nearest, ties away from zero (receipts, most storefronts)
+ * - half-even: nearest, ties to the even neighbour (banker's rounding)
+ * - down: toward zero
+ * - up: away from zero
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up'
+
+const fractionDigitsCache = new Map<string, number>()
+
+/**
+ * Number of minor-unit digits for a currency (2 for USD, 0 for JPY)
+ */
+export function currencyDigits(currency: string): number {
+  const code = currency.toUpperCase()
+  let digits = fractionDigitsCache.get(code)
+
+  if (digits === undefined) {
+    digits =
+      new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: code,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    fractionDigitsCache.set(code, digits)
+  }
+
+  return digits
+}
+
+/**
+ * Round a fractional minor-unit value to an integer
+ */
+export function roundMinor(value: number, mode: RoundingMode = 'half-up') {
+  // Drop binary noise such as 7162.829999999999 before deciding ties
+  const cleaned = Number(value.toPrecision(12))
+  const sign = cleaned < 0 ? -1 : 1
+  const abs = Math.abs(cleaned)
+  const floor = Math.floor(abs)
+  const fraction = abs - floor
+
+  let rounded: number
+  switch (mode) {
+    case 'down':
+      rounded = floor
+      break
+    case 'up':
+      rounded = fraction > 0 ? floor + 1 : floor
+      break
+    case 'half-even':
+      rounded =
+        fraction === 0.5
+          ? floor + (floor % 2)
+          : fraction > 0.5
+            ? floor + 1
+            : floor
+      break
+    case 'half-up':
+    default:
+      rounded = fraction >= 0.5 ? floor + 1 : floor
+  }
+
+  return sign * rounded || 0
+}
+
+/**
+ * Create Money from an integer minor-unit amount
+ */
+export function money(amount: number, currency = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amount must be an integer, got ${amount}`)
+  }
+
+  return { amount, currency: currency.toUpperCase() }
+}
+
+/**
+ * Create Money from a major-unit value such as 9.99 dollars
+ */
+export function fromMajor(
+  value: number,
+  currency = DEFAULT_CURRENCY,
+  mode: RoundingMode = 'half-up',
+): Money {
+  const factor = 10 ** currencyDigits(currency)
+  return money(roundMinor(value * factor, mode), currency)
+}
+
+/**
+ * Major-unit value of an amount (for display math and legacy APIs)
+ */
+export function toMajor(value: Money): number {
+  return value.amount / 10 ** currencyDigits(value.currency)
+}
+
+export function zero(currency = DEFAULT_CURRENCY): Money {
+  return money(0, currency)
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`)
+  }
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.amount + b.amount, a.currency)
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.amount - b.amount, a.currency)
+}
+
+/**
+ * Add up amounts; an empty list yields zero in `currency`
+ */
+export function sum(values: Money[], currency = DEFAULT_CURRENCY): Money {
+  return values.reduce(add, zero(values[0]?.currency ?? currency))
+}
+
+/**
+ * Multiply by a quantity or factor, rounding fractional results
+ */
+export function multiply(
+  value: Money,
+  factor: number,
+  mode: RoundingMode = 'half-up',
+): Money {
+  return money(roundMinor(value.amount * factor, mode), value.currency)
+}
+
+/**
+ * `percent` of an amount, e.g. percentOf($9.99, 7.17) = $0.72
+ */
+export function percentOf(
+  value: Money,
+  percent: number,
+  mode: RoundingMode = 'half-up',
+): Money {
+  return multiply(value, percent / 100, mode)
+}
+
+/**
+ * Amount after a percentage discount. The discount itself is rounded with
+ * `mode` and clamped to 0-100%, so the result never goes below zero.
+ */
+export function applyDiscount(
+  value: Money,
+  percent: number,
+  mode: RoundingMode = 'half-up',
+): Money {
+  if (percent <= 0) return value
+  if (percent >= 100) return zero(value.currency)
+
+  return subtract(value, percentOf(value, percent, mode))
+}
+
+/**
+ * Split an amount by ratios without losing or inventing minor units.
+ * Leftover units go to the parts with the largest remainders first, e.g.
+ * allocate($0.10, [1, 1, 1]) = [$0.04, $0.03, $0.03].
+ */
+export function allocate(value: Money, ratios: number[]): Money[] {
+  const total = ratios.reduce((acc, ratio) => acc + ratio, 0)
+  if (ratios.length === 0 || total <= 0) {
+    throw new Error('allocate() needs at least one positive ratio')
+  }
+
+  const exact = ratios.map(ratio => (value.amount * ratio) / total)
+  const parts = exact.map(share => Math.trunc(share))
+  let remainder = value.amount - parts.reduce((acc, part) => acc + part, 0)
+
+  const step = Math.sign(remainder)
+  const order = exact
+    .map((share, index) => ({
+      index,
+      fraction: Math.abs(share - parts[index]),
+    }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+
+  for (let i = 0; remainder !== 0; i = (i + 1) % order.length) {
+    parts[order[i].index] += step
+    remainder -= step
+  }
+
+  return parts.map(part => money(part, value.currency))
+}
+
+export function isZero(value: Money): boolean {
+  return value.amount === 0
+}
+
+/**
+ * Compare two amounts: negative if a < b, 0 if equal, positive if a > b
+ */
+export function compare(a: Money, b: Money): number {
+  assertSameCurrency(a, b)
+  return a.amount - b.amount
+}
+
+/**
+ * Format with the locale's currency conventions, e.g. $1,234.50 or ¥1,235
+ */
+export function formatMoney(value: Money, locale = 'en-US'): string {
+  const digits = currencyDigits(value.currency)
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(toMajor(value))
+}
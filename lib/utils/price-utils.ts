@@ -1,10 +1,16 @@
 /**
  * Price conversion utilities
  * Handles cents to dollars conversion, price calculations, and datetime conversions
+ * Number-based helpers for rental APIs; anything rounded to a whole cent goes
+ * through the Money type
  */
 
+import { fromMajor, money, percentOf, roundMinor, toMajor } from './money'
+
 /**
  * Convert cents to dollars
+ * Plain unit conversion, so fractional cents (e.g. a daily share of a
+ * total) are kept rather than rejected
  * @param cents - Amount in cents
  * @returns Amount in dollars
  */
@@ -15,10 +21,10 @@ export function centsToDollars(cents: number): number {
 /**
  * Convert dollars to cents
  * @param dollars - Amount in dollars
- * @returns Amount in cents
+ * @returns Amount in cents, rounded to a whole cent
  */
 export function dollarsToCents(dollars: number): number {
-  return dollars * 100
+  return fromMajor(dollars).amount
 }
 
 /**
@@ -36,15 +42,17 @@ export function calculateDailyRate(
 
 /**
  * Calculate discount amount from percentage
- * @param totalPriceInCents - Total price in cents
+ * @param totalPriceInCents - Total price in cents, rounded to a whole cent
  * @param discountPercentage - Discount percentage (0-100)
- * @returns Discount amount in dollars
+ * @returns Discount amount in dollars, rounded to a whole cent
  */
 export function calculateDiscountAmount(
   totalPriceInCents: number,
   discountPercentage: number,
 ): number {
-  return (totalPriceInCents * discountPercentage) / 100 / 100
+  return toMajor(
+    percentOf(money(roundMinor(totalPriceInCents)), discountPercentage),
+  )
 }
 
 /**
@@ -1,208 +1,200 @@
 /**
  * Pricing utility functions
- * Handles currency formatting, discount calculations, and price computations
+ * Product and cart price computations on top of the Money type. Catalog
+ * prices arrive as major-unit numbers (9.99) and are converted once at the
+ * edge; everything after that is exact integer minor-unit math.
  */
 
-/**
- * Format a number as currency with proper locale formatting
- * @param amount - The amount to format
- * @param currency - The currency code (default: 'USD')
- * @param locale - The locale for formatting (default: 'en-US')
- * @returns Formatted currency string
- */
-export function formatCurrency(
-  amount: number,
-  currency: string = 'USD',
-  locale: string = 'en-US',
-): string {
-  return new Intl.NumberFormat(locale, {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount)
+import type { TenantTaxConfig } from '../types/tenant'
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  RoundingMode,
+  add,
+  applyDiscount,
+  formatMoney,
+  fromMajor,
+  multiply,
+  subtract,
+  sum,
+  zero,
+} from './money'
+import { getLineDiscount, PromotionResult } from './promotions'
+import { calculateTax, TaxBreakdown } from './tax'
+
+export interface PricedItem {
+  /** Catalog price per unit in major units */
+  price: number
+  quantity: number
+  discountPercentage?: number
 }
 
-/**
- * Format a number as currency with dollar sign (simple format)
- * @param amount - The amount to format
- * @returns Formatted currency string with $ prefix
- */
-export function formatPrice(amount: number): string {
-  return `$${amount.toFixed(2)}`
+export interface ItemPricing {
+  /** List price per unit */
+  unitPrice: Money
+  /** Price per unit after the catalog discount */
+  discountedUnitPrice: Money
+  /** Discounted unit price times quantity */
+  total: Money
+  /** List price times quantity minus total */
+  savings: Money
+}
+
+export interface CartTotals {
+  /** Sum of list prices before discounts */
+  subtotal: Money
+  savings: Money
+  total: Money
 }
 
 /**
  * Calculate discounted price from original price and discount percentage
  * @param originalPrice - The original price
  * @param discountPercentage - The discount percentage (0-100)
+ * @param mode - How to round the discount amount (default: 'half-up')
  * @returns The discounted price
  */
 export function calculateDiscountedPrice(
-  originalPrice: number,
-  discountPercentage: number,
-): number {
-  if (discountPercentage <= 0) return originalPrice
-  if (discountPercentage >= 100) return 0
-
-  return originalPrice - (originalPrice * discountPercentage) / 100
+  originalPrice: Money,
+  discountPercentage: number = 0,
+  mode?: RoundingMode,
+): Money {
+  return applyDiscount(originalPrice, discountPercentage, mode)
 }
 
 /**
- * Calculate discount amount from original price and discount percentage
- * @param originalPrice - The original price
- * @param discountPercentage - The discount percentage (0-100)
- * @returns The discount amount
+ * Price a single line: the discount is applied per unit, then multiplied,
+ * which is how the amount is charged at checkout
+ * @param item - Item with major-unit price, quantity and optional discount
+ * @param currency - The currency code (default: 'USD')
  */
-export function calculateDiscountAmount(
-  originalPrice: number,
-  discountPercentage: number,
-): number {
-  if (discountPercentage <= 0) return 0
-  if (discountPercentage >= 100) return originalPrice
-
-  return (originalPrice * discountPercentage) / 100
-}
+export function calculateItemPricing(
+  item: PricedItem,
+  currency: string = DEFAULT_CURRENCY,
+): ItemPricing {
+  const unitPrice = fromMajor(item.price, currency)
+  const discountedUnitPrice = calculateDiscountedPrice(
+    unitPrice,
+    item.discountPercentage,
+  )
+  const total = multiply(discountedUnitPrice, item.quantity)
 
-/**
- * Calculate total price for an item with quantity and discount
- * @param price - The base price per unit
- * @param quantity - The quantity
- * @param discountPercentage - Optional discount percentage
- * @returns The total price for the item
- */
-export function calculateItemTotal(
-  price: number,
-  quantity: number,
-  discountPercentage?: number,
-): number {
-  const unitPrice = discountPercentage
-    ? calculateDiscountedPrice(price, discountPercentage)
-    : price
-
-  return unitPrice * quantity
+  return {
+    unitPrice,
+    discountedUnitPrice,
+    total,
+    savings: subtract(multiply(unitPrice, item.quantity), total),
+  }
 }
 
 /**
- * Calculate total savings from discounts
- * @param items - Array of cart items with price, quantity, and discountPercentage
- * @returns Total savings amount
+ * Calculate subtotal, savings and total for a list of items
+ * total is exactly subtotal - savings, and the sum of the item totals
+ * @param items - Items with major-unit prices
+ * @param currency - The currency code (default: 'USD')
  */
-export function calculateTotalSavings(
-  items: Array<{
-    price: number
-    quantity: number
-    discountPercentage?: number
-  }>,
-): number {
-  return items.reduce((totalSavings, item) => {
-    if (item.discountPercentage && item.discountPercentage > 0) {
-      const originalTotal = item.price * item.quantity
-      const discountedTotal = calculateItemTotal(
-        item.price,
-        item.quantity,
-        item.discountPercentage,
-      )
-      return totalSavings + (originalTotal - discountedTotal)
-    }
-    return totalSavings
-  }, 0)
+export function calculateCartTotals(
+  items: PricedItem[],
+  currency: string = DEFAULT_CURRENCY,
+): CartTotals {
+  const lines = items.map(item => calculateItemPricing(item, currency))
+
+  return {
+    subtotal: sum(
+      lines.map((line, index) =>
+        multiply(line.unitPrice, items[index].quantity),
+      ),
+      currency,
+    ),
+    savings: sum(
+      lines.map(line => line.savings),
+      currency,
+    ),
+    total: sum(
+      lines.map(line => line.total),
+      currency,
+    ),
+  }
 }
 
-/**
- * Calculate subtotal (total before discounts)
- * @param items - Array of cart items with price and quantity
- * @returns Subtotal amount
- */
-export function calculateSubtotal(
-  items: Array<{
-    price: number
-    quantity: number
-  }>,
-): number {
-  return items.reduce((subtotal, item) => {
-    return subtotal + item.price * item.quantity
-  }, 0)
+export interface CartSummaryItem extends PricedItem {
+  id: number
+  category?: string
 }
 
-/**
- * Calculate final total (subtotal - discounts + shipping)
- * @param subtotal - The subtotal amount
- * @param discounts - The total discount amount
- * @param shipping - The shipping cost (default: 0)
- * @returns Final total amount
- */
-export function calculateFinalTotal(
-  subtotal: number,
-  discounts: number = 0,
-  shipping: number = 0,
-): number {
-  return subtotal - discounts + shipping
+export interface CartSummaryOptions {
+  currency?: string
+  tax?: TenantTaxConfig
+  /** Tax region, defaults to the tenant's defaultRegion */
+  region?: string
+  /** Chosen shipping rate */
+  shipping?: Money
+  /** Promotions evaluated for these items */
+  promotions?: PromotionResult
 }
 
-/**
- * Format discount percentage for display
- * @param percentage - The discount percentage
- * @returns Formatted percentage string
- */
-export function formatDiscountPercentage(percentage: number): string {
-  return `-${percentage.toFixed(1)}%`
+export interface CartSummary extends CartTotals {
+  /** Promotion discounts on top of catalog discounts */
+  promotionDiscount: Money
+  tax: TaxBreakdown
+  shipping: Money
+  /** Amount the shopper pays: total plus shipping and any tax not included in prices */
+  grandTotal: Money
 }
 
 /**
- * Calculate and format savings display
- * @param originalPrice - The original price
- * @param discountedPrice - The discounted price
- * @returns Object with savings amount and formatted strings
+ * Cart totals plus promotions, shipping and the tenant's tax, as shown in the
+ * cart and charged at checkout
+ * @param items - Cart items with major-unit prices
+ * @param options - Currency and tenant tax rules
  */
-export function calculateSavings(
-  originalPrice: number,
-  discountedPrice: number,
-) {
-  const savingsAmount = originalPrice - discountedPrice
-  const savingsPercentage =
-    originalPrice > 0 ? (savingsAmount / originalPrice) * 100 : 0
+export function calculateCartSummary(
+  items: CartSummaryItem[],
+  {
+    currency = DEFAULT_CURRENCY,
+    tax,
+    region,
+    shipping = zero(currency),
+    promotions,
+  }: CartSummaryOptions = {},
+): CartSummary {
+  const totals = calculateCartTotals(items, currency)
+  const breakdown = calculateTax(
+    items.map(item => ({
+      id: item.id,
+      category: item.category,
+      amount: subtract(
+        calculateItemPricing(item, currency).total,
+        getLineDiscount(promotions, item.id, currency),
+      ),
+    })),
+    tax,
+    { region, currency },
+  )
 
   return {
-    amount: savingsAmount,
-    percentage: savingsPercentage,
-    formattedAmount: formatPrice(savingsAmount),
-    formattedPercentage: formatDiscountPercentage(savingsPercentage),
+    ...totals,
+    promotionDiscount: promotions?.discount ?? zero(currency),
+    tax: breakdown,
+    shipping,
+    grandTotal: add(breakdown.gross, shipping),
   }
 }
 
 /**
- * Validate pricing calculations
- * @param items - Array of cart items
- * @returns Object with validation results and calculations
+ * Format a price for display, e.g. $1,234.50
+ * @param amount - The amount to format
+ * @param locale - The locale for formatting (default: 'en-US')
  */
-export function validatePricingCalculations(
-  items: Array<{
-    id: number
-    price: number
-    quantity: number
-    discountPercentage?: number
-  }>,
-) {
-  const subtotal = calculateSubtotal(items)
-  const totalSavings = calculateTotalSavings(items)
-  const finalTotal = calculateFinalTotal(subtotal, totalSavings)
-
-  // Calculate total using individual item calculations
-  const itemTotals = items.map(item =>
-    calculateItemTotal(item.price, item.quantity, item.discountPercentage),
-  )
-  const calculatedTotal = itemTotals.reduce((sum, total) => sum + total, 0)
+export function formatPrice(amount: Money, locale?: string): string {
+  return formatMoney(amount, locale)
+}
 
-  return {
-    subtotal,
-    totalSavings,
-    finalTotal,
-    calculatedTotal,
-    isValid: Math.abs(finalTotal - calculatedTotal) < 0.01, // Allow for small floating point differences
-    itemTotals,
-    formattedSubtotal: formatPrice(subtotal),
-    formattedSavings: formatPrice(totalSavings),
-    formattedTotal: formatPrice(finalTotal),
-  }
+/**
+ * Format discount percentage for display
+ * @param percentage - The discount percentage
+ * @returns Formatted percentage string
+ */
+export function formatDiscountPercentage(percentage: number): string {
+  return `-${percentage.toFixed(1)}%`
 }
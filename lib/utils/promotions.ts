@@ -0,0 +1,308 @@
+/**
+ * Promotion rules engine
+ * Applies a tenant's promotions on top of catalog discounts and explains
+ * which promotion discounted which line. Runs on the server only, so coupon
+ * codes never reach the browser.
+ */
+
+import type { TenantPromotion } from '../types/tenant'
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  add,
+  allocate,
+  compare,
+  formatMoney,
+  fromMajor,
+  isZero,
+  multiply,
+  percentOf,
+  subtract,
+  sum,
+  zero,
+} from './money'
+
+export interface PromotionLine {
+  id: number
+  title?: string
+  category?: string
+  quantity: number
+  /** Unit price after the catalog discount */
+  unitAmount: Money
+}
+
+export interface LineDiscount {
+  lineId: number
+  amount: Money
+}
+
+export interface AppliedPromotion {
+  id: string
+  label: string
+  code?: string
+  /** What the promotion does, e.g. "10% off beauty over $50.00" */
+  description: string
+  discount: Money
+  lines: LineDiscount[]
+}
+
+export interface PromotionRejection {
+  code: string
+  reason: string
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[]
+  /** Why the entered coupon code did not apply */
+  rejection?: PromotionRejection
+  discount: Money
+  /** Combined discount per line */
+  lines: LineDiscount[]
+}
+
+export interface PromotionOptions {
+  /** Coupon code entered by the shopper (case-insensitive) */
+  code?: string
+  now?: Date
+  currency?: string
+}
+
+/**
+ * Normalize a shopper-entered coupon code
+ */
+export function normalizeCouponCode(code?: string | null): string | undefined {
+  const normalized = code?.trim().toUpperCase()
+  return normalized || undefined
+}
+
+/**
+ * Explain a promotion's rule in one line
+ */
+export function describePromotion(
+  promotion: TenantPromotion,
+  currency: string = DEFAULT_CURRENCY,
+): string {
+  const reward =
+    promotion.type === 'percentage'
+      ? `${promotion.percent}% off`
+      : promotion.type === 'fixed'
+        ? `${formatMoney(fromMajor(promotion.amount, currency))} off`
+        : promotion.percent >= 100
+          ? `Buy ${promotion.buy}, get ${promotion.get} free`
+          : `Buy ${promotion.buy}, get ${promotion.get} at ${promotion.percent}% off`
+  const scope = promotion.categories
+    ? `${promotion.type === 'buy-x-get-y' ? ' on' : ''} ${promotion.categories.join(', ')}`
+    : ''
+  const minimum = promotion.minSubtotal
+    ? ` over ${formatMoney(fromMajor(promotion.minSubtotal, currency))}`
+    : ''
+
+  return `${reward}${scope}${minimum}`
+}
+
+function inactiveReason(
+  promotion: TenantPromotion,
+  now: Date,
+): string | undefined {
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) {
+    return 'is not active yet'
+  }
+  if (promotion.endsAt && now >= new Date(promotion.endsAt)) {
+    return 'has expired'
+  }
+  return undefined
+}
+
+/**
+ * Discount per eligible line for one promotion, given what is left of each
+ * line after earlier promotions
+ */
+function discountLines(
+  promotion: TenantPromotion,
+  lines: PromotionLine[],
+  remaining: Map<number, Money>,
+  currency: string,
+): LineDiscount[] {
+  const amountOf = (line: PromotionLine) =>
+    remaining.get(line.id) ?? zero(currency)
+
+  switch (promotion.type) {
+    case 'percentage':
+      return lines.map(line => ({
+        lineId: line.id,
+        amount: percentOf(amountOf(line), promotion.percent),
+      }))
+
+    case 'fixed': {
+      const available = sum(lines.map(amountOf), currency)
+      if (isZero(available)) return []
+
+      const amount = fromMajor(promotion.amount, currency)
+      const capped = compare(amount, available) > 0 ? available : amount
+      const parts = allocate(
+        capped,
+        lines.map(line => amountOf(line).amount),
+      )
+      return lines.map((line, index) => ({
+        lineId: line.id,
+        amount: parts[index],
+      }))
+    }
+
+    case 'buy-x-get-y': {
+      // The cheapest units are the discounted ones
+      const units = lines.reduce((total, line) => total + line.quantity, 0)
+      let free =
+        Math.floor(units / (promotion.buy + promotion.get)) * promotion.get
+
+      return [...lines]
+        .sort((a, b) => compare(a.unitAmount, b.unitAmount))
+        .map(line => {
+          const discounted = Math.min(free, line.quantity)
+          free -= discounted
+          return {
+            lineId: line.id,
+            amount: multiply(
+              amountOf(line),
+              (discounted / line.quantity) * (promotion.percent / 100),
+            ),
+          }
+        })
+    }
+  }
+}
+
+/**
+ * Apply automatic promotions and the shopper's coupon code to priced lines
+ * @param promotions - The tenant's promotions, in the order they apply
+ * @param lines - Cart lines priced in the tenant's base currency
+ */
+export function evaluatePromotions(
+  promotions: TenantPromotion[] | undefined,
+  lines: PromotionLine[],
+  {
+    code,
+    now = new Date(),
+    currency = DEFAULT_CURRENCY,
+  }: PromotionOptions = {},
+): PromotionResult {
+  const couponCode = normalizeCouponCode(code)
+  const remaining = new Map(
+    lines.map(line => [line.id, multiply(line.unitAmount, line.quantity)]),
+  )
+  const cartTotal = sum([...remaining.values()], currency)
+  const applied: AppliedPromotion[] = []
+  let rejection: PromotionRejection | undefined
+
+  const reject = (reason: string) => {
+    rejection = { code: couponCode ?? '', reason }
+  }
+
+  for (const promotion of promotions ?? []) {
+    const isCoupon = promotion.code !== undefined
+    if (isCoupon && promotion.code !== couponCode) continue
+
+    const inactive = inactiveReason(promotion, now)
+    if (inactive) {
+      if (isCoupon) reject(`${couponCode} ${inactive}`)
+      continue
+    }
+
+    if (promotion.minSubtotal) {
+      const minimum = fromMajor(promotion.minSubtotal, currency)
+      if (compare(cartTotal, minimum) < 0) {
+        if (isCoupon) {
+          reject(
+            `Spend ${formatMoney(subtract(minimum, cartTotal))} more to use ${couponCode}`,
+          )
+        }
+        continue
+      }
+    }
+
+    const eligible = lines.filter(
+      line =>
+        !promotion.categories ||
+        (line.category !== undefined &&
+          promotion.categories.includes(line.category)),
+    )
+    const discounts = discountLines(
+      promotion,
+      eligible,
+      remaining,
+      currency,
+    ).filter(line => !isZero(line.amount))
+
+    if (discounts.length === 0) {
+      if (isCoupon) {
+        reject(
+          promotion.type === 'buy-x-get-y'
+            ? `${couponCode} needs ${promotion.buy + promotion.get} eligible items`
+            : promotion.categories
+              ? `${couponCode} only applies to ${promotion.categories.join(', ')}`
+              : `${couponCode} does not apply to this cart`,
+        )
+      }
+      continue
+    }
+
+    for (const line of discounts) {
+      remaining.set(
+        line.lineId,
+        subtract(remaining.get(line.lineId) ?? zero(currency), line.amount),
+      )
+    }
+
+    applied.push({
+      id: promotion.id,
+      label: promotion.label,
+      code: promotion.code,
+      description: describePromotion(promotion, currency),
+      discount: sum(
+        discounts.map(line => line.amount),
+        currency,
+      ),
+      lines: discounts,
+    })
+  }
+
+  if (couponCode && !rejection && !applied.some(p => p.code === couponCode)) {
+    reject(`${couponCode} is not a valid code`)
+  }
+
+  const lineDiscounts = lines
+    .map(line => ({
+      lineId: line.id,
+      amount: applied
+        .flatMap(promotion => promotion.lines)
+        .filter(discount => discount.lineId === line.id)
+        .reduce(
+          (total, discount) => add(total, discount.amount),
+          zero(currency),
+        ),
+    }))
+    .filter(line => !isZero(line.amount))
+
+  return {
+    applied,
+    rejection,
+    discount: sum(
+      applied.map(promotion => promotion.discount),
+      currency,
+    ),
+    lines: lineDiscounts,
+  }
+}
+
+/**
+ * Promotion discount for a line, zero when none applied
+ */
+export function getLineDiscount(
+  result: PromotionResult | undefined,
+  lineId: number,
+  currency: string = DEFAULT_CURRENCY,
+): Money {
+  return (
+    result?.lines.find(line => line.lineId === lineId)?.amount ?? zero(currency)
+  )
+}
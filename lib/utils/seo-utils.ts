@@ -6,8 +6,19 @@
  */
 
 import { Metadata } from 'next'
-import { getTheme } from '../themes'
+import { parseTenantSEO } from '../schemas/tenant.schema'
+import { formatCategoryName } from '../services/catalog'
+import { resolveTenantTheme } from '../themes/tenant-theme'
+import type { Product } from '../types/products.types'
 import { TenantConfig } from '../types/tenant'
+import { getCurrencySettings } from './currency'
+import { toMajor } from './money'
+import { calculateItemPricing } from './pricing'
+import {
+  getShareCardPath,
+  SHARE_CARD_SIZE,
+  ShareCardTarget,
+} from './share-card'
 
 /**
  * Generate comprehensive metadata for a tenant
@@ -19,6 +30,9 @@ export function generateTenantMetadata(
   const seo = config.metadata.seo
   const baseUrl = seo?.canonicalBase || 'https://example.com'
   const canonicalUrl = `${baseUrl}${pathname}`
+  // A hand-authored image wins over the generated share card
+  const homeImage =
+    seo?.openGraph?.image || getShareImageUrl(config, { kind: 'home' })
 
   const metadata: Metadata = {
     title: config.metadata.title,
@@ -39,16 +53,13 @@ export function generateTenantMetadata(
       siteName: config.name,
       type: (seo?.openGraph?.type as any) || 'website',
       locale: seo?.openGraph?.locale || 'en_US',
-      images: seo?.openGraph?.image
-        ? [
-            {
-              url: seo.openGraph.image,
-              width: 1200,
-              height: 630,
-              alt: `${config.name} - ${config.metadata.title}`,
-            },
-          ]
-        : [],
+      images: [
+        {
+          url: homeImage,
+          ...SHARE_CARD_SIZE,
+          alt: `${config.name} - ${config.metadata.title}`,
+        },
+      ],
     },
 
     // Twitter
@@ -58,7 +69,7 @@ export function generateTenantMetadata(
       creator: seo?.twitter?.creator,
       title: config.metadata.title,
       description: config.metadata.description,
-      images: seo?.openGraph?.image ? [seo.openGraph.image] : [],
+      images: [homeImage],
     },
 
     // Additional metadata
@@ -68,12 +79,9 @@ export function generateTenantMetadata(
 
     // Verification and other meta tags
     other: {
-      'theme-color': getTheme(
-        typeof config.theme === 'string' ? config.theme : undefined,
-      ).colors.primary,
-      'msapplication-TileColor': getTheme(
-        typeof config.theme === 'string' ? config.theme : undefined,
-      ).colors.primary,
+      'theme-color': resolveTenantTheme(config.theme).colors.primary,
+      'msapplication-TileColor': resolveTenantTheme(config.theme).colors
+        .primary,
     },
   }
 
@@ -142,9 +150,205 @@ export function generateLocalBusinessStructuredData(
       : [],
   }
 
-  // Remove undefined values
-  const cleanedData = JSON.parse(JSON.stringify(structuredData))
-  return JSON.stringify(cleanedData, null, 2)
+  return serializeStructuredData(structuredData)
+}
+
+// schema.org availability for catalog `availabilityStatus` values
+const AVAILABILITY: Record<string, string> = {
+  'In Stock': 'https://schema.org/InStock',
+  'Low Stock': 'https://schema.org/LimitedAvailability',
+  'Out of Stock': 'https://schema.org/OutOfStock',
+}
+
+/**
+ * Absolute URL on the tenant's canonical domain
+ */
+export function getCanonicalUrl(config: TenantConfig, pathname: string) {
+  const baseUrl = config.metadata.seo?.canonicalBase || 'https://example.com'
+  return `${baseUrl.replace(/\/$/, '')}${pathname}`
+}
+
+/**
+ * Generate metadata for a product detail page
+ */
+export function generateProductMetadata(
+  config: TenantConfig,
+  product: Product,
+): Metadata {
+  const metadata = generatePageMetadata(
+    config,
+    product.title,
+    product.description,
+    `/products/${product.id}`,
+  )
+
+  return withShareImage(
+    metadata,
+    getShareImageUrl(config, { kind: 'product', productId: product.id }),
+    product.title,
+  )
+}
+
+/**
+ * Generate metadata for a category listing (/products?category=...)
+ */
+export function generateCategoryMetadata(
+  config: TenantConfig,
+  category: string,
+): Metadata {
+  const name = formatCategoryName(category)
+  const metadata = generatePageMetadata(
+    config,
+    name,
+    `Browse ${name.toLowerCase()} at ${config.name}.`,
+    `/products?category=${encodeURIComponent(category)}`,
+  )
+
+  return withShareImage(
+    metadata,
+    getShareImageUrl(config, { kind: 'category', category }),
+    name,
+  )
+}
+
+/**
+ * Absolute URL of the generated share card for a page
+ */
+export function getShareImageUrl(
+  config: TenantConfig,
+  target: ShareCardTarget,
+): string {
+  return getCanonicalUrl(config, getShareCardPath(target))
+}
+
+// Swap the Open Graph and Twitter images for a page's own card
+function withShareImage(
+  metadata: Metadata,
+  url: string,
+  alt: string,
+): Metadata {
+  return {
+    ...metadata,
+    openGraph: {
+      ...metadata.openGraph,
+      images: [{ url, ...SHARE_CARD_SIZE, alt }],
+    },
+    twitter: { ...metadata.twitter, images: [url] },
+  }
+}
+
+/**
+ * Generate structured data (JSON-LD) for a product with its offer and reviews
+ * The offer is in the tenant's base currency, after catalog discounts.
+ */
+export function generateProductStructuredData(
+  config: TenantConfig,
+  product: Product,
+): string {
+  const { base } = getCurrencySettings(config.currency)
+  const { discountedUnitPrice } = calculateItemPricing(
+    { ...product, quantity: 1 },
+    base,
+  )
+  const url = getCanonicalUrl(config, `/products/${product.id}`)
+  const reviews = product.reviews ?? []
+
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.title,
+    description: product.description,
+    image: product.images.length ? product.images : [product.thumbnail],
+    sku: product.sku,
+    category: product.category,
+    brand: product.brand
+      ? { '@type': 'Brand', name: product.brand }
+      : undefined,
+    url,
+    offers: {
+      '@type': 'Offer',
+      url,
+      price: toMajor(discountedUnitPrice).toFixed(2),
+      priceCurrency: base,
+      availability:
+        AVAILABILITY[product.availabilityStatus ?? ''] ??
+        (product.stock > 0
+          ? 'https://schema.org/InStock'
+          : 'https://schema.org/OutOfStock'),
+      itemCondition: 'https://schema.org/NewCondition',
+      seller: { '@type': 'Organization', name: config.name },
+    },
+    aggregateRating: reviews.length
+      ? {
+          '@type': 'AggregateRating',
+          ratingValue: product.rating,
+          reviewCount: reviews.length,
+          bestRating: 5,
+          worstRating: 1,
+        }
+      : undefined,
+    // Reviewer emails are deliberately left out
+    review: reviews.length
+      ? reviews.map(review => ({
+          '@type': 'Review',
+          author: { '@type': 'Person', name: review.reviewerName },
+          datePublished: review.date,
+          reviewBody: review.comment,
+          reviewRating: {
+            '@type': 'Rating',
+            ratingValue: review.rating,
+            bestRating: 5,
+            worstRating: 1,
+          },
+        }))
+      : undefined,
+  }
+
+  return serializeStructuredData(structuredData)
+}
+
+/**
+ * Generate structured data (JSON-LD) for a breadcrumb trail
+ */
+export function generateBreadcrumbStructuredData(
+  config: TenantConfig,
+  crumbs: Array<{ name: string; pathname: string }>,
+): string {
+  return serializeStructuredData({
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: getCanonicalUrl(config, crumb.pathname),
+    })),
+  })
+}
+
+/**
+ * Breadcrumb trail for a product detail page
+ */
+export function getProductBreadcrumbs(
+  product: Product,
+): Array<{ name: string; pathname: string }> {
+  return [
+    { name: 'Home', pathname: '/' },
+    { name: 'Products', pathname: '/products' },
+    {
+      name: formatCategoryName(product.category),
+      pathname: `/products?category=${encodeURIComponent(product.category)}`,
+    },
+    { name: product.title, pathname: `/products/${product.id}` },
+  ]
+}
+
+/**
+ * Serialize JSON-LD for a script tag, dropping undefined values
+ * `<` is escaped so catalog text cannot close the script element.
+ */
+function serializeStructuredData(data: object): string {
+  return JSON.stringify(data, null, 2).replace(/</g, '\\u003c')
 }
 
 /**
@@ -187,57 +391,21 @@ export function generateFaviconLinks(faviconPath?: string): Array<{
 
 /**
  * Validate SEO configuration
+ * Errors are path-addressed relative to metadata.seo, e.g. `twitter.card: ...`
  */
-export function validateSEOConfig(seo: any): {
+export function validateSEOConfig(seo: unknown): {
   isValid: boolean
   errors: string[]
 } {
-  const errors: string[] = []
-
-  if (seo) {
-    // Validate keywords
-    if (seo.keywords && !Array.isArray(seo.keywords)) {
-      errors.push('SEO keywords must be an array of strings')
-    }
-
-    // Validate favicon path
-    if (seo.favicon && typeof seo.favicon !== 'string') {
-      errors.push('SEO favicon must be a string path')
-    }
-
-    // Validate Open Graph
-    if (seo.openGraph) {
-      if (seo.openGraph.image && typeof seo.openGraph.image !== 'string') {
-        errors.push('Open Graph image must be a string URL')
-      }
-      if (seo.openGraph.type && typeof seo.openGraph.type !== 'string') {
-        errors.push('Open Graph type must be a string')
-      }
-    }
-
-    // Validate Twitter
-    if (seo.twitter) {
-      if (
-        seo.twitter.card &&
-        !['summary', 'summary_large_image', 'app', 'player'].includes(
-          seo.twitter.card,
-        )
-      ) {
-        errors.push(
-          'Twitter card must be one of: summary, summary_large_image, app, player',
-        )
-      }
-    }
-
-    // Validate canonical base
-    if (seo.canonicalBase && typeof seo.canonicalBase !== 'string') {
-      errors.push('Canonical base must be a string URL')
-    }
+  if (!seo) {
+    return { isValid: true, errors: [] }
   }
 
+  const result = parseTenantSEO(seo)
+
   return {
-    isValid: errors.length === 0,
-    errors,
+    isValid: result.success,
+    errors: result.errors,
   }
 }
 
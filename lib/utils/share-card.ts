@@ -0,0 +1,357 @@
+/**
+ * Share cards
+ * Describes the branded Open Graph images served by /opengraph-image for a
+ * tenant's home page, category listings and products, drawn with the
+ * tenant theme's colors and fonts
+ */
+
+import { createHash } from 'crypto'
+import { ERROR_CODES } from '../config/api-endpoints'
+import { formatCategoryName } from '../services/catalog'
+import { BusinessLogicError, ValidationError } from '../services/base/errors'
+import type { ProductsService } from '../services/products'
+import { resolveTenantTheme } from '../themes/tenant-theme'
+import type { Theme } from '../themes/themes'
+import type { Product } from '../types/products.types'
+import type { TenantConfig } from '../types/tenant'
+import { getCurrencySettings } from './currency'
+import { calculateItemPricing, formatPrice } from './pricing'
+
+/** Recommended Open Graph image size */
+export const SHARE_CARD_SIZE = { width: 1200, height: 630 }
+
+/** Rendered cards kept in memory across all tenants */
+export const SHARE_CARD_CACHE_LIMIT = 500
+
+export const SHARE_CARD_PATH = '/opengraph-image'
+
+export type ShareCardTarget =
+  | { kind: 'home' }
+  | { kind: 'category'; category: string }
+  | { kind: 'product'; productId: number }
+
+/**
+ * Everything drawn on a card; two equal cards render the same image
+ */
+export interface ShareCard {
+  kind: ShareCardTarget['kind']
+  siteName: string
+  title: string
+  subtitle?: string
+  price?: string
+  originalPrice?: string
+  discountBadge?: string
+  colors: Theme['colors']
+  fonts: Theme['fonts']
+}
+
+export interface ShareCardFont {
+  name: string
+  data: ArrayBuffer
+  weight: 400 | 700
+  style: 'normal'
+}
+
+/**
+ * Fonts for a card; incomplete when the heading or body font failed to load
+ */
+export interface ShareCardFonts {
+  fonts: ShareCardFont[] | undefined
+  complete: boolean
+}
+
+/**
+ * A rendered card; incomplete renders use the renderer's built-in font in
+ * place of a theme font and must not be reused
+ */
+export interface RenderedShareCard {
+  body: ArrayBuffer
+  complete: boolean
+}
+
+/**
+ * Card target from the /opengraph-image query: `?product=12`,
+ * `?category=beauty`, or nothing for the home page
+ */
+export function parseShareCardTarget(
+  searchParams: URLSearchParams,
+): ShareCardTarget {
+  const product = searchParams.get('product')
+  const category = searchParams.get('category')
+
+  if (product !== null) {
+    const productId = Number(product)
+    if (!Number.isInteger(productId) || productId <= 0) {
+      throw new ValidationError('product must be a positive integer', {
+        status: 400,
+      })
+    }
+    return { kind: 'product', productId }
+  }
+
+  if (category) return { kind: 'category', category }
+
+  return { kind: 'home' }
+}
+
+/**
+ * Path of the card for a target, relative to the tenant's origin
+ */
+export function getShareCardPath(target: ShareCardTarget): string {
+  switch (target.kind) {
+    case 'product':
+      return `${SHARE_CARD_PATH}?product=${target.productId}`
+    case 'category':
+      return `${SHARE_CARD_PATH}?category=${encodeURIComponent(target.category)}`
+    default:
+      return SHARE_CARD_PATH
+  }
+}
+
+/**
+ * Cache key for a tenant's card, e.g. `arts-shop:product:12`
+ */
+export function getShareCardCacheKey(
+  tenantId: string,
+  target: ShareCardTarget,
+): string {
+  switch (target.kind) {
+    case 'product':
+      return `${tenantId}:product:${target.productId}`
+    case 'category':
+      return `${tenantId}:category:${target.category}`
+    default:
+      return `${tenantId}:home`
+  }
+}
+
+// Same theme as the tenant's CSS, custom themes included
+function getCardTheme(config: TenantConfig): Theme {
+  return resolveTenantTheme(config.theme)
+}
+
+function createCard(
+  config: TenantConfig,
+  card: Omit<ShareCard, 'siteName' | 'colors' | 'fonts'>,
+): ShareCard {
+  const theme = getCardTheme(config)
+
+  return {
+    ...card,
+    siteName: config.name,
+    colors: theme.colors,
+    fonts: theme.fonts,
+  }
+}
+
+export function buildHomeShareCard(config: TenantConfig): ShareCard {
+  return createCard(config, {
+    kind: 'home',
+    title: config.metadata.title,
+    subtitle: config.metadata.description,
+  })
+}
+
+export function buildCategoryShareCard(
+  config: TenantConfig,
+  category: { slug: string; name?: string },
+  productCount: number,
+): ShareCard {
+  return createCard(config, {
+    kind: 'category',
+    title: category.name || formatCategoryName(category.slug),
+    subtitle: `${productCount} ${productCount === 1 ? 'product' : 'products'}`,
+  })
+}
+
+/**
+ * Product card with the price shoppers pay in the tenant's base currency;
+ * discounted products also show the list price and a badge
+ */
+export function buildProductShareCard(
+  config: TenantConfig,
+  product: Product,
+): ShareCard {
+  const { base } = getCurrencySettings(config.currency)
+  const { unitPrice, discountedUnitPrice } = calculateItemPricing(
+    { ...product, quantity: 1 },
+    base,
+  )
+  const discounted = discountedUnitPrice.amount < unitPrice.amount
+
+  return createCard(config, {
+    kind: 'product',
+    title: product.title,
+    subtitle: product.brand || formatCategoryName(product.category),
+    price: formatPrice(discountedUnitPrice),
+    originalPrice: discounted ? formatPrice(unitPrice) : undefined,
+    discountBadge: discounted
+      ? `-${Math.round(product.discountPercentage)}% OFF`
+      : undefined,
+  })
+}
+
+/**
+ * Card for a target, read from the tenant's catalog
+ * Unknown products and categories are 404s.
+ */
+export async function getShareCard(
+  config: TenantConfig,
+  productsService: ProductsService,
+  target: ShareCardTarget,
+): Promise<ShareCard> {
+  if (target.kind === 'product') {
+    const product = await productsService.getProduct(target.productId)
+    return buildProductShareCard(config, product)
+  }
+
+  if (target.kind === 'category') {
+    const categories = await productsService.getCategories()
+    const category = categories.find(c => c.slug === target.category)
+
+    if (!category) {
+      throw new BusinessLogicError('Category not found', {
+        status: 404,
+        code: ERROR_CODES.NOT_FOUND_ERROR,
+      })
+    }
+
+    const { total } = await productsService.getProductsByCategory(
+      category.slug,
+      { limit: 1 },
+    )
+    return buildCategoryShareCard(config, category, total)
+  }
+
+  return buildHomeShareCard(config)
+}
+
+/**
+ * Fingerprint of what a card shows, used to reuse renders and as the ETag
+ */
+export function getShareCardSignature(card: ShareCard): string {
+  return createHash('sha1').update(JSON.stringify(card)).digest('hex')
+}
+
+interface CachedShareCard {
+  signature: string
+  body: ArrayBuffer
+}
+
+/**
+ * Rendered cards keyed per tenant and target
+ * An entry is only reused while its signature matches, so a price or theme
+ * change renders a fresh card. The least recently used entries are evicted.
+ */
+export class ShareCardCache {
+  private entries = new Map<string, CachedShareCard>()
+
+  constructor(private limit: number = SHARE_CARD_CACHE_LIMIT) {}
+
+  get(key: string, signature: string): ArrayBuffer | undefined {
+    const entry = this.entries.get(key)
+    if (!entry || entry.signature !== signature) return undefined
+
+    // Move to the back so it is evicted last
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.body
+  }
+
+  set(key: string, signature: string, body: ArrayBuffer): void {
+    this.entries.delete(key)
+    this.entries.set(key, { signature, body })
+
+    while (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  /**
+   * Drop one tenant's cards, or every card when no tenant is given
+   * Returns the keys that were dropped
+   */
+  invalidate(tenantId?: string): string[] {
+    const keys = [...this.entries.keys()].filter(
+      key => !tenantId || key.startsWith(`${tenantId}:`),
+    )
+    keys.forEach(key => this.entries.delete(key))
+    return keys
+  }
+}
+
+/** Longest wait for each Google Fonts request, in ms */
+export const SHARE_CARD_FONT_TIMEOUT = 3000
+
+const fontCache = new Map<string, Promise<ArrayBuffer | null>>()
+
+// TrueType file for a Google Font (the CSS API serves TTF to plain fetches).
+// A stalled request times out so the card falls back instead of waiting.
+async function fetchGoogleFont(
+  family: string,
+  weight: number,
+): Promise<ArrayBuffer | null> {
+  const css = await fetch(
+    `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:wght@${weight}`,
+    { signal: AbortSignal.timeout(SHARE_CARD_FONT_TIMEOUT) },
+  ).then(response => (response.ok ? response.text() : ''))
+  const url = /src: url\((.+?)\) format\('(?:opentype|truetype)'\)/.exec(
+    css,
+  )?.[1]
+  if (!url) return null
+
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(SHARE_CARD_FONT_TIMEOUT),
+  })
+  return response.ok ? response.arrayBuffer() : null
+}
+
+function loadFont(family: string, weight: number) {
+  const key = `${family}:${weight}`
+  let font = fontCache.get(key)
+
+  if (!font) {
+    font = fetchGoogleFont(family, weight).catch(error => {
+      console.error(`Failed to load font ${key}:`, error)
+      return null
+    })
+    // Failed loads are retried on the next card
+    font.then(data => data || fontCache.delete(key))
+    fontCache.set(key, font)
+  }
+
+  return font
+}
+
+/**
+ * The theme's heading (bold) and body fonts, the same families the
+ * storefront loads through next/font
+ * `fonts` is undefined when none could be loaded, so the renderer falls
+ * back to its built-in font.
+ */
+export async function loadShareCardFonts(
+  fonts: Theme['fonts'],
+): Promise<ShareCardFonts> {
+  const [heading, body] = await Promise.all([
+    loadFont(fonts.heading, 700),
+    loadFont(fonts.body, 400),
+  ])
+
+  const loaded: ShareCardFont[] = []
+  if (heading) {
+    loaded.push({
+      name: fonts.heading,
+      data: heading,
+      weight: 700,
+      style: 'normal',
+    })
+  }
+  if (body) {
+    loaded.push({ name: fonts.body, data: body, weight: 400, style: 'normal' })
+  }
+
+  return {
+    fonts: loaded.length > 0 ? loaded : undefined,
+    complete: loaded.length === 2,
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Shipping rates
+ * Quotes a tenant's shipping methods for a shipment. Method amounts are
+ * configured in major units of the base currency and quoted as exact Money;
+ * delivery windows count business days.
+ */
+
+import type {
+  TenantShippingConfig,
+  TenantShippingMethod,
+  TenantShippingZone,
+} from '../types/tenant'
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  add,
+  compare,
+  fromMajor,
+  multiply,
+  subtract,
+  zero,
+} from './money'
+import { calculateCartTotals, PricedItem } from './pricing'
+
+export interface ShippableItem extends PricedItem {
+  /** Weight per unit in kg */
+  weight?: number
+  /** Catalog handling note, e.g. "Ships in 1-2 business days" */
+  shippingInformation?: string
+}
+
+/** What shipping is quoted on */
+export interface Shipment {
+  /** Discounted item total, used for free-shipping thresholds */
+  subtotal: Money
+  /** Total weight in kg */
+  weight: number
+  /** Business days before the order leaves the warehouse */
+  handlingDays: number
+}
+
+export interface ShippingSelection {
+  zone?: string
+  method?: string
+}
+
+export interface DeliveryWindow {
+  earliest: Date
+  latest: Date
+}
+
+export interface ShippingQuote {
+  id: string
+  label: string
+  type: TenantShippingMethod['type']
+  amount: Money
+  available: boolean
+  /** Spend still needed to unlock a free method */
+  remaining?: Money
+  /** Business days from order to delivery, including handling */
+  minDays: number
+  maxDays: number
+}
+
+export interface ShippingOptions {
+  zone: string
+  zoneLabel: string
+  countries: string[]
+  quotes: ShippingQuote[]
+  /** The requested method if available, otherwise the cheapest one */
+  selected?: ShippingQuote
+}
+
+// Longest handling time wins; unknown notes add nothing
+const HANDLING_PATTERNS: [RegExp, (value: number) => number][] = [
+  [/overnight/i, () => 1],
+  [/(\d+)\s*month/i, value => value * 20],
+  [/(\d+)\s*week/i, value => value * 5],
+  [/(\d+)\s*(?:business\s+)?day/i, value => value],
+]
+
+/**
+ * Business days of handling from a catalog note such as
+ * "Ships in 3-5 business days" (upper bound) or "Ships in 1 week"
+ */
+export function parseHandlingDays(shippingInformation?: string): number {
+  if (!shippingInformation) return 0
+
+  for (const [pattern, toDays] of HANDLING_PATTERNS) {
+    const match = shippingInformation.match(pattern)
+    if (match) {
+      // Prefer the upper bound of ranges like "1-2 business days"
+      const range = shippingInformation.match(/(\d+)\s*-\s*(\d+)/)
+      return toDays(Number(range?.[2] ?? match[1] ?? 0))
+    }
+  }
+
+  return 0
+}
+
+/**
+ * Shipment details for cart items priced in `currency`
+ */
+export function getShipment(
+  items: ShippableItem[],
+  currency: string = DEFAULT_CURRENCY,
+): Shipment {
+  return {
+    subtotal: calculateCartTotals(items, currency).total,
+    weight: items.reduce(
+      (total, item) => total + (item.weight ?? 0) * item.quantity,
+      0,
+    ),
+    handlingDays: Math.max(
+      0,
+      ...items.map(item => parseHandlingDays(item.shippingInformation)),
+    ),
+  }
+}
+
+/**
+ * Resolve a zone by id, falling back to the tenant's default zone
+ */
+export function getShippingZone(
+  config: TenantShippingConfig,
+  zoneId?: string,
+): { id: string; zone: TenantShippingZone } {
+  const id = zoneId && config.zones[zoneId] ? zoneId : config.defaultZone
+  return { id, zone: config.zones[id] }
+}
+
+/**
+ * Quote a single method for a shipment
+ */
+export function quoteShippingMethod(
+  method: TenantShippingMethod,
+  shipment: Shipment,
+): ShippingQuote {
+  const { currency } = shipment.subtotal
+  const quote = {
+    id: method.id,
+    label: method.label,
+    type: method.type,
+    minDays: shipment.handlingDays + method.delivery.minDays,
+    maxDays: shipment.handlingDays + method.delivery.maxDays,
+  }
+
+  switch (method.type) {
+    case 'flat':
+      return {
+        ...quote,
+        amount: fromMajor(method.amount, currency),
+        available: true,
+      }
+    case 'weight': {
+      // Charge per started kilogram
+      const kilograms = Math.ceil(shipment.weight)
+      return {
+        ...quote,
+        amount: add(
+          fromMajor(method.baseAmount, currency),
+          multiply(fromMajor(method.perKg, currency), kilograms),
+        ),
+        available:
+          method.maxWeight === undefined || shipment.weight <= method.maxWeight,
+      }
+    }
+    case 'free': {
+      const minimum = fromMajor(method.minSubtotal, currency)
+      const available = compare(shipment.subtotal, minimum) >= 0
+      return {
+        ...quote,
+        amount: zero(currency),
+        available,
+        remaining: available ? undefined : subtract(minimum, shipment.subtotal),
+      }
+    }
+  }
+}
+
+/**
+ * Quote every method of a zone and pick the selected one
+ */
+export function getShippingOptions(
+  config: TenantShippingConfig,
+  shipment: Shipment,
+  selection: ShippingSelection = {},
+): ShippingOptions {
+  const { id, zone } = getShippingZone(config, selection.zone)
+  const quotes = zone.methods.map(method =>
+    quoteShippingMethod(method, shipment),
+  )
+  const available = quotes.filter(quote => quote.available)
+
+  return {
+    zone: id,
+    zoneLabel: zone.label,
+    countries: zone.countries,
+    quotes,
+    selected:
+      available.find(quote => quote.id === selection.method) ??
+      [...available].sort((a, b) => compare(a.amount, b.amount))[0],
+  }
+}
+
+/**
+ * Add business days (Mon-Fri) to a date
+ */
+export function addBusinessDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  let remaining = days
+
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1)
+    const weekday = result.getDay()
+    if (weekday !== 0 && weekday !== 6) remaining--
+  }
+
+  return result
+}
+
+/**
+ * Estimated delivery dates for a quote ordered at `from`
+ */
+export function estimateDeliveryWindow(
+  quote: Pick<ShippingQuote, 'minDays' | 'maxDays'>,
+  from: Date = new Date(),
+): DeliveryWindow {
+  return {
+    earliest: addBusinessDays(from, quote.minDays),
+    latest: addBusinessDays(from, quote.maxDays),
+  }
+}
+
+/**
+ * Format a delivery window, e.g. "Tue, Oct 21 – Thu, Oct 23"
+ */
+export function formatDeliveryWindow(
+  window: DeliveryWindow,
+  locale = 'en-US',
+): string {
+  const format = new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
+  const earliest = format.format(window.earliest)
+  const latest = format.format(window.latest)
+
+  return earliest === latest ? earliest : `${earliest} – ${latest}`
+}
@@ -0,0 +1,203 @@
+/**
+ * Sitemap generation
+ * Builds a tenant's sitemap from its catalog: storefront pages, one URL per
+ * category and product (with product images), split into child sitemaps
+ * listed by a sitemap index.
+ */
+
+import type { ProductsService } from '../services/products'
+import type { Product, ProductCategory } from '../types/products.types'
+
+/** Maximum URLs per sitemap file, per the sitemaps.org protocol */
+export const SITEMAP_URL_LIMIT = 50_000
+
+/** Maximum images per URL, per the Google image sitemap extension */
+const SITEMAP_IMAGE_LIMIT = 1_000
+
+// Page size when walking the catalog
+const CATALOG_PAGE_SIZE = 100
+
+export interface SitemapEntry {
+  loc: string
+  lastmod?: string
+  changefreq?: 'daily' | 'weekly' | 'monthly'
+  priority?: number
+  images?: string[]
+}
+
+export interface SitemapReference {
+  loc: string
+  lastmod?: string
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Every product in the catalog, fetched page by page
+ */
+export async function listAllProducts(
+  productsService: ProductsService,
+): Promise<Product[]> {
+  const products: Product[] = []
+
+  for (let skip = 0; ; skip += CATALOG_PAGE_SIZE) {
+    const page = await productsService.getProducts({
+      skip,
+      limit: CATALOG_PAGE_SIZE,
+    })
+    products.push(...page.products)
+
+    if (page.products.length === 0 || products.length >= page.total) {
+      return products
+    }
+  }
+}
+
+// Latest ISO timestamp, or undefined when none are known
+function latest(dates: (string | undefined)[]): string | undefined {
+  let result: string | undefined
+
+  for (const date of dates) {
+    if (date && !Number.isNaN(Date.parse(date))) {
+      if (!result || Date.parse(date) > Date.parse(result)) result = date
+    }
+  }
+
+  return result && new Date(result).toISOString()
+}
+
+/**
+ * Sitemap entries for a catalog, in a stable order
+ * `lastmod` comes from product `meta.updatedAt`; listing pages use the most
+ * recent update among the products they show.
+ */
+export function buildSitemapEntries(
+  baseUrl: string,
+  products: Product[],
+  categories: ProductCategory[],
+): SitemapEntry[] {
+  const base = baseUrl.replace(/\/$/, '')
+  const catalogUpdatedAt = latest(products.map(p => p.meta?.updatedAt))
+
+  const pages: SitemapEntry[] = [
+    { loc: `${base}/`, lastmod: catalogUpdatedAt, priority: 1.0 },
+    {
+      loc: `${base}/products`,
+      lastmod: catalogUpdatedAt,
+      changefreq: 'daily',
+      priority: 0.9,
+    },
+  ]
+
+  const categoryEntries = categories.map(category => ({
+    loc: `${base}/products?category=${encodeURIComponent(category.slug)}`,
+    lastmod: latest(
+      products
+        .filter(product => product.category === category.slug)
+        .map(product => product.meta?.updatedAt),
+    ),
+    changefreq: 'weekly' as const,
+    priority: 0.7,
+  }))
+
+  const productEntries = products.map(product => ({
+    loc: `${base}/products/${product.id}`,
+    lastmod: latest([product.meta?.updatedAt]),
+    changefreq: 'weekly' as const,
+    priority: 0.8,
+    images: product.images.slice(0, SITEMAP_IMAGE_LIMIT),
+  }))
+
+  return [...pages, ...categoryEntries, ...productEntries]
+}
+
+/**
+ * Split entries into sitemap-sized chunks (at least one, possibly empty)
+ */
+export function chunkSitemapEntries(
+  entries: SitemapEntry[],
+  limit: number = SITEMAP_URL_LIMIT,
+): SitemapEntry[][] {
+  const chunks: SitemapEntry[][] = []
+
+  for (let start = 0; start < entries.length; start += limit) {
+    chunks.push(entries.slice(start, start + limit))
+  }
+
+  return chunks.length > 0 ? chunks : [[]]
+}
+
+/**
+ * URL of the nth child sitemap
+ */
+export function getChildSitemapUrl(baseUrl: string, index: number): string {
+  return `${baseUrl.replace(/\/$/, '')}/sitemaps/${index}.xml`
+}
+
+export function renderUrlSet(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => {
+    const lines = [`    <loc>${escapeXml(entry.loc)}</loc>`]
+    if (entry.lastmod) lines.push(`    <lastmod>${entry.lastmod}</lastmod>`)
+    if (entry.changefreq) {
+      lines.push(`    <changefreq>${entry.changefreq}</changefreq>`)
+    }
+    if (entry.priority !== undefined) {
+      lines.push(`    <priority>${entry.priority.toFixed(1)}</priority>`)
+    }
+    for (const image of entry.images ?? []) {
+      lines.push(
+        `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`,
+      )
+    }
+    return `  <url>\n${lines.join('\n')}\n  </url>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+${urls.join('\n')}
+</urlset>`
+}
+
+export function renderSitemapIndex(sitemaps: SitemapReference[]): string {
+  const items = sitemaps.map(sitemap => {
+    const lines = [`    <loc>${escapeXml(sitemap.loc)}</loc>`]
+    if (sitemap.lastmod) lines.push(`    <lastmod>${sitemap.lastmod}</lastmod>`)
+    return `  <sitemap>\n${lines.join('\n')}\n  </sitemap>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${items.join('\n')}
+</sitemapindex>`
+}
+
+/**
+ * A tenant's sitemap: index references plus the entries of each child
+ */
+export async function getCatalogSitemap(
+  productsService: ProductsService,
+  baseUrl: string,
+): Promise<{ index: SitemapReference[]; chunks: SitemapEntry[][] }> {
+  const [products, categories] = await Promise.all([
+    listAllProducts(productsService),
+    productsService.getCategories(),
+  ])
+  const chunks = chunkSitemapEntries(
+    buildSitemapEntries(baseUrl, products, categories),
+  )
+
+  return {
+    index: chunks.map((chunk, index) => ({
+      loc: getChildSitemapUrl(baseUrl, index),
+      lastmod: latest(chunk.map(entry => entry.lastmod)),
+    })),
+    chunks,
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Tax calculation
+ * Applies a tenant's tax rules to priced lines. Tax is computed and rounded
+ * per line, so the breakdown always adds up to the totals shown and charged.
+ */
+
+import type { TenantShippingConfig, TenantTaxConfig } from '../types/tenant'
+import {
+  DEFAULT_CURRENCY,
+  Money,
+  RoundingMode,
+  add,
+  money,
+  roundMinor,
+  subtract,
+  sum,
+} from './money'
+import { getShippingZone } from './shipping'
+
+export interface TaxableLine {
+  id: number
+  category?: string
+  /** Line total after discounts, as priced in the catalog */
+  amount: Money
+}
+
+export interface TaxedLine {
+  id: number
+  category?: string
+  /** Tax rate in percent (0 when exempt) */
+  rate: number
+  exempt: boolean
+  /** Amount before tax */
+  net: Money
+  tax: Money
+  /** Amount including tax */
+  gross: Money
+}
+
+/** Lines sharing a rate, for the summary ("VAT 19%: €3.19") */
+export interface TaxRateSummary {
+  label: string
+  rate: number
+  net: Money
+  tax: Money
+}
+
+export interface TaxBreakdown {
+  pricing: TenantTaxConfig['pricing']
+  region?: string
+  lines: TaxedLine[]
+  rates: TaxRateSummary[]
+  net: Money
+  tax: Money
+  /** What the shopper pays for these lines */
+  gross: Money
+}
+
+export interface TaxOptions {
+  /** Defaults to the tenant's defaultRegion */
+  region?: string
+  currency?: string
+  mode?: RoundingMode
+}
+
+/**
+ * Tax region for deliveries to a shipping zone
+ * Zones without a taxRegion, and tenants without shipping, use the tax
+ * defaultRegion; undefined without a tax config.
+ */
+export function getTaxRegion(
+  tax: TenantTaxConfig | undefined,
+  shipping: TenantShippingConfig | undefined,
+  zoneId?: string,
+): string | undefined {
+  if (!tax) return undefined
+
+  const zone = shipping && getShippingZone(shipping, zoneId).zone
+  return zone?.taxRegion ?? tax.defaultRegion
+}
+
+/**
+ * Tax rate in percent for a category in a region
+ */
+export function getTaxRate(
+  config: TenantTaxConfig,
+  region: string,
+  category?: string,
+): number {
+  if (category && config.exemptCategories?.includes(category)) return 0
+
+  const regionRules =
+    config.regions[region] ?? config.regions[config.defaultRegion]
+  if (!regionRules) return 0
+
+  const categoryRate = category ? regionRules.categories?.[category] : undefined
+  return categoryRate ?? regionRules.rate
+}
+
+function taxLine(
+  line: TaxableLine,
+  rate: number,
+  exempt: boolean,
+  pricing: TenantTaxConfig['pricing'],
+  mode: RoundingMode,
+): TaxedLine {
+  const { amount } = line
+
+  if (pricing === 'inclusive') {
+    // Back the tax out of a gross price: tax = gross - gross / (1 + rate)
+    const net = money(
+      roundMinor((amount.amount * 100) / (100 + rate), mode),
+      amount.currency,
+    )
+    return {
+      id: line.id,
+      category: line.category,
+      rate,
+      exempt,
+      net,
+      tax: subtract(amount, net),
+      gross: amount,
+    }
+  }
+
+  const tax = money(
+    roundMinor((amount.amount * rate) / 100, mode),
+    amount.currency,
+  )
+  return {
+    id: line.id,
+    category: line.category,
+    rate,
+    exempt,
+    net: amount,
+    tax,
+    gross: add(amount, tax),
+  }
+}
+
+/**
+ * Tax breakdown for priced lines under the tenant's rules
+ * Without a tax config every line is untaxed and prices are used as-is.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  config: TenantTaxConfig | undefined,
+  options: TaxOptions = {},
+): TaxBreakdown {
+  const currency =
+    lines[0]?.amount.currency ?? options.currency ?? DEFAULT_CURRENCY
+  const pricing = config?.pricing ?? 'exclusive'
+  const region = config
+    ? options.region && config.regions[options.region]
+      ? options.region
+      : config.defaultRegion
+    : undefined
+  const label = (region && config?.regions[region]?.label) || 'Tax'
+
+  const taxed = lines.map(line => {
+    const exempt = Boolean(
+      line.category && config?.exemptCategories?.includes(line.category),
+    )
+    const rate =
+      config && region ? getTaxRate(config, region, line.category) : 0
+    return taxLine(line, rate, exempt, pricing, options.mode ?? 'half-up')
+  })
+
+  const byRate = new Map<number, TaxedLine[]>()
+  for (const line of taxed) {
+    if (line.rate === 0) continue
+    byRate.set(line.rate, [...(byRate.get(line.rate) ?? []), line])
+  }
+
+  return {
+    pricing,
+    region,
+    lines: taxed,
+    rates: [...byRate]
+      .sort(([a], [b]) => b - a)
+      .map(([rate, group]) => ({
+        label,
+        rate,
+        net: sum(
+          group.map(line => line.net),
+          currency,
+        ),
+        tax: sum(
+          group.map(line => line.tax),
+          currency,
+        ),
+      })),
+    net: sum(
+      taxed.map(line => line.net),
+      currency,
+    ),
+    tax: sum(
+      taxed.map(line => line.tax),
+      currency,
+    ),
+    gross: sum(
+      taxed.map(line => line.gross),
+      currency,
+    ),
+  }
+}
+
+/**
+ * Format a rate for labels, e.g. 19 -> "19%", 7.25 -> "7.25%"
+ */
+export function formatTaxRate(rate: number): string {
+  return `${Number(rate.toFixed(3))}%`
+}
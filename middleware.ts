@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
+import tenantRegistry from './config/tenants.json'
 import { DEFAULT_DEV_TENANT_ID } from './constants/development'
+import { TENANT_ID_HEADER } from './lib/services/base/tenant-context'
 import {
-  createTenantContext,
-  setGlobalTenantContext,
-} from './lib/services/base/tenant-context'
+  buildTenantDomainIndex,
+  resolveTenantFromHost,
+} from './lib/tenant-domains'
 
 // Configuration
 const rootDomain = process.env.NEXT_PUBLIC_ROOT_DOMAIN || 'aetheraiapp.com'
 
+// Custom domain lookup, built once per middleware instance
+const tenantDomainIndex = buildTenantDomainIndex(tenantRegistry.tenants)
+
 /**
  * Enhanced subdomain extraction with support for multiple environments
  * Based on Vercel Platforms implementation adapted for our architecture
@@ -86,17 +91,36 @@ export function middleware(request: NextRequest) {
     url: request.url,
   })
 
+  // Custom domains mapped in config/tenants.json take precedence
+  const domainMatch = resolveTenantFromHost(
+    request.headers.get('host') || '',
+    tenantDomainIndex,
+  )
+
+  // Send alias hosts (e.g. www.) to the tenant's primary domain
+  if (domainMatch?.shouldRedirect) {
+    const redirectUrl = request.nextUrl.clone()
+    redirectUrl.protocol = 'https'
+    redirectUrl.host = domainMatch.primaryDomain
+    redirectUrl.port = ''
+    console.log(
+      `Redirecting ${domainMatch.host} to primary domain ${domainMatch.primaryDomain}`,
+    )
+    return NextResponse.redirect(redirectUrl, 308)
+  }
+
   // Extract tenant from subdomain
-  const subdomain = extractSubdomain(request)
+  const subdomain = domainMatch ? null : extractSubdomain(request)
 
   // Fallback: Check query parameter for testing/development
   const queryTenant = searchParams.get('tenant')
 
-  // Use subdomain first, then query parameter as fallback
-  const rawTenantId = subdomain || queryTenant
+  // Use custom domain, then subdomain, then query parameter as fallback
+  const rawTenantId = domainMatch?.tenantId || subdomain || queryTenant
   const tenantId = validateTenantId(rawTenantId)
 
   console.log('🔍 Tenant Extraction:', {
+    customDomain: domainMatch?.host,
     subdomain,
     queryTenant,
     rawTenantId,
@@ -115,60 +139,52 @@ export function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/', request.url))
   }
 
-  // Create response and add tenant header for server components
-  const response = NextResponse.next()
-
-  // Set global tenant context for API calls (always set, even if no tenant)
   const host = request.headers.get('host')
-  if (host) {
-    const tenantContext = createTenantContext(host)
-    // Override tenant ID with the validated one from subdomain extraction
-    if (tenantId) {
-      tenantContext.tenantId = tenantId
-    }
-    setGlobalTenantContext(tenantContext)
-
-    // Enhanced debug logging for tenant context (both dev and production)
-    console.log('🔍 MIDDLEWARE SETTING TENANT CONTEXT:', {
-      host,
-      extractedTenantId: tenantId,
-      finalTenantContext: tenantContext,
-    })
-  }
 
   // Development fallback: Add default tenant for localhost without subdomain
-  if (
+  const useDevelopmentFallback =
     process.env.NODE_ENV === 'development' &&
     !tenantId &&
-    host?.includes('localhost')
-  ) {
-    const developmentTenantId = DEFAULT_DEV_TENANT_ID
-    response.headers.set('x-tenant-id', developmentTenantId)
-    response.headers.set('x-tenant-source', 'development-fallback')
-
-    // Also set the tenant context for API calls
-    if (host) {
-      const devTenantContext = {
-        tenantId: developmentTenantId,
-        host,
-        environment: 'development' as const,
-      }
-      setGlobalTenantContext(devTenantContext)
-    }
+    !!host?.includes('localhost')
+
+  const resolvedTenantId = useDevelopmentFallback
+    ? DEFAULT_DEV_TENANT_ID
+    : tenantId
+  const tenantSource = useDevelopmentFallback
+    ? 'development-fallback'
+    : domainMatch
+      ? 'domain'
+      : subdomain
+        ? 'subdomain'
+        : 'query'
+
+  // Forward the tenant to server components and route handlers as request
+  // headers; they are per request, unlike module state. Client-supplied
+  // values are always replaced so the tenant cannot be spoofed.
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.delete(TENANT_ID_HEADER)
+  requestHeaders.delete('x-tenant-source')
+
+  if (resolvedTenantId) {
+    requestHeaders.set(TENANT_ID_HEADER, resolvedTenantId)
+    requestHeaders.set('x-tenant-source', tenantSource)
+  }
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } })
 
+  if (useDevelopmentFallback) {
     console.log(
-      `Development fallback: Using tenant ${developmentTenantId} for ${host}`,
+      `Development fallback: Using tenant ${resolvedTenantId} for ${host}`,
     )
   }
 
-  if (tenantId) {
-    response.headers.set('x-tenant-id', tenantId)
-
-    // Add additional headers for debugging and analytics
-    response.headers.set('x-tenant-source', subdomain ? 'subdomain' : 'query')
+  if (resolvedTenantId) {
+    // Mirror on the response for debugging and analytics
+    response.headers.set(TENANT_ID_HEADER, resolvedTenantId)
+    response.headers.set('x-tenant-source', tenantSource)
 
     // Enhanced tenant access logging (both dev and production)
-    console.log(`Tenant access: ${tenantId} -> ${pathname}`)
+    console.log(`Tenant access: ${resolvedTenantId} -> ${pathname}`)
   }
 
   console.log('🔍 MIDDLEWARE EXECUTION END 🔍')
@@ -0,0 +1,44 @@
+/**
+ * Require lib/*.ts from plain Node scripts without a build step
+ * Transpiles lib modules on require so scripts run the exact same code as
+ * the app. Only relative imports inside lib/ are supported.
+ */
+
+const fs = require('fs')
+const path = require('path')
+
+const libDir = path.join(__dirname, '../lib')
+let registered = false
+
+function registerTypeScript() {
+  if (registered) return
+  registered = true
+
+  const ts = require('typescript')
+
+  require.extensions['.ts'] = (module, filename) => {
+    if (!filename.startsWith(libDir)) {
+      throw new Error(`Refusing to transpile outside lib: ${filename}`)
+    }
+    const source = fs.readFileSync(filename, 'utf8')
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2019,
+        esModuleInterop: true,
+      },
+      fileName: filename,
+    })
+    module._compile(outputText, filename)
+  }
+}
+
+/**
+ * Require a lib module by its path inside lib, e.g. `utils/pricing.ts`
+ */
+function requireLib(modulePath) {
+  registerTypeScript()
+  return require(path.join(libDir, modulePath))
+}
+
+module.exports = { requireLib }
@@ -2,9 +2,16 @@
 
 /**
  * Test script to verify pricing calculations
- * This script tests the pricing utility functions with manual calculations
+ * Runs the app's pricing engine (lib/utils/pricing, integer cents) on the
+ * sample cart and checks the totals to the cent
  */
 
+const { requireLib } = require('./require-lib')
+
+const { calculateCartTotals, calculateItemPricing, formatPrice } =
+  requireLib('utils/pricing.ts')
+const { multiply } = requireLib('utils/money.ts')
+
 console.log('🧮 Testing Pricing Calculations...\n')
 
 // Test data based on the cart image
@@ -32,119 +39,58 @@ testItems.forEach(item => {
   )
 })
 
-// Manual calculation functions
-function formatPrice(amount) {
-  return `$${amount.toFixed(2)}`
-}
-
-function calculateDiscountedPrice(originalPrice, discountPercentage) {
-  if (discountPercentage <= 0) return originalPrice
-  if (discountPercentage >= 100) return 0
-  return originalPrice - (originalPrice * discountPercentage) / 100
-}
-
-function calculateItemTotal(price, quantity, discountPercentage) {
-  const unitPrice = discountPercentage
-    ? calculateDiscountedPrice(price, discountPercentage)
-    : price
-  return unitPrice * quantity
-}
-
-function calculateTotalSavings(items) {
-  return items.reduce((totalSavings, item) => {
-    if (item.discountPercentage && item.discountPercentage > 0) {
-      const originalTotal = item.price * item.quantity
-      const discountedTotal = calculateItemTotal(
-        item.price,
-        item.quantity,
-        item.discountPercentage,
-      )
-      return totalSavings + (originalTotal - discountedTotal)
-    }
-    return totalSavings
-  }, 0)
-}
-
-function calculateSubtotal(items) {
-  return items.reduce((subtotal, item) => {
-    return subtotal + item.price * item.quantity
-  }, 0)
-}
-
-function calculateFinalTotal(subtotal, discounts = 0, shipping = 0) {
-  return subtotal - discounts + shipping
-}
-
 console.log('\n🧮 Individual Item Calculations:')
 
 testItems.forEach(item => {
-  const discountedPrice = calculateDiscountedPrice(
-    item.price,
-    item.discountPercentage,
-  )
-  const itemTotal = calculateItemTotal(
-    item.price,
-    item.quantity,
-    item.discountPercentage,
-  )
-  const originalTotal = item.price * item.quantity
-  const savings = originalTotal - itemTotal
+  const pricing = calculateItemPricing(item)
 
   console.log(`\n${item.title}:`)
-  console.log(`  Original Price: ${formatPrice(item.price)}`)
-  console.log(`  Discounted Price: ${formatPrice(discountedPrice)}`)
+  console.log(`  Original Price: ${formatPrice(pricing.unitPrice)}`)
+  console.log(`  Discounted Price: ${formatPrice(pricing.discountedUnitPrice)}`)
   console.log(`  Quantity: ${item.quantity}`)
-  console.log(`  Item Total: ${formatPrice(itemTotal)}`)
-  console.log(`  Savings: ${formatPrice(savings)}`)
+  console.log(
+    `  Original Total: ${formatPrice(multiply(pricing.unitPrice, item.quantity))}`,
+  )
+  console.log(`  Item Total: ${formatPrice(pricing.total)}`)
+  console.log(`  Savings: ${formatPrice(pricing.savings)}`)
 })
 
 console.log('\n🧮 Overall Cart Calculations:')
 
-const subtotal = calculateSubtotal(testItems)
-const totalSavings = calculateTotalSavings(testItems)
-const finalTotal = calculateFinalTotal(subtotal, totalSavings)
+const { subtotal, savings, total } = calculateCartTotals(testItems)
 
 console.log(`📊 Subtotal: ${formatPrice(subtotal)}`)
-console.log(`💰 Total Savings: ${formatPrice(totalSavings)}`)
-console.log(`🎯 Final Total: ${formatPrice(finalTotal)}`)
+console.log(`💰 Total Savings: ${formatPrice(savings)}`)
+console.log(`🎯 Final Total: ${formatPrice(total)}`)
+
+// Discounts apply per unit and round to the cent before multiplying:
+// $27,845.79 x 8 + $87.92 x 2
+const expected = {
+  subtotal: 2899999 * 8 + 9999 * 2,
+  savings: 2899999 * 8 + 9999 * 2 - (2784579 * 8 + 8792 * 2),
+  total: 2784579 * 8 + 8792 * 2,
+}
 
-console.log('\n📋 Expected Results (CORRECTED):')
-console.log('Items (10): $232199.90 (Original subtotal before discounts)')
-console.log('Discount: -$9257.73 (Total savings)')
-console.log('Total: $222942.17 (Final amount after discounts)')
+console.log('\n🔍 Calculation Verification (in cents):')
 
-console.log('\n🔍 Calculation Verification:')
-// Correct expected values
-const expectedOriginalSubtotal = 232199.9
-const expectedSavings = 9257.73
-const expectedFinalTotal = 222942.17
+const checks = [
+  ['Original Subtotal', subtotal, expected.subtotal],
+  ['Savings', savings, expected.savings],
+  ['Final Total', total, expected.total],
+]
 
-const originalSubtotalMatch =
-  Math.abs(subtotal - expectedOriginalSubtotal) < 0.01
-const savingsMatch = Math.abs(totalSavings - expectedSavings) < 0.01
-const finalTotalMatch = Math.abs(finalTotal - expectedFinalTotal) < 0.01
+checks.forEach(([label, actual, cents]) => {
+  console.log(
+    `${label} Match: ${actual.amount === cents ? '✅' : '❌'} (Expected: ${cents}, Actual: ${actual.amount})`,
+  )
+})
 
-console.log(
-  `Original Subtotal Match: ${originalSubtotalMatch ? '✅' : '❌'} (Expected: ${expectedOriginalSubtotal}, Actual: ${subtotal})`,
-)
-console.log(
-  `Savings Match: ${savingsMatch ? '✅' : '❌'} (Expected: ${expectedSavings}, Actual: ${totalSavings})`,
-)
-console.log(
-  `Final Total Match: ${finalTotalMatch ? '✅' : '❌'} (Expected: ${expectedFinalTotal}, Actual: ${finalTotal})`,
-)
+const allMatch = checks.every(([, actual, cents]) => actual.amount === cents)
 
-console.log(`\n📊 Calculation Breakdown:`)
-console.log(`Original Subtotal: ${formatPrice(subtotal)}`)
-console.log(`Total Discounts: -${formatPrice(totalSavings)}`)
-console.log(`Final Total: ${formatPrice(finalTotal)}`)
 console.log(
-  `Math Check: ${formatPrice(subtotal)} - ${formatPrice(totalSavings)} = ${formatPrice(subtotal - totalSavings)}`,
+  allMatch
+    ? '\n✅ All pricing calculations are working correctly!'
+    : '\n❌ Pricing calculations do not match the expected totals',
 )
 
-if (originalSubtotalMatch && savingsMatch && finalTotalMatch) {
-  console.log('\n🎉 All pricing calculations are working correctly!')
-} else {
-  console.log('\n⚠️  Pricing calculation mismatch detected!')
-  process.exit(1)
-}
+process.exit(allMatch ? 0 : 1)
@@ -7,6 +7,7 @@
 
 const fs = require('fs')
 const path = require('path')
+const { requireLib } = require('./require-lib')
 
 // Colors for console output
 const colors = {
@@ -21,110 +22,91 @@ function log(message, color = colors.reset) {
   console.log(`${color}${message}${colors.reset}`)
 }
 
+/**
+ * Load shared tenant modules (TypeScript) without a build step
+ * so the CLI validates with the exact same rules as the runtime loader and
+ * middleware
+ */
+function loadTenantModules() {
+  return {
+    ...requireLib('schemas/tenant.schema.ts'),
+    ...requireLib('tenant-domains.ts'),
+  }
+}
+
+const {
+  parseTenantConfig,
+  parseTenantRegistry,
+  buildTenantDomainIndex,
+  resolveTenantFromHost,
+} = loadTenantModules()
+
+let exchangeRates
+
+function loadExchangeRates() {
+  if (exchangeRates === undefined) {
+    const ratesFile = path.join(process.cwd(), 'config', 'exchange-rates.json')
+    exchangeRates = fs.existsSync(ratesFile)
+      ? JSON.parse(fs.readFileSync(ratesFile, 'utf8'))
+      : null
+  }
+  return exchangeRates
+}
+
 function validateTenantConfig(config, tenantId) {
-  const errors = []
+  const { errors } = parseTenantConfig(config)
   const warnings = []
 
-  // Required fields validation
-  if (!config.id) errors.push('Missing required field: id')
-  if (!config.name) errors.push('Missing required field: name')
-  if (!config.theme) errors.push('Missing required field: theme')
-  if (!config.content) errors.push('Missing required field: content')
-  if (!config.metadata) errors.push('Missing required field: metadata')
-
-  // Theme validation
-  if (config.theme) {
-    const requiredThemeFields = ['primary', 'secondary', 'background', 'text']
-    requiredThemeFields.forEach(field => {
-      if (!config.theme[field]) {
-        errors.push(`Missing required theme field: ${field}`)
-      } else if (!/^#[0-9a-fA-F]{6}$/.test(config.theme[field])) {
-        warnings.push(
-          `Invalid color format for theme.${field}: ${config.theme[field]}`,
-        )
+  // Legacy theme object: warn on non-hex colors
+  if (config.theme && typeof config.theme === 'object') {
+    const themeFields = ['primary', 'secondary', 'background', 'text']
+    themeFields.forEach(field => {
+      const value = config.theme[field]
+      if (value && !/^#[0-9a-fA-F]{6}$/.test(value)) {
+        warnings.push(`Invalid color format for theme.${field}: ${value}`)
       }
     })
   }
 
-  // Content validation
-  if (config.content) {
-    if (!config.content.hero)
-      errors.push('Missing required field: content.hero')
-    if (!config.content.about)
-      errors.push('Missing required field: content.about')
-    if (!config.content.contact)
-      warnings.push('Missing optional field: content.contact')
-
-    if (config.content.hero) {
-      if (!config.content.hero.headline)
-        errors.push('Missing required field: content.hero.headline')
-      if (!config.content.hero.description)
-        errors.push('Missing required field: content.hero.description')
+  if (config.content && !config.content.contact) {
+    warnings.push('Missing optional field: content.contact')
+  }
+
+  const seo = config.metadata && config.metadata.seo
+  if (seo) {
+    if (
+      seo.openGraph &&
+      seo.openGraph.type &&
+      !['website', 'article', 'profile'].includes(seo.openGraph.type)
+    ) {
+      warnings.push(
+        `Open Graph type "${seo.openGraph.type}" may not be optimal for car rental sites`,
+      )
     }
 
-    if (config.content.about) {
-      if (!config.content.about.title)
-        errors.push('Missing required field: content.about.title')
-      if (!config.content.about.content)
-        errors.push('Missing required field: content.about.content')
+    if (
+      seo.twitter &&
+      seo.twitter.card &&
+      !['summary', 'summary_large_image'].includes(seo.twitter.card)
+    ) {
+      warnings.push(
+        `Twitter card type "${seo.twitter.card}" may not be optimal`,
+      )
     }
   }
 
-  // Metadata validation
-  if (config.metadata) {
-    if (!config.metadata.title)
-      errors.push('Missing required field: metadata.title')
-    if (!config.metadata.description)
-      errors.push('Missing required field: metadata.description')
-
-    // SEO validation
-    if (config.metadata.seo) {
-      const seo = config.metadata.seo
-
-      // Keywords validation
-      if (seo.keywords && !Array.isArray(seo.keywords)) {
-        errors.push('SEO keywords must be an array')
-      }
-
-      // Favicon validation
-      if (seo.favicon && typeof seo.favicon !== 'string') {
-        errors.push('SEO favicon must be a string path')
-      }
-
-      // Open Graph validation
-      if (seo.openGraph) {
-        if (seo.openGraph.image && typeof seo.openGraph.image !== 'string') {
-          errors.push('Open Graph image must be a string URL')
-        }
-        if (
-          seo.openGraph.type &&
-          !['website', 'article', 'profile'].includes(seo.openGraph.type)
-        ) {
-          warnings.push(
-            `Open Graph type "${seo.openGraph.type}" may not be optimal for car rental sites`,
-          )
-        }
-      }
-
-      // Twitter validation
-      if (seo.twitter) {
-        if (
-          seo.twitter.card &&
-          !['summary', 'summary_large_image'].includes(seo.twitter.card)
-        ) {
-          warnings.push(
-            `Twitter card type "${seo.twitter.card}" may not be optimal`,
-          )
-        }
-      }
-
-      // Canonical base validation
-      if (seo.canonicalBase && !seo.canonicalBase.startsWith('http')) {
-        errors.push(
-          'Canonical base must be a full URL starting with http/https',
-        )
-      }
-    }
+  // Display currencies without a rate are hidden from shoppers
+  if (config.currency) {
+    const rates = loadExchangeRates()
+    const currencies = [
+      config.currency.base,
+      ...(config.currency.display || []),
+    ]
+    currencies
+      .filter(code => rates && code !== rates.base && !rates.rates[code])
+      .forEach(code =>
+        warnings.push(`No exchange rate for ${code} in exchange-rates.json`),
+      )
   }
 
   // ID consistency check
@@ -163,6 +145,13 @@ function testTenantConfigurations() {
     const tenantsConfig = JSON.parse(fs.readFileSync(tenantsFile, 'utf8'))
     log('✅ Main tenants.json loaded successfully', colors.green)
 
+    const registryResult = parseTenantRegistry(tenantsConfig)
+    if (!registryResult.success) {
+      log('❌ tenants.json has errors:', colors.red)
+      registryResult.errors.forEach(error => log(`    • ${error}`, colors.red))
+      allValid = false
+    }
+
     // Test default configuration
     const defaultConfigFile = path.join(tenantsDir, tenantsConfig.default)
     if (fs.existsSync(defaultConfigFile)) {
@@ -236,7 +225,16 @@ function testTenantConfigurations() {
         }
 
         // Test theme colors
-        if (config.theme) {
+        if (typeof config.theme === 'string') {
+          log(`  🎨 Theme: ${config.theme}`, colors.blue)
+        } else if (config.theme && config.theme.colors) {
+          log(
+            `  🎨 Custom theme: ${config.theme.name || 'Custom'}`,
+            colors.blue,
+          )
+          log(`    Primary: ${config.theme.colors.primary}`, colors.reset)
+          log(`    Foreground: ${config.theme.colors.foreground}`, colors.reset)
+        } else if (config.theme) {
           log(`  🎨 Theme colors:`, colors.blue)
           log(`    Primary: ${config.theme.primary}`, colors.reset)
           log(`    Secondary: ${config.theme.secondary}`, colors.reset)
@@ -277,24 +275,30 @@ function testHostnameExtraction() {
     { hostname: 'abc-rentals.yourdomain.com', expected: 'abc-rentals' },
     { hostname: 'unknown-tenant.localhost:3000', expected: 'default' },
     { hostname: '', expected: 'default' },
+    { hostname: 'arts-shop.vercel.app', expected: 'arts-shop' },
+    { hostname: 'www.arts-shop.vercel.app', expected: 'arts-shop' },
+    { hostname: 'ARTS-SHOP.vercel.app:443', expected: 'arts-shop' },
   ]
 
+  const tenantsConfig = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), 'config', 'tenants.json'), 'utf8'),
+  )
+  const domainIndex = buildTenantDomainIndex(tenantsConfig.tenants)
+
   // Simple hostname extraction logic (matches the middleware logic)
   function extractTenantFromHostname(hostname) {
     if (!hostname) return 'default'
 
+    // Custom domains take precedence over subdomains
+    const domainMatch = resolveTenantFromHost(hostname, domainIndex)
+    if (domainMatch) return domainMatch.tenantId
+
     const parts = hostname.split('.')
     if (parts.length < 2) return 'default'
 
     const subdomain = parts[0]
 
     // Check if subdomain is a known tenant
-    const tenantsConfig = JSON.parse(
-      fs.readFileSync(
-        path.join(process.cwd(), 'config', 'tenants.json'),
-        'utf8',
-      ),
-    )
     if (tenantsConfig.tenants[subdomain]) {
       return subdomain
     }